@@ -5,7 +5,6 @@
 CREATE TABLE IF NOT EXISTS doctors (
     id UUID PRIMARY KEY,
     name TEXT NOT NULL,
-    specialization TEXT NOT NULL,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
@@ -20,16 +19,101 @@ CREATE TABLE IF NOT EXISTS slots (
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
--- Create bookings table with status enum via CHECK constraint
+-- Create bookings table
 CREATE TABLE IF NOT EXISTS bookings (
     id UUID PRIMARY KEY,
     slot_id UUID NOT NULL REFERENCES slots(id) ON DELETE CASCADE,
     user_name TEXT NOT NULL,
-    status TEXT NOT NULL CHECK (status IN ('PENDING', 'CONFIRMED', 'FAILED')),
+    status TEXT NOT NULL,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Allowed booking statuses (kept separate so upgrades can replace it)
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check
+    CHECK (status IN (
+        'PENDING', 'CONFIRMED', 'FAILED', 'CANCELLED', 'CANCELLED_BY_CLINIC',
+        'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW'
+    ));
+
+-- Cancellation details
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_by TEXT
+    CHECK (cancelled_by IN ('PATIENT', 'STAFF', 'SYSTEM'));
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_by_user_id UUID;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+-- Attendance: when the patient arrived, was seen, finished or did not show
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMPTZ;
+
+-- Why the patient is coming, and their answers to the intake questions
+-- (a snapshot of each question is kept with its answer)
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS visit_reason TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS intake_answers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Seat holds: PENDING bookings reserve a seat until this time
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMPTZ;
+
+-- Exact appointment time inside the slot (one per seat)
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS appointment_start TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS appointment_end TIMESTAMPTZ;
+
+-- Patient identity used to detect duplicate and overlapping bookings
+-- (lower-cased email; null for bookings made before it was collected)
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS patient_email TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_patient_email
+    ON bookings (patient_email)
+    WHERE patient_email IS NOT NULL;
+
+-- Bookings made together for several attendees share a group id
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS booking_group_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_booking_group_id
+    ON bookings (booking_group_id)
+    WHERE booking_group_id IS NOT NULL;
+
+-- Short reference code patients can read out over the phone (MDX-XXXXX,
+-- without look-alike characters such as 0/O and 1/I/L)
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS reference_code TEXT;
+
+-- Give bookings made before reference codes existed a unique code
+DO $$
+DECLARE
+    booking_row RECORD;
+    candidate TEXT;
+BEGIN
+    FOR booking_row IN SELECT id FROM bookings WHERE reference_code IS NULL LOOP
+        LOOP
+            SELECT 'MDX-' || string_agg(
+                substr('23456789ABCDEFGHJKMNPQRSTUVWXYZ', 1 + floor(random() * 31)::int, 1),
+                ''
+            )
+            INTO candidate
+            FROM generate_series(1, 5);
+            EXIT WHEN NOT EXISTS (SELECT 1 FROM bookings WHERE reference_code = candidate);
+        END LOOP;
+        UPDATE bookings SET reference_code = candidate WHERE id = booking_row.id;
+    END LOOP;
+END $$;
+
+ALTER TABLE bookings ALTER COLUMN reference_code SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_reference_code
+    ON bookings (reference_code);
+
+-- Who created the booking; staff bookings record the staff user
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS created_by TEXT NOT NULL DEFAULT 'PATIENT'
+    CHECK (created_by IN ('PATIENT', 'STAFF', 'SYSTEM'));
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS created_by_user_id UUID;
+
+-- Set when staff booked past the slot's capacity, with their reason
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS overbook_reason TEXT;
+
 -- Index for efficient booking queries
 CREATE INDEX IF NOT EXISTS idx_bookings_slot_status
     ON bookings (slot_id, status);
@@ -38,6 +122,409 @@ CREATE INDEX IF NOT EXISTS idx_bookings_slot_status
 CREATE INDEX IF NOT EXISTS idx_slots_active_start_time
     ON slots (is_active, start_time);
 
+-- Doctors removed while slots with bookings still point at them are kept,
+-- hidden from lists, so those bookings stay readable
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
 -- Index for querying doctor slots
 CREATE INDEX IF NOT EXISTS idx_slots_doctor_id
     ON slots (doctor_id);
+
+-- History of booking moves between slots (append-only)
+CREATE TABLE IF NOT EXISTS booking_reschedules (
+    id UUID PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    from_slot_id UUID REFERENCES slots(id) ON DELETE SET NULL,
+    to_slot_id UUID REFERENCES slots(id) ON DELETE SET NULL,
+    moved_by TEXT NOT NULL CHECK (moved_by IN ('PATIENT', 'STAFF', 'SYSTEM')),
+    moved_by_user_id UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reschedules_booking
+    ON booking_reschedules (booking_id, created_at);
+
+-- Staff accounts. Doctor accounts are linked to their doctor record.
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('admin', 'receptionist', 'doctor')),
+    doctor_id UUID REFERENCES doctors(id) ON DELETE CASCADE,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK ((role = 'doctor') = (doctor_id IS NOT NULL))
+);
+
+-- Patients queued for full slots. Lower position is served first.
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id UUID PRIMARY KEY,
+    slot_id UUID NOT NULL REFERENCES slots(id) ON DELETE CASCADE,
+    user_name TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('WAITING', 'PROMOTED', 'LEFT')),
+    position INTEGER NOT NULL,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    promoted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_slot_status
+    ON waitlist_entries (slot_id, status, position);
+
+ALTER TABLE waitlist_entries ADD COLUMN IF NOT EXISTS patient_email TEXT;
+
+-- Idempotency keys for POST /api/bookings: the first response is replayed
+-- for retries with the same key and request body.
+CREATE TABLE IF NOT EXISTS booking_idempotency_keys (
+    key TEXT PRIMARY KEY,
+    request_hash TEXT NOT NULL,
+    response_body JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Catalogue of specializations with URL-safe slugs. A doctor may have
+-- several; the lowest position is shown first
+CREATE TABLE IF NOT EXISTS specializations (
+    id UUID PRIMARY KEY,
+    name TEXT NOT NULL,
+    slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS doctor_specializations (
+    doctor_id UUID NOT NULL REFERENCES doctors(id) ON DELETE CASCADE,
+    specialization_id UUID NOT NULL REFERENCES specializations(id),
+    position SMALLINT NOT NULL DEFAULT 0,
+    PRIMARY KEY (doctor_id, specialization_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_doctor_specializations_specialization
+    ON doctor_specializations (specialization_id);
+
+-- Intake questions asked when booking, set either for one doctor or for
+-- every doctor of a specialization
+CREATE TABLE IF NOT EXISTS intake_questions (
+    id UUID PRIMARY KEY,
+    doctor_id UUID REFERENCES doctors(id) ON DELETE CASCADE,
+    specialization_id UUID REFERENCES specializations(id) ON DELETE CASCADE,
+    prompt TEXT NOT NULL,
+    question_type TEXT NOT NULL
+        CHECK (question_type IN ('TEXT', 'CHOICE', 'YES_NO', 'DATE')),
+    options JSONB NOT NULL DEFAULT '[]'::jsonb,
+    required BOOLEAN NOT NULL DEFAULT FALSE,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT intake_questions_target_check
+        CHECK ((doctor_id IS NULL) <> (specialization_id IS NULL))
+);
+
+-- Upgrades databases that still have free-text specializations on doctors
+-- or intake questions. They become catalogue entries, one per slug, so
+-- "Cardiology" and "cardiology" are merged. Each entry is named after its
+-- most used spelling. Intake questions with a blank specialization matched
+-- no doctor and are dropped
+DO $$
+DECLARE
+    legacy_doctors BOOLEAN := EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'doctors' AND column_name = 'specialization'
+    );
+    legacy_questions BOOLEAN := EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'intake_questions' AND column_name = 'specialization'
+    );
+BEGIN
+    IF NOT legacy_doctors AND NOT legacy_questions THEN
+        RETURN;
+    END IF;
+
+    CREATE TEMP TABLE legacy_specializations (
+        source TEXT NOT NULL,
+        source_id UUID NOT NULL,
+        name TEXT NOT NULL,
+        slug TEXT
+    );
+
+    IF legacy_doctors THEN
+        INSERT INTO legacy_specializations (source, source_id, name)
+        SELECT 'doctor', id, trim(specialization) FROM doctors;
+    END IF;
+
+    IF legacy_questions THEN
+        ALTER TABLE intake_questions ADD COLUMN IF NOT EXISTS specialization_id UUID
+            REFERENCES specializations(id) ON DELETE CASCADE;
+
+        INSERT INTO legacy_specializations (source, source_id, name)
+        SELECT 'question', id, trim(specialization)
+        FROM intake_questions
+        WHERE specialization IS NOT NULL;
+    END IF;
+
+    DELETE FROM legacy_specializations WHERE name = '';
+
+    UPDATE legacy_specializations
+    SET slug = COALESCE(
+        NULLIF(trim(BOTH '-' FROM regexp_replace(
+            translate(lower(name), 'àáâãäåçèéêëìíîïñòóôõöøùúûüýÿ', 'aaaaaaceeeeiiiinoooooouuuuyy'),
+            '[^a-z0-9]+', '-', 'g'
+        )), ''),
+        'specialization-' || left(md5(name), 8)
+    );
+
+    INSERT INTO specializations (id, name, slug)
+    SELECT DISTINCT ON (slug) md5('specialization:' || slug)::uuid, name, slug
+    FROM (
+        SELECT slug, name, COUNT(*) AS uses
+        FROM legacy_specializations
+        GROUP BY slug, name
+    ) spellings
+    ORDER BY slug, uses DESC, name
+    ON CONFLICT (slug) DO NOTHING;
+
+    IF legacy_doctors THEN
+        INSERT INTO doctor_specializations (doctor_id, specialization_id)
+        SELECT l.source_id, sp.id
+        FROM legacy_specializations l
+        INNER JOIN specializations sp ON sp.slug = l.slug
+        WHERE l.source = 'doctor'
+        ON CONFLICT DO NOTHING;
+
+        ALTER TABLE doctors DROP COLUMN specialization;
+    END IF;
+
+    IF legacy_questions THEN
+        UPDATE intake_questions q
+        SET specialization_id = sp.id
+        FROM legacy_specializations l
+        INNER JOIN specializations sp ON sp.slug = l.slug
+        WHERE l.source = 'question' AND l.source_id = q.id;
+
+        DELETE FROM intake_questions WHERE doctor_id IS NULL AND specialization_id IS NULL;
+
+        ALTER TABLE intake_questions DROP COLUMN specialization;
+        ALTER TABLE intake_questions ADD CONSTRAINT intake_questions_target_check
+            CHECK ((doctor_id IS NULL) <> (specialization_id IS NULL));
+    END IF;
+
+    DROP TABLE legacy_specializations;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_intake_questions_doctor
+    ON intake_questions (doctor_id);
+
+CREATE INDEX IF NOT EXISTS idx_intake_questions_specialization
+    ON intake_questions (specialization_id);
+
+-- Patients, identified by their lower-cased email. Bookings keep the name
+-- given at booking time and point at the patient record.
+CREATE TABLE IF NOT EXISTS patients (
+    id UUID PRIMARY KEY,
+    full_name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT,
+    date_of_birth DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_patients_email
+    ON patients (email);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS patient_id UUID
+    REFERENCES patients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_patient_id
+    ON bookings (patient_id)
+    WHERE patient_id IS NOT NULL;
+
+-- Create patient records for bookings made before patients existed, named
+-- after each patient's latest booking.
+INSERT INTO patients (id, full_name, email)
+SELECT DISTINCT ON (patient_email)
+    md5('patient:' || patient_email)::uuid, user_name, patient_email
+FROM bookings
+WHERE patient_email IS NOT NULL AND user_name <> ''
+ORDER BY patient_email, created_at DESC
+ON CONFLICT (email) DO NOTHING;
+
+UPDATE bookings b
+SET patient_id = p.id
+FROM patients p
+WHERE b.patient_id IS NULL AND b.patient_email = p.email;
+
+-- Messages for patients about changes staff made to their bookings, queued
+-- in the same transaction as the change and delivered by a mail sender
+CREATE TABLE IF NOT EXISTS patient_notifications (
+    id UUID PRIMARY KEY,
+    booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE,
+    patient_email TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('BOOKING_CANCELLED', 'MOVED_TO_WAITLIST')),
+    message TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_notifications_unsent
+    ON patient_notifications (created_at)
+    WHERE sent_at IS NULL;
+
+-- Recurring weekly schedules that expand into concrete slots. Times of day
+-- are in the clinic's time zone; weekdays are ISO numbers (1 = Monday)
+CREATE TABLE IF NOT EXISTS slot_templates (
+    id UUID PRIMARY KEY,
+    doctor_id UUID NOT NULL REFERENCES doctors(id) ON DELETE CASCADE,
+    weekdays SMALLINT[] NOT NULL,
+    day_start TIME NOT NULL,
+    day_end TIME NOT NULL CHECK (day_end > day_start),
+    slot_minutes INTEGER NOT NULL CHECK (slot_minutes > 0),
+    capacity INTEGER NOT NULL CHECK (capacity > 0),
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL CHECK (ends_on >= starts_on),
+    ended_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Slots generated from a template stay linked to it
+ALTER TABLE slots ADD COLUMN IF NOT EXISTS template_id UUID
+    REFERENCES slot_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_slots_template_id ON slots (template_id);
+
+-- Weekly working hours of each doctor, in the clinic's time zone. A doctor
+-- may have several ranges on one day; with no rows at all, slots are not
+-- checked against working hours
+CREATE TABLE IF NOT EXISTS doctor_working_hours (
+    id UUID PRIMARY KEY,
+    doctor_id UUID NOT NULL REFERENCES doctors(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 1 AND 7),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL CHECK (end_time > start_time),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_doctor_working_hours_doctor
+    ON doctor_working_hours (doctor_id, weekday);
+
+-- Set when an admin created a slot outside the doctor's working hours,
+-- with their reason
+ALTER TABLE slots ADD COLUMN IF NOT EXISTS hours_override_reason TEXT;
+ALTER TABLE slots ADD COLUMN IF NOT EXISTS hours_override_by_user_id UUID;
+
+-- A doctor cannot have two active slots at the same time. Slots that
+-- already overlapped an older slot (or ended before they started) when this
+-- rule was added are marked legacy_overlap and left out of it, so their
+-- bookings are kept
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE slots ADD COLUMN IF NOT EXISTS legacy_overlap BOOLEAN NOT NULL DEFAULT FALSE;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'slots_no_overlap') THEN
+        UPDATE slots s
+        SET legacy_overlap = TRUE
+        WHERE s.is_active IS NOT FALSE
+          AND (
+            s.end_time < s.start_time
+            OR EXISTS (
+                SELECT 1 FROM slots o
+                WHERE o.doctor_id = s.doctor_id
+                  AND o.is_active IS NOT FALSE
+                  AND o.end_time >= o.start_time
+                  AND o.start_time < s.end_time
+                  AND s.start_time < o.end_time
+                  AND (o.created_at, o.id) < (s.created_at, s.id)
+            )
+          );
+
+        ALTER TABLE slots ADD CONSTRAINT slots_no_overlap EXCLUDE USING gist (
+            doctor_id WITH =,
+            tstzrange(start_time, end_time) WITH &&
+        ) WHERE (is_active IS NOT FALSE AND NOT legacy_overlap);
+    END IF;
+END $$;
+
+-- Doctor leave and clinic-wide holidays (doctor_id is null), as inclusive
+-- date ranges in the clinic's time zone
+CREATE TABLE IF NOT EXISTS blackouts (
+    id UUID PRIMARY KEY,
+    doctor_id UUID REFERENCES doctors(id) ON DELETE CASCADE,
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL CHECK (ends_on >= starts_on),
+    reason TEXT NOT NULL,
+    created_by_user_id UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_blackouts_doctor_dates
+    ON blackouts (doctor_id, starts_on, ends_on);
+
+-- Booked slots inside a blackout stay active for their bookings but take no
+-- new ones; staff reschedule or cancel them
+ALTER TABLE slots ADD COLUMN IF NOT EXISTS blackout_id UUID
+    REFERENCES blackouts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_slots_blackout_id
+    ON slots (blackout_id)
+    WHERE blackout_id IS NOT NULL;
+
+-- Public doctor profile shown to patients. The fee is in minor currency
+-- units (e.g. cents); doctors not accepting new patients stay listed
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS bio TEXT;
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS qualifications TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS languages TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS consultation_fee_cents INTEGER
+    CHECK (consultation_fee_cents >= 0);
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS photo_url TEXT;
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS accepting_new_patients BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE doctors ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Append-only history of booking status changes, written in the same
+-- transaction as each change
+CREATE TABLE IF NOT EXISTS booking_events (
+    id UUID PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor_source TEXT NOT NULL CHECK (actor_source IN ('PATIENT', 'STAFF', 'SYSTEM')),
+    actor_user_id UUID,
+    reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking
+    ON booking_events (booking_id, created_at);
+
+CREATE OR REPLACE FUNCTION booking_events_append_only() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'booking_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS booking_events_append_only ON booking_events;
+CREATE TRIGGER booking_events_append_only
+    BEFORE UPDATE OR DELETE ON booking_events
+    FOR EACH ROW EXECUTE FUNCTION booking_events_append_only();
+
+-- Start the history of bookings made before it was recorded with their
+-- current status
+INSERT INTO booking_events (id, booking_id, from_status, to_status, actor_source, actor_user_id, reason, created_at)
+SELECT md5('booking-event:' || b.id)::uuid, b.id, NULL, b.status,
+    COALESCE(b.cancelled_by, b.created_by), COALESCE(b.cancelled_by_user_id, b.created_by_user_id),
+    COALESCE(b.cancellation_reason, 'Status when booking history started.'), b.updated_at
+FROM bookings b
+WHERE NOT EXISTS (SELECT 1 FROM booking_events e WHERE e.booking_id = b.id);
+
+-- Give confirmed bookings made before appointment times existed a time in
+-- their slot, in booking order.
+UPDATE bookings b
+SET appointment_start = s.start_time + (s.end_time - s.start_time) / s.capacity * (r.rn - 1),
+    appointment_end = s.start_time + (s.end_time - s.start_time) / s.capacity * r.rn
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY slot_id ORDER BY created_at) AS rn
+    FROM bookings
+    WHERE status = 'CONFIRMED' AND appointment_start IS NULL
+) r, slots s
+WHERE b.id = r.id AND s.id = b.slot_id AND s.capacity > 0;
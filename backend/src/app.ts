@@ -10,8 +10,10 @@
 import express, { Application, RequestHandler } from "express";
 import cors, { CorsOptions } from "cors";
 import adminRouter from "./routes/adminRoutes";
+import authRouter from "./routes/authRoutes";
 import publicRouter from "./routes/publicRoutes";
 import { errorHandler } from "./middleware/errorHandler";
+import { loadConfig } from "./config/env";
 
 /**
  * Parse CORS_ORIGINS env var into an allowed-origins list.
@@ -59,7 +61,14 @@ function buildCorsOptions(): CorsOptions {
     },
     credentials: true,
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "Origin", "Accept"],
+    allowedHeaders: [
+      "Content-Type",
+      "Authorization",
+      "Origin",
+      "Accept",
+      "Idempotency-Key"
+    ],
+    exposedHeaders: ["Idempotent-Replayed"],
     preflightContinue: false,
     optionsSuccessStatus: 204
   };
@@ -75,6 +84,10 @@ function buildCorsOptions(): CorsOptions {
 export function createApp(): Application {
   const app: Application = express();
 
+  // Behind a reverse proxy, take the client IP (used for rate limiting)
+  // from X-Forwarded-For.
+  app.set("trust proxy", loadConfig().trustProxyHops);
+
   // Parse JSON bodies (before routes)
   app.use(express.json());
   app.use(express.urlencoded({ extended: false }));
@@ -94,6 +107,9 @@ export function createApp(): Application {
   });
 
   // Mount API routers
+  // Staff login under /api/auth
+  app.use("/api/auth", authRouter);
+
   // Admin routes under /api/admin
   app.use("/api/admin", adminRouter);
 
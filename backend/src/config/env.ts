@@ -13,17 +13,66 @@ dotenv.config();
 export interface AppConfig {
   readonly port: number;
   readonly databaseUrl: string;
+  readonly adminTokens: readonly string[];
+  readonly sessionSecret: string;
+  readonly sessionTtlSeconds: number;
+  readonly holdTtlSeconds: number;
+  readonly allowCrossDoctorOverlap: boolean;
+  readonly bookingLookupLimit: number;
+  readonly trustProxyHops: number;
+  readonly clinicTimeZone: string;
+}
+
+/**
+ * Splits a comma-separated environment value into trimmed, non-empty entries.
+ *
+ * @param {string | undefined} raw Raw environment value.
+ * @returns {string[]} List of entries (empty when unset).
+ */
+function parseList(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
 }
 
 /**
  * Reads and validates environment variables at startup.
  * Throws an error if required values are missing or invalid.
  *
+ * ADMIN_TOKENS is optional: a comma-separated list of service tokens (for
+ * scripts and bootstrapping the first staff account) that act with the admin
+ * role. Several may be active so one can be rotated out.
+ *
+ * HOLD_TTL_SECONDS (default 300) is how long a seat stays reserved for a
+ * patient who has opened the booking form.
+ *
+ * ALLOW_CROSS_DOCTOR_OVERLAP (default false) lets a patient hold appointments
+ * with different doctors at overlapping times. Overlaps with the same doctor
+ * and second bookings in the same slot are always refused.
+ *
+ * BOOKING_LOOKUP_LIMIT (default 10) is how many reference code lookups one
+ * client IP may make per 15 minutes.
+ *
+ * TRUST_PROXY_HOPS (default 0) is the number of reverse proxies in front of
+ * the server (1 on Render), so the client IP is read from X-Forwarded-For.
+ *
+ * CLINIC_TIME_ZONE (default UTC) is the IANA time zone of the clinic, used
+ * to turn times of day in recurring slot templates into timestamps.
+ *
  * @returns {AppConfig} Validated application configuration.
  */
 export function loadConfig(): AppConfig {
   const portRaw: string | undefined = process.env.PORT;
   const databaseUrl: string | undefined = process.env.DATABASE_URL;
+  const adminTokens: string[] = parseList(process.env.ADMIN_TOKENS);
+  const sessionSecret: string | undefined = process.env.SESSION_SECRET;
+  const sessionTtlRaw: string = process.env.SESSION_TTL_MINUTES ?? "480";
+  const holdTtlRaw: string = process.env.HOLD_TTL_SECONDS ?? "300";
+  const crossDoctorOverlapRaw: string = process.env.ALLOW_CROSS_DOCTOR_OVERLAP ?? "false";
+  const bookingLookupLimitRaw: string = process.env.BOOKING_LOOKUP_LIMIT ?? "10";
+  const trustProxyHopsRaw: string = process.env.TRUST_PROXY_HOPS ?? "0";
+  const clinicTimeZone: string = process.env.CLINIC_TIME_ZONE ?? "UTC";
 
   if (portRaw === undefined) {
     throw new Error("PORT environment variable is required.");
@@ -38,8 +87,50 @@ export function loadConfig(): AppConfig {
     throw new Error("DATABASE_URL environment variable is required.");
   }
 
+  if (sessionSecret === undefined || sessionSecret.trim().length < 32) {
+    throw new Error("SESSION_SECRET environment variable must be at least 32 characters.");
+  }
+
+  const sessionTtlMinutes: number = Number(sessionTtlRaw);
+  if (!Number.isInteger(sessionTtlMinutes) || sessionTtlMinutes <= 0) {
+    throw new Error("SESSION_TTL_MINUTES must be a positive integer.");
+  }
+
+  const holdTtlSeconds: number = Number(holdTtlRaw);
+  if (!Number.isInteger(holdTtlSeconds) || holdTtlSeconds <= 0) {
+    throw new Error("HOLD_TTL_SECONDS must be a positive integer.");
+  }
+
+  if (crossDoctorOverlapRaw !== "true" && crossDoctorOverlapRaw !== "false") {
+    throw new Error("ALLOW_CROSS_DOCTOR_OVERLAP must be \"true\" or \"false\".");
+  }
+
+  const bookingLookupLimit: number = Number(bookingLookupLimitRaw);
+  if (!Number.isInteger(bookingLookupLimit) || bookingLookupLimit <= 0) {
+    throw new Error("BOOKING_LOOKUP_LIMIT must be a positive integer.");
+  }
+
+  const trustProxyHops: number = Number(trustProxyHopsRaw);
+  if (!Number.isInteger(trustProxyHops) || trustProxyHops < 0) {
+    throw new Error("TRUST_PROXY_HOPS must be a non-negative integer.");
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: clinicTimeZone });
+  } catch {
+    throw new Error("CLINIC_TIME_ZONE must be an IANA time zone such as Europe/London.");
+  }
+
   return {
     port: parsedPort,
-    databaseUrl
+    databaseUrl,
+    adminTokens,
+    sessionSecret,
+    sessionTtlSeconds: sessionTtlMinutes * 60,
+    holdTtlSeconds,
+    allowCrossDoctorOverlap: crossDoctorOverlapRaw === "true",
+    bookingLookupLimit,
+    trustProxyHops,
+    clinicTimeZone
   };
 }
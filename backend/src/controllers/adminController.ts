@@ -1,17 +1,90 @@
 /**
  * @file adminController.ts
- * @description Handlers for admin-facing routes (doctors and slots).
+ * @description Handlers for admin-facing routes (doctors, slots, bookings and staff users).
  */
-import { softDeleteSlot, hardDeleteSlot } from "../models/slotModel";
+import {
+  softDeleteSlot,
+  hardDeleteSlot,
+  getAllAdminSlotsWithMeta,
+  getSlotDeletionImpact
+} from "../models/slotModel";
+import {
+  cancelBooking,
+  createStaffBooking,
+  getRecentBookings,
+  getBookingsByPatientId
+} from "../models/bookingModel";
 import { Request, Response, NextFunction } from "express";
 import {
   createDoctorSchema,
+  updateDoctorSchema,
+  createSpecializationSchema,
+  updateSpecializationSchema,
   createSlotSchema,
+  updateSlotCapacitySchema,
+  createSlotTemplateSchema,
+  updateSlotTemplateSchema,
+  createUserSchema,
+  adminCancelBookingSchema,
+  staffBookingSchema,
+  updateAttendanceSchema,
+  reorderWaitlistSchema,
+  createIntakeQuestionSchema,
+  workingHoursSchema,
+  createBlackoutSchema,
   CreateDoctorInput,
-  CreateSlotInput
+  UpdateDoctorInput,
+  CreateSpecializationInput,
+  UpdateSpecializationInput,
+  CreateSlotInput,
+  UpdateSlotCapacityInput,
+  CreateSlotTemplateInput,
+  SlotTemplateRuleInput,
+  CreateUserInput,
+  AdminCancelBookingInput,
+  StaffBookingInput,
+  UpdateAttendanceInput,
+  ReorderWaitlistInput,
+  CreateIntakeQuestionInput,
+  WorkingHoursInput,
+  CreateBlackoutInput
 } from "../models/validation";
-import { createDoctor, getAllDoctors, deleteDoctor } from "../models/doctorModel";
-import { createSlot } from "../models/slotModel";
+import {
+  createDoctor,
+  getAllDoctors,
+  updateDoctor,
+  deleteDoctor,
+  getDoctorDeletionImpact
+} from "../models/doctorModel";
+import { createSlot, findOverlappingSlot } from "../models/slotModel";
+import { getWorkingHours, setWorkingHours } from "../models/workingHoursModel";
+import { getBlackouts, createBlackout, deleteBlackout } from "../models/blackoutModel";
+import {
+  getSpecializationsWithUsage,
+  createSpecialization,
+  updateSpecialization,
+  deleteSpecialization
+} from "../models/specializationModel";
+import {
+  createSlotTemplate,
+  updateSlotTemplate,
+  endSlotTemplate,
+  getSlotTemplates
+} from "../models/slotTemplateModel";
+import { createUser, getAllUsers } from "../models/userModel";
+import { leaveWaitlist, reorderWaitlist } from "../models/waitlistModel";
+import { updateAttendanceStatus } from "../models/attendanceModel";
+import { getBookingEvents } from "../models/bookingEventModel";
+import {
+  createIntakeQuestion,
+  getAllIntakeQuestions,
+  deleteIntakeQuestion,
+  resolveBookingIntake
+} from "../models/intakeModel";
+import { getPatients, getPatientById } from "../models/patientModel";
+import { hashPassword } from "../utils/password";
+import { toSlug } from "../utils/slug";
+import { DeletionImpact, SlotConflict, WorkingHours } from "../models/types";
 
 /**
  * Handles creation of a new doctor.
@@ -39,12 +112,19 @@ export async function handleCreateDoctor(
 
     const data: CreateDoctorInput = parseResult.data;
 
-    const doctor = await createDoctor(data.name, data.specialization);
+    const doctor = await createDoctor(data.name, data.specializationIds);
 
     res.status(201).json({
       doctor
     });
   } catch (error) {
+    if (error instanceof Error && error.message === "Specialization not found.") {
+      res.status(400).json({
+        error: error.message,
+        fieldErrors: { specializationIds: [error.message] }
+      });
+      return;
+    }
     next(error);
   }
 }
@@ -72,6 +152,57 @@ export async function handleGetDoctors(
   }
 }
 
+/**
+ * Changes a doctor's name, specializations or public profile.
+ * PATCH /api/admin/doctors/:doctorId
+ *
+ * @param {Request} req Express request with the doctor ID in params and the changes in the body.
+ * @param {Response} res Express response used to send the updated doctor.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleUpdateDoctor(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const doctorId = req.params.doctorId;
+    if (!doctorId || doctorId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid doctor id." });
+      return;
+    }
+
+    const parseResult = updateDoctorSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid doctor payload.",
+        details: parseResult.error.format(),
+        fieldErrors: parseResult.error.flatten().fieldErrors
+      });
+      return;
+    }
+
+    const data: UpdateDoctorInput = parseResult.data;
+    const doctor = await updateDoctor(doctorId, data);
+
+    res.status(200).json({ doctor });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Doctor not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Specialization not found.") {
+      res.status(400).json({
+        error: error.message,
+        fieldErrors: { specializationIds: [error.message] }
+      });
+      return;
+    }
+    next(error);
+  }
+}
+
 /**
  * Handles deletion of a doctor.
  *
@@ -95,10 +226,15 @@ export async function handleDeleteDoctor(
       return;
     }
 
-    await deleteDoctor(doctorId);
+    const cancelledBookings: number = await deleteDoctor(
+      doctorId,
+      { source: "STAFF", userId: req.principal?.userId ?? null },
+      req.query.confirm === "true"
+    );
 
     res.status(200).json({
-      message: "Doctor deleted successfully."
+      message: "Doctor deleted successfully.",
+      cancelledBookings
     });
   } catch (error) {
     if (error instanceof Error && error.message === "Doctor not found.") {
@@ -107,12 +243,302 @@ export async function handleDeleteDoctor(
       });
       return;
     }
-    if (error instanceof Error && error.message === "Cannot delete doctor with active bookings.") {
-      res.status(403).json({
-        error: error.message
+    if (
+      error instanceof Error &&
+      error.message === "Deleting would cancel confirmed bookings; confirm to continue."
+    ) {
+      // Not covered by the outer try, so a failed lookup goes to next() here.
+      try {
+        res.status(409).json({
+          error: error.message,
+          impact: await getDoctorDeletionImpact(req.params.doctorId)
+        });
+      } catch (impactError) {
+        next(impactError);
+      }
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Reports what deleting a doctor would affect, without deleting anything.
+ * GET /api/admin/doctors/:doctorId/deletion-impact
+ *
+ * @param {Request} req Express request containing the doctor ID in params.
+ * @param {Response} res Express response used to send the impact.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetDoctorDeletionImpact(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const doctorId = req.params.doctorId;
+    if (!doctorId || doctorId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid doctor id." });
+      return;
+    }
+
+    const impact: DeletionImpact | null = await getDoctorDeletionImpact(doctorId);
+    if (impact === null) {
+      res.status(404).json({ error: "Doctor not found." });
+      return;
+    }
+
+    res.status(200).json({ impact });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Returns a doctor's weekly working hours.
+ * GET /api/admin/doctors/:doctorId/working-hours
+ *
+ * @param {Request} req Express request containing the doctor ID in params.
+ * @param {Response} res Express response used to send the working hours.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetWorkingHours(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const doctorId = req.params.doctorId;
+    if (!doctorId || doctorId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid doctor id." });
+      return;
+    }
+
+    const hours: WorkingHours[] | null = await getWorkingHours(doctorId);
+    if (hours === null) {
+      res.status(404).json({ error: "Doctor not found." });
+      return;
+    }
+
+    res.status(200).json({ hours });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Replaces a doctor's weekly working hours.
+ * PUT /api/admin/doctors/:doctorId/working-hours
+ *
+ * @param {Request} req Express request with the doctor ID in params and the hours in the body.
+ * @param {Response} res Express response used to send the saved hours.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleSetWorkingHours(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const doctorId = req.params.doctorId;
+    if (!doctorId || doctorId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid doctor id." });
+      return;
+    }
+
+    const parseResult = workingHoursSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid working hours payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: WorkingHoursInput = parseResult.data;
+    const hours: WorkingHours[] = await setWorkingHours(doctorId, data.hours);
+
+    res.status(200).json({ hours });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Doctor not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Lists the specialization catalogue with how many doctors and intake
+ * questions use each entry.
+ * GET /api/admin/specializations
+ *
+ * @param {Request} _req Express request (unused).
+ * @param {Response} res Express response used to send the specializations.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetSpecializations(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const specializations = await getSpecializationsWithUsage();
+    res.status(200).json({ specializations });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Adds a specialization to the catalogue.
+ * POST /api/admin/specializations
+ *
+ * @param {Request} req Express request containing the specialization payload.
+ * @param {Response} res Express response used to send the created specialization.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCreateSpecialization(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = createSpecializationSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid specialization payload.",
+        details: parseResult.error.format(),
+        fieldErrors: parseResult.error.flatten().fieldErrors
+      });
+      return;
+    }
+
+    const data: CreateSpecializationInput = parseResult.data;
+    const slug: string = data.slug ?? toSlug(data.name);
+    if (slug.length === 0) {
+      res.status(400).json({
+        error: "Invalid specialization payload.",
+        fieldErrors: { slug: ["Give a slug; none can be derived from this name."] }
+      });
+      return;
+    }
+
+    const specialization = await createSpecialization(data.name, slug);
+    res.status(201).json({ specialization });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Specialization slug already exists.") {
+      res.status(409).json({ error: error.message, fieldErrors: { slug: [error.message] } });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Renames a specialization or changes its slug.
+ * PATCH /api/admin/specializations/:specializationId
+ *
+ * @param {Request} req Express request with the specialization ID in params and
+ *        the changes in the body.
+ * @param {Response} res Express response used to send the updated specialization.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleUpdateSpecialization(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const specializationId = req.params.specializationId;
+    if (!specializationId || specializationId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid specialization id." });
+      return;
+    }
+
+    const parseResult = updateSpecializationSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid specialization payload.",
+        details: parseResult.error.format(),
+        fieldErrors: parseResult.error.flatten().fieldErrors
+      });
+      return;
+    }
+
+    const data: UpdateSpecializationInput = parseResult.data;
+    const specialization = await updateSpecialization(specializationId, data);
+    res.status(200).json({ specialization });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Specialization not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Specialization slug already exists.") {
+      res.status(409).json({ error: error.message, fieldErrors: { slug: [error.message] } });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Removes a specialization. One still in use needs ?mergeInto=<id> naming
+ * the specialization that takes over its doctors and intake questions.
+ * DELETE /api/admin/specializations/:specializationId
+ *
+ * @param {Request} req Express request with the specialization ID in params and
+ *        the optional merge target.
+ * @param {Response} res Express response.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleDeleteSpecialization(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const specializationId = req.params.specializationId;
+    if (!specializationId || specializationId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid specialization id." });
+      return;
+    }
+
+    const mergeIntoId: string | null =
+      typeof req.query.mergeInto === "string" && req.query.mergeInto.trim().length > 0
+        ? req.query.mergeInto.trim()
+        : null;
+
+    await deleteSpecialization(specializationId, mergeIntoId);
+    res.status(200).json({
+      message:
+        mergeIntoId !== null ? "Specialization merged." : "Specialization deleted successfully."
+    });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === "Specialization not found." || error.message === "Merge target not found.")
+    ) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Specialization is in use.") {
+      res.status(409).json({
+        error: "Specialization is in use; merge it into another one instead."
       });
       return;
     }
+    if (error instanceof Error && error.message === "Cannot merge a specialization into itself.") {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     next(error);
   }
 }
@@ -130,6 +556,9 @@ export async function handleCreateSlot(
   res: Response,
   next: NextFunction
 ): Promise<void> {
+  // Kept outside the try so the overlap error below can look up the conflict.
+  let data: CreateSlotInput | null = null;
+
   try {
     const bodyRaw = req.body;
 
@@ -147,24 +576,82 @@ export async function handleCreateSlot(
     if (!parseResult.success) {
       res.status(400).json({
         error: "Invalid slot payload.",
-        details: parseResult.error.format()
+        details: parseResult.error.format(),
+        fieldErrors: parseResult.error.flatten().fieldErrors
       });
       return;
     }
 
-    const data: CreateSlotInput = parseResult.data;
+    data = parseResult.data;
+
+    if (data.outsideHoursReason !== undefined && req.principal?.role !== "admin") {
+      res.status(403).json({
+        error: "Only admins can create slots outside working hours.",
+        fieldErrors: { outsideHoursReason: ["Only admins can override working hours."] }
+      });
+      return;
+    }
 
     const slot = await createSlot(
       data.doctorId,
       data.startTime,
       data.endTime,
-      data.capacity
+      data.capacity,
+      data.outsideHoursReason === undefined
+        ? null
+        : { reason: data.outsideHoursReason, userId: req.principal?.userId ?? null }
     );
 
     res.status(201).json({
       slot
     });
   } catch (error) {
+    if (error instanceof Error && error.message === "Doctor not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Slot is outside the doctor's working hours.") {
+      res.status(400).json({
+        error: error.message,
+        fieldErrors: { startTime: [error.message] }
+      });
+      return;
+    }
+    if (error instanceof Error && error.message === "Slot falls inside a blackout.") {
+      res.status(409).json({
+        error: error.message,
+        fieldErrors: { startTime: [error.message] }
+      });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      error.message === "Slot overlaps another slot of the doctor." &&
+      data !== null
+    ) {
+      // Not covered by the outer try, so a failed lookup goes to next() here.
+      try {
+        const conflictingSlot: SlotConflict | null = await findOverlappingSlot(
+          data.doctorId,
+          data.startTime,
+          data.endTime
+        );
+        const message: string =
+          conflictingSlot === null
+            ? error.message
+            : `Slot overlaps the doctor's slot ${conflictingSlot.slotId} ` +
+              `(${new Date(conflictingSlot.startTime).toISOString()} to ` +
+              `${new Date(conflictingSlot.endTime).toISOString()}).`;
+        res.status(409).json({
+          error: message,
+          conflictingSlot,
+          fieldErrors: { startTime: [message] }
+        });
+      } catch (lookupError) {
+        next(lookupError);
+      }
+      return;
+    }
     next(error);
   }
 }
@@ -177,7 +664,8 @@ export async function handleCreateSlot(
 import { updateSlotCapacity as updateSlotCapacityModel } from "../models/slotModel";
 
 /**
- * Update slot capacity handler.
+ * Update slot capacity handler. Bookings that no longer fit are handled by
+ * the requested policy and listed in the response.
  */
 export async function handleUpdateSlot(
   req: Request,
@@ -192,24 +680,26 @@ export async function handleUpdateSlot(
       return;
     }
 
-    const body = req.body as { capacity?: unknown };
+    const parseResult = updateSlotCapacitySchema.safeParse(req.body ?? {});
 
-    if (body.capacity === undefined) {
-      res.status(400).json({ error: "Missing capacity in request body." });
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid capacity payload.",
+        details: parseResult.error.format()
+      });
       return;
     }
 
-    const capacityNumber: number =
-      typeof body.capacity === "string" ? Number(body.capacity) : Number(body.capacity);
-
-    if (Number.isNaN(capacityNumber) || !Number.isFinite(capacityNumber) || capacityNumber < 0) {
-      res.status(400).json({ error: "Capacity must be a non-negative number." });
-      return;
-    }
+    const data: UpdateSlotCapacityInput = parseResult.data;
 
-    const updated = await updateSlotCapacityModel(slotId, Math.trunc(capacityNumber));
+    const { slot, affectedBookings } = await updateSlotCapacityModel(
+      slotId,
+      data.capacity,
+      data.policy,
+      { source: "STAFF", userId: req.principal?.userId ?? null }
+    );
 
-    res.status(200).json({ slot: updated });
+    res.status(200).json({ slot, affectedBookings });
   } catch (error) {
     // Log error for debugging.
     // eslint-disable-next-line no-console
@@ -218,6 +708,14 @@ export async function handleUpdateSlot(
       res.status(404).json({ error: "Slot not found." });
       return;
     }
+    if (
+      error instanceof Error &&
+      (error.message === "New capacity is below the seats already taken." ||
+        error.message === "New capacity is below the seats of patients already checked in.")
+    ) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
     next(error);
   }
 }
@@ -238,7 +736,7 @@ export async function handleSoftDeleteSlot(
       return;
     }
 
-    await softDeleteSlot(slotId);
+    await softDeleteSlot(slotId, { source: "STAFF", userId: req.principal?.userId ?? null });
 
     res.status(200).json({ message: "Slot soft-deleted (inactive)." });
   } catch (error) {
@@ -253,24 +751,295 @@ export async function handleSoftDeleteSlot(
 }
 
 /**
- * Handles hard deletion of a slot (admin action).
- * DELETE /api/admin/slots/:slotId
+ * Maps a slot template error to its response, if it is a known one.
+ *
+ * @param {unknown} error Error thrown by the template model.
+ * @param {Response} res Express response.
+ * @returns {boolean} True if a response was sent.
  */
-export async function handleHardDeleteSlot(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> {
-  try {
-    const slotId = req.params.slotId;
+function sendSlotTemplateError(error: unknown, res: Response): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.message === "Doctor not found." || error.message === "Slot template not found.") {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  if (
+    error.message === "Slot template has ended." ||
+    error.message === "Slot overlaps another slot of the doctor."
+  ) {
+    res.status(409).json({ error: error.message });
+    return true;
+  }
+  if (error.message.startsWith("Slot template would create more than")) {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Lists current and upcoming blackouts with the booked slots they flagged.
+ * GET /api/admin/blackouts
+ *
+ * @param {Request} _req Express request (unused).
+ * @param {Response} res Express response used to send the blackouts.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetBlackouts(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const blackouts = await getBlackouts();
+    res.status(200).json({ blackouts });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Adds doctor leave or a clinic holiday. Unbooked slots inside it are
+ * removed; booked ones are flagged in the response.
+ * POST /api/admin/blackouts
+ *
+ * @param {Request} req Express request containing the blackout payload.
+ * @param {Response} res Express response used to send the blackout and the removed slot count.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCreateBlackout(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = createBlackoutSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid blackout payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: CreateBlackoutInput = parseResult.data;
+    const change = await createBlackout(
+      data.doctorId,
+      data.startsOn,
+      data.endsOn,
+      data.reason,
+      req.principal?.userId ?? null
+    );
+
+    res.status(201).json(change);
+  } catch (error) {
+    if (error instanceof Error && error.message === "Doctor not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Removes a blackout; slots it flagged take bookings again.
+ * DELETE /api/admin/blackouts/:blackoutId
+ *
+ * @param {Request} req Express request containing the blackout ID in params.
+ * @param {Response} res Express response.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleDeleteBlackout(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const blackoutId = req.params.blackoutId;
+    if (!blackoutId || blackoutId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid blackout id." });
+      return;
+    }
+
+    await deleteBlackout(blackoutId);
+    res.status(200).json({ message: "Blackout removed." });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Blackout not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Lists recurring slot templates.
+ * GET /api/admin/slot-templates
+ *
+ * @param {Request} _req Express request (unused).
+ * @param {Response} res Express response used to send the templates.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetSlotTemplates(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const templates = await getSlotTemplates();
+    res.status(200).json({ templates });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Creates a recurring slot template and generates its slots, or with
+ * ?preview=true reports what would be generated without saving.
+ * POST /api/admin/slot-templates
+ *
+ * @param {Request} req Express request containing the template payload and optional preview flag.
+ * @param {Response} res Express response used to send the template and its slots, or the preview.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCreateSlotTemplate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = createSlotTemplateSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid slot template payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const { doctorId, ...rule }: CreateSlotTemplateInput = parseResult.data;
+    const preview: boolean = req.query.preview === "true";
+    const change = await createSlotTemplate(doctorId, rule, preview);
+
+    res.status(preview ? 200 : 201).json({ ...change, preview });
+  } catch (error) {
+    if (sendSlotTemplateError(error, res)) {
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Replaces a template's rule and regenerates its unbooked future slots, or
+ * with ?preview=true reports what would change.
+ * PATCH /api/admin/slot-templates/:templateId
+ *
+ * @param {Request} req Express request with the template ID in params and the new rule in the body.
+ * @param {Response} res Express response used to send the updated template, or the preview.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleUpdateSlotTemplate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const templateId = req.params.templateId;
+    if (!templateId || templateId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid slot template id." });
+      return;
+    }
+
+    const parseResult = updateSlotTemplateSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid slot template payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const rule: SlotTemplateRuleInput = parseResult.data;
+    const preview: boolean = req.query.preview === "true";
+    const change = await updateSlotTemplate(templateId, rule, preview);
+
+    res.status(200).json({ ...change, preview });
+  } catch (error) {
+    if (sendSlotTemplateError(error, res)) {
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Ends a template and removes its unbooked future slots, or with
+ * ?preview=true reports how many would be removed.
+ * POST /api/admin/slot-templates/:templateId/end
+ *
+ * @param {Request} req Express request with the template ID in params and optional preview flag.
+ * @param {Response} res Express response used to send the number of removed slots.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleEndSlotTemplate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const templateId = req.params.templateId;
+    if (!templateId || templateId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid slot template id." });
+      return;
+    }
+
+    const preview: boolean = req.query.preview === "true";
+    const change = await endSlotTemplate(templateId, preview);
+
+    res.status(200).json({ ...change, preview });
+  } catch (error) {
+    if (sendSlotTemplateError(error, res)) {
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Handles hard deletion of a slot (admin action).
+ * DELETE /api/admin/slots/:slotId
+ */
+export async function handleHardDeleteSlot(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const slotId = req.params.slotId;
     if (!slotId || slotId.trim().length === 0) {
       res.status(400).json({ error: "Invalid slot id." });
       return;
     }
 
-    await hardDeleteSlot(slotId);
+    const cancelledBookings: number = await hardDeleteSlot(
+      slotId,
+      { source: "STAFF", userId: req.principal?.userId ?? null },
+      req.query.confirm === "true"
+    );
 
-    res.status(200).json({ message: "Slot deleted permanently." });
+    res.status(200).json({ message: "Slot deleted permanently.", cancelledBookings });
   } catch (error) {
     // eslint-disable-next-line no-console
     console.error("Error in handleHardDeleteSlot:", error);
@@ -278,7 +1047,661 @@ export async function handleHardDeleteSlot(
       res.status(404).json({ error: "Slot not found." });
       return;
     }
+    if (
+      error instanceof Error &&
+      error.message === "Deleting would cancel confirmed bookings; confirm to continue."
+    ) {
+      // Not covered by the outer try, so a failed lookup goes to next() here.
+      try {
+        res.status(409).json({
+          error: error.message,
+          impact: await getSlotDeletionImpact(req.params.slotId)
+        });
+      } catch (impactError) {
+        next(impactError);
+      }
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Reports what deleting a slot would affect, without deleting anything.
+ * GET /api/admin/slots/:slotId/deletion-impact
+ *
+ * @param {Request} req Express request containing the slot ID in params.
+ * @param {Response} res Express response used to send the impact.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetSlotDeletionImpact(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const slotId = req.params.slotId;
+    if (!slotId || slotId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid slot id." });
+      return;
+    }
+
+    const impact: DeletionImpact | null = await getSlotDeletionImpact(slotId);
+    if (impact === null) {
+      res.status(404).json({ error: "Slot not found." });
+      return;
+    }
+
+    res.status(200).json({ impact });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Lists slots for staff, including each slot's bookings.
+ * Doctor accounts only see their own slots.
+ * GET /api/admin/slots
+ *
+ * @param {Request} req Express request from an authenticated staff member.
+ * @param {Response} res Express response used to send the slots.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetAdminSlots(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const doctorFilter: string | null =
+      req.principal?.role === "doctor" ? req.principal.doctorId : null;
+
+    const slots = await getAllAdminSlotsWithMeta(doctorFilter);
+
+    res.status(200).json({ slots });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Lists the most recent bookings with slot and doctor details.
+ * Doctor accounts only see bookings for their own slots.
+ * GET /api/admin/bookings
+ *
+ * @param {Request} req Express request from an authenticated staff member.
+ * @param {Response} res Express response used to send the bookings.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetAdminBookings(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const doctorFilter: string | null =
+      req.principal?.role === "doctor" ? req.principal.doctorId : null;
+
+    const bookings = await getRecentBookings(doctorFilter);
+
+    res.status(200).json({ bookings });
+  } catch (error) {
     next(error);
   }
 }
 
+/**
+ * Books a seat for a patient on their behalf, e.g. over the phone, recording
+ * the staff member who made the booking. With `overbook` and a reason a full
+ * slot is booked anyway.
+ * POST /api/admin/bookings
+ *
+ * @param {Request} req Express request containing the booking payload.
+ * @param {Response} res Express response used to send the created booking.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCreateStaffBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = staffBookingSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid booking payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: StaffBookingInput = parseResult.data;
+
+    const { intake, errors } = await resolveBookingIntake(
+      data.slotId,
+      data.visitReason,
+      data.intakeAnswers
+    );
+
+    if (Object.keys(errors).length > 0) {
+      res.status(400).json({
+        error: "Invalid intake answers.",
+        details: errors
+      });
+      return;
+    }
+
+    const booking = await createStaffBooking(
+      data.slotId,
+      {
+        fullName: data.userName.trim(),
+        email: data.patientEmail,
+        phone: data.patientPhone ?? null,
+        dateOfBirth: data.dateOfBirth ?? null
+      },
+      data.startTime ?? null,
+      intake,
+      { source: "STAFF", userId: req.principal?.userId ?? null },
+      data.overbook ? data.overbookReason ?? null : null
+    );
+
+    res.status(201).json({ booking });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Slot not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      (error.message === "Slot is full." ||
+        error.message === "Appointment time is already taken." ||
+        error.message.startsWith("Patient already has"))
+    ) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Appointment time is not part of this slot.") {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Cancels a booking on behalf of the clinic. A reason is required.
+ * POST /api/admin/bookings/:bookingId/cancel
+ *
+ * @param {Request} req Express request with the booking ID in params and the reason in the body.
+ * @param {Response} res Express response used to send the cancelled booking.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleAdminCancelBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const bookingId = req.params.bookingId;
+    if (!bookingId || bookingId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid booking id." });
+      return;
+    }
+
+    const parseResult = adminCancelBookingSchema.safeParse(req.body ?? {});
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid cancellation payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: AdminCancelBookingInput = parseResult.data;
+
+    const booking = await cancelBooking(
+      bookingId,
+      { source: "STAFF", userId: req.principal?.userId ?? null },
+      data.reason
+    );
+
+    res.status(200).json({ booking });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Booking not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      (error.message === "Booking is already cancelled." ||
+        error.message === "Only confirmed bookings can be cancelled.")
+    ) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Moves a booking to its next attendance status (arrived, being seen,
+ * completed or no-show).
+ * POST /api/admin/bookings/:bookingId/attendance
+ *
+ * @param {Request} req Express request with the booking ID in params and the
+ *        new status in the body.
+ * @param {Response} res Express response used to send the updated booking.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleUpdateAttendance(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const bookingId = req.params.bookingId;
+    if (!bookingId || bookingId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid booking id." });
+      return;
+    }
+
+    const parseResult = updateAttendanceSchema.safeParse(req.body ?? {});
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid attendance payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: UpdateAttendanceInput = parseResult.data;
+    const booking = await updateAttendanceStatus(bookingId, data.status, {
+      source: "STAFF",
+      userId: req.principal?.userId ?? null
+    });
+
+    res.status(200).json({ booking });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Booking not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message.startsWith("Booking cannot move from")) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Retrieves a booking's status history, oldest first.
+ * GET /api/admin/bookings/:bookingId/history
+ *
+ * @param {Request} req Express request containing the booking ID in params.
+ * @param {Response} res Express response used to send the history.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetBookingHistory(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const bookingId = req.params.bookingId;
+    if (!bookingId || bookingId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid booking id." });
+      return;
+    }
+
+    const events = await getBookingEvents(bookingId);
+    if (events === null) {
+      res.status(404).json({ error: "Booking not found." });
+      return;
+    }
+
+    res.status(200).json({ events });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Replaces the queue order of a slot's waitlist. The body must list every
+ * waiting entry exactly once.
+ * PUT /api/admin/slots/:slotId/waitlist
+ *
+ * @param {Request} req Express request with the slot ID in params and the entry order in the body.
+ * @param {Response} res Express response used to send the reordered waitlist.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleReorderWaitlist(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const slotId = req.params.slotId;
+    if (!slotId || slotId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid slot id." });
+      return;
+    }
+
+    const parseResult = reorderWaitlistSchema.safeParse(req.body ?? {});
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid waitlist order payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: ReorderWaitlistInput = parseResult.data;
+    const waitlist = await reorderWaitlist(slotId, data.entryIds);
+
+    res.status(200).json({ waitlist });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Slot not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      error.message === "Entry ids must list every waiting entry exactly once."
+    ) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Removes a patient from a slot's waitlist on behalf of the clinic.
+ * DELETE /api/admin/waitlist/:entryId
+ *
+ * @param {Request} req Express request containing the waitlist entry ID in params.
+ * @param {Response} res Express response.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleRemoveWaitlistEntry(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entryId = req.params.entryId;
+    if (!entryId || entryId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid waitlist entry id." });
+      return;
+    }
+
+    const entry = await leaveWaitlist(entryId);
+
+    res.status(200).json({ entry });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Waitlist entry not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Waitlist entry is no longer waiting.") {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Lists the intake questions configured for doctors and specializations.
+ * GET /api/admin/intake-questions
+ *
+ * @param {Request} _req Express request (unused).
+ * @param {Response} res Express response used to send the questions.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetIntakeQuestions(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const questions = await getAllIntakeQuestions();
+    res.status(200).json({ questions });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Adds an intake question asked when booking a doctor or any doctor of a
+ * specialization.
+ * POST /api/admin/intake-questions
+ *
+ * @param {Request} req Express request containing the question payload.
+ * @param {Response} res Express response used to send the created question.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCreateIntakeQuestion(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = createIntakeQuestionSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid intake question payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: CreateIntakeQuestionInput = parseResult.data;
+    const question = await createIntakeQuestion({
+      doctorId: data.doctorId ?? null,
+      specializationId: data.specializationId ?? null,
+      prompt: data.prompt,
+      type: data.type,
+      options: data.options,
+      required: data.required,
+      position: data.position
+    });
+
+    res.status(201).json({ question });
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === "Doctor not found." || error.message === "Specialization not found.")
+    ) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Removes an intake question. Answers already given are kept on bookings.
+ * DELETE /api/admin/intake-questions/:questionId
+ *
+ * @param {Request} req Express request containing the question ID in params.
+ * @param {Response} res Express response.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleDeleteIntakeQuestion(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const questionId = req.params.questionId;
+    if (!questionId || questionId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid intake question id." });
+      return;
+    }
+
+    await deleteIntakeQuestion(questionId);
+
+    res.status(200).json({ message: "Intake question deleted." });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Intake question not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Lists patients with their number of bookings and latest appointment.
+ * An optional `search` query parameter filters by name, email or phone.
+ * GET /api/admin/patients
+ *
+ * @param {Request} req Express request with the optional search query.
+ * @param {Response} res Express response used to send the patients.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetPatients(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const search: string | null =
+      typeof req.query.search === "string" && req.query.search.trim().length > 0
+        ? req.query.search.trim()
+        : null;
+
+    const patients = await getPatients(search);
+
+    res.status(200).json({ patients });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Retrieves a patient with their booking history.
+ * GET /api/admin/patients/:patientId
+ *
+ * @param {Request} req Express request containing the patient ID in params.
+ * @param {Response} res Express response used to send the patient and their bookings.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetPatient(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const patientId = req.params.patientId;
+    if (!patientId || patientId.trim().length === 0) {
+      res.status(400).json({ error: "Invalid patient id." });
+      return;
+    }
+
+    const patient = await getPatientById(patientId);
+    if (!patient) {
+      res.status(404).json({ error: "Patient not found." });
+      return;
+    }
+
+    const bookings = await getBookingsByPatientId(patient.id);
+
+    res.status(200).json({ patient, bookings });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Creates a staff user account.
+ * POST /api/admin/users
+ *
+ * @param {Request} req Express request containing the user payload.
+ * @param {Response} res Express response used to send the created user.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCreateUser(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = createUserSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid user payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: CreateUserInput = parseResult.data;
+    const passwordHash: string = await hashPassword(data.password);
+
+    const user = await createUser(
+      data.email,
+      data.name,
+      data.role,
+      data.doctorId ?? null,
+      passwordHash
+    );
+
+    res.status(201).json({ user });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Email is already registered.") {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Doctor not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Lists staff user accounts.
+ * GET /api/admin/users
+ *
+ * @param {Request} _req Express request (unused).
+ * @param {Response} res Express response used to send the users.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetUsers(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const users = await getAllUsers();
+    res.status(200).json({ users });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * @file authController.ts
+ * @description Handlers for staff login and session inspection.
+ */
+import { Request, Response, NextFunction } from "express";
+import { loadConfig } from "../config/env";
+import { loginSchema, LoginInput } from "../models/validation";
+import { getUserById, getUserCredentialsByEmail } from "../models/userModel";
+import { hashPassword, verifyPassword } from "../utils/password";
+import { signSessionToken } from "../utils/sessionToken";
+
+// Hash checked when the email is unknown so both paths take similar time.
+const dummyHashPromise: Promise<string> = hashPassword("modex-dummy-password");
+
+/**
+ * Authenticates a staff user and issues a signed session token.
+ *
+ * POST /api/auth/login
+ * Body: { email, password }
+ *
+ * @param {Request} req Express request containing credentials.
+ * @param {Response} res Express response used to send the session.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleLogin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = loginSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid login payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: LoginInput = parseResult.data;
+    const credentials = await getUserCredentialsByEmail(data.email);
+
+    const isValid: boolean = await verifyPassword(
+      data.password,
+      credentials?.passwordHash ?? (await dummyHashPromise)
+    );
+
+    if (credentials === null || !isValid) {
+      res.status(401).json({
+        error: "Invalid email or password."
+      });
+      return;
+    }
+
+    const { sessionSecret, sessionTtlSeconds } = loadConfig();
+    const { user } = credentials;
+    const session = signSessionToken(
+      { sub: user.id, role: user.role, doctorId: user.doctorId },
+      sessionSecret,
+      sessionTtlSeconds
+    );
+
+    res.status(200).json({
+      token: session.token,
+      expiresAt: session.expiresAt,
+      user
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Returns the staff user behind the current session.
+ *
+ * GET /api/auth/me
+ *
+ * @param {Request} req Authenticated Express request.
+ * @param {Response} res Express response used to send the user.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetCurrentUser(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const principal = req.principal;
+
+    if (principal === undefined) {
+      res.status(401).json({ error: "Not authenticated." });
+      return;
+    }
+
+    // Service tokens have no user record behind them.
+    if (principal.userId === null) {
+      res.status(200).json({ user: null, role: principal.role });
+      return;
+    }
+
+    const user = await getUserById(principal.userId);
+
+    if (user === null) {
+      res.status(401).json({ error: "Account no longer exists." });
+      return;
+    }
+
+    res.status(200).json({ user, role: user.role });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -4,9 +4,22 @@
  */
 import { hardDeleteSlot } from "../models/slotModel";
 import { Request, Response, NextFunction } from "express";
+import { loadConfig } from "../config/env";
 import {
   createBookingSchema,
-  CreateBookingInput
+  createGroupBookingSchema,
+  confirmSeatHoldSchema,
+  cancelBookingSchema,
+  rescheduleBookingSchema,
+  joinWaitlistSchema,
+  lookupBookingSchema,
+  CreateBookingInput,
+  CreateGroupBookingInput,
+  ConfirmSeatHoldInput,
+  CancelBookingInput,
+  RescheduleBookingInput,
+  JoinWaitlistInput,
+  LookupBookingInput
 } from "../models/validation";
 import {
   getAllSlotsWithMeta,
@@ -14,24 +27,121 @@ import {
 } from "../models/slotModel";
 import {
   createBookingWithConcurrencyControl,
-  getBookingById
+  createBookingWithIdempotencyKey,
+  createGroupBooking,
+  createSeatHold,
+  confirmSeatHold,
+  cancelBooking,
+  cancelBookingGroup,
+  getBookingsByGroupId,
+  rescheduleBooking,
+  getBookingById,
+  findBookingByReference,
+  getBookingReschedules,
+  getFreeAppointmentTimes,
+  GroupAttendee
 } from "../models/bookingModel";
+import {
+  joinWaitlist,
+  getWaitlistEntryById,
+  leaveWaitlist
+} from "../models/waitlistModel";
+import { getIntakeQuestionsForSlot, resolveBookingIntake } from "../models/intakeModel";
+import { getDoctorById } from "../models/doctorModel";
+import { getSpecializations } from "../models/specializationModel";
+import {
+  Booking,
+  PatientContact,
+  PublicBooking,
+  PublicWaitlistEntry,
+  WaitlistEntry
+} from "../models/types";
 
 /**
- * Retrieves all available slots with doctor information and availability.
+ * Collects the patient details sent with a booking.
  *
- * @param {Request} _req Express request (unused).
+ * @param {object} data Validated booking fields.
+ * @returns {PatientContact} Details used to find or create the patient.
+ */
+function toPatientContact(data: {
+  userName: string;
+  patientEmail: string;
+  patientPhone?: string;
+  dateOfBirth?: string;
+}): PatientContact {
+  return {
+    fullName: data.userName.trim(),
+    email: data.patientEmail,
+    phone: data.patientPhone ?? null,
+    dateOfBirth: data.dateOfBirth ?? null
+  };
+}
+
+/**
+ * Reduces a booking to the fields anonymous callers may see. The visit
+ * reason and intake answers are clinical details for staff only, so they are
+ * left out even when the patient has just sent them.
+ *
+ * @param {Booking} booking Full booking record.
+ * @returns {PublicBooking} Booking without patient or staff details.
+ */
+function toPublicBooking(booking: Booking): PublicBooking {
+  return {
+    id: booking.id,
+    referenceCode: booking.referenceCode,
+    slotId: booking.slotId,
+    status: booking.status,
+    createdAt: booking.createdAt,
+    cancelledAt: booking.cancelledAt,
+    cancellationReason: booking.cancellationReason,
+    appointmentStart: booking.appointmentStart,
+    appointmentEnd: booking.appointmentEnd,
+    holdExpiresAt: booking.holdExpiresAt,
+    bookingGroupId: booking.bookingGroupId
+  };
+}
+
+/**
+ * Reduces a waitlist entry to the fields anonymous callers may see, leaving
+ * out the patient's name and email.
+ *
+ * @param {WaitlistEntry} entry Full waitlist entry.
+ * @returns {PublicWaitlistEntry} Entry without patient details.
+ */
+function toPublicWaitlistEntry(entry: WaitlistEntry): PublicWaitlistEntry {
+  return {
+    id: entry.id,
+    slotId: entry.slotId,
+    status: entry.status,
+    position: entry.position,
+    bookingId: entry.bookingId,
+    createdAt: entry.createdAt,
+    promotedAt: entry.promotedAt
+  };
+}
+
+/**
+ * Retrieves all available slots with doctor information and availability,
+ * optionally only those of doctors with the specialization slug given as
+ * ?specialization=.
+ *
+ * @param {Request} req Express request with the optional filter.
  * @param {Response} res Express response used to send slot data.
  * @param {NextFunction} next Next middleware in the chain.
  * @returns {Promise<void>} Promise that resolves when the response is sent.
  */
 export async function handleGetSlots(
-  _req: Request,
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
   try {
-    const slots = await getAllSlotsWithMeta();
+    const specializationSlug: string | null =
+      typeof req.query.specialization === "string" && req.query.specialization.trim().length > 0
+        ? req.query.specialization.trim().toLowerCase()
+        : null;
+
+    const slots = await getAllSlotsWithMeta(specializationSlug);
     res.status(200).json({
       slots
     });
@@ -41,7 +151,9 @@ export async function handleGetSlots(
 }
 
 /**
- * Retrieves a specific slot with doctor information and availability.
+ * Retrieves a specific slot with doctor information and availability,
+ * the appointment times inside it that are still free and the intake
+ * questions a patient booking it must answer.
  *
  * @param {Request} req Express request containing the slot identifier.
  * @param {Response} res Express response used to send slot data.
@@ -72,8 +184,76 @@ export async function handleGetSlotById(
       return;
     }
 
+    const freeTimes = (await getFreeAppointmentTimes(slot.id)) ?? [];
+    const intakeQuestions = await getIntakeQuestionsForSlot(slot.id);
+
+    res.status(200).json({
+      slot,
+      freeTimes,
+      intakeQuestions
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Lists the specialization catalogue, e.g. to filter slots by slug.
+ *
+ * @param {Request} _req Express request (unused).
+ * @param {Response} res Express response used to send the specializations.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetSpecializations(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const specializations = await getSpecializations();
+    res.status(200).json({
+      specializations
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Retrieves a doctor's public profile.
+ *
+ * @param {Request} req Express request containing the doctor identifier.
+ * @param {Response} res Express response used to send the doctor.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetDoctor(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const doctorIdParam = req.params.doctorId;
+
+    if (doctorIdParam === undefined || doctorIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "doctorId parameter is required."
+      });
+      return;
+    }
+
+    const doctor = await getDoctorById(doctorIdParam);
+
+    if (doctor === null) {
+      res.status(404).json({
+        error: "Doctor not found."
+      });
+      return;
+    }
+
     res.status(200).json({
-      slot
+      doctor
     });
   } catch (error) {
     next(error);
@@ -105,15 +285,60 @@ export async function handleCreateBooking(
     }
 
     const data: CreateBookingInput = parseResult.data;
+    const { intake, errors } = await resolveBookingIntake(
+      data.slotId,
+      data.visitReason,
+      data.intakeAnswers
+    );
+
+    if (Object.keys(errors).length > 0) {
+      res.status(400).json({
+        error: "Invalid intake answers.",
+        details: errors
+      });
+      return;
+    }
+
+    const idempotencyKey: string | undefined = req.get("Idempotency-Key");
+
+    if (
+      idempotencyKey !== undefined &&
+      (idempotencyKey.length === 0 || idempotencyKey.length > 255)
+    ) {
+      res.status(400).json({
+        error: "Idempotency-Key must be between 1 and 255 characters."
+      });
+      return;
+    }
 
     try {
+      if (idempotencyKey !== undefined) {
+        const { booking, replayed } = await createBookingWithIdempotencyKey(
+          idempotencyKey,
+          data.slotId,
+          toPatientContact(data),
+          data.startTime ?? null,
+          intake
+        );
+
+        if (replayed) {
+          res.setHeader("Idempotent-Replayed", "true");
+        }
+        res.status(201).json({
+          booking: toPublicBooking(booking)
+        });
+        return;
+      }
+
       const booking = await createBookingWithConcurrencyControl(
         data.slotId,
-        data.userName
+        toPatientContact(data),
+        data.startTime ?? null,
+        intake
       );
 
       res.status(201).json({
-        booking
+        booking: toPublicBooking(booking)
       });
     } catch (bookingError) {
       // Booking-related error, such as slot not found or full.
@@ -125,10 +350,24 @@ export async function handleCreateBooking(
         res.status(404).json({
           error: message
         });
-      } else if (message === "Slot is full.") {
+      } else if (
+        message === "Slot is full." ||
+        message === "Appointment time is already taken." ||
+        message.startsWith("Patient already has")
+      ) {
         res.status(409).json({
           error: message
         });
+      } else if (message === "Appointment time is not part of this slot.") {
+        res.status(400).json({
+          error: message
+        });
+      } else if (
+        message === "Idempotency-Key was already used with a different request."
+      ) {
+        res.status(422).json({
+          error: message
+        });
       } else {
         res.status(500).json({
           error: message
@@ -140,6 +379,143 @@ export async function handleCreateBooking(
   }
 }
 
+/**
+ * Reserves a seat in a slot while the patient fills in the booking form.
+ * POST /api/slots/:slotId/hold
+ *
+ * @param {Request} req Express request containing slot identifier.
+ * @param {Response} res Express response used to send the hold.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCreateSeatHold(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const slotIdParam = req.params.slotId;
+
+    if (slotIdParam === undefined || slotIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "slotId parameter is required."
+      });
+      return;
+    }
+
+    const { holdTtlSeconds } = loadConfig();
+    const booking = await createSeatHold(slotIdParam, holdTtlSeconds);
+
+    res.status(201).json({
+      booking: toPublicBooking(booking)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Slot not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Slot is full.") {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Confirms a seat hold as a booking for the named patient.
+ * POST /api/bookings/:bookingId/confirm
+ * Body: { userName, patientEmail, patientPhone?, dateOfBirth?, startTime?, visitReason?, intakeAnswers? }
+ *
+ * @param {Request} req Express request containing hold identifier and patient name.
+ * @param {Response} res Express response used to send the confirmed booking.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleConfirmSeatHold(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const bookingIdParam = req.params.bookingId;
+
+    if (bookingIdParam === undefined || bookingIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "bookingId parameter is required."
+      });
+      return;
+    }
+
+    const parseResult = confirmSeatHoldSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid confirmation payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: ConfirmSeatHoldInput = parseResult.data;
+    const hold = await getBookingById(bookingIdParam);
+
+    if (hold === null) {
+      res.status(404).json({ error: "Booking not found." });
+      return;
+    }
+
+    const { intake, errors } = await resolveBookingIntake(
+      hold.slotId,
+      data.visitReason,
+      data.intakeAnswers
+    );
+
+    if (Object.keys(errors).length > 0) {
+      res.status(400).json({
+        error: "Invalid intake answers.",
+        details: errors
+      });
+      return;
+    }
+
+    const booking = await confirmSeatHold(
+      bookingIdParam,
+      toPatientContact(data),
+      data.startTime ?? null,
+      intake
+    );
+
+    res.status(200).json({
+      booking: toPublicBooking(booking)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Booking not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      (error.message === "Hold has expired." ||
+        error.message === "Only held seats can be confirmed." ||
+        error.message === "Slot is no longer available." ||
+        error.message === "Appointment time is already taken." ||
+        error.message.startsWith("Patient already has"))
+    ) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      error.message === "Appointment time is not part of this slot."
+    ) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
 /**
  * Retrieves a booking by its identifier.
  *
@@ -172,16 +548,546 @@ export async function handleGetBookingById(
       return;
     }
 
+    const reschedules = await getBookingReschedules(booking.id);
+
     res.status(200).json({
-      booking
+      booking: toPublicBooking(booking),
+      reschedules
     });
   } catch (error) {
     next(error);
   }
 }
+
+/**
+ * Finds a booking by the reference code given to the patient, checked
+ * against their surname. Wrong codes and wrong surnames get the same 404 so
+ * the endpoint cannot be used to find out which codes exist.
+ * POST /api/bookings/lookup
+ * Body: { referenceCode, surname }
+ *
+ * @param {Request} req Express request containing the code and surname.
+ * @param {Response} res Express response used to send booking data.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleLookupBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = lookupBookingSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid lookup payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: LookupBookingInput = parseResult.data;
+    const booking = await findBookingByReference(data.referenceCode, data.surname);
+
+    if (booking === null) {
+      res.status(404).json({
+        error: "No booking matches that reference and surname."
+      });
+      return;
+    }
+
+    const reschedules = await getBookingReschedules(booking.id);
+
+    res.status(200).json({
+      booking: toPublicBooking(booking),
+      reschedules
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Cancels a booking on behalf of the patient, freeing its seat.
+ * POST /api/bookings/:bookingId/cancel
+ * Body: { reason? }
+ *
+ * @param {Request} req Express request containing booking identifier.
+ * @param {Response} res Express response used to send the cancelled booking.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCancelBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const bookingIdParam = req.params.bookingId;
+
+    if (bookingIdParam === undefined || bookingIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "bookingId parameter is required."
+      });
+      return;
+    }
+
+    const parseResult = cancelBookingSchema.safeParse(req.body ?? {});
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid cancellation payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: CancelBookingInput = parseResult.data;
+    const reason: string | null = data.reason?.trim() || null;
+
+    const booking = await cancelBooking(
+      bookingIdParam,
+      { source: "PATIENT", userId: null },
+      reason
+    );
+
+    res.status(200).json({
+      booking: toPublicBooking(booking)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Booking not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      (error.message === "Booking is already cancelled." ||
+        error.message === "Only confirmed bookings can be cancelled.")
+    ) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Books one seat per attendee in a slot, all or nothing.
+ * POST /api/booking-groups
+ * Body: { slotId, attendees: [{ userName, patientEmail, patientPhone?, dateOfBirth?, visitReason?, intakeAnswers? }], holdId? }
+ *
+ * @param {Request} req Express request containing the slot and attendees.
+ * @param {Response} res Express response used to send the booking group.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCreateGroupBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parseResult = createGroupBookingSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid group booking payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: CreateGroupBookingInput = parseResult.data;
+    const attendees: GroupAttendee[] = [];
+    const attendeeErrors: Record<number, Record<string, string>> = {};
+
+    for (const [index, attendee] of data.attendees.entries()) {
+      const { intake, errors } = await resolveBookingIntake(
+        data.slotId,
+        attendee.visitReason,
+        attendee.intakeAnswers
+      );
+
+      if (Object.keys(errors).length > 0) {
+        attendeeErrors[index] = errors;
+      }
+      attendees.push({
+        patient: toPatientContact(attendee),
+        intake
+      });
+    }
+
+    if (Object.keys(attendeeErrors).length > 0) {
+      // Keyed by attendee position, then question id.
+      res.status(400).json({
+        error: "Invalid intake answers.",
+        details: attendeeErrors
+      });
+      return;
+    }
+
+    try {
+      const group = await createGroupBooking(
+        data.slotId,
+        attendees,
+        data.holdId ?? null
+      );
+
+      res.status(201).json({
+        group: { ...group, bookings: group.bookings.map(toPublicBooking) }
+      });
+    } catch (bookingError) {
+      const message: string | null =
+        bookingError instanceof Error ? bookingError.message : null;
+
+      if (message === "Slot not found.") {
+        res.status(404).json({ error: message });
+        return;
+      }
+      if (message === "Not enough seats left.") {
+        // Nothing was booked; tell the caller how many seats they can still get.
+        const slot = await getSlotWithMetaById(data.slotId);
+        res.status(409).json({
+          error: message,
+          availableSeats: slot?.availableSeats ?? 0
+        });
+        return;
+      }
+      if (message?.startsWith("Patient already has")) {
+        res.status(409).json({ error: message });
+        return;
+      }
+      throw bookingError;
+    }
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Retrieves the bookings of a booking group.
+ * GET /api/booking-groups/:groupId
+ *
+ * @param {Request} req Express request containing group identifier.
+ * @param {Response} res Express response used to send the bookings.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetBookingGroup(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const groupIdParam = req.params.groupId;
+
+    if (groupIdParam === undefined || groupIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "groupId parameter is required."
+      });
+      return;
+    }
+
+    const bookings = await getBookingsByGroupId(groupIdParam);
+
+    if (bookings.length === 0) {
+      res.status(404).json({
+        error: "Booking group not found."
+      });
+      return;
+    }
+
+    res.status(200).json({
+      groupId: groupIdParam,
+      bookings: bookings.map(toPublicBooking)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Cancels every confirmed booking of a group together.
+ * POST /api/booking-groups/:groupId/cancel
+ * Body: { reason? }
+ *
+ * @param {Request} req Express request containing group identifier.
+ * @param {Response} res Express response used to send the group's bookings.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleCancelBookingGroup(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const groupIdParam = req.params.groupId;
+
+    if (groupIdParam === undefined || groupIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "groupId parameter is required."
+      });
+      return;
+    }
+
+    const parseResult = cancelBookingSchema.safeParse(req.body ?? {});
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid cancellation payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: CancelBookingInput = parseResult.data;
+    const reason: string | null = data.reason?.trim() || null;
+
+    const bookings = await cancelBookingGroup(
+      groupIdParam,
+      { source: "PATIENT", userId: null },
+      reason
+    );
+
+    res.status(200).json({
+      groupId: groupIdParam,
+      bookings: bookings.map(toPublicBooking)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Booking group not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      error.message === "Booking group has no confirmed bookings."
+    ) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Moves a booking to another slot, keeping a record of the move.
+ * POST /api/bookings/:bookingId/reschedule
+ * Body: { slotId }
+ *
+ * @param {Request} req Express request containing booking identifier and target slot.
+ * @param {Response} res Express response used to send the moved booking.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleRescheduleBooking(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const bookingIdParam = req.params.bookingId;
+
+    if (bookingIdParam === undefined || bookingIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "bookingId parameter is required."
+      });
+      return;
+    }
+
+    const parseResult = rescheduleBookingSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid reschedule payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: RescheduleBookingInput = parseResult.data;
+
+    const booking = await rescheduleBooking(bookingIdParam, data.slotId, {
+      source: "PATIENT",
+      userId: null
+    });
+    const reschedules = await getBookingReschedules(booking.id);
+
+    res.status(200).json({
+      booking: toPublicBooking(booking),
+      reschedules
+    });
+  } catch (error) {
+    const message: string | null = error instanceof Error ? error.message : null;
+    if (message === "Booking not found." || message === "Slot not found.") {
+      res.status(404).json({ error: message });
+      return;
+    }
+    if (message === "Booking is already in this slot.") {
+      res.status(400).json({ error: message });
+      return;
+    }
+    if (
+      message === "Slot is full." ||
+      message === "Only confirmed bookings can be rescheduled." ||
+      message === "Booking was changed by another request. Please retry." ||
+      message?.startsWith("Patient already has")
+    ) {
+      res.status(409).json({ error: message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Adds the patient to the waitlist of a full slot.
+ * POST /api/slots/:slotId/waitlist
+ * Body: { userName, patientEmail }
+ *
+ * @param {Request} req Express request containing slot identifier and patient name.
+ * @param {Response} res Express response used to send the waitlist entry.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleJoinWaitlist(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const slotIdParam = req.params.slotId;
+
+    if (slotIdParam === undefined || slotIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "slotId parameter is required."
+      });
+      return;
+    }
+
+    const parseResult = joinWaitlistSchema.safeParse(req.body);
+
+    if (!parseResult.success) {
+      res.status(400).json({
+        error: "Invalid waitlist payload.",
+        details: parseResult.error.format()
+      });
+      return;
+    }
+
+    const data: JoinWaitlistInput = parseResult.data;
+    const entry = await joinWaitlist(slotIdParam, data.userName, data.patientEmail);
+
+    res.status(201).json({
+      entry: toPublicWaitlistEntry(entry)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Slot not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof Error &&
+      (error.message === "Slot still has free seats." ||
+        error.message === "Patient is already on this waitlist." ||
+        error.message.startsWith("Patient already has"))
+    ) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Retrieves a waitlist entry, including its place in the queue or the
+ * booking it was promoted to.
+ * GET /api/waitlist/:entryId
+ *
+ * @param {Request} req Express request containing entry identifier.
+ * @param {Response} res Express response used to send the entry.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleGetWaitlistEntry(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entryIdParam = req.params.entryId;
+
+    if (entryIdParam === undefined || entryIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "entryId parameter is required."
+      });
+      return;
+    }
+
+    const entry = await getWaitlistEntryById(entryIdParam);
+
+    if (entry === null) {
+      res.status(404).json({
+        error: "Waitlist entry not found."
+      });
+      return;
+    }
+
+    res.status(200).json({
+      entry: toPublicWaitlistEntry(entry)
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Removes the patient from a slot's waitlist.
+ * POST /api/waitlist/:entryId/leave
+ *
+ * @param {Request} req Express request containing entry identifier.
+ * @param {Response} res Express response used to send the updated entry.
+ * @param {NextFunction} next Next middleware in the chain.
+ * @returns {Promise<void>} Promise that resolves when the response is sent.
+ */
+export async function handleLeaveWaitlist(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entryIdParam = req.params.entryId;
+
+    if (entryIdParam === undefined || entryIdParam.trim().length === 0) {
+      res.status(400).json({
+        error: "entryId parameter is required."
+      });
+      return;
+    }
+
+    const entry = await leaveWaitlist(entryIdParam);
+
+    res.status(200).json({
+      entry: toPublicWaitlistEntry(entry)
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Waitlist entry not found.") {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.message === "Waitlist entry is no longer waiting.") {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
 /**
  * DELETE /api/slots/:slotId
- * Public endpoint to delete a slot if it has no confirmed bookings.
+ * Public endpoint to delete a slot if it has no confirmed bookings. It never
+ * cancels bookings; that needs the confirmed admin endpoint.
  */
 export async function handleDeleteSlot(
   req: Request,
@@ -195,14 +1101,17 @@ export async function handleDeleteSlot(
       return;
     }
 
-    await hardDeleteSlot(slotId);
+    await hardDeleteSlot(slotId, { source: "SYSTEM", userId: null }, false);
 
     res.status(200).json({ message: "Slot deleted." });
   } catch (error) {
     // eslint-disable-next-line no-console
     console.error("Error in handleDeleteSlot:", error);
-    if (error instanceof Error && error.message === "Slot has confirmed bookings and cannot be deleted.") {
-      res.status(403).json({ error: error.message });
+    if (
+      error instanceof Error &&
+      error.message === "Deleting would cancel confirmed bookings; confirm to continue."
+    ) {
+      res.status(409).json({ error: error.message });
       return;
     }
     if (error instanceof Error && error.message === "Slot not found.") {
@@ -6,9 +6,16 @@
 import { createServer, Server } from "http";
 import { createApp } from "./app";
 import { loadConfig } from "./config/env";
+import { releaseExpiredHolds } from "./models/bookingModel";
 
 /**
- * Starts the HTTP server on the configured port.
+ * How often expired seat holds are released.
+ */
+const HOLD_SWEEP_INTERVAL_MS = 30_000;
+
+/**
+ * Starts the HTTP server on the configured port and the periodic release
+ * of expired seat holds.
  */
 function main(): void {
   const config = loadConfig();
@@ -22,6 +29,14 @@ function main(): void {
       `Server is listening on port ${config.port}.`
     );
   });
+
+  const holdSweep = setInterval(() => {
+    releaseExpiredHolds().catch((error: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error("Failed to release expired seat holds:", error);
+    });
+  }, HOLD_SWEEP_INTERVAL_MS);
+  holdSweep.unref();
 }
 
 main();
@@ -0,0 +1,133 @@
+/**
+ * @file auth.ts
+ * @description Authentication and role checks for staff routes.
+ *
+ * A bearer token is accepted when it is either:
+ * - one of the service tokens in ADMIN_TOKENS (acts with the admin role), or
+ * - a session token issued by POST /api/auth/login.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { loadConfig } from "../config/env";
+import { StaffRole } from "../models/types";
+import { SessionClaims, verifySessionToken } from "../utils/sessionToken";
+
+/**
+ * Identity attached to an authenticated request.
+ */
+export interface AuthPrincipal {
+  /** Staff user id, or null when a service token was used. */
+  readonly userId: string | null;
+  readonly role: StaffRole;
+  readonly doctorId: string | null;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      principal?: AuthPrincipal;
+    }
+  }
+}
+
+/**
+ * Extracts the token from an `Authorization: Bearer <token>` header.
+ *
+ * @param {string | undefined} header Raw Authorization header value.
+ * @returns {string | null} Token, or null if the header is missing or malformed.
+ */
+function extractBearerToken(header: string | undefined): string | null {
+  if (header === undefined) {
+    return null;
+  }
+
+  const match = /^Bearer\s+(\S+)\s*$/iu.exec(header);
+  return match === null ? null : match[1];
+}
+
+/**
+ * Compares two tokens in constant time. Both values are hashed first so the
+ * comparison does not leak the expected token's length.
+ *
+ * @param {string} candidate Token supplied by the client.
+ * @param {string} expected Configured token.
+ * @returns {boolean} True when the tokens are equal.
+ */
+function tokensMatch(candidate: string, expected: string): boolean {
+  const a: Buffer = createHash("sha256").update(candidate).digest();
+  const b: Buffer = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Builds middleware that rejects requests without a valid staff credential
+ * and attaches the caller's identity to `req.principal`.
+ * Responds 401 when no bearer token is supplied and 403 when it is not accepted.
+ *
+ * @returns {RequestHandler} Express middleware.
+ */
+export function requireStaffAuth(): RequestHandler {
+  const { adminTokens, sessionSecret } = loadConfig();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const token: string | null = extractBearerToken(req.headers.authorization);
+
+    if (token === null) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      res.status(401).json({ error: "Missing or malformed Authorization header." });
+      return;
+    }
+
+    // Check every configured token so timing does not reveal which one matched.
+    let isServiceToken = false;
+    for (const expected of adminTokens) {
+      if (tokensMatch(token, expected)) {
+        isServiceToken = true;
+      }
+    }
+
+    if (isServiceToken) {
+      req.principal = { userId: null, role: "admin", doctorId: null };
+      next();
+      return;
+    }
+
+    const claims: SessionClaims | null = verifySessionToken(token, sessionSecret);
+
+    if (claims === null) {
+      res.status(403).json({ error: "Invalid or expired token." });
+      return;
+    }
+
+    req.principal = {
+      userId: claims.sub,
+      role: claims.role,
+      doctorId: claims.doctorId
+    };
+    next();
+  };
+}
+
+/**
+ * Builds middleware that only lets through principals holding one of the
+ * given roles. Must run after requireStaffAuth.
+ *
+ * @param {...StaffRole} roles Roles allowed to continue.
+ * @returns {RequestHandler} Express middleware.
+ */
+export function requireRole(...roles: StaffRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const principal: AuthPrincipal | undefined = req.principal;
+
+    if (principal === undefined || !roles.includes(principal.role)) {
+      res.status(403).json({
+        error: `This action requires one of the roles: ${roles.join(", ")}.`
+      });
+      return;
+    }
+
+    next();
+  };
+}
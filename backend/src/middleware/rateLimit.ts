@@ -0,0 +1,67 @@
+/**
+ * @file rateLimit.ts
+ * @description Fixed-window, per-client-IP request limiting for public
+ *              endpoints that could otherwise be used to guess secrets.
+ *
+ * Counters are kept in memory, so each server process limits on its own.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from "express";
+
+/**
+ * Requests counted for one client in the current window.
+ */
+interface RateLimitWindow {
+  count: number;
+  readonly resetAt: number;
+}
+
+/**
+ * Builds middleware that allows at most `max` requests per client IP in each
+ * window and answers 429 with a Retry-After header beyond that.
+ *
+ * @param {number} max Requests allowed per window.
+ * @param {number} windowMs Window length in milliseconds.
+ * @param {string} message Error message sent with the 429 response.
+ * @returns {RequestHandler} Express middleware.
+ */
+export function createRateLimiter(
+  max: number,
+  windowMs: number,
+  message: string
+): RequestHandler {
+  const windows = new Map<string, RateLimitWindow>();
+  let nextSweepAt: number = Date.now() + windowMs;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const now: number = Date.now();
+
+    // Forget clients whose window has ended so the map does not grow forever.
+    if (now >= nextSweepAt) {
+      for (const [key, window] of windows) {
+        if (window.resetAt <= now) {
+          windows.delete(key);
+        }
+      }
+      nextSweepAt = now + windowMs;
+    }
+
+    const key: string = req.ip ?? "unknown";
+    let window: RateLimitWindow | undefined = windows.get(key);
+
+    if (window === undefined || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count += 1;
+
+    if (window.count > max) {
+      res.setHeader("Retry-After", String(Math.ceil((window.resetAt - now) / 1000)));
+      res.status(429).json({ error: message });
+      return;
+    }
+
+    next();
+  };
+}
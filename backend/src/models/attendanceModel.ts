@@ -0,0 +1,103 @@
+/**
+ * @file attendanceModel.ts
+ * @description Attendance lifecycle of a confirmed booking on the day of the
+ *              visit: arrival, consultation, completion or no-show.
+ */
+
+import { PoolClient, QueryResult } from "pg";
+import { withTransaction } from "../config/db";
+import { AttendanceStatus, Booking, BookingActor, BookingStatus } from "./types";
+import { getBookingById } from "./bookingModel";
+import { recordBookingEventsInTransaction } from "./bookingEventModel";
+
+/**
+ * Attendance steps each booking status may move to. A no-show can still be
+ * checked in when the patient turns up late.
+ */
+const ATTENDANCE_TRANSITIONS: Readonly<
+  Partial<Record<BookingStatus, readonly AttendanceStatus[]>>
+> = {
+  CONFIRMED: ["CHECKED_IN", "NO_SHOW"],
+  CHECKED_IN: ["IN_PROGRESS", "NO_SHOW"],
+  IN_PROGRESS: ["COMPLETED"],
+  NO_SHOW: ["CHECKED_IN"]
+};
+
+/**
+ * Timestamp column stamped when a booking enters each attendance status.
+ */
+const ATTENDANCE_TIMESTAMP_COLUMNS: Readonly<Record<AttendanceStatus, string>> = {
+  CHECKED_IN: "checked_in_at",
+  IN_PROGRESS: "started_at",
+  COMPLETED: "completed_at",
+  NO_SHOW: "no_show_at"
+};
+
+/**
+ * Tells whether a booking in one status may move to an attendance status.
+ *
+ * @param {BookingStatus} from Current booking status.
+ * @param {AttendanceStatus} to Requested attendance status.
+ * @returns {boolean} True if the transition is allowed.
+ */
+export function canTransitionAttendance(
+  from: BookingStatus,
+  to: AttendanceStatus
+): boolean {
+  return ATTENDANCE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Moves a booking to the next attendance status and stamps the time it
+ * happened. The booking row is locked so two desks cannot record conflicting
+ * steps at once. The seat stays taken in every attendance status.
+ *
+ * @param {string} bookingId Booking identifier.
+ * @param {AttendanceStatus} status Attendance status to move to.
+ * @param {BookingActor} actor Staff member recording the step.
+ * @returns {Promise<Booking>} Updated booking record.
+ * @throws {Error} If the booking does not exist or cannot move to that status.
+ */
+export async function updateAttendanceStatus(
+  bookingId: string,
+  status: AttendanceStatus,
+  actor: BookingActor
+): Promise<Booking> {
+  await withTransaction<void>(async (client: PoolClient) => {
+    const current: QueryResult<{ status: BookingStatus }> = await client.query(
+      "SELECT status FROM bookings WHERE id = $1 FOR UPDATE",
+      [bookingId]
+    );
+
+    if (current.rowCount === 0) {
+      throw new Error("Booking not found.");
+    }
+
+    const from: BookingStatus = current.rows[0].status;
+
+    if (!canTransitionAttendance(from, status)) {
+      throw new Error(`Booking cannot move from ${from} to ${status}.`);
+    }
+
+    const column: string = ATTENDANCE_TIMESTAMP_COLUMNS[status];
+
+    await client.query(
+      `
+      UPDATE bookings
+      SET status = $2, ${column} = NOW(), updated_at = NOW()
+      WHERE id = $1
+      `,
+      [bookingId, status]
+    );
+
+    await recordBookingEventsInTransaction(client, [bookingId], from, status, actor, null);
+  });
+
+  const booking: Booking | null = await getBookingById(bookingId);
+
+  if (booking === null) {
+    throw new Error("Booking not found.");
+  }
+
+  return booking;
+}
@@ -0,0 +1,218 @@
+/**
+ * @file blackoutModel.ts
+ * @description Doctor leave and clinic-wide holidays. Adding a blackout
+ *              removes the unbooked slots it covers and flags the booked
+ *              ones for staff to reschedule or cancel.
+ */
+
+import { PoolClient, QueryResult } from "pg";
+import { query, withTransaction } from "../config/db";
+import { loadConfig } from "../config/env";
+import { Blackout, BlackoutChange, BlackoutSlot } from "./types";
+import { generateUuid } from "../utils/uuid";
+import { softDeleteSlotsInTransaction } from "./slotModel";
+
+/**
+ * Raw blackouts row joined with the doctor's name and its flagged slots.
+ */
+interface BlackoutDbRow {
+  readonly id: string;
+  readonly doctor_id: string | null;
+  readonly doctor_name: string | null;
+  readonly starts_on: string;
+  readonly ends_on: string;
+  readonly reason: string;
+  readonly created_by_user_id: string | null;
+  readonly created_at: string;
+  readonly flagged_slots: BlackoutSlot[];
+}
+
+/**
+ * Blackout columns selected by every query. Expects aliases `bl` for the
+ * blackout and `d` for its doctor (left joined).
+ */
+const BLACKOUT_COLUMNS: string = `
+  bl.id, bl.doctor_id, d.name AS doctor_name,
+  to_char(bl.starts_on, 'YYYY-MM-DD') AS starts_on,
+  to_char(bl.ends_on, 'YYYY-MM-DD') AS ends_on,
+  bl.reason, bl.created_by_user_id, bl.created_at,
+  COALESCE((
+    SELECT json_agg(json_build_object(
+      'slotId', s.id,
+      'doctorId', s.doctor_id,
+      'doctorName', sd.name,
+      'startTime', s.start_time,
+      'endTime', s.end_time,
+      'bookingCount', (
+        SELECT COUNT(*) FROM bookings b
+        WHERE b.slot_id = s.id
+          AND b.status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
+      )
+    ) ORDER BY s.start_time)
+    FROM slots s
+    INNER JOIN doctors sd ON sd.id = s.doctor_id
+    WHERE s.blackout_id = bl.id AND s.is_active IS NOT FALSE
+  ), '[]'::json) AS flagged_slots`;
+
+/**
+ * Maps a blackouts row to the domain shape.
+ *
+ * @param {BlackoutDbRow} row Database row.
+ * @returns {Blackout} Blackout.
+ */
+function mapBlackoutRow(row: BlackoutDbRow): Blackout {
+  return {
+    id: row.id,
+    doctorId: row.doctor_id,
+    doctorName: row.doctor_name,
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    reason: row.reason,
+    createdByUserId: row.created_by_user_id,
+    createdAt: row.created_at,
+    flaggedSlots: row.flagged_slots
+  };
+}
+
+/**
+ * Lists blackouts that have not ended yet, soonest first, each with its
+ * booked slots still waiting to be rescheduled or cancelled.
+ *
+ * @returns {Promise<Blackout[]>} Current and upcoming blackouts.
+ */
+export async function getBlackouts(): Promise<Blackout[]> {
+  const { clinicTimeZone } = loadConfig();
+
+  const result: QueryResult<BlackoutDbRow> = await query<BlackoutDbRow>(
+    `
+    SELECT ${BLACKOUT_COLUMNS}
+    FROM blackouts bl
+    LEFT JOIN doctors d ON d.id = bl.doctor_id
+    WHERE bl.ends_on >= (NOW() AT TIME ZONE $1)::date
+    ORDER BY bl.starts_on ASC, bl.created_at ASC
+    `,
+    [clinicTimeZone]
+  );
+
+  return result.rows.map(mapBlackoutRow);
+}
+
+/**
+ * Adds a blackout for one doctor, or for the whole clinic when doctorId is
+ * null. Active slots inside it that have not started are found: those
+ * without bookings are soft-deleted, those with bookings stay active for
+ * their patients but are flagged and take no new bookings. Seat holds on
+ * removed slots are released; a hold on a flagged slot is released when the
+ * patient tries to confirm it.
+ *
+ * @param {string | null} doctorId Doctor on leave, or null for a clinic holiday.
+ * @param {string} startsOn First day (YYYY-MM-DD, clinic time zone).
+ * @param {string} endsOn Last day, inclusive.
+ * @param {string} reason Why the doctor or clinic is unavailable.
+ * @param {string | null} userId Staff user adding the blackout.
+ * @returns {Promise<BlackoutChange>} The blackout and how many slots were removed.
+ * @throws {Error} If the doctor does not exist.
+ */
+export async function createBlackout(
+  doctorId: string | null,
+  startsOn: string,
+  endsOn: string,
+  reason: string,
+  userId: string | null
+): Promise<BlackoutChange> {
+  const { clinicTimeZone } = loadConfig();
+
+  return withTransaction<BlackoutChange>(async (client: PoolClient) => {
+    // Slot creation and template generation hold a share lock on the doctor
+    // while they check blackouts.
+    const doctors: QueryResult<{ id: string }> = await client.query(
+      `
+      SELECT id FROM doctors
+      WHERE deleted_at IS NULL AND ($1::uuid IS NULL OR id = $1::uuid)
+      ORDER BY id
+      FOR UPDATE
+      `,
+      [doctorId]
+    );
+
+    if (doctorId !== null && doctors.rowCount === 0) {
+      throw new Error("Doctor not found.");
+    }
+
+    const blackoutId: string = generateUuid();
+
+    await client.query(
+      `
+      INSERT INTO blackouts (id, doctor_id, starts_on, ends_on, reason, created_by_user_id)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      `,
+      [blackoutId, doctorId, startsOn, endsOn, reason, userId]
+    );
+
+    const covered: QueryResult<{ id: string; booked: boolean }> = await client.query(
+      `
+      SELECT s.id,
+        EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.slot_id = s.id
+            AND b.status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
+        ) AS booked
+      FROM slots s
+      WHERE s.is_active IS NOT FALSE
+        AND ($1::uuid IS NULL OR s.doctor_id = $1::uuid)
+        AND s.start_time > NOW()
+        AND s.start_time < ($3::date + 1)::timestamp AT TIME ZONE $4
+        AND s.end_time > $2::date::timestamp AT TIME ZONE $4
+      ORDER BY s.id
+      FOR UPDATE OF s
+      `,
+      [doctorId, startsOn, endsOn, clinicTimeZone]
+    );
+
+    const unbookedIds: string[] = covered.rows.filter((r) => !r.booked).map((r) => r.id);
+    const bookedIds: string[] = covered.rows.filter((r) => r.booked).map((r) => r.id);
+
+    const deactivatedSlotCount: number =
+      unbookedIds.length > 0
+        ? await softDeleteSlotsInTransaction(client, unbookedIds, { source: "STAFF", userId })
+        : 0;
+
+    // A slot already flagged by an earlier blackout keeps that one.
+    if (bookedIds.length > 0) {
+      await client.query(
+        `
+        UPDATE slots SET blackout_id = $1
+        WHERE id = ANY($2::uuid[]) AND blackout_id IS NULL
+        `,
+        [blackoutId, bookedIds]
+      );
+    }
+
+    const saved: QueryResult<BlackoutDbRow> = await client.query(
+      `
+      SELECT ${BLACKOUT_COLUMNS}
+      FROM blackouts bl
+      LEFT JOIN doctors d ON d.id = bl.doctor_id
+      WHERE bl.id = $1
+      `,
+      [blackoutId]
+    );
+
+    return { blackout: mapBlackoutRow(saved.rows[0]), deactivatedSlotCount };
+  });
+}
+
+/**
+ * Removes a blackout. Slots it flagged take bookings again; slots it
+ * soft-deleted stay removed.
+ *
+ * @param {string} blackoutId Blackout identifier.
+ * @throws {Error} If the blackout does not exist.
+ */
+export async function deleteBlackout(blackoutId: string): Promise<void> {
+  const result: QueryResult = await query("DELETE FROM blackouts WHERE id = $1", [blackoutId]);
+
+  if (result.rowCount === 0) {
+    throw new Error("Blackout not found.");
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @file bookingEventModel.ts
+ * @description Append-only history of booking status changes. Events are
+ *              written in the caller's transaction so each one exists exactly
+ *              when the change it records does.
+ */
+
+import { PoolClient, QueryResult } from "pg";
+import { query } from "../config/db";
+import { ActorSource, BookingActor, BookingEvent, BookingStatus } from "./types";
+import { generateUuid } from "../utils/uuid";
+
+/**
+ * Raw booking_events row joined with the acting user's name.
+ */
+interface BookingEventDbRow {
+  readonly id: string;
+  readonly booking_id: string;
+  readonly from_status: BookingStatus | null;
+  readonly to_status: BookingStatus;
+  readonly actor_source: ActorSource;
+  readonly actor_user_id: string | null;
+  readonly actor_name: string | null;
+  readonly reason: string | null;
+  readonly created_at: string;
+}
+
+/**
+ * Records the same status change for one or more bookings inside an existing
+ * transaction.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {readonly string[]} bookingIds Bookings that changed; nothing is written when empty.
+ * @param {BookingStatus | null} fromStatus Status before the change; null for a new booking.
+ * @param {BookingStatus} toStatus Status after the change.
+ * @param {BookingActor} actor Who made the change.
+ * @param {string | null} reason Reason given for the change, if any.
+ * @returns {Promise<void>} Resolves once the events are written.
+ */
+export async function recordBookingEventsInTransaction(
+  client: PoolClient,
+  bookingIds: readonly string[],
+  fromStatus: BookingStatus | null,
+  toStatus: BookingStatus,
+  actor: BookingActor,
+  reason: string | null
+): Promise<void> {
+  if (bookingIds.length === 0) {
+    return;
+  }
+
+  await client.query(
+    `
+    INSERT INTO booking_events (
+      id, booking_id, from_status, to_status, actor_source, actor_user_id, reason
+    )
+    SELECT e.id, e.booking_id, $3, $4, $5, $6, $7
+    FROM unnest($1::uuid[], $2::uuid[]) AS e(id, booking_id)
+    `,
+    [
+      bookingIds.map(() => generateUuid()),
+      bookingIds,
+      fromStatus,
+      toStatus,
+      actor.source,
+      actor.userId,
+      reason
+    ]
+  );
+}
+
+/**
+ * Retrieves a booking's status history, oldest first.
+ *
+ * @param {string} bookingId Booking identifier.
+ * @returns {Promise<BookingEvent[] | null>} Events, or null if the booking does not exist.
+ */
+export async function getBookingEvents(bookingId: string): Promise<BookingEvent[] | null> {
+  const booking: QueryResult<{ id: string }> = await query<{ id: string }>(
+    "SELECT id FROM bookings WHERE id = $1",
+    [bookingId]
+  );
+
+  if (booking.rowCount === 0) {
+    return null;
+  }
+
+  const result: QueryResult<BookingEventDbRow> = await query<BookingEventDbRow>(
+    `
+    SELECT e.id, e.booking_id, e.from_status, e.to_status, e.actor_source,
+           e.actor_user_id, u.name AS actor_name, e.reason, e.created_at
+    FROM booking_events e
+    LEFT JOIN users u ON u.id = e.actor_user_id
+    WHERE e.booking_id = $1
+    ORDER BY e.created_at ASC, e.id ASC
+    `,
+    [bookingId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    bookingId: row.booking_id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    actorSource: row.actor_source,
+    actorUserId: row.actor_user_id,
+    actorName: row.actor_name,
+    reason: row.reason,
+    createdAt: row.created_at
+  }));
+}
@@ -3,66 +3,226 @@
  * @description Data access methods for booking entities, including concurrency-safe creation.
  */
 
+import { createHash } from "crypto";
 import { PoolClient, QueryResult } from "pg";
-import { withTransaction } from "../config/db";
-import { Booking, BookingStatus } from "./types";
-import { lockSlotForUpdate } from "./slotModel";
+import { query, withTransaction } from "../config/db";
+import { loadConfig } from "../config/env";
+import {
+  ActorSource,
+  AppointmentTime,
+  Booking,
+  BookingActor,
+  BookingOrigin,
+  BookingGroup,
+  BookingIntake,
+  BookingReschedule,
+  BookingStatus,
+  BookingWithSlot,
+  IntakeAnswer,
+  Patient,
+  PatientContact
+} from "./types";
+import { LockedSlot, lockSlotForUpdate } from "./slotModel";
+import { promoteWaitlistInTransaction } from "./waitlistModel";
+import { findOrCreatePatientInTransaction } from "./patientModel";
+import { recordBookingEventsInTransaction } from "./bookingEventModel";
 import { generateUuid } from "../utils/uuid";
+import { generateReferenceCode } from "../utils/referenceCode";
+import {
+  filterFreeAppointmentTimes,
+  splitIntoAppointmentTimes
+} from "../utils/appointmentTimes";
+
+/**
+ * Raw bookings row as returned by PostgreSQL.
+ */
+interface BookingDbRow {
+  readonly id: string;
+  readonly reference_code: string;
+  readonly slot_id: string;
+  readonly user_name: string;
+  readonly patient_email: string | null;
+  readonly patient_id: string | null;
+  readonly status: BookingStatus;
+  readonly created_at: string;
+  readonly updated_at: string;
+  readonly created_by: ActorSource;
+  readonly created_by_user_id: string | null;
+  readonly overbook_reason: string | null;
+  readonly cancelled_at: string | null;
+  readonly cancelled_by: ActorSource | null;
+  readonly cancellation_reason: string | null;
+  readonly appointment_start: string | null;
+  readonly appointment_end: string | null;
+  readonly hold_expires_at: string | null;
+  readonly booking_group_id: string | null;
+  readonly checked_in_at: string | null;
+  readonly started_at: string | null;
+  readonly completed_at: string | null;
+  readonly no_show_at: string | null;
+  readonly visit_reason: string | null;
+  readonly intake_answers: IntakeAnswer[];
+}
+
+/**
+ * Booking columns selected by every query that returns a Booking.
+ */
+const BOOKING_COLUMNS: string = `
+  id, reference_code, slot_id, user_name, patient_email, patient_id, status, created_at, updated_at,
+  created_by, created_by_user_id, overbook_reason,
+  cancelled_at, cancelled_by, cancellation_reason,
+  appointment_start, appointment_end, hold_expires_at, booking_group_id,
+  checked_in_at, started_at, completed_at, no_show_at,
+  visit_reason, intake_answers`;
+
+/**
+ * Maps a bookings row to the domain shape.
+ *
+ * @param {BookingDbRow} row Database row.
+ * @returns {Booking} Booking record.
+ */
+function mapBookingRow(row: BookingDbRow): Booking {
+  return {
+    id: row.id,
+    referenceCode: row.reference_code,
+    slotId: row.slot_id,
+    userName: row.user_name,
+    patientEmail: row.patient_email,
+    patientId: row.patient_id,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by,
+    createdByUserId: row.created_by_user_id,
+    overbookReason: row.overbook_reason,
+    cancelledAt: row.cancelled_at,
+    cancelledBy: row.cancelled_by,
+    cancellationReason: row.cancellation_reason,
+    appointmentStart: row.appointment_start,
+    appointmentEnd: row.appointment_end,
+    holdExpiresAt: row.hold_expires_at,
+    bookingGroupId: row.booking_group_id,
+    checkedInAt: row.checked_in_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    noShowAt: row.no_show_at,
+    visitReason: row.visit_reason,
+    intakeAnswers: row.intake_answers
+  };
+}
+
+/**
+ * Number of random reference codes tried before giving up. With 31^5 codes a
+ * second attempt is already rare.
+ */
+const REFERENCE_CODE_ATTEMPTS: number = 10;
+
+/**
+ * Picks a reference code no other booking has. The unique index on
+ * reference_code still guards against two transactions picking the same
+ * code at once.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @returns {Promise<string>} Unused reference code.
+ * @throws {Error} If no free code was found.
+ */
+async function generateUniqueReferenceCodeInTransaction(
+  client: PoolClient
+): Promise<string> {
+  for (let attempt = 0; attempt < REFERENCE_CODE_ATTEMPTS; attempt += 1) {
+    const candidate: string = generateReferenceCode();
+    const taken: QueryResult = await client.query(
+      "SELECT 1 FROM bookings WHERE reference_code = $1",
+      [candidate]
+    );
+
+    if (taken.rowCount === 0) {
+      return candidate;
+    }
+  }
+
+  throw new Error("Could not generate a booking reference.");
+}
 
 /**
  * Inserts a booking record within an existing transaction.
  *
  * @param {PoolClient} client PostgreSQL client inside a transaction.
  * @param {string} slotId Identifier of the slot being booked.
- * @param {string} userName Name of the user creating the booking.
+ * @param {string} userName Patient name as given for this booking.
+ * @param {Patient | null} patient Patient record, if known.
  * @param {BookingStatus} status Booking status to be stored.
+ * @param {AppointmentTime} appointment Appointment time inside the slot.
+ * @param {string | null} bookingGroupId Group the booking belongs to, if any.
+ * @param {BookingIntake | null} intake Visit reason and validated intake answers.
+ * @param {BookingOrigin | null} origin Who created the booking; the patient when null.
  * @returns {Promise<Booking>} Created booking record.
  */
-async function insertBookingInTransaction(
+export async function insertBookingInTransaction(
   client: PoolClient,
   slotId: string,
   userName: string,
-  status: BookingStatus
+  patient: Patient | null,
+  status: BookingStatus,
+  appointment: AppointmentTime,
+  bookingGroupId: string | null = null,
+  intake: BookingIntake | null = null,
+  origin: BookingOrigin | null = null
 ): Promise<Booking> {
   const id: string = generateUuid();
+  const referenceCode: string = await generateUniqueReferenceCodeInTransaction(client);
 
-  const result: QueryResult<{
-    id: string;
-    slot_id: string;
-    user_name: string;
-    status: BookingStatus;
-    created_at: string;
-    updated_at: string;
-  }> = await client.query(
+  const result: QueryResult<BookingDbRow> = await client.query(
     `
-    INSERT INTO bookings (id, slot_id, user_name, status)
-    VALUES ($1, $2, $3, $4)
-    RETURNING id, slot_id, user_name, status, created_at, updated_at
+    INSERT INTO bookings (
+      id, slot_id, user_name, patient_email, patient_id, status, appointment_start,
+      appointment_end, booking_group_id, visit_reason, intake_answers, reference_code,
+      created_by, created_by_user_id, overbook_reason
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    RETURNING ${BOOKING_COLUMNS}
     `,
-    [id, slotId, userName, status]
+    [
+      id,
+      slotId,
+      userName,
+      patient?.email ?? null,
+      patient?.id ?? null,
+      status,
+      appointment.startTime,
+      appointment.endTime,
+      bookingGroupId,
+      intake?.visitReason ?? null,
+      JSON.stringify(intake?.answers ?? []),
+      referenceCode,
+      origin?.actor.source ?? "PATIENT",
+      origin?.actor.userId ?? null,
+      origin?.overbookReason ?? null
+    ]
   );
 
-  const row = result.rows[0];
+  await recordBookingEventsInTransaction(
+    client,
+    [id],
+    null,
+    status,
+    origin?.actor ?? { source: "PATIENT", userId: null },
+    origin?.overbookReason ?? null
+  );
 
-  return {
-    id: row.id,
-    slotId: row.slot_id,
-    userName: row.user_name,
-    status: row.status,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
-  };
+  return mapBookingRow(result.rows[0]);
 }
 
 /**
- * Counts the number of confirmed bookings for a slot
- * inside an existing transaction.
+ * Counts the seats taken in a slot inside an existing transaction:
+ * confirmed bookings (including those already checked in, seen or marked as
+ * no-show) plus holds that have not expired yet.
  *
  * @param {PoolClient} client PostgreSQL client inside a transaction.
  * @param {string} slotId Slot identifier.
- * @returns {Promise<number>} Number of confirmed bookings.
+ * @returns {Promise<number>} Number of taken seats.
  */
-async function countConfirmedBookingsInTransaction(
+export async function countConfirmedBookingsInTransaction(
   client: PoolClient,
   slotId: string
 ): Promise<number> {
@@ -70,7 +230,9 @@ async function countConfirmedBookingsInTransaction(
     `
     SELECT COUNT(*)::int AS confirmed_count
     FROM bookings
-    WHERE slot_id = $1 AND status = 'CONFIRMED'
+    WHERE slot_id = $1
+      AND (status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
+           OR (status = 'PENDING' AND hold_expires_at > NOW()))
     `,
     [slotId]
   );
@@ -79,46 +241,1181 @@ async function countConfirmedBookingsInTransaction(
   return row.confirmed_count;
 }
 
+/**
+ * Lists the appointment times of a locked slot that no live booking
+ * (confirmed or held) occupies.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {LockedSlot} slot Slot locked by the caller.
+ * @param {string | null} ignoreBookingId Booking whose own time counts as free
+ *        (used when a hold or booking changes its time).
+ * @returns {Promise<AppointmentTime[]>} Free appointment times, earliest first.
+ */
+async function getFreeAppointmentTimesInTransaction(
+  client: PoolClient,
+  slot: LockedSlot,
+  ignoreBookingId: string | null = null
+): Promise<AppointmentTime[]> {
+  const taken: QueryResult<{ appointment_start: string }> = await client.query(
+    `
+    SELECT appointment_start
+    FROM bookings
+    WHERE slot_id = $1
+      AND appointment_start IS NOT NULL
+      AND (status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
+           OR (status = 'PENDING' AND hold_expires_at > NOW()))
+      AND ($2::uuid IS NULL OR id <> $2::uuid)
+    `,
+    [slot.id, ignoreBookingId]
+  );
+
+  return filterFreeAppointmentTimes(
+    splitIntoAppointmentTimes(slot.startTime, slot.endTime, slot.capacity),
+    taken.rows.map((row) => row.appointment_start)
+  );
+}
+
+/**
+ * Chooses the appointment time for a booking in a locked slot: the requested
+ * one if given and free, otherwise the earliest free one.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {LockedSlot} slot Slot locked by the caller.
+ * @param {string | null} requestedStart Start time picked by the patient, if any.
+ * @param {string | null} ignoreBookingId Booking whose own time counts as free.
+ * @returns {Promise<AppointmentTime | null>} Chosen time, or null when every
+ *          time is taken and none was requested.
+ * @throws {Error} If the requested time is not in the slot or is already taken.
+ */
+export async function pickAppointmentTimeInTransaction(
+  client: PoolClient,
+  slot: LockedSlot,
+  requestedStart: string | null,
+  ignoreBookingId: string | null = null
+): Promise<AppointmentTime | null> {
+  const free: AppointmentTime[] = await getFreeAppointmentTimesInTransaction(
+    client,
+    slot,
+    ignoreBookingId
+  );
+
+  if (requestedStart === null) {
+    return free[0] ?? null;
+  }
+
+  const requestedMs: number = new Date(requestedStart).getTime();
+  const matches = (time: AppointmentTime): boolean =>
+    new Date(time.startTime).getTime() === requestedMs;
+
+  if (!splitIntoAppointmentTimes(slot.startTime, slot.endTime, slot.capacity).some(matches)) {
+    throw new Error("Appointment time is not part of this slot.");
+  }
+
+  const chosen: AppointmentTime | undefined = free.find(matches);
+  if (chosen === undefined) {
+    throw new Error("Appointment time is already taken.");
+  }
+
+  return chosen;
+}
+
+/**
+ * Looks for a live booking of the same patient that a new appointment would
+ * duplicate or overlap, and describes it. Takes a per-patient advisory lock
+ * first, so two concurrent bookings by one patient in different slots are
+ * checked one after the other. Callers must already hold their slot locks
+ * (slot rows are always locked before the patient).
+ *
+ * A second booking in the same slot and overlaps with the same doctor are
+ * always conflicts; overlaps with another doctor only when
+ * ALLOW_CROSS_DOCTOR_OVERLAP is off.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} patientEmail Patient identity.
+ * @param {string} slotId Slot the appointment is in.
+ * @param {AppointmentTime} appointment Appointment time being booked.
+ * @param {string | null} ignoreBookingId Booking being confirmed or moved.
+ * @returns {Promise<string | null>} Conflict message, or null when there is none.
+ */
+export async function findPatientConflictInTransaction(
+  client: PoolClient,
+  patientEmail: string,
+  slotId: string,
+  appointment: AppointmentTime,
+  ignoreBookingId: string | null = null
+): Promise<string | null> {
+  const { allowCrossDoctorOverlap } = loadConfig();
+
+  await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [
+    `patient:${patientEmail}`
+  ]);
+
+  const result: QueryResult<{
+    slot_id: string;
+    doctor_name: string;
+    start_time: string;
+    end_time: string;
+  }> = await client.query(
+    `
+    SELECT b.slot_id, d.name AS doctor_name,
+           COALESCE(b.appointment_start, s.start_time) AS start_time,
+           COALESCE(b.appointment_end, s.end_time) AS end_time
+    FROM bookings b
+    INNER JOIN slots s ON s.id = b.slot_id
+    INNER JOIN doctors d ON d.id = s.doctor_id
+    INNER JOIN slots target ON target.id = $2
+    WHERE b.patient_email = $1
+      AND (b.status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
+           OR (b.status = 'PENDING' AND b.hold_expires_at > NOW()))
+      AND ($5::uuid IS NULL OR b.id <> $5::uuid)
+      AND (
+        b.slot_id = $2
+        OR (
+          COALESCE(b.appointment_start, s.start_time) < $4::timestamptz
+          AND COALESCE(b.appointment_end, s.end_time) > $3::timestamptz
+          AND (NOT $6::boolean OR s.doctor_id = target.doctor_id)
+        )
+      )
+    ORDER BY (b.slot_id = $2) DESC, start_time ASC
+    LIMIT 1
+    `,
+    [
+      patientEmail,
+      slotId,
+      appointment.startTime,
+      appointment.endTime,
+      ignoreBookingId,
+      allowCrossDoctorOverlap
+    ]
+  );
+
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  const conflict = result.rows[0];
+
+  if (conflict.slot_id === slotId) {
+    return "Patient already has a booking in this slot.";
+  }
+
+  const from: string = new Date(conflict.start_time).toISOString();
+  const to: string = new Date(conflict.end_time).toISOString();
+  return `Patient already has an overlapping appointment with Dr. ${conflict.doctor_name} from ${from} to ${to}.`;
+}
+
+/**
+ * Same as findPatientConflictInTransaction, but throws the conflict.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} patientEmail Patient identity.
+ * @param {string} slotId Slot the appointment is in.
+ * @param {AppointmentTime} appointment Appointment time being booked.
+ * @param {string | null} ignoreBookingId Booking being confirmed or moved.
+ * @throws {Error} If the patient already has a clashing booking.
+ */
+export async function assertNoPatientConflictInTransaction(
+  client: PoolClient,
+  patientEmail: string,
+  slotId: string,
+  appointment: AppointmentTime,
+  ignoreBookingId: string | null = null
+): Promise<void> {
+  const conflict: string | null = await findPatientConflictInTransaction(
+    client,
+    patientEmail,
+    slotId,
+    appointment,
+    ignoreBookingId
+  );
+
+  if (conflict !== null) {
+    throw new Error(conflict);
+  }
+}
+
+/**
+ * Lists the appointment times of a slot that are still free.
+ *
+ * @param {string} slotId Slot identifier.
+ * @returns {Promise<AppointmentTime[] | null>} Free times, or null if the slot does not exist.
+ */
+export async function getFreeAppointmentTimes(
+  slotId: string
+): Promise<AppointmentTime[] | null> {
+  return withTransaction<AppointmentTime[] | null>(async (client: PoolClient) => {
+    const slot: QueryResult<{
+      id: string;
+      capacity: number;
+      start_time: string;
+      end_time: string;
+    }> = await client.query(
+      "SELECT id, capacity, start_time, end_time FROM slots WHERE id = $1",
+      [slotId]
+    );
+
+    if (slot.rowCount === 0) {
+      return null;
+    }
+
+    const row = slot.rows[0];
+    return getFreeAppointmentTimesInTransaction(client, {
+      id: row.id,
+      capacity: row.capacity,
+      isActive: true,
+      startTime: row.start_time,
+      endTime: row.end_time
+    });
+  });
+}
+
+/**
+ * Chooses the appointment time for a booking past a full slot's capacity:
+ * the requested one even if it is taken, otherwise the slot's first time.
+ *
+ * @param {LockedSlot} slot Slot locked by the caller.
+ * @param {string | null} requestedStart Start time picked by staff, if any.
+ * @returns {AppointmentTime} Chosen time, shared with an existing booking.
+ * @throws {Error} If the requested time is not in the slot.
+ */
+function pickOverbookTime(slot: LockedSlot, requestedStart: string | null): AppointmentTime {
+  const times: AppointmentTime[] = splitIntoAppointmentTimes(
+    slot.startTime,
+    slot.endTime,
+    slot.capacity
+  );
+
+  if (requestedStart === null) {
+    return times[0];
+  }
+
+  const requestedMs: number = new Date(requestedStart).getTime();
+  const chosen: AppointmentTime | undefined = times.find(
+    (time) => new Date(time.startTime).getTime() === requestedMs
+  );
+
+  if (chosen === undefined) {
+    throw new Error("Appointment time is not part of this slot.");
+  }
+
+  return chosen;
+}
+
+/**
+ * Books a seat inside an existing transaction, holding the slot lock so the
+ * slot is never overbooked. Only a staff origin with an overbook reason may
+ * book a full slot; the reason is stored only when that happens.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} slotId Identifier of the slot being booked.
+ * @param {PatientContact} patient Patient details; the record is found or created.
+ * @param {string | null} startTime Appointment time picked by the patient, if any.
+ * @param {BookingIntake | null} intake Visit reason and validated intake answers.
+ * @param {BookingOrigin | null} origin Who is booking; the patient when null.
+ * @returns {Promise<Booking>} Created booking record.
+ * @throws {Error} If the slot does not exist, was removed or blacked out, has
+ *                 no remaining capacity, the requested time cannot be booked
+ *                 or the patient already has a clashing booking.
+ */
+async function bookSeatInTransaction(
+  client: PoolClient,
+  slotId: string,
+  patient: PatientContact,
+  startTime: string | null,
+  intake: BookingIntake | null,
+  origin: BookingOrigin | null = null
+): Promise<Booking> {
+  const lockedSlot = await lockSlotForUpdate(client, slotId);
+
+  if (lockedSlot === null || !lockedSlot.isActive) {
+    throw new Error("Slot not found.");
+  }
+
+  const confirmedCount: number = await countConfirmedBookingsInTransaction(
+    client,
+    slotId
+  );
+  const mayOverbook: boolean = origin !== null && origin.overbookReason !== null;
+
+  if (confirmedCount >= lockedSlot.capacity && !mayOverbook) {
+    throw new Error("Slot is full.");
+  }
+
+  const freeTime: AppointmentTime | null =
+    confirmedCount < lockedSlot.capacity
+      ? await pickAppointmentTimeInTransaction(client, lockedSlot, startTime)
+      : null;
+  const overbooked: boolean = freeTime === null;
+
+  if (overbooked && !mayOverbook) {
+    throw new Error("Slot is full.");
+  }
+
+  const appointment: AppointmentTime = freeTime ?? pickOverbookTime(lockedSlot, startTime);
+
+  await assertNoPatientConflictInTransaction(client, patient.email, slotId, appointment);
+
+  const patientRecord: Patient = await findOrCreatePatientInTransaction(
+    client,
+    patient,
+    origin !== null && origin.actor.source === "STAFF"
+  );
+
+  return insertBookingInTransaction(
+    client,
+    slotId,
+    patient.fullName,
+    patientRecord,
+    "CONFIRMED",
+    appointment,
+    null,
+    intake,
+    origin !== null
+      ? { actor: origin.actor, overbookReason: overbooked ? origin.overbookReason : null }
+      : null
+  );
+}
+
 /**
  * Creates a booking using a database transaction and row-level locking
  * to ensure that a slot is never overbooked.
  *
  * @param {string} slotId Identifier of the slot being booked.
- * @param {string} userName Name of the user creating the booking.
+ * @param {PatientContact} patient Patient details; the record is found or created.
+ * @param {string | null} startTime Appointment time picked by the patient;
+ *        the earliest free time when null.
+ * @param {BookingIntake | null} intake Visit reason and validated intake answers.
  * @returns {Promise<Booking>} Created booking record.
- * @throws {Error} If the slot does not exist or has no remaining capacity.
+ * @throws {Error} If the slot does not exist, has no remaining capacity,
+ *                 the requested time cannot be booked or the patient already
+ *                 has a clashing booking.
  */
 export async function createBookingWithConcurrencyControl(
   slotId: string,
-  userName: string
+  patient: PatientContact,
+  startTime: string | null = null,
+  intake: BookingIntake | null = null
+): Promise<Booking> {
+  return withTransaction<Booking>(async (client: PoolClient): Promise<Booking> =>
+    bookSeatInTransaction(client, slotId, patient, startTime, intake)
+  );
+}
+
+/**
+ * Books a seat on behalf of a patient, recording the staff member who made
+ * the booking. With an overbook reason a full slot is booked anyway; the
+ * booking then keeps the reason so staff lists can flag it.
+ *
+ * @param {string} slotId Identifier of the slot being booked.
+ * @param {PatientContact} patient Patient details; the record is found or created.
+ * @param {string | null} startTime Appointment time picked by staff; the
+ *        earliest free time when null.
+ * @param {BookingIntake | null} intake Visit reason and validated intake answers.
+ * @param {BookingActor} actor Staff member making the booking.
+ * @param {string | null} overbookReason Why the slot may be overbooked, if allowed.
+ * @returns {Promise<Booking>} Created booking record.
+ * @throws {Error} If the slot does not exist, is full and no overbook reason
+ *                 was given, the requested time cannot be booked or the
+ *                 patient already has a clashing booking.
+ */
+export async function createStaffBooking(
+  slotId: string,
+  patient: PatientContact,
+  startTime: string | null,
+  intake: BookingIntake | null,
+  actor: BookingActor,
+  overbookReason: string | null
+): Promise<Booking> {
+  return withTransaction<Booking>(async (client: PoolClient): Promise<Booking> =>
+    bookSeatInTransaction(client, slotId, patient, startTime, intake, {
+      actor,
+      overbookReason
+    })
+  );
+}
+
+/**
+ * Creates a booking at most once per idempotency key.
+ *
+ * The key is claimed in the same transaction as the booking. A concurrent
+ * request with the same key waits on the key's row and then sees the stored
+ * booking. Failed attempts roll back the claim, so the key can be retried.
+ *
+ * @param {string} idempotencyKey Client-supplied key for this booking attempt.
+ * @param {string} slotId Identifier of the slot being booked.
+ * @param {PatientContact} patient Patient details; the record is found or created.
+ * @param {string | null} startTime Appointment time picked by the patient, if any.
+ * @param {BookingIntake | null} intake Visit reason and validated intake answers.
+ * @returns {Promise<{ booking: Booking; replayed: boolean }>} The booking, and
+ *          whether it was stored by an earlier request with the same key.
+ * @throws {Error} If the key was used with a different request body, or the
+ *                 slot does not exist or is full, or the patient already has a
+ *                 clashing booking.
+ */
+export async function createBookingWithIdempotencyKey(
+  idempotencyKey: string,
+  slotId: string,
+  patient: PatientContact,
+  startTime: string | null = null,
+  intake: BookingIntake | null = null
+): Promise<{ booking: Booking; replayed: boolean }> {
+  const requestHash: string = createHash("sha256")
+    .update(JSON.stringify({ slotId, patient, startTime, intake }))
+    .digest("hex");
+
+  return withTransaction(async (client: PoolClient) => {
+    const claimed: QueryResult<{ key: string }> = await client.query(
+      `
+      INSERT INTO booking_idempotency_keys (key, request_hash)
+      VALUES ($1, $2)
+      ON CONFLICT (key) DO NOTHING
+      RETURNING key
+      `,
+      [idempotencyKey, requestHash]
+    );
+
+    if (claimed.rowCount === 0) {
+      const existing: QueryResult<{ request_hash: string; response_body: Booking }> =
+        await client.query(
+          "SELECT request_hash, response_body FROM booking_idempotency_keys WHERE key = $1",
+          [idempotencyKey]
+        );
+
+      if (existing.rows[0].request_hash !== requestHash) {
+        throw new Error("Idempotency-Key was already used with a different request.");
+      }
+
+      return { booking: existing.rows[0].response_body, replayed: true };
+    }
+
+    const booking: Booking = await bookSeatInTransaction(
+      client,
+      slotId,
+      patient,
+      startTime,
+      intake
+    );
+
+    await client.query(
+      "UPDATE booking_idempotency_keys SET response_body = $2 WHERE key = $1",
+      [idempotencyKey, JSON.stringify(booking)]
+    );
+
+    return { booking, replayed: false };
+  });
+}
+
+/**
+ * One patient of a group booking.
+ */
+export interface GroupAttendee {
+  readonly patient: PatientContact;
+  readonly intake: BookingIntake | null;
+}
+
+/**
+ * Books one seat per attendee in a slot, all or nothing. Every seat is taken
+ * under the same slot lock and checked against capacity together, so either
+ * the whole group is booked or nothing is. The bookings share a new group id.
+ *
+ * @param {string} slotId Identifier of the slot being booked.
+ * @param {readonly GroupAttendee[]} attendees Patients to book, each with a
+ *        distinct email and their own validated intake.
+ * @param {string | null} holdId Seat hold of the person booking, released in
+ *        favour of the group's seats (kept if the group cannot be booked).
+ * @returns {Promise<BookingGroup>} The group, its bookings and the seats left.
+ * @throws {Error} If the slot does not exist, does not have a seat for every
+ *                 attendee, or an attendee already has a clashing booking.
+ */
+export async function createGroupBooking(
+  slotId: string,
+  attendees: readonly GroupAttendee[],
+  holdId: string | null = null
+): Promise<BookingGroup> {
+  return withTransaction<BookingGroup>(async (client: PoolClient): Promise<BookingGroup> => {
+    const lockedSlot = await lockSlotForUpdate(client, slotId);
+
+    if (lockedSlot === null || !lockedSlot.isActive) {
+      throw new Error("Slot not found.");
+    }
+
+    if (holdId !== null) {
+      const released: QueryResult<{ id: string }> = await client.query(
+        `
+        UPDATE bookings
+        SET status = 'FAILED', updated_at = NOW()
+        WHERE id = $1 AND slot_id = $2 AND status = 'PENDING'
+        RETURNING id
+        `,
+        [holdId, slotId]
+      );
+      await recordBookingEventsInTransaction(
+        client,
+        released.rows.map((r) => r.id),
+        "PENDING",
+        "FAILED",
+        { source: "PATIENT", userId: null },
+        "Hold released for a group booking."
+      );
+    }
+
+    const takenCount: number = await countConfirmedBookingsInTransaction(
+      client,
+      slotId
+    );
+
+    if (takenCount + attendees.length > lockedSlot.capacity) {
+      throw new Error("Not enough seats left.");
+    }
+
+    const groupId: string = generateUuid();
+    const bookings: Booking[] = [];
+
+    // Patient locks are taken in email order so two groups sharing attendees
+    // cannot deadlock on each other.
+    const ordered = [...attendees].sort((a, b) =>
+      a.patient.email.localeCompare(b.patient.email)
+    );
+
+    for (const attendee of ordered) {
+      const appointment: AppointmentTime | null = await pickAppointmentTimeInTransaction(
+        client,
+        lockedSlot,
+        null
+      );
+
+      if (appointment === null) {
+        throw new Error("Not enough seats left.");
+      }
+
+      await assertNoPatientConflictInTransaction(
+        client,
+        attendee.patient.email,
+        slotId,
+        appointment
+      );
+
+      const patientRecord: Patient = await findOrCreatePatientInTransaction(
+        client,
+        attendee.patient
+      );
+
+      bookings.push(
+        await insertBookingInTransaction(
+          client,
+          slotId,
+          attendee.patient.fullName,
+          patientRecord,
+          "CONFIRMED",
+          appointment,
+          groupId,
+          attendee.intake
+        )
+      );
+    }
+
+    return {
+      id: groupId,
+      slotId,
+      bookings,
+      availableSeats: lockedSlot.capacity - takenCount - bookings.length
+    };
+  });
+}
+
+/**
+ * Reserves a seat for a patient who is filling in the booking form. The hold
+ * is a PENDING booking that counts against capacity until it expires.
+ *
+ * @param {string} slotId Identifier of the slot being held.
+ * @param {number} ttlSeconds How long the hold lasts.
+ * @returns {Promise<Booking>} PENDING booking with its expiry time.
+ * @throws {Error} If the slot does not exist or has no remaining capacity.
+ */
+export async function createSeatHold(
+  slotId: string,
+  ttlSeconds: number
 ): Promise<Booking> {
   return withTransaction<Booking>(async (client: PoolClient): Promise<Booking> => {
     const lockedSlot = await lockSlotForUpdate(client, slotId);
 
-    if (lockedSlot === null) {
+    if (lockedSlot === null || !lockedSlot.isActive) {
       throw new Error("Slot not found.");
     }
 
-    const confirmedCount: number = await countConfirmedBookingsInTransaction(
+    const takenCount: number = await countConfirmedBookingsInTransaction(
       client,
       slotId
     );
 
-    if (confirmedCount >= lockedSlot.capacity) {
+    const appointment: AppointmentTime | null =
+      takenCount < lockedSlot.capacity
+        ? await pickAppointmentTimeInTransaction(client, lockedSlot, null)
+        : null;
+
+    if (appointment === null) {
       throw new Error("Slot is full.");
     }
 
-    const booking: Booking = await insertBookingInTransaction(
+    // The patient's name is not known yet; it is filled in on confirmation.
+    // The held time may still change to the one the patient picks.
+    const referenceCode: string = await generateUniqueReferenceCodeInTransaction(client);
+    const result: QueryResult<BookingDbRow> = await client.query(
+      `
+      INSERT INTO bookings (
+        id, slot_id, user_name, status, appointment_start, appointment_end,
+        hold_expires_at, reference_code
+      )
+      VALUES ($1, $2, '', 'PENDING', $3, $4, NOW() + make_interval(secs => $5), $6)
+      RETURNING ${BOOKING_COLUMNS}
+      `,
+      [
+        generateUuid(),
+        slotId,
+        appointment.startTime,
+        appointment.endTime,
+        ttlSeconds,
+        referenceCode
+      ]
+    );
+
+    await recordBookingEventsInTransaction(
       client,
-      slotId,
-      userName,
-      "CONFIRMED"
+      [result.rows[0].id],
+      null,
+      "PENDING",
+      { source: "PATIENT", userId: null },
+      null
+    );
+
+    return mapBookingRow(result.rows[0]);
+  });
+}
+
+/**
+ * Turns a live hold into a CONFIRMED booking for the given patient.
+ * The seat was already counted while held, so no capacity check is needed.
+ *
+ * @param {string} bookingId Identifier of the held (PENDING) booking.
+ * @param {PatientContact} patient Patient details; the record is found or created.
+ * @param {string | null} startTime Appointment time picked by the patient;
+ *        keeps the held time when null.
+ * @param {BookingIntake | null} intake Visit reason and validated intake answers.
+ * @returns {Promise<Booking>} Confirmed booking record.
+ * @throws {Error} If the hold does not exist, has expired or is no longer
+ *                 pending, the slot was removed or blacked out while held
+ *                 (the hold is then released as FAILED), the picked time
+ *                 cannot be booked, or the patient already has a clashing
+ *                 booking.
+ */
+export async function confirmSeatHold(
+  bookingId: string,
+  patient: PatientContact,
+  startTime: string | null = null,
+  intake: BookingIntake | null = null
+): Promise<Booking> {
+  // Null when the hold was released because its slot is no longer bookable;
+  // the release is committed before the error is thrown.
+  const confirmed: Booking | null = await withTransaction<Booking | null>(async (
+    client: PoolClient
+  ): Promise<Booking | null> => {
+    const lookup: QueryResult<{ slot_id: string }> = await client.query(
+      "SELECT slot_id FROM bookings WHERE id = $1",
+      [bookingId]
+    );
+
+    if (lookup.rowCount === 0) {
+      throw new Error("Booking not found.");
+    }
+
+    const lockedSlot = await lockSlotForUpdate(client, lookup.rows[0].slot_id);
+
+    const current: QueryResult<BookingDbRow & { is_expired: boolean }> =
+      await client.query(
+        `
+        SELECT ${BOOKING_COLUMNS}, hold_expires_at <= NOW() AS is_expired
+        FROM bookings
+        WHERE id = $1
+        FOR UPDATE
+        `,
+        [bookingId]
+      );
+    const hold = current.rows[0];
+
+    if (hold.status !== "PENDING") {
+      throw new Error("Only held seats can be confirmed.");
+    }
+
+    if (hold.is_expired) {
+      throw new Error("Hold has expired.");
+    }
+
+    if (lockedSlot === null || !lockedSlot.isActive) {
+      await client.query(
+        "UPDATE bookings SET status = 'FAILED', updated_at = NOW() WHERE id = $1",
+        [bookingId]
+      );
+      await recordBookingEventsInTransaction(
+        client,
+        [bookingId],
+        "PENDING",
+        "FAILED",
+        { source: "PATIENT", userId: null },
+        "Slot is no longer available."
+      );
+      return null;
+    }
+
+    const appointment: AppointmentTime | null =
+      startTime !== null
+        ? await pickAppointmentTimeInTransaction(client, lockedSlot, startTime, bookingId)
+        : null;
+
+    if (hold.appointment_start !== null && hold.appointment_end !== null) {
+      await assertNoPatientConflictInTransaction(
+        client,
+        patient.email,
+        hold.slot_id,
+        appointment ?? { startTime: hold.appointment_start, endTime: hold.appointment_end },
+        bookingId
+      );
+    }
+
+    const patientRecord: Patient = await findOrCreatePatientInTransaction(client, patient);
+
+    const result: QueryResult<BookingDbRow> = await client.query(
+      `
+      UPDATE bookings
+      SET status = 'CONFIRMED',
+          user_name = $2,
+          patient_email = $3,
+          patient_id = $8,
+          appointment_start = COALESCE($4, appointment_start),
+          appointment_end = COALESCE($5, appointment_end),
+          visit_reason = $6,
+          intake_answers = $7,
+          hold_expires_at = NULL,
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${BOOKING_COLUMNS}
+      `,
+      [
+        bookingId,
+        patient.fullName,
+        patient.email,
+        appointment?.startTime ?? null,
+        appointment?.endTime ?? null,
+        intake?.visitReason ?? null,
+        JSON.stringify(intake?.answers ?? []),
+        patientRecord.id
+      ]
+    );
+
+    await recordBookingEventsInTransaction(
+      client,
+      [bookingId],
+      "PENDING",
+      "CONFIRMED",
+      { source: "PATIENT", userId: null },
+      null
+    );
+
+    return mapBookingRow(result.rows[0]);
+  });
+
+  if (confirmed === null) {
+    throw new Error("Slot is no longer available.");
+  }
+
+  return confirmed;
+}
+
+/**
+ * Marks expired holds as FAILED and hands the seats they were blocking to
+ * each slot's waitlist. Runs one transaction per slot, under the slot lock.
+ *
+ * @returns {Promise<number>} Number of holds released.
+ */
+export async function releaseExpiredHolds(): Promise<number> {
+  const expired: QueryResult<{ slot_id: string }> = await query(
+    `
+    SELECT DISTINCT slot_id
+    FROM bookings
+    WHERE status = 'PENDING' AND hold_expires_at <= NOW()
+    `,
+    []
+  );
+
+  let releasedCount = 0;
+
+  for (const { slot_id: slotId } of expired.rows) {
+    releasedCount += await withTransaction<number>(
+      async (client: PoolClient): Promise<number> => {
+        const lockedSlot = await lockSlotForUpdate(client, slotId);
+
+        const released: QueryResult<{ id: string }> = await client.query(
+          `
+          UPDATE bookings
+          SET status = 'FAILED', updated_at = NOW()
+          WHERE slot_id = $1 AND status = 'PENDING' AND hold_expires_at <= NOW()
+          RETURNING id
+          `,
+          [slotId]
+        );
+
+        await recordBookingEventsInTransaction(
+          client,
+          released.rows.map((r) => r.id),
+          "PENDING",
+          "FAILED",
+          { source: "SYSTEM", userId: null },
+          "Hold expired."
+        );
+
+        if (lockedSlot !== null && lockedSlot.isActive) {
+          await promoteWaitlistInTransaction(client, lockedSlot);
+        }
+
+        return released.rowCount ?? 0;
+      }
+    );
+  }
+
+  return releasedCount;
+}
+
+/**
+ * Cancels a confirmed booking. Takes the same slot lock as booking creation
+ * so the freed seat is immediately visible to the next booking attempt, and
+ * hands it to the first patient on the slot's waitlist, if any.
+ *
+ * @param {string} bookingId Booking identifier.
+ * @param {BookingActor} actor Who is cancelling (patient or staff user).
+ * @param {string | null} reason Optional cancellation reason.
+ * @returns {Promise<Booking>} Cancelled booking record.
+ * @throws {Error} If the booking does not exist or is not confirmed.
+ */
+export async function cancelBooking(
+  bookingId: string,
+  actor: BookingActor,
+  reason: string | null
+): Promise<Booking> {
+  return withTransaction<Booking>(async (client: PoolClient): Promise<Booking> => {
+    const lookup: QueryResult<{ slot_id: string }> = await client.query(
+      "SELECT slot_id FROM bookings WHERE id = $1",
+      [bookingId]
+    );
+
+    if (lookup.rowCount === 0) {
+      throw new Error("Booking not found.");
+    }
+
+    const lockedSlot = await lockSlotForUpdate(client, lookup.rows[0].slot_id);
+
+    const current: QueryResult<BookingDbRow> = await client.query(
+      `SELECT ${BOOKING_COLUMNS} FROM bookings WHERE id = $1 FOR UPDATE`,
+      [bookingId]
+    );
+    const status: BookingStatus = current.rows[0].status;
+
+    if (status === "CANCELLED" || status === "CANCELLED_BY_CLINIC") {
+      throw new Error("Booking is already cancelled.");
+    }
+
+    if (status !== "CONFIRMED") {
+      throw new Error("Only confirmed bookings can be cancelled.");
+    }
+
+    const result: QueryResult<BookingDbRow> = await client.query(
+      `
+      UPDATE bookings
+      SET status = 'CANCELLED',
+          cancelled_at = NOW(),
+          cancelled_by = $2,
+          cancelled_by_user_id = $3,
+          cancellation_reason = $4,
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${BOOKING_COLUMNS}
+      `,
+      [bookingId, actor.source, actor.userId, reason]
+    );
+
+    await recordBookingEventsInTransaction(
+      client,
+      [bookingId],
+      status,
+      "CANCELLED",
+      actor,
+      reason
+    );
+
+    if (lockedSlot !== null) {
+      await promoteWaitlistInTransaction(client, lockedSlot);
+    }
+
+    return mapBookingRow(result.rows[0]);
+  });
+}
+
+/**
+ * Cancels every confirmed booking of a group together and hands the freed
+ * seats to the slot's waitlist. Bookings of the group that were already
+ * cancelled are left as they are.
+ *
+ * @param {string} groupId Booking group identifier.
+ * @param {BookingActor} actor Who is cancelling (patient or staff user).
+ * @param {string | null} reason Optional cancellation reason.
+ * @returns {Promise<Booking[]>} Every booking of the group after the change.
+ * @throws {Error} If the group does not exist or has no confirmed bookings left.
+ */
+export async function cancelBookingGroup(
+  groupId: string,
+  actor: BookingActor,
+  reason: string | null
+): Promise<Booking[]> {
+  return withTransaction<Booking[]>(async (client: PoolClient): Promise<Booking[]> => {
+    const lookup: QueryResult<{ slot_id: string }> = await client.query(
+      "SELECT DISTINCT slot_id FROM bookings WHERE booking_group_id = $1 ORDER BY slot_id",
+      [groupId]
+    );
+
+    if (lookup.rowCount === 0) {
+      throw new Error("Booking group not found.");
+    }
+
+    // Members may have been rescheduled into other slots; lock them all in id order.
+    const lockedSlots: LockedSlot[] = [];
+    for (const { slot_id: slotId } of lookup.rows) {
+      const lockedSlot = await lockSlotForUpdate(client, slotId);
+      if (lockedSlot !== null) {
+        lockedSlots.push(lockedSlot);
+      }
+    }
+
+    await client.query(
+      "SELECT id FROM bookings WHERE booking_group_id = $1 FOR UPDATE",
+      [groupId]
+    );
+
+    const cancelled: QueryResult<{ id: string }> = await client.query(
+      `
+      UPDATE bookings
+      SET status = 'CANCELLED',
+          cancelled_at = NOW(),
+          cancelled_by = $2,
+          cancelled_by_user_id = $3,
+          cancellation_reason = $4,
+          updated_at = NOW()
+      WHERE booking_group_id = $1 AND status = 'CONFIRMED'
+      RETURNING id
+      `,
+      [groupId, actor.source, actor.userId, reason]
+    );
+
+    if (cancelled.rowCount === 0) {
+      throw new Error("Booking group has no confirmed bookings.");
+    }
+
+    await recordBookingEventsInTransaction(
+      client,
+      cancelled.rows.map((r) => r.id),
+      "CONFIRMED",
+      "CANCELLED",
+      actor,
+      reason
+    );
+
+    for (const lockedSlot of lockedSlots) {
+      await promoteWaitlistInTransaction(client, lockedSlot);
+    }
+
+    const result: QueryResult<BookingDbRow> = await client.query(
+      `
+      SELECT ${BOOKING_COLUMNS}
+      FROM bookings
+      WHERE booking_group_id = $1
+      ORDER BY appointment_start ASC NULLS LAST, created_at ASC
+      `,
+      [groupId]
+    );
+
+    return result.rows.map(mapBookingRow);
+  });
+}
+
+/**
+ * Lists the bookings of a group, earliest appointment first.
+ *
+ * @param {string} groupId Booking group identifier.
+ * @returns {Promise<Booking[]>} Bookings of the group (empty if it does not exist).
+ */
+export async function getBookingsByGroupId(groupId: string): Promise<Booking[]> {
+  const result: QueryResult<BookingDbRow> = await query<BookingDbRow>(
+    `
+    SELECT ${BOOKING_COLUMNS}
+    FROM bookings
+    WHERE booking_group_id = $1
+    ORDER BY appointment_start ASC NULLS LAST, created_at ASC
+    `,
+    [groupId]
+  );
+
+  return result.rows.map(mapBookingRow);
+}
+
+/**
+ * Moves a confirmed booking to another slot in one transaction.
+ *
+ * Both slot rows are locked in a fixed (id) order so two concurrent
+ * reschedules between the same pair of slots cannot deadlock. The booking row
+ * itself is moved, so the patient never holds two seats and never loses the
+ * original one if the target turns out to be full. Each move is recorded in
+ * booking_reschedules, and the seat freed in the source slot goes to its
+ * waitlist.
+ *
+ * @param {string} bookingId Booking identifier.
+ * @param {string} targetSlotId Slot to move the booking to.
+ * @param {BookingActor} actor Who is moving the booking.
+ * @returns {Promise<Booking>} Updated booking record.
+ * @throws {Error} If the booking or target slot is missing, the target is full,
+ *                 the move would clash with another booking of the patient,
+ *                 or the booking cannot be moved.
+ */
+export async function rescheduleBooking(
+  bookingId: string,
+  targetSlotId: string,
+  actor: BookingActor
+): Promise<Booking> {
+  return withTransaction<Booking>(async (client: PoolClient): Promise<Booking> => {
+    const lookup: QueryResult<{ slot_id: string }> = await client.query(
+      "SELECT slot_id FROM bookings WHERE id = $1",
+      [bookingId]
     );
 
-    return booking;
+    if (lookup.rowCount === 0) {
+      throw new Error("Booking not found.");
+    }
+
+    const sourceSlotId: string = lookup.rows[0].slot_id;
+
+    if (sourceSlotId === targetSlotId) {
+      throw new Error("Booking is already in this slot.");
+    }
+
+    const lockOrder: string[] = [sourceSlotId, targetSlotId].sort();
+    const lockedSlots = new Map<string, LockedSlot | null>();
+    for (const id of lockOrder) {
+      lockedSlots.set(id, await lockSlotForUpdate(client, id));
+    }
+
+    const targetSlot = lockedSlots.get(targetSlotId) ?? null;
+    if (targetSlot === null || !targetSlot.isActive) {
+      throw new Error("Slot not found.");
+    }
+
+    const current: QueryResult<BookingDbRow> = await client.query(
+      `SELECT ${BOOKING_COLUMNS} FROM bookings WHERE id = $1 FOR UPDATE`,
+      [bookingId]
+    );
+    const booking: BookingDbRow = current.rows[0];
+
+    // Another request moved the booking between the lookup and the locks.
+    if (booking.slot_id !== sourceSlotId) {
+      throw new Error("Booking was changed by another request. Please retry.");
+    }
+
+    if (booking.status !== "CONFIRMED") {
+      throw new Error("Only confirmed bookings can be rescheduled.");
+    }
+
+    const confirmedCount: number = await countConfirmedBookingsInTransaction(
+      client,
+      targetSlotId
+    );
+
+    const appointment: AppointmentTime | null =
+      confirmedCount < targetSlot.capacity
+        ? await pickAppointmentTimeInTransaction(client, targetSlot, null)
+        : null;
+
+    if (appointment === null) {
+      throw new Error("Slot is full.");
+    }
+
+    if (booking.patient_email !== null) {
+      await assertNoPatientConflictInTransaction(
+        client,
+        booking.patient_email,
+        targetSlotId,
+        appointment,
+        bookingId
+      );
+    }
+
+    const result: QueryResult<BookingDbRow> = await client.query(
+      `
+      UPDATE bookings
+      SET slot_id = $2, appointment_start = $3, appointment_end = $4, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${BOOKING_COLUMNS}
+      `,
+      [bookingId, targetSlotId, appointment.startTime, appointment.endTime]
+    );
+
+    await client.query(
+      `
+      INSERT INTO booking_reschedules (id, booking_id, from_slot_id, to_slot_id, moved_by, moved_by_user_id)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      `,
+      [generateUuid(), bookingId, sourceSlotId, targetSlotId, actor.source, actor.userId]
+    );
+
+    const sourceSlot = lockedSlots.get(sourceSlotId) ?? null;
+    if (sourceSlot !== null) {
+      await promoteWaitlistInTransaction(client, sourceSlot);
+    }
+
+    return mapBookingRow(result.rows[0]);
   });
 }
 
+/**
+ * Lists the moves made to a booking, oldest first.
+ *
+ * @param {string} bookingId Booking identifier.
+ * @returns {Promise<BookingReschedule[]>} Reschedule history.
+ */
+export async function getBookingReschedules(
+  bookingId: string
+): Promise<BookingReschedule[]> {
+  const result: QueryResult<{
+    id: string;
+    booking_id: string;
+    from_slot_id: string | null;
+    to_slot_id: string | null;
+    moved_by: ActorSource;
+    created_at: string;
+  }> = await query(
+    `
+    SELECT id, booking_id, from_slot_id, to_slot_id, moved_by, created_at
+    FROM booking_reschedules
+    WHERE booking_id = $1
+    ORDER BY created_at ASC
+    `,
+    [bookingId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    bookingId: row.booking_id,
+    fromSlotId: row.from_slot_id,
+    toSlotId: row.to_slot_id,
+    movedBy: row.moved_by,
+    createdAt: row.created_at
+  }));
+}
+
 /**
  * Retrieves a booking by its identifier.
  *
@@ -128,36 +1425,146 @@ export async function createBookingWithConcurrencyControl(
 export async function getBookingById(
   bookingId: string
 ): Promise<Booking | null> {
-  const result: QueryResult<{
-    id: string;
-    slot_id: string;
-    user_name: string;
-    status: BookingStatus;
-    created_at: string;
-    updated_at: string;
-  }> = await import("../config/db").then((module) =>
-    module.query(
-      `
-      SELECT id, slot_id, user_name, status, created_at, updated_at
-      FROM bookings
-      WHERE id = $1
-      `,
-      [bookingId]
-    )
+  const result: QueryResult<BookingDbRow> = await query<BookingDbRow>(
+    `
+    SELECT ${BOOKING_COLUMNS}
+    FROM bookings
+    WHERE id = $1
+    `,
+    [bookingId]
   );
 
   if (result.rowCount === 0) {
     return null;
   }
 
-  const row = result.rows[0];
+  return mapBookingRow(result.rows[0]);
+}
 
-  return {
-    id: row.id,
-    slotId: row.slot_id,
-    userName: row.user_name,
-    status: row.status,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
-  };
+/**
+ * Finds a booking by its reference code, but only when the surname matches
+ * the patient's name (its last word, ignoring case and accents). Seat holds
+ * that were never confirmed are not found.
+ *
+ * @param {string} referenceCode Reference code in its stored form.
+ * @param {string} surname Surname given by the caller.
+ * @returns {Promise<Booking | null>} Booking if code and surname match, otherwise null.
+ */
+export async function findBookingByReference(
+  referenceCode: string,
+  surname: string
+): Promise<Booking | null> {
+  const result: QueryResult<BookingDbRow> = await query<BookingDbRow>(
+    `
+    SELECT ${BOOKING_COLUMNS}
+    FROM bookings
+    WHERE reference_code = $1 AND status NOT IN ('PENDING', 'FAILED')
+    `,
+    [referenceCode]
+  );
+
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  const booking: Booking = mapBookingRow(result.rows[0]);
+  const nameParts: string[] = booking.userName.trim().split(/\s+/);
+  const bookedSurname: string = nameParts[nameParts.length - 1];
+
+  return bookedSurname.localeCompare(surname.trim(), undefined, { sensitivity: "base" }) === 0
+    ? booking
+    : null;
+}
+
+/**
+ * Retrieves the most recent bookings with their slot and doctor, for staff.
+ * Seat holds that were never confirmed are left out.
+ *
+ * @param {string | null} doctorId Optional doctor to restrict the list to.
+ * @param {number} limit Maximum number of bookings to return.
+ * @returns {Promise<BookingWithSlot[]>} Bookings ordered newest first.
+ */
+export async function getRecentBookings(
+  doctorId: string | null = null,
+  limit: number = 100
+): Promise<BookingWithSlot[]> {
+  const result: QueryResult<
+    BookingDbRow & {
+      doctor_id: string;
+      doctor_name: string;
+      start_time: string;
+      end_time: string;
+    }
+  > = await query(
+    `
+    SELECT b.id, b.reference_code, b.slot_id, b.user_name, b.patient_email, b.patient_id,
+           b.status, b.created_at, b.updated_at,
+           b.created_by, b.created_by_user_id, b.overbook_reason,
+           b.cancelled_at, b.cancelled_by, b.cancellation_reason,
+           b.appointment_start, b.appointment_end, b.hold_expires_at, b.booking_group_id,
+           b.checked_in_at, b.started_at, b.completed_at, b.no_show_at,
+           b.visit_reason, b.intake_answers,
+           s.doctor_id, d.name AS doctor_name, s.start_time, s.end_time
+    FROM bookings b
+    INNER JOIN slots s ON s.id = b.slot_id
+    INNER JOIN doctors d ON d.id = s.doctor_id
+    WHERE ($1::uuid IS NULL OR s.doctor_id = $1::uuid)
+      AND b.status NOT IN ('PENDING', 'FAILED')
+    ORDER BY b.created_at DESC
+    LIMIT $2
+    `,
+    [doctorId, limit]
+  );
+
+  return result.rows.map((row) => ({
+    ...mapBookingRow(row),
+    doctorId: row.doctor_id,
+    doctorName: row.doctor_name,
+    slotStartTime: row.start_time,
+    slotEndTime: row.end_time
+  }));
+}
+
+/**
+ * Retrieves a patient's booking history with slot and doctor, latest
+ * appointment first. Seat holds that were never confirmed are left out.
+ *
+ * @param {string} patientId Patient identifier.
+ * @returns {Promise<BookingWithSlot[]>} The patient's bookings.
+ */
+export async function getBookingsByPatientId(patientId: string): Promise<BookingWithSlot[]> {
+  const result: QueryResult<
+    BookingDbRow & {
+      doctor_id: string;
+      doctor_name: string;
+      start_time: string;
+      end_time: string;
+    }
+  > = await query(
+    `
+    SELECT b.id, b.reference_code, b.slot_id, b.user_name, b.patient_email, b.patient_id,
+           b.status, b.created_at, b.updated_at,
+           b.created_by, b.created_by_user_id, b.overbook_reason,
+           b.cancelled_at, b.cancelled_by, b.cancellation_reason,
+           b.appointment_start, b.appointment_end, b.hold_expires_at, b.booking_group_id,
+           b.checked_in_at, b.started_at, b.completed_at, b.no_show_at,
+           b.visit_reason, b.intake_answers,
+           s.doctor_id, d.name AS doctor_name, s.start_time, s.end_time
+    FROM bookings b
+    INNER JOIN slots s ON s.id = b.slot_id
+    INNER JOIN doctors d ON d.id = s.doctor_id
+    WHERE b.patient_id = $1
+      AND b.status NOT IN ('PENDING', 'FAILED')
+    ORDER BY COALESCE(b.appointment_start, s.start_time) DESC
+    `,
+    [patientId]
+  );
+
+  return result.rows.map((row) => ({
+    ...mapBookingRow(row),
+    doctorId: row.doctor_id,
+    doctorName: row.doctor_name,
+    slotStartTime: row.start_time,
+    slotEndTime: row.end_time
+  }));
 }
@@ -4,87 +4,265 @@
  * @description DB helpers for doctor records.
  */
 
-import { QueryResult } from "pg";
-import pool from "../config/db"; 
+import { PoolClient, QueryResult } from "pg";
+import pool, { withTransaction } from "../config/db"; 
 import { generateUuid } from "../utils/uuid";
+import { BookingActor, DeletionImpact, Doctor, DoctorProfileChanges, Specialization } from "./types";
+import { getDeletionImpactInTransaction, removeSlotsInTransaction } from "./slotModel";
+import {
+  doctorSpecializationsJson,
+  setDoctorSpecializationsInTransaction
+} from "./specializationModel";
 
 export interface DoctorDbRow {
   readonly id: string;
   readonly name: string;
-  readonly specialization: string;
+  readonly specializations: Specialization[];
+  readonly bio: string | null;
+  readonly qualifications: string[];
+  readonly languages: string[];
+  readonly consultation_fee_cents: number | null;
+  readonly photo_url: string | null;
+  readonly accepting_new_patients: boolean;
   readonly created_at: string;
+  readonly updated_at: string;
 }
 
 /**
- * Inserts a new doctor and returns the inserted row.
- *
- * @param name Doctor name.
- * @param specialization Doctor specialization.
+ * Doctor columns returned by every query.
  */
-export async function createDoctor(
-  name: string,
-  specialization: string
-): Promise<{ readonly id: string; readonly name: string; readonly specialization: string; readonly createdAt: string }> {
-  const id: string = generateUuid();
+const DOCTOR_COLUMNS: string = `
+  id, name, ${doctorSpecializationsJson("doctors.id")} AS specializations,
+  bio, qualifications, languages, consultation_fee_cents, photo_url,
+  accepting_new_patients, created_at, updated_at`;
 
-  const sql: string = `
-    INSERT INTO doctors (id, name, specialization)
-    VALUES ($1, $2, $3)
-    RETURNING id, name, specialization, created_at;
-  `;
-  const values = [id, name, specialization];
-
-  const result: QueryResult<DoctorDbRow> = await pool.query(sql, values);
-  const row = result.rows[0];
+/**
+ * Profile fields an update may change, by their column. Specializations are
+ * stored in doctor_specializations instead.
+ */
+const UPDATABLE_COLUMNS: Readonly<
+  Record<Exclude<keyof DoctorProfileChanges, "specializationIds">, string>
+> = {
+  name: "name",
+  bio: "bio",
+  qualifications: "qualifications",
+  languages: "languages",
+  consultationFeeCents: "consultation_fee_cents",
+  photoUrl: "photo_url",
+  acceptingNewPatients: "accepting_new_patients"
+};
 
+/**
+ * Maps a doctors row to the domain shape.
+ *
+ * @param {DoctorDbRow} row Database row.
+ * @returns {Doctor} Doctor.
+ */
+function mapDoctorRow(row: DoctorDbRow): Doctor {
   return {
     id: row.id,
     name: row.name,
-    specialization: row.specialization,
-    createdAt: row.created_at
+    specializations: row.specializations,
+    bio: row.bio,
+    qualifications: row.qualifications,
+    languages: row.languages,
+    consultationFeeCents: row.consultation_fee_cents,
+    photoUrl: row.photo_url,
+    acceptingNewPatients: row.accepting_new_patients,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
   };
 }
 
 /**
- * Returns all doctors ordered by creation time descending.
+ * Reads a doctor inside a transaction.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} doctorId Doctor ID.
+ * @returns {Promise<Doctor>} The doctor.
  */
-export async function getAllDoctors(): Promise<
-  { readonly id: string; readonly name: string; readonly specialization: string; readonly createdAt: string }[]
-> {
+async function selectDoctor(client: PoolClient, doctorId: string): Promise<Doctor> {
+  const result: QueryResult<DoctorDbRow> = await client.query(
+    `SELECT ${DOCTOR_COLUMNS} FROM doctors WHERE id = $1`,
+    [doctorId]
+  );
+  return mapDoctorRow(result.rows[0]);
+}
+
+/**
+ * Inserts a new doctor with their specializations and returns it.
+ *
+ * @param {string} name Doctor name.
+ * @param {readonly string[]} specializationIds Catalogue specializations, main one first.
+ * @returns {Promise<Doctor>} Created doctor.
+ * @throws {Error} If a specialization does not exist.
+ */
+export async function createDoctor(
+  name: string,
+  specializationIds: readonly string[]
+): Promise<Doctor> {
+  return withTransaction<Doctor>(async (client: PoolClient) => {
+    const id: string = generateUuid();
+
+    await client.query("INSERT INTO doctors (id, name) VALUES ($1, $2)", [id, name]);
+    await setDoctorSpecializationsInTransaction(client, id, specializationIds);
+
+    return selectDoctor(client, id);
+  });
+}
+
+/**
+ * Returns all doctors that have not been deleted, newest first.
+ *
+ * @returns {Promise<Doctor[]>} Doctors.
+ */
+export async function getAllDoctors(): Promise<Doctor[]> {
   const sql: string = `
-    SELECT id, name, specialization, created_at
+    SELECT ${DOCTOR_COLUMNS}
     FROM doctors
+    WHERE deleted_at IS NULL
     ORDER BY created_at DESC
     LIMIT 100;
   `;
   const result: QueryResult<DoctorDbRow> = await pool.query(sql);
-  return result.rows.map((r: DoctorDbRow) => ({
-    id: r.id,
-    name: r.name,
-    specialization: r.specialization,
-    createdAt: r.created_at
-  }));
+  return result.rows.map(mapDoctorRow);
 }
 
 /**
- * Deletes a doctor by ID.
- * Throws an error if the doctor has active slots with confirmed bookings.
+ * Returns a doctor's profile.
  *
- * @param doctorId Doctor ID to delete.
- * @throws {Error} If doctor not found or has active slots with bookings.
+ * @param {string} doctorId Doctor ID.
+ * @returns {Promise<Doctor | null>} The doctor, or null if not found or deleted.
  */
-export async function deleteDoctor(doctorId: string): Promise<void> {
-  // Check if doctor exists
-  const checkSql: string = "SELECT id FROM doctors WHERE id = $1";
-  const checkResult: QueryResult<{ id: string }> = await pool.query(checkSql, [doctorId]);
+export async function getDoctorById(doctorId: string): Promise<Doctor | null> {
+  const result: QueryResult<DoctorDbRow> = await pool.query(
+    `SELECT ${DOCTOR_COLUMNS} FROM doctors WHERE id = $1 AND deleted_at IS NULL`,
+    [doctorId]
+  );
 
-  if (checkResult.rows.length === 0) {
-    throw new Error("Doctor not found.");
+  if (result.rowCount === 0) {
+    return null;
   }
-  // Hard-delete the doctor. `slots` references `doctors` with
-  // ON DELETE CASCADE and `bookings` references `slots` with
-  // ON DELETE CASCADE in the DB schema, so deleting the doctor
-  // will remove related slots and bookings automatically.
-  const deleteSql: string = "DELETE FROM doctors WHERE id = $1";
-  await pool.query(deleteSql, [doctorId]);
+
+  return mapDoctorRow(result.rows[0]);
+}
+
+/**
+ * Changes the profile fields given; fields left undefined keep their value.
+ *
+ * @param {string} doctorId Doctor ID.
+ * @param {DoctorProfileChanges} changes Validated profile fields to change.
+ * @returns {Promise<Doctor>} The updated doctor.
+ * @throws {Error} If the doctor or a specialization is not found.
+ */
+export async function updateDoctor(doctorId: string, changes: DoctorProfileChanges): Promise<Doctor> {
+  const assignments: string[] = [];
+  const values: unknown[] = [doctorId];
+
+  for (const [field, column] of Object.entries(UPDATABLE_COLUMNS)) {
+    const value: unknown = changes[field as keyof DoctorProfileChanges];
+    if (value !== undefined) {
+      values.push(value);
+      assignments.push(`${column} = $${values.length}`);
+    }
+  }
+
+  return withTransaction<Doctor>(async (client: PoolClient) => {
+    const result: QueryResult = await client.query(
+      `
+      UPDATE doctors
+      SET ${[...assignments, "updated_at = NOW()"].join(", ")}
+      WHERE id = $1 AND deleted_at IS NULL
+      `,
+      values
+    );
+
+    if (result.rowCount === 0) {
+      throw new Error("Doctor not found.");
+    }
+
+    if (changes.specializationIds !== undefined) {
+      await setDoctorSpecializationsInTransaction(client, doctorId, changes.specializationIds);
+    }
+
+    return selectDoctor(client, doctorId);
+  });
+}
+
+/**
+ * Reports what deleting a doctor would affect, without changing anything.
+ *
+ * @param {string} doctorId Doctor ID.
+ * @returns {Promise<DeletionImpact | null>} The impact, or null if the doctor does not exist.
+ */
+export async function getDoctorDeletionImpact(doctorId: string): Promise<DeletionImpact | null> {
+  return withTransaction<DeletionImpact | null>(async (client: PoolClient) => {
+    const doctor: QueryResult<{ id: string }> = await client.query(
+      "SELECT id FROM doctors WHERE id = $1 AND deleted_at IS NULL",
+      [doctorId]
+    );
+    if (doctor.rowCount === 0) {
+      return null;
+    }
+
+    const slots: QueryResult<{ id: string }> = await client.query(
+      "SELECT id FROM slots WHERE doctor_id = $1",
+      [doctorId]
+    );
+    return getDeletionImpactInTransaction(client, slots.rows.map((r) => r.id));
+  });
+}
+
+/**
+ * Deletes a doctor by ID. Their slots are removed the same way as a single
+ * slot (see removeSlotsInTransaction), so confirmed bookings are cancelled by
+ * the clinic rather than dropped. The doctor is always kept as deleted, so
+ * remaining bookings keep their doctor and a linked staff login is not
+ * removed with it; their slot templates are ended.
+ *
+ * @param {string} doctorId Doctor ID to delete.
+ * @param {BookingActor} actor Staff member deleting the doctor.
+ * @param {boolean} confirmed Whether cancelling confirmed bookings was confirmed.
+ * @returns {Promise<number>} Number of bookings cancelled by the clinic.
+ * @throws {Error} If the doctor is not found, or bookings would be cancelled
+ *                 without confirmation.
+ */
+export async function deleteDoctor(
+  doctorId: string,
+  actor: BookingActor,
+  confirmed: boolean
+): Promise<number> {
+  return withTransaction<number>(async (client: PoolClient) => {
+    const doctor: QueryResult<{ id: string }> = await client.query(
+      "SELECT id FROM doctors WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
+      [doctorId]
+    );
+    if (doctor.rowCount === 0) {
+      throw new Error("Doctor not found.");
+    }
+
+    // Same lock order as booking: slot rows first, in id order.
+    const slots: QueryResult<{ id: string }> = await client.query(
+      "SELECT id FROM slots WHERE doctor_id = $1 ORDER BY id FOR UPDATE",
+      [doctorId]
+    );
+    const cancelledCount: number = await removeSlotsInTransaction(
+      client,
+      slots.rows.map((r) => r.id),
+      actor,
+      "The doctor is no longer available at the clinic.",
+      confirmed
+    );
+
+    await client.query(
+      "UPDATE slot_templates SET ended_at = NOW(), updated_at = NOW() WHERE doctor_id = $1 AND ended_at IS NULL",
+      [doctorId]
+    );
+
+    // Never a hard delete: the users row of the doctor's staff login would
+    // cascade with it.
+    await client.query("UPDATE doctors SET deleted_at = NOW() WHERE id = $1", [doctorId]);
+
+    return cancelledCount;
+  });
 }
@@ -0,0 +1,203 @@
+/**
+ * @file intakeModel.ts
+ * @description Data access methods for intake questions asked when booking.
+ */
+
+import { QueryResult } from "pg";
+import { query } from "../config/db";
+import { BookingIntake, IntakeQuestion, IntakeQuestionType } from "./types";
+import { generateUuid } from "../utils/uuid";
+import { validateIntakeAnswers } from "../utils/intakeAnswers";
+
+/**
+ * Raw intake_questions row as returned by PostgreSQL.
+ */
+interface IntakeQuestionDbRow {
+  readonly id: string;
+  readonly doctor_id: string | null;
+  readonly specialization_id: string | null;
+  readonly specialization_name: string | null;
+  readonly prompt: string;
+  readonly question_type: IntakeQuestionType;
+  readonly options: string[];
+  readonly required: boolean;
+  readonly position: number;
+  readonly created_at: string;
+}
+
+/**
+ * Intake question columns selected by every query. Expects alias `q`.
+ */
+const INTAKE_QUESTION_COLUMNS: string = `
+  q.id, q.doctor_id, q.specialization_id,
+  (SELECT name FROM specializations WHERE id = q.specialization_id) AS specialization_name,
+  q.prompt, q.question_type, q.options, q.required, q.position, q.created_at`;
+
+/**
+ * Maps an intake_questions row to the domain shape.
+ *
+ * @param {IntakeQuestionDbRow} row Database row.
+ * @returns {IntakeQuestion} Intake question.
+ */
+function mapIntakeQuestionRow(row: IntakeQuestionDbRow): IntakeQuestion {
+  return {
+    id: row.id,
+    doctorId: row.doctor_id,
+    specializationId: row.specialization_id,
+    specializationName: row.specialization_name,
+    prompt: row.prompt,
+    type: row.question_type,
+    options: row.options,
+    required: row.required,
+    position: row.position,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Fields of a new intake question. Exactly one of doctorId and
+ * specializationId is set.
+ */
+export interface NewIntakeQuestion {
+  readonly doctorId: string | null;
+  readonly specializationId: string | null;
+  readonly prompt: string;
+  readonly type: IntakeQuestionType;
+  readonly options: readonly string[];
+  readonly required: boolean;
+  readonly position: number;
+}
+
+/**
+ * Inserts an intake question.
+ *
+ * @param {NewIntakeQuestion} question Question to add.
+ * @returns {Promise<IntakeQuestion>} Created question.
+ * @throws {Error} If the doctor or specialization does not exist.
+ */
+export async function createIntakeQuestion(
+  question: NewIntakeQuestion
+): Promise<IntakeQuestion> {
+  try {
+    const result: QueryResult<IntakeQuestionDbRow> = await query<IntakeQuestionDbRow>(
+      `
+      INSERT INTO intake_questions AS q
+        (id, doctor_id, specialization_id, prompt, question_type, options, required, position)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING ${INTAKE_QUESTION_COLUMNS}
+      `,
+      [
+        generateUuid(),
+        question.doctorId,
+        question.specializationId,
+        question.prompt,
+        question.type,
+        JSON.stringify(question.options),
+        question.required,
+        question.position
+      ]
+    );
+
+    return mapIntakeQuestionRow(result.rows[0]);
+  } catch (error) {
+    const code: unknown = (error as { code?: unknown }).code;
+    if (code === "23503") {
+      const constraint: unknown = (error as { constraint?: unknown }).constraint;
+      throw new Error(
+        typeof constraint === "string" && constraint.includes("specialization")
+          ? "Specialization not found."
+          : "Doctor not found."
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists every configured intake question, grouped by what it applies to.
+ *
+ * @returns {Promise<IntakeQuestion[]>} All intake questions.
+ */
+export async function getAllIntakeQuestions(): Promise<IntakeQuestion[]> {
+  const result: QueryResult<IntakeQuestionDbRow> = await query<IntakeQuestionDbRow>(
+    `
+    SELECT ${INTAKE_QUESTION_COLUMNS}
+    FROM intake_questions q
+    ORDER BY specialization_name ASC NULLS LAST, q.doctor_id, q.position ASC, q.created_at ASC
+    `,
+    []
+  );
+
+  return result.rows.map(mapIntakeQuestionRow);
+}
+
+/**
+ * Lists the questions a patient booking a slot must be asked: those set for
+ * the slot's doctor and those set for any of the doctor's specializations.
+ *
+ * @param {string} slotId Slot identifier.
+ * @returns {Promise<IntakeQuestion[]>} Questions in display order.
+ */
+export async function getIntakeQuestionsForSlot(
+  slotId: string
+): Promise<IntakeQuestion[]> {
+  const result: QueryResult<IntakeQuestionDbRow> = await query<IntakeQuestionDbRow>(
+    `
+    SELECT ${INTAKE_QUESTION_COLUMNS}
+    FROM slots s
+    INNER JOIN doctors d ON d.id = s.doctor_id
+    INNER JOIN intake_questions q
+      ON q.doctor_id = d.id
+      OR q.specialization_id IN (
+        SELECT specialization_id FROM doctor_specializations WHERE doctor_id = d.id
+      )
+    WHERE s.id = $1
+    ORDER BY q.position ASC, q.created_at ASC
+    `,
+    [slotId]
+  );
+
+  return result.rows.map(mapIntakeQuestionRow);
+}
+
+/**
+ * Checks a patient's visit reason and intake answers against the questions
+ * configured for the slot's doctor.
+ *
+ * @param {string} slotId Slot being booked.
+ * @param {string | undefined} visitReason Visit reason as submitted.
+ * @param {Record<string, string | boolean> | undefined} intakeAnswers Answers keyed by question id.
+ * @returns {Promise<{ intake: BookingIntake; errors: Record<string, string> }>}
+ *          Intake to store and an error per offending question id.
+ */
+export async function resolveBookingIntake(
+  slotId: string,
+  visitReason: string | undefined,
+  intakeAnswers: Record<string, string | boolean> | undefined
+): Promise<{ intake: BookingIntake; errors: Record<string, string> }> {
+  const questions = await getIntakeQuestionsForSlot(slotId);
+  const { answers, errors } = validateIntakeAnswers(questions, intakeAnswers ?? {});
+
+  return {
+    intake: { visitReason: visitReason || null, answers },
+    errors
+  };
+}
+
+/**
+ * Deletes an intake question. Answers already stored on bookings keep their
+ * copy of the question.
+ *
+ * @param {string} questionId Question identifier.
+ * @throws {Error} If the question does not exist.
+ */
+export async function deleteIntakeQuestion(questionId: string): Promise<void> {
+  const result: QueryResult = await query(
+    "DELETE FROM intake_questions WHERE id = $1",
+    [questionId]
+  );
+
+  if (result.rowCount === 0) {
+    throw new Error("Intake question not found.");
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * @file notificationModel.ts
+ * @description Queue of messages for patients about changes made to their
+ *              bookings. Messages are written in the caller's transaction so
+ *              they exist exactly when the change does; sending is left to a
+ *              mail sender reading unsent rows.
+ */
+
+import { PoolClient } from "pg";
+import { NotificationKind } from "./types";
+import { generateUuid } from "../utils/uuid";
+
+/**
+ * Queues a message for a patient inside an existing transaction.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} bookingId Booking the message is about.
+ * @param {string} patientEmail Address to send the message to.
+ * @param {NotificationKind} kind Kind of message.
+ * @param {string} message Text of the message.
+ * @returns {Promise<void>} Resolves once the message is queued.
+ */
+export async function queueNotificationInTransaction(
+  client: PoolClient,
+  bookingId: string,
+  patientEmail: string,
+  kind: NotificationKind,
+  message: string
+): Promise<void> {
+  await client.query(
+    `
+    INSERT INTO patient_notifications (id, booking_id, patient_email, kind, message)
+    VALUES ($1, $2, $3, $4, $5)
+    `,
+    [generateUuid(), bookingId, patientEmail, kind, message]
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * @file patientModel.ts
+ * @description Data access methods for patient records.
+ */
+
+import { PoolClient, QueryResult } from "pg";
+import { query } from "../config/db";
+import { Patient, PatientContact, PatientSummary } from "./types";
+import { generateUuid } from "../utils/uuid";
+
+/**
+ * Raw patients row as returned by PostgreSQL.
+ */
+interface PatientDbRow {
+  readonly id: string;
+  readonly full_name: string;
+  readonly email: string;
+  readonly phone: string | null;
+  readonly date_of_birth: string | null;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+/**
+ * Patient columns selected by every query. Expects alias `p`; the date of
+ * birth is formatted so it is not shifted by the server's time zone.
+ */
+const PATIENT_COLUMNS: string = `
+  p.id, p.full_name, p.email, p.phone,
+  to_char(p.date_of_birth, 'YYYY-MM-DD') AS date_of_birth,
+  p.created_at, p.updated_at`;
+
+/**
+ * Maps a patients row to the domain shape.
+ *
+ * @param {PatientDbRow} row Database row.
+ * @returns {Patient} Patient record.
+ */
+function mapPatientRow(row: PatientDbRow): Patient {
+  return {
+    id: row.id,
+    fullName: row.full_name,
+    email: row.email,
+    phone: row.phone,
+    dateOfBirth: row.date_of_birth,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Finds the patient with the given email or creates one. Anyone who knows an
+ * email can book under it, so a patient booking only fills in details the
+ * record is missing. Staff may correct a record: their bookings set the name
+ * and any phone or date of birth given.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {PatientContact} contact Details given when booking.
+ * @param {boolean} overwrite Whether the details replace the stored ones (staff only).
+ * @returns {Promise<Patient>} Patient record.
+ */
+export async function findOrCreatePatientInTransaction(
+  client: PoolClient,
+  contact: PatientContact,
+  overwrite: boolean = false
+): Promise<Patient> {
+  const result: QueryResult<PatientDbRow> = await client.query(
+    `
+    INSERT INTO patients AS p (id, full_name, email, phone, date_of_birth)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (email) DO UPDATE
+    SET full_name = CASE WHEN $6 THEN EXCLUDED.full_name ELSE p.full_name END,
+        phone = CASE WHEN $6 THEN COALESCE(EXCLUDED.phone, p.phone)
+                     ELSE COALESCE(p.phone, EXCLUDED.phone) END,
+        date_of_birth = CASE WHEN $6 THEN COALESCE(EXCLUDED.date_of_birth, p.date_of_birth)
+                             ELSE COALESCE(p.date_of_birth, EXCLUDED.date_of_birth) END,
+        updated_at = NOW()
+    RETURNING ${PATIENT_COLUMNS}
+    `,
+    [
+      generateUuid(),
+      contact.fullName,
+      contact.email,
+      contact.phone,
+      contact.dateOfBirth,
+      overwrite
+    ]
+  );
+
+  return mapPatientRow(result.rows[0]);
+}
+
+/**
+ * Lists patients with their number of bookings and latest appointment,
+ * most recent appointment first.
+ *
+ * @param {string | null} search Optional text matched against name, email and phone.
+ * @param {number} limit Maximum number of patients to return.
+ * @returns {Promise<PatientSummary[]>} Matching patients.
+ */
+export async function getPatients(
+  search: string | null = null,
+  limit: number = 200
+): Promise<PatientSummary[]> {
+  const result: QueryResult<
+    PatientDbRow & { booking_count: number; last_appointment_at: string | null }
+  > = await query(
+    `
+    SELECT ${PATIENT_COLUMNS},
+      COUNT(b.id)::int AS booking_count,
+      MAX(COALESCE(b.appointment_start, s.start_time)) AS last_appointment_at
+    FROM patients p
+    LEFT JOIN bookings b ON b.patient_id = p.id AND b.status NOT IN ('PENDING', 'FAILED')
+    LEFT JOIN slots s ON s.id = b.slot_id
+    WHERE $1::text IS NULL
+       OR p.full_name ILIKE '%' || $1 || '%'
+       OR p.email ILIKE '%' || $1 || '%'
+       OR p.phone ILIKE '%' || $1 || '%'
+    GROUP BY p.id
+    ORDER BY last_appointment_at DESC NULLS LAST, p.full_name ASC
+    LIMIT $2
+    `,
+    [search, limit]
+  );
+
+  return result.rows.map((row) => ({
+    ...mapPatientRow(row),
+    bookingCount: row.booking_count,
+    lastAppointmentAt: row.last_appointment_at
+  }));
+}
+
+/**
+ * Retrieves a patient by identifier.
+ *
+ * @param {string} patientId Patient identifier.
+ * @returns {Promise<Patient | null>} Patient if found, otherwise null.
+ */
+export async function getPatientById(patientId: string): Promise<Patient | null> {
+  const result: QueryResult<PatientDbRow> = await query<PatientDbRow>(
+    `SELECT ${PATIENT_COLUMNS} FROM patients p WHERE p.id = $1`,
+    [patientId]
+  );
+
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  return mapPatientRow(result.rows[0]);
+}
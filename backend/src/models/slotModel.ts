@@ -4,64 +4,183 @@
  */
 
 import { PoolClient, QueryResult } from "pg";
-import { query } from "../config/db";
-import { Slot, SlotWithMeta } from "./types";
+import { query, withTransaction } from "../config/db";
+import {
+  AdminSlotWithMeta,
+  BookingActor,
+  BookingStatus,
+  CapacityAffectedBooking,
+  CapacityReductionPolicy,
+  DeletionImpact,
+  HoursOverride,
+  Slot,
+  SlotConflict,
+  SlotBookingSummary,
+  SlotWaitlistSummary,
+  SlotWithMeta,
+  Specialization
+} from "./types";
 import { generateUuid } from "../utils/uuid";
+import {
+  addToWaitlistFrontInTransaction,
+  promoteWaitlistInTransaction
+} from "./waitlistModel";
+import { queueNotificationInTransaction } from "./notificationModel";
+import { recordBookingEventsInTransaction } from "./bookingEventModel";
+import { isWithinWorkingHoursInTransaction } from "./workingHoursModel";
+import { loadConfig } from "../config/env";
+import { doctorSpecializationsJson } from "./specializationModel";
 
 /**
- * Inserts a new slot into the database.
+ * Inserts a new slot into the database. The slot must not fall in a blackout
+ * of the doctor or the clinic, and must lie inside the doctor's working hours
+ * unless an admin overrides them; the reason is kept on the slot. It must not
+ * overlap another active slot of the doctor, which the slots_no_overlap
+ * constraint enforces.
  *
  * @param {string} doctorId Associated doctor identifier.
  * @param {string} startTime ISO string representing the start of the slot.
  * @param {string} endTime ISO string representing the end of the slot.
  * @param {number} capacity Maximum number of bookings allowed.
+ * @param {HoursOverride | null} hoursOverride Admin override of the working hours, if any.
  * @returns {Promise<Slot>} Created slot record.
  */
 export async function createSlot(
   doctorId: string,
   startTime: string,
   endTime: string,
-  capacity: number
+  capacity: number,
+  hoursOverride: HoursOverride | null = null
 ): Promise<Slot> {
-  const id: string = generateUuid();
+  return withTransaction(async (client) => {
+    // Share lock so the working hours and blackouts cannot change while they
+    // are checked.
+    const doctorResult: QueryResult = await client.query(
+      "SELECT 1 FROM doctors WHERE id = $1 AND deleted_at IS NULL FOR SHARE",
+      [doctorId]
+    );
 
-  const result: QueryResult<{
-    id: string;
-    doctor_id: string;
-    start_time: string;
-    end_time: string;
-    capacity: number;
-    created_at: string;
-  }> = await query(
+    if (doctorResult.rowCount === 0) {
+      throw new Error("Doctor not found.");
+    }
+
+    const blackoutResult: QueryResult = await client.query(
+      `
+      SELECT 1 FROM blackouts
+      WHERE (doctor_id = $1 OR doctor_id IS NULL)
+        AND starts_on::timestamp AT TIME ZONE $4 < $3::timestamptz
+        AND (ends_on + 1)::timestamp AT TIME ZONE $4 > $2::timestamptz
+      LIMIT 1
+      `,
+      [doctorId, startTime, endTime, loadConfig().clinicTimeZone]
+    );
+
+    if (blackoutResult.rowCount !== 0) {
+      throw new Error("Slot falls inside a blackout.");
+    }
+
+    const withinHours: boolean = await isWithinWorkingHoursInTransaction(
+      client,
+      doctorId,
+      startTime,
+      endTime
+    );
+
+    if (!withinHours && hoursOverride === null) {
+      throw new Error("Slot is outside the doctor's working hours.");
+    }
+
+    let result: QueryResult<{
+      id: string;
+      doctor_id: string;
+      start_time: string;
+      end_time: string;
+      capacity: number;
+      created_at: string;
+      hours_override_reason: string | null;
+    }>;
+
+    try {
+      result = await client.query(
+        `
+        INSERT INTO slots (
+          id, doctor_id, start_time, end_time, capacity,
+          hours_override_reason, hours_override_by_user_id
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING id, doctor_id, start_time, end_time, capacity, created_at, hours_override_reason
+        `,
+        [
+          generateUuid(),
+          doctorId,
+          startTime,
+          endTime,
+          capacity,
+          withinHours ? null : hoursOverride?.reason ?? null,
+          withinHours ? null : hoursOverride?.userId ?? null
+        ]
+      );
+    } catch (error) {
+      if ((error as { code?: unknown }).code === "23P01") {
+        throw new Error("Slot overlaps another slot of the doctor.");
+      }
+      throw error;
+    }
+
+    const row = result.rows[0];
+
+    return {
+      id: row.id,
+      doctorId: row.doctor_id,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      capacity: row.capacity,
+      createdAt: row.created_at,
+      hoursOverrideReason: row.hours_override_reason
+    };
+  });
+}
+
+/**
+ * Finds the doctor's earliest active slot that overlaps the given time.
+ *
+ * @param {string} doctorId Doctor identifier.
+ * @param {string} startTime Start of the time (ISO 8601).
+ * @param {string} endTime End of the time (ISO 8601).
+ * @returns {Promise<SlotConflict | null>} Overlapping slot, or null if the time is free.
+ */
+export async function findOverlappingSlot(
+  doctorId: string,
+  startTime: string,
+  endTime: string
+): Promise<SlotConflict | null> {
+  const result: QueryResult<{ id: string; start_time: string; end_time: string }> = await query(
     `
-    INSERT INTO slots (id, doctor_id, start_time, end_time, capacity)
-    VALUES ($1, $2, $3, $4, $5)
-    RETURNING id, doctor_id, start_time, end_time, capacity, created_at
+    SELECT id, start_time, end_time
+    FROM slots
+    WHERE doctor_id = $1
+      AND is_active IS NOT FALSE
+      AND start_time < $3
+      AND end_time > $2
+    ORDER BY start_time
+    LIMIT 1
     `,
-    [id, doctorId, startTime, endTime, capacity]
+    [doctorId, startTime, endTime]
   );
 
-  const row = result.rows[0];
+  if (result.rowCount === 0) {
+    return null;
+  }
 
-  return {
-    id: row.id,
-    doctorId: row.doctor_id,
-    startTime: row.start_time,
-    endTime: row.end_time,
-    capacity: row.capacity,
-    createdAt: row.created_at
-  };
+  const row = result.rows[0];
+  return { slotId: row.id, startTime: row.start_time, endTime: row.end_time };
 }
 
 /**
- * Retrieves all upcoming slots with doctor information and availability.
- *
- * @returns {Promise<SlotWithMeta[]>} List of slots with meta information.
+ * Columns shared by the public and admin slot projections. Expects the query
+ * to alias slots as `s` and doctors as `d`.
  */
-export async function getAllSlotsWithMeta(): Promise<SlotWithMeta[]> {
-  const result: QueryResult<any> = await query(
-    `
-    SELECT
+const SLOT_META_COLUMNS: string = `
       s.id,
       s.doctor_id,
       s.start_time,
@@ -69,51 +188,101 @@ export async function getAllSlotsWithMeta(): Promise<SlotWithMeta[]> {
       s.capacity,
       s.created_at,
       d.name AS doctor_name,
-      d.specialization AS doctor_specialization,
+      ${doctorSpecializationsJson("d.id")} AS doctor_specializations,
+      d.photo_url AS doctor_photo_url,
+      d.languages AS doctor_languages,
+      d.consultation_fee_cents AS doctor_consultation_fee_cents,
+      d.accepting_new_patients AS doctor_accepting_new_patients,
       COALESCE((
         SELECT COUNT(*)
         FROM bookings b
-        WHERE b.slot_id = s.id AND b.status = 'CONFIRMED'
+        WHERE b.slot_id = s.id
+          AND b.status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
       ), 0) AS confirmed_count,
       (
-        SELECT json_agg(json_build_object('id', b.id, 'userName', b.user_name, 'status', b.status, 'createdAt', b.created_at))
+        SELECT COUNT(*)
         FROM bookings b
-        WHERE b.slot_id = s.id AND b.status = 'CONFIRMED'
-      ) AS bookings
+        WHERE b.slot_id = s.id AND b.status = 'PENDING' AND b.hold_expires_at > NOW()
+      ) AS held_count,
+      (
+        SELECT COUNT(*)
+        FROM waitlist_entries w
+        WHERE w.slot_id = s.id AND w.status = 'WAITING'
+      ) AS waitlist_count`;
+
+/**
+ * Maps a slot row selected with SLOT_META_COLUMNS to the public projection.
+ * Only counts are exposed; no patient details.
+ *
+ * @param {any} row Database row.
+ * @returns {SlotWithMeta} Public slot projection.
+ */
+function mapSlotMetaRow(row: any): SlotWithMeta {
+  const confirmedCount: number = Number(row.confirmed_count ?? 0);
+  const heldCount: number = Number(row.held_count ?? 0);
+  // Staff overbooking can take more seats than the slot has.
+  const availableSeats: number = Math.max(0, row.capacity - confirmedCount - heldCount);
+
+  return {
+    id: row.id,
+    doctorId: row.doctor_id,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    capacity: row.capacity,
+    createdAt: row.created_at,
+    doctorName: row.doctor_name,
+    doctorSpecialization: row.doctor_specializations
+      .map((specialization: Specialization) => specialization.name)
+      .join(", "),
+    doctorSpecializations: row.doctor_specializations,
+    doctorPhotoUrl: row.doctor_photo_url,
+    doctorLanguages: row.doctor_languages,
+    doctorConsultationFeeCents: row.doctor_consultation_fee_cents,
+    doctorAcceptingNewPatients: row.doctor_accepting_new_patients,
+    confirmedCount,
+    heldCount,
+    availableSeats,
+    waitlistCount: Number(row.waitlist_count ?? 0)
+  };
+}
+
+/**
+ * Retrieves all upcoming slots with doctor information and availability.
+ * Public projection: carries counts only.
+ *
+ * @param {string | null} specializationSlug Optional specialization the doctor must have.
+ * @returns {Promise<SlotWithMeta[]>} List of slots with meta information.
+ */
+export async function getAllSlotsWithMeta(
+  specializationSlug: string | null = null
+): Promise<SlotWithMeta[]> {
+  const result: QueryResult<any> = await query(
+    `
+    SELECT ${SLOT_META_COLUMNS}
     FROM slots s
     INNER JOIN doctors d ON d.id = s.doctor_id
     WHERE s.is_active IS NOT FALSE
+      AND s.blackout_id IS NULL
+      AND (
+        $1::text IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM doctor_specializations ds
+          INNER JOIN specializations sp ON sp.id = ds.specialization_id
+          WHERE ds.doctor_id = d.id AND sp.slug = $1
+        )
+      )
     ORDER BY s.start_time ASC
     `,
-    []
+    [specializationSlug]
   );
 
-  return result.rows.map(
-    (row): SlotWithMeta => {
-      const confirmedCount: number = Number(row.confirmed_count ?? 0);
-      const availableSeats: number = row.capacity - confirmedCount;
-      const bookings: { id: string; userName: string; status: string; createdAt: string }[] =
-        (row.bookings as any[]) ?? [];
-
-      return {
-        id: row.id,
-        doctorId: row.doctor_id,
-        startTime: row.start_time,
-        endTime: row.end_time,
-        capacity: row.capacity,
-        createdAt: row.created_at,
-        doctorName: row.doctor_name,
-        doctorSpecialization: row.doctor_specialization,
-        confirmedCount,
-        availableSeats,
-        bookings
-      };
-    }
-  );
+  return result.rows.map(mapSlotMetaRow);
 }
 
 /**
  * Retrieves a single slot with aggregated meta information.
+ * Public projection: carries counts only.
  *
  * @param {string} slotId Slot identifier.
  * @returns {Promise<SlotWithMeta | null>} Slot with meta information, or null if not found.
@@ -123,29 +292,12 @@ export async function getSlotWithMetaById(
 ): Promise<SlotWithMeta | null> {
   const result: QueryResult<any> = await query(
     `
-    SELECT
-      s.id,
-      s.doctor_id,
-      s.start_time,
-      s.end_time,
-      s.capacity,
-      s.created_at,
-      d.name AS doctor_name,
-      d.specialization AS doctor_specialization,
-      COALESCE((
-        SELECT COUNT(*)
-        FROM bookings b
-        WHERE b.slot_id = s.id AND b.status = 'CONFIRMED'
-      ), 0) AS confirmed_count,
-      (
-        SELECT json_agg(json_build_object('id', b.id, 'userName', b.user_name, 'status', b.status, 'createdAt', b.created_at))
-        FROM bookings b
-        WHERE b.slot_id = s.id AND b.status = 'CONFIRMED'
-      ) AS bookings
+    SELECT ${SLOT_META_COLUMNS}
     FROM slots s
     INNER JOIN doctors d ON d.id = s.doctor_id
     WHERE s.id = $1
       AND s.is_active IS NOT FALSE
+      AND s.blackout_id IS NULL
     `,
     [slotId]
   );
@@ -154,25 +306,65 @@ export async function getSlotWithMetaById(
     return null;
   }
 
-  const row = result.rows[0];
-  const confirmedCount: number = Number(row.confirmed_count ?? 0);
-  const availableSeats: number = row.capacity - confirmedCount;
-  const bookings: { id: string; userName: string; status: string; createdAt: string }[] =
-    (row.bookings as any[]) ?? [];
+  return mapSlotMetaRow(result.rows[0]);
+}
 
-  return {
-    id: row.id,
-    doctorId: row.doctor_id,
-    startTime: row.start_time,
-    endTime: row.end_time,
-    capacity: row.capacity,
-    createdAt: row.created_at,
-    doctorName: row.doctor_name,
-    doctorSpecialization: row.doctor_specialization,
-    confirmedCount,
-    availableSeats,
-    bookings
-  };
+/**
+ * Retrieves slots for staff, including each slot's confirmed bookings and
+ * its waitlist in queue order.
+ *
+ * @param {string | null} doctorId Optional doctor to restrict the list to.
+ * @returns {Promise<AdminSlotWithMeta[]>} List of slots with their bookings.
+ */
+export async function getAllAdminSlotsWithMeta(
+  doctorId: string | null = null
+): Promise<AdminSlotWithMeta[]> {
+  const result: QueryResult<any> = await query(
+    `
+    SELECT ${SLOT_META_COLUMNS},
+      s.hours_override_reason,
+      s.blackout_id,
+      (
+        SELECT json_agg(json_build_object('id', b.id, 'userName', b.user_name, 'status', b.status, 'createdAt', b.created_at))
+        FROM bookings b
+        WHERE b.slot_id = s.id
+          AND b.status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
+      ) AS bookings,
+      (
+        SELECT json_agg(json_build_object('id', w.id, 'userName', w.user_name, 'createdAt', w.created_at) ORDER BY w.position, w.created_at)
+        FROM waitlist_entries w
+        WHERE w.slot_id = s.id AND w.status = 'WAITING'
+      ) AS waitlist
+    FROM slots s
+    INNER JOIN doctors d ON d.id = s.doctor_id
+    WHERE s.is_active IS NOT FALSE
+      AND ($1::uuid IS NULL OR s.doctor_id = $1::uuid)
+    ORDER BY s.start_time ASC
+    `,
+    [doctorId]
+  );
+
+  return result.rows.map(
+    (row): AdminSlotWithMeta => ({
+      ...mapSlotMetaRow(row),
+      hoursOverrideReason: row.hours_override_reason,
+      blackoutId: row.blackout_id,
+      bookings: (row.bookings as SlotBookingSummary[] | null) ?? [],
+      waitlist: (row.waitlist as SlotWaitlistSummary[] | null) ?? []
+    })
+  );
+}
+
+/**
+ * Slot row as seen by code holding its lock. isActive is false for removed
+ * slots and for slots inside a blackout, neither of which takes new bookings.
+ */
+export interface LockedSlot {
+  readonly id: string;
+  readonly capacity: number;
+  readonly isActive: boolean;
+  readonly startTime: string;
+  readonly endTime: string;
 }
 
 /**
@@ -181,21 +373,22 @@ export async function getSlotWithMetaById(
  *
  * @param {PoolClient} client PostgreSQL client inside a transaction.
  * @param {string} slotId Slot identifier.
- * @returns {Promise<{
- *   id: string;
- *   capacity: number;
- * } | null>} Slot basic info or null if not found.
+ * @returns {Promise<LockedSlot | null>} Slot basic info or null if not found.
  */
 export async function lockSlotForUpdate(
   client: PoolClient,
   slotId: string
-): Promise<{ id: string; capacity: number } | null> {
+): Promise<LockedSlot | null> {
   const result: QueryResult<{
     id: string;
     capacity: number;
+    is_active: boolean | null;
+    blackout_id: string | null;
+    start_time: string;
+    end_time: string;
   }> = await client.query(
     `
-    SELECT id, capacity
+    SELECT id, capacity, is_active, blackout_id, start_time, end_time
     FROM slots
     WHERE id = $1
     FOR UPDATE
@@ -211,7 +404,10 @@ export async function lockSlotForUpdate(
 
   return {
     id: row.id,
-    capacity: row.capacity
+    capacity: row.capacity,
+    isActive: row.is_active !== false && row.blackout_id === null,
+    startTime: row.start_time,
+    endTime: row.end_time
   };
 }
 
@@ -225,77 +421,366 @@ export async function lockSlotForUpdate(
  * Soft-delete a slot (admin action) by marking it inactive.
  *
  * @param slotId - UUID of the slot to soft-delete.
+ * @param actor - Staff member removing the slot.
  * @returns Promise resolving to true when updated (throws if slot not found).
  */
-export async function softDeleteSlot(slotId: string): Promise<void> {
-  const sql = `
-    UPDATE slots
-    SET is_active = FALSE
-    WHERE id = $1
-    RETURNING id;
-  `;
-  const result = await query<{ id: string }>(sql, [slotId]);
+export async function softDeleteSlot(slotId: string, actor: BookingActor): Promise<void> {
+  const removed: number = await withTransaction((client) =>
+    softDeleteSlotsInTransaction(client, [slotId], actor)
+  );
 
-  if (result.rowCount === 0) {
+  if (removed === 0) {
     throw new Error("Slot not found.");
   }
 }
 
 /**
- * Hard-delete a slot if it has no confirmed bookings.
- * Returns true if deleted, throws if slot not found or if confirmed bookings exist.
+ * Marks slots inactive so they are hidden and take no bookings; their rows
+ * and any past bookings are kept. Seat holds on them are released as FAILED,
+ * as removeSlotsInTransaction does.
  *
- * @param slotId - UUID of the slot to delete.
+ * @param client - PostgreSQL client inside a transaction.
+ * @param slotIds - Slots to soft-delete.
+ * @param actor - Staff member removing the slots.
+ * @returns Number of slots found and updated.
  */
-export async function hardDeleteSlot(slotId: string): Promise<void> {
-  // Hard-delete a slot. Bookings reference slots with ON DELETE CASCADE,
-  // so deleting the slot will also remove related bookings if present.
-  const delSql = `DELETE FROM slots WHERE id = $1 RETURNING id;`;
-  const delResult = await query<{ id: string }>(delSql, [slotId]);
+export async function softDeleteSlotsInTransaction(
+  client: PoolClient,
+  slotIds: readonly string[],
+  actor: BookingActor
+): Promise<number> {
+  const result: QueryResult = await client.query(
+    "UPDATE slots SET is_active = FALSE WHERE id = ANY($1::uuid[]) RETURNING id",
+    [slotIds]
+  );
 
-  if (delResult.rowCount === 0) {
-    throw new Error("Slot not found.");
+  const releasedHolds: QueryResult<{ id: string }> = await client.query(
+    `
+    UPDATE bookings
+    SET status = 'FAILED', updated_at = NOW()
+    WHERE slot_id = ANY($1::uuid[]) AND status = 'PENDING'
+    RETURNING id
+    `,
+    [slotIds]
+  );
+
+  await recordBookingEventsInTransaction(
+    client,
+    releasedHolds.rows.map((r) => r.id),
+    "PENDING",
+    "FAILED",
+    actor,
+    "Slot was removed."
+  );
+
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Counts what removing the given slots would affect: slots that have not
+ * ended yet, their confirmed bookings and the patients waiting for them.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string[]} slotIds Slots that would be removed.
+ * @returns {Promise<DeletionImpact>} Counts of affected slots, bookings and waiters.
+ */
+export async function getDeletionImpactInTransaction(
+  client: PoolClient,
+  slotIds: string[]
+): Promise<DeletionImpact> {
+  const result: QueryResult<{
+    future_slot_count: number;
+    confirmed_booking_count: number;
+    waitlist_count: number;
+  }> = await client.query(
+    `
+    SELECT
+      (SELECT COUNT(*) FROM slots s
+       WHERE s.id = ANY($1::uuid[]) AND s.end_time > NOW())::int AS future_slot_count,
+      (SELECT COUNT(*) FROM bookings b
+       INNER JOIN slots s ON s.id = b.slot_id
+       WHERE s.id = ANY($1::uuid[]) AND s.end_time > NOW()
+         AND b.status = 'CONFIRMED')::int AS confirmed_booking_count,
+      (SELECT COUNT(*) FROM waitlist_entries w
+       WHERE w.slot_id = ANY($1::uuid[]) AND w.status = 'WAITING')::int AS waitlist_count
+    `,
+    [slotIds]
+  );
+
+  const row = result.rows[0];
+
+  return {
+    futureSlotCount: row.future_slot_count,
+    confirmedBookingCount: row.confirmed_booking_count,
+    waitlistCount: row.waitlist_count
+  };
+}
+
+/**
+ * Removes slots inside an existing transaction that holds their locks,
+ * without losing any booking. Confirmed bookings of slots that have not
+ * ended become CANCELLED_BY_CLINIC and their patients get a message; live
+ * holds are released and waiting patients leave the waitlist. Slots that
+ * never had a booking are deleted; the others are deactivated and kept so
+ * their bookings stay readable.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string[]} slotIds Slots to remove, locked by the caller.
+ * @param {BookingActor} actor Staff member removing the slots.
+ * @param {string} reason Cancellation reason stored on affected bookings.
+ * @param {boolean} confirmed Whether the caller confirmed cancelling bookings.
+ * @returns {Promise<number>} Number of bookings cancelled by the clinic.
+ * @throws {Error} If confirmed bookings would be cancelled without confirmation.
+ */
+export async function removeSlotsInTransaction(
+  client: PoolClient,
+  slotIds: string[],
+  actor: BookingActor,
+  reason: string,
+  confirmed: boolean
+): Promise<number> {
+  const impact: DeletionImpact = await getDeletionImpactInTransaction(client, slotIds);
+
+  if (impact.confirmedBookingCount > 0 && !confirmed) {
+    throw new Error("Deleting would cancel confirmed bookings; confirm to continue.");
   }
+
+  const cancelled: QueryResult<{
+    id: string;
+    reference_code: string;
+    patient_email: string | null;
+    start_time: string;
+  }> = await client.query(
+    `
+    UPDATE bookings b
+    SET status = 'CANCELLED_BY_CLINIC',
+        cancelled_at = NOW(),
+        cancelled_by = $2,
+        cancelled_by_user_id = $3,
+        cancellation_reason = $4,
+        updated_at = NOW()
+    FROM slots s
+    WHERE s.id = b.slot_id
+      AND s.id = ANY($1::uuid[])
+      AND s.end_time > NOW()
+      AND b.status = 'CONFIRMED'
+    RETURNING b.id, b.reference_code, b.patient_email,
+              COALESCE(b.appointment_start, s.start_time) AS start_time
+    `,
+    [slotIds, actor.source, actor.userId, reason]
+  );
+
+  await recordBookingEventsInTransaction(
+    client,
+    cancelled.rows.map((r) => r.id),
+    "CONFIRMED",
+    "CANCELLED_BY_CLINIC",
+    actor,
+    reason
+  );
+
+  for (const row of cancelled.rows) {
+    if (row.patient_email !== null) {
+      await queueNotificationInTransaction(
+        client,
+        row.id,
+        row.patient_email,
+        "BOOKING_CANCELLED",
+        `The clinic cancelled your appointment at ${new Date(row.start_time).toISOString()} ` +
+          `(booking ${row.reference_code}): ${reason} Please book another time.`
+      );
+    }
+  }
+
+  const releasedHolds: QueryResult<{ id: string }> = await client.query(
+    `
+    UPDATE bookings
+    SET status = 'FAILED', updated_at = NOW()
+    WHERE slot_id = ANY($1::uuid[]) AND status = 'PENDING'
+    RETURNING id
+    `,
+    [slotIds]
+  );
+
+  await recordBookingEventsInTransaction(
+    client,
+    releasedHolds.rows.map((r) => r.id),
+    "PENDING",
+    "FAILED",
+    actor,
+    reason
+  );
+
+  await client.query(
+    `
+    UPDATE waitlist_entries
+    SET status = 'LEFT'
+    WHERE slot_id = ANY($1::uuid[]) AND status = 'WAITING'
+    `,
+    [slotIds]
+  );
+
+  await client.query(
+    `
+    DELETE FROM slots s
+    WHERE s.id = ANY($1::uuid[])
+      AND NOT EXISTS (SELECT 1 FROM bookings b WHERE b.slot_id = s.id)
+    `,
+    [slotIds]
+  );
+
+  await client.query(
+    "UPDATE slots SET is_active = FALSE WHERE id = ANY($1::uuid[])",
+    [slotIds]
+  );
+
+  return cancelled.rowCount ?? 0;
+}
+
+/**
+ * Reports what deleting a slot would affect, without changing anything.
+ *
+ * @param slotId - UUID of the slot.
+ * @returns The impact, or null if the slot does not exist.
+ */
+export async function getSlotDeletionImpact(slotId: string): Promise<DeletionImpact | null> {
+  return withTransaction<DeletionImpact | null>(async (client: PoolClient) => {
+    const exists = await client.query("SELECT 1 FROM slots WHERE id = $1", [slotId]);
+    if (exists.rowCount === 0) {
+      return null;
+    }
+    return getDeletionImpactInTransaction(client, [slotId]);
+  });
+}
+
+/**
+ * Delete a slot. Its bookings are never dropped: see removeSlotsInTransaction.
+ *
+ * @param slotId - UUID of the slot to delete.
+ * @param actor - Staff member deleting the slot.
+ * @param confirmed - Whether cancelling confirmed bookings was confirmed.
+ * @returns Number of bookings cancelled by the clinic.
+ * @throws {Error} If the slot is not found, or bookings would be cancelled
+ *                 without confirmation.
+ */
+export async function hardDeleteSlot(
+  slotId: string,
+  actor: BookingActor,
+  confirmed: boolean
+): Promise<number> {
+  return withTransaction<number>(async (client: PoolClient) => {
+    const lockedSlot: LockedSlot | null = await lockSlotForUpdate(client, slotId);
+
+    if (lockedSlot === null) {
+      throw new Error("Slot not found.");
+    }
+
+    return removeSlotsInTransaction(
+      client,
+      [slotId],
+      actor,
+      "The clinic removed this appointment slot.",
+      confirmed
+    );
+  });
 }
 
 
+/**
+ * Seat-taking booking in a slot whose capacity is being lowered.
+ */
+interface SeatTakerRow {
+  readonly id: string;
+  readonly reference_code: string;
+  readonly user_name: string;
+  readonly patient_email: string | null;
+  readonly status: BookingStatus;
+  readonly appointment_start: string | null;
+}
+
 /**
  * Update the capacity for a slot.
  *
+ * The slot and its seat-taking bookings are locked. When the new capacity is
+ * below the seats taken, the policy decides: REJECT refuses the change,
+ * WAITLIST moves the newest bookings to the front of the slot's waitlist and
+ * CANCEL cancels them. Live seat holds are released before any confirmed
+ * booking is touched, and only CONFIRMED bookings are moved; patients already
+ * checked in or seen keep their seats. Moved patients get a message queued.
+ *
  * @param slotId - UUID of the slot to update.
- * @param capacity - New capacity value (must be >= 0).
- * @returns The updated slot row mapped to a friendly shape.
+ * @param capacity - New capacity value (must be > 0).
+ * @param policy - What to do with bookings that no longer fit.
+ * @param actor - Staff member changing the capacity.
+ * @returns The updated slot with counts, and the bookings moved out of it.
+ * @throws {Error} If the slot does not exist, or bookings do not fit and the
+ *                 policy is REJECT or they cannot be moved.
  */
 export async function updateSlotCapacity(
   slotId: string,
-  capacity: number
+  capacity: number,
+  policy: CapacityReductionPolicy,
+  actor: BookingActor
 ): Promise<{
-  readonly id: string;
-  readonly doctorId: string;
-  readonly startTime: string;
-  readonly endTime: string;
-  readonly capacity: number;
-  readonly confirmedCount: number;
-  readonly createdAt: string;
+  readonly slot: SlotWithMeta;
+  readonly affectedBookings: CapacityAffectedBooking[];
 }> {
-  // 1) Update capacity and return basic slot row (no confirmed_count reference)
-  const sqlUpdate: string = `
-    UPDATE slots
-    SET capacity = $1
-    WHERE id = $2
-    RETURNING id, doctor_id, start_time, end_time, capacity, created_at;
-  `;
-  const values = [capacity, slotId];
+  // 1) Update capacity under the slot lock, make room by moving the newest
+  //    bookings out if needed, and, if seats opened up, promote waiting
+  //    patients in the same transaction.
+  const affectedBookings: CapacityAffectedBooking[] = await withTransaction<
+    CapacityAffectedBooking[]
+  >(async (client: PoolClient) => {
+    const lockedSlot: LockedSlot | null = await lockSlotForUpdate(client, slotId);
 
-  const result: QueryResult<{
-    id: string;
-  }> = await query<{
-    id: string;
-  }>(sqlUpdate, values);
+    if (lockedSlot === null) {
+      throw new Error("Slot not found.");
+    }
 
-  if (result.rowCount === 0) {
-    throw new Error("Slot not found.");
-  }
+    // Holds first, then confirmed bookings, newest first.
+    const seatTakers: QueryResult<SeatTakerRow> = await client.query<SeatTakerRow>(
+      `
+      SELECT id, reference_code, user_name, patient_email, status, appointment_start
+      FROM bookings
+      WHERE slot_id = $1
+        AND (status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
+             OR (status = 'PENDING' AND hold_expires_at > NOW()))
+      ORDER BY (status = 'PENDING') DESC, created_at DESC
+      FOR UPDATE
+      `,
+      [slotId]
+    );
+
+    const excess: number = seatTakers.rows.length - capacity;
+    const affected: CapacityAffectedBooking[] = [];
+
+    if (excess > 0) {
+      if (policy === "REJECT") {
+        throw new Error("New capacity is below the seats already taken.");
+      }
+
+      const movable: SeatTakerRow[] = seatTakers.rows.filter(
+        (row) => row.status === "PENDING" || row.status === "CONFIRMED"
+      );
+
+      if (movable.length < excess) {
+        throw new Error("New capacity is below the seats of patients already checked in.");
+      }
+
+      for (const row of movable.slice(0, excess)) {
+        affected.push(await removeSeatTakerInTransaction(client, lockedSlot, row, policy, actor));
+      }
+    }
+
+    await client.query("UPDATE slots SET capacity = $1 WHERE id = $2", [
+      capacity,
+      slotId
+    ]);
+
+    await promoteWaitlistInTransaction(client, { ...lockedSlot, capacity });
+
+    return affected;
+  });
 
   // 2) Retrieve the full slot with meta (uses a safe subquery to compute confirmed_count)
   const slotWithMeta = await getSlotWithMetaById(slotId);
@@ -305,5 +790,109 @@ export async function updateSlotCapacity(
     throw new Error("Slot not found after update.");
   }
 
-  return slotWithMeta;
+  return { slot: slotWithMeta, affectedBookings };
+}
+
+/**
+ * Frees one seat of a slot whose capacity is being lowered: releases a hold,
+ * or cancels a confirmed booking as CANCELLED_BY_CLINIC and, for the WAITLIST
+ * policy, puts the patient at the front of the waitlist. The patient is told
+ * about their appointment time when their email is known.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction holding the slot lock.
+ * @param {LockedSlot} slot Slot being changed.
+ * @param {SeatTakerRow} row Booking to move out of the slot.
+ * @param {CapacityReductionPolicy} policy WAITLIST or CANCEL.
+ * @param {BookingActor} actor Staff member changing the capacity.
+ * @returns {Promise<CapacityAffectedBooking>} What happened to the booking.
+ */
+async function removeSeatTakerInTransaction(
+  client: PoolClient,
+  slot: LockedSlot,
+  row: SeatTakerRow,
+  policy: CapacityReductionPolicy,
+  actor: BookingActor
+): Promise<CapacityAffectedBooking> {
+  if (row.status === "PENDING") {
+    await client.query(
+      "UPDATE bookings SET status = 'FAILED', updated_at = NOW() WHERE id = $1",
+      [row.id]
+    );
+    await recordBookingEventsInTransaction(
+      client,
+      [row.id],
+      "PENDING",
+      "FAILED",
+      actor,
+      "Slot capacity was reduced."
+    );
+    return {
+      bookingId: row.id,
+      referenceCode: row.reference_code,
+      userName: row.user_name,
+      patientEmail: row.patient_email,
+      outcome: "HOLD_RELEASED",
+      waitlistEntryId: null,
+      notified: false
+    };
+  }
+
+  const toWaitlist: boolean = policy === "WAITLIST";
+  const reason: string = toWaitlist
+    ? "Slot capacity was reduced; moved to the front of the waitlist."
+    : "Slot capacity was reduced.";
+
+  await client.query(
+    `
+    UPDATE bookings
+    SET status = 'CANCELLED_BY_CLINIC',
+        cancelled_at = NOW(),
+        cancelled_by = $2,
+        cancelled_by_user_id = $3,
+        cancellation_reason = $4,
+        updated_at = NOW()
+    WHERE id = $1
+    `,
+    [row.id, actor.source, actor.userId, reason]
+  );
+
+  await recordBookingEventsInTransaction(
+    client,
+    [row.id],
+    row.status,
+    "CANCELLED_BY_CLINIC",
+    actor,
+    reason
+  );
+
+  const waitlistEntryId: string | null = toWaitlist
+    ? await addToWaitlistFrontInTransaction(client, slot.id, row.user_name, row.patient_email)
+    : null;
+
+  const when: string = new Date(row.appointment_start ?? slot.startTime).toISOString();
+
+  if (row.patient_email !== null) {
+    await queueNotificationInTransaction(
+      client,
+      row.id,
+      row.patient_email,
+      toWaitlist ? "MOVED_TO_WAITLIST" : "BOOKING_CANCELLED",
+      toWaitlist
+        ? `The clinic reduced the appointments available at ${when}. Your booking ` +
+            `${row.reference_code} was cancelled and you are first on the waitlist; ` +
+            "you will be booked automatically if a seat frees up."
+        : `The clinic cancelled your appointment at ${when} ` +
+            `(booking ${row.reference_code}): ${reason} Please book another time.`
+    );
+  }
+
+  return {
+    bookingId: row.id,
+    referenceCode: row.reference_code,
+    userName: row.user_name,
+    patientEmail: row.patient_email,
+    outcome: toWaitlist ? "WAITLISTED" : "CANCELLED",
+    waitlistEntryId,
+    notified: row.patient_email !== null
+  };
 }
@@ -0,0 +1,502 @@
+/**
+ * @file slotTemplateModel.ts
+ * @description Recurring weekly slot templates and the slots generated from
+ *              them. Every change to a template, and the slots it creates or
+ *              removes, is applied in one transaction and can be previewed
+ *              without saving anything.
+ */
+
+import { PoolClient, QueryResult } from "pg";
+import { query, withTransaction } from "../config/db";
+import { loadConfig } from "../config/env";
+import {
+  SkippedTemplateSlot,
+  SlotTemplate,
+  SlotTemplateChange,
+  SlotTemplateRule,
+  TemplateSlotTime
+} from "./types";
+import { generateUuid } from "../utils/uuid";
+
+/**
+ * Most slots one template may generate.
+ */
+const MAX_TEMPLATE_SLOTS: number = 1000;
+
+/**
+ * Raw slot_templates row joined with the doctor's name.
+ */
+interface SlotTemplateDbRow {
+  readonly id: string;
+  readonly doctor_id: string;
+  readonly doctor_name: string;
+  readonly weekdays: number[];
+  readonly day_start: string;
+  readonly day_end: string;
+  readonly slot_minutes: number;
+  readonly capacity: number;
+  readonly starts_on: string;
+  readonly ends_on: string;
+  readonly ended_at: string | null;
+  readonly future_slot_count: number;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+/**
+ * Template columns selected by every query. Expects aliases `t` for the
+ * template and `d` for its doctor.
+ */
+const TEMPLATE_COLUMNS: string = `
+  t.id, t.doctor_id, d.name AS doctor_name, t.weekdays,
+  to_char(t.day_start, 'HH24:MI') AS day_start,
+  to_char(t.day_end, 'HH24:MI') AS day_end,
+  t.slot_minutes, t.capacity,
+  to_char(t.starts_on, 'YYYY-MM-DD') AS starts_on,
+  to_char(t.ends_on, 'YYYY-MM-DD') AS ends_on,
+  t.ended_at, t.created_at, t.updated_at,
+  (
+    SELECT COUNT(*) FROM slots s
+    WHERE s.template_id = t.id AND s.is_active IS NOT FALSE AND s.start_time > NOW()
+  )::int AS future_slot_count`;
+
+/**
+ * Maps a slot_templates row to the domain shape.
+ *
+ * @param {SlotTemplateDbRow} row Database row.
+ * @returns {SlotTemplate} Slot template.
+ */
+function mapTemplateRow(row: SlotTemplateDbRow): SlotTemplate {
+  return {
+    id: row.id,
+    doctorId: row.doctor_id,
+    doctorName: row.doctor_name,
+    weekdays: row.weekdays,
+    dayStart: row.day_start,
+    dayEnd: row.day_end,
+    slotMinutes: row.slot_minutes,
+    capacity: row.capacity,
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    endedAt: row.ended_at,
+    futureSlotCount: row.future_slot_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Reads a template inside an existing transaction.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} templateId Template identifier.
+ * @returns {Promise<SlotTemplate>} The template.
+ */
+async function getTemplateInTransaction(
+  client: PoolClient,
+  templateId: string
+): Promise<SlotTemplate> {
+  const result: QueryResult<SlotTemplateDbRow> = await client.query(
+    `
+    SELECT ${TEMPLATE_COLUMNS}
+    FROM slot_templates t
+    INNER JOIN doctors d ON d.id = t.doctor_id
+    WHERE t.id = $1
+    `,
+    [templateId]
+  );
+
+  return mapTemplateRow(result.rows[0]);
+}
+
+/**
+ * Locks a template that can still be changed.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} templateId Template identifier.
+ * @returns {Promise<string>} The template's doctor.
+ * @throws {Error} If the template does not exist or has ended.
+ */
+async function lockOpenTemplateInTransaction(
+  client: PoolClient,
+  templateId: string
+): Promise<string> {
+  const result: QueryResult<{ doctor_id: string; ended_at: string | null }> =
+    await client.query(
+      "SELECT doctor_id, ended_at FROM slot_templates WHERE id = $1 FOR UPDATE",
+      [templateId]
+    );
+
+  if (result.rowCount === 0) {
+    throw new Error("Slot template not found.");
+  }
+
+  if (result.rows[0].ended_at !== null) {
+    throw new Error("Slot template has ended.");
+  }
+
+  return result.rows[0].doctor_id;
+}
+
+/**
+ * Creates the template's slots that have not started yet. Times that overlap
+ * another active slot of the doctor (including booked slots the template
+ * made earlier) or fall in a blackout are skipped and reported.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} templateId Template the slots belong to.
+ * @param {string} doctorId Doctor of the template.
+ * @param {SlotTemplateRule} rule Weekly rule to expand.
+ * @returns {Promise<Pick<SlotTemplateChange, "createdSlots" | "skippedSlots">>} Slots created and skipped.
+ * @throws {Error} If the rule would generate too many slots.
+ */
+async function generateSlotsInTransaction(
+  client: PoolClient,
+  templateId: string,
+  doctorId: string,
+  rule: SlotTemplateRule
+): Promise<Pick<SlotTemplateChange, "createdSlots" | "skippedSlots">> {
+  const { clinicTimeZone } = loadConfig();
+
+  // Local date + time of day, read in the clinic's zone, so daylight saving
+  // changes keep slots at the same wall-clock time.
+  const occurrences: QueryResult<{
+    start_time: string;
+    end_time: string;
+    conflict_slot_id: string | null;
+    blackout_id: string | null;
+  }> = await client.query(
+    `
+    WITH occurrences AS (
+      SELECT
+        (d::date + $3::time + make_interval(mins => n * $5::int)) AT TIME ZONE $7 AS start_time,
+        (d::date + $3::time + make_interval(mins => (n + 1) * $5::int)) AT TIME ZONE $7 AS end_time
+      FROM generate_series($1::date, $2::date, interval '1 day') AS d
+      CROSS JOIN generate_series(
+        0,
+        floor(EXTRACT(EPOCH FROM ($4::time - $3::time)) / 60 / $5::int)::int - 1
+      ) AS n
+      WHERE EXTRACT(ISODOW FROM d) = ANY($6::int[])
+    )
+    SELECT o.start_time, o.end_time,
+      (
+        SELECT s.id FROM slots s
+        WHERE s.doctor_id = $8
+          AND s.is_active IS NOT FALSE
+          AND s.start_time < o.end_time
+          AND s.end_time > o.start_time
+        ORDER BY s.start_time
+        LIMIT 1
+      ) AS conflict_slot_id,
+      (
+        SELECT bl.id FROM blackouts bl
+        WHERE (bl.doctor_id = $8 OR bl.doctor_id IS NULL)
+          AND bl.starts_on::timestamp AT TIME ZONE $7 < o.end_time
+          AND (bl.ends_on + 1)::timestamp AT TIME ZONE $7 > o.start_time
+        ORDER BY bl.starts_on
+        LIMIT 1
+      ) AS blackout_id
+    FROM occurrences o
+    WHERE o.start_time > NOW()
+    ORDER BY o.start_time
+    `,
+    [
+      rule.startsOn,
+      rule.endsOn,
+      rule.dayStart,
+      rule.dayEnd,
+      rule.slotMinutes,
+      rule.weekdays,
+      clinicTimeZone,
+      doctorId
+    ]
+  );
+
+  if (occurrences.rows.length > MAX_TEMPLATE_SLOTS) {
+    throw new Error(`Slot template would create more than ${MAX_TEMPLATE_SLOTS} slots.`);
+  }
+
+  const createdSlots: TemplateSlotTime[] = [];
+  const skippedSlots: SkippedTemplateSlot[] = [];
+
+  for (const row of occurrences.rows) {
+    if (row.conflict_slot_id === null && row.blackout_id === null) {
+      createdSlots.push({ startTime: row.start_time, endTime: row.end_time });
+    } else {
+      skippedSlots.push({
+        startTime: row.start_time,
+        endTime: row.end_time,
+        conflictSlotId: row.conflict_slot_id,
+        blackoutId: row.blackout_id
+      });
+    }
+  }
+
+  if (createdSlots.length > 0) {
+    try {
+      await client.query(
+        `
+        INSERT INTO slots (id, doctor_id, start_time, end_time, capacity, template_id)
+        SELECT n.id, $4, n.start_time, n.end_time, $5, $6
+        FROM unnest($1::uuid[], $2::timestamptz[], $3::timestamptz[]) AS n(id, start_time, end_time)
+        `,
+        [
+          createdSlots.map(() => generateUuid()),
+          createdSlots.map((slot) => slot.startTime),
+          createdSlots.map((slot) => slot.endTime),
+          doctorId,
+          rule.capacity,
+          templateId
+        ]
+      );
+    } catch (error) {
+      // Another slot of the doctor was created after the overlap check.
+      if ((error as { code?: unknown }).code === "23P01") {
+        throw new Error("Slot overlaps another slot of the doctor.");
+      }
+      throw error;
+    }
+  }
+
+  return { createdSlots, skippedSlots };
+}
+
+/**
+ * Removes the template's active slots that have not started and have no
+ * seat taken (no confirmed booking and no live hold). Slots that never had a
+ * booking are deleted; the others are deactivated so their cancelled or
+ * failed bookings stay readable. Booked slots are left as they are.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} templateId Template identifier.
+ * @returns {Promise<number>} Number of slots removed.
+ */
+async function removeFutureUnbookedSlotsInTransaction(
+  client: PoolClient,
+  templateId: string
+): Promise<number> {
+  const locked: QueryResult<{ id: string }> = await client.query(
+    `
+    SELECT id FROM slots
+    WHERE template_id = $1 AND is_active IS NOT FALSE AND start_time > NOW()
+    ORDER BY id
+    FOR UPDATE
+    `,
+    [templateId]
+  );
+
+  const removable: QueryResult<{ id: string; has_bookings: boolean }> = await client.query(
+    `
+    SELECT s.id, EXISTS (SELECT 1 FROM bookings b WHERE b.slot_id = s.id) AS has_bookings
+    FROM slots s
+    WHERE s.id = ANY($1::uuid[])
+      AND NOT EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.slot_id = s.id
+          AND (b.status IN ('CONFIRMED', 'CHECKED_IN', 'IN_PROGRESS', 'COMPLETED', 'NO_SHOW')
+               OR (b.status = 'PENDING' AND b.hold_expires_at > NOW()))
+      )
+    `,
+    [locked.rows.map((r) => r.id)]
+  );
+
+  await client.query("DELETE FROM slots WHERE id = ANY($1::uuid[])", [
+    removable.rows.filter((r) => !r.has_bookings).map((r) => r.id)
+  ]);
+
+  await client.query("UPDATE slots SET is_active = FALSE WHERE id = ANY($1::uuid[])", [
+    removable.rows.filter((r) => r.has_bookings).map((r) => r.id)
+  ]);
+
+  return removable.rows.length;
+}
+
+/**
+ * Runs a template change in one transaction. A preview runs the very same
+ * change inside a savepoint and rolls it back, so it reports exactly what
+ * saving would do.
+ *
+ * @param {boolean} preview Whether to roll the change back.
+ * @param {(client: PoolClient) => Promise<SlotTemplateChange>} apply The change.
+ * @returns {Promise<SlotTemplateChange>} What the change did or would do.
+ */
+async function runTemplateChange(
+  preview: boolean,
+  apply: (client: PoolClient) => Promise<SlotTemplateChange>
+): Promise<SlotTemplateChange> {
+  return withTransaction<SlotTemplateChange>(async (client: PoolClient) => {
+    if (!preview) {
+      return apply(client);
+    }
+
+    await client.query("SAVEPOINT template_preview");
+    const change: SlotTemplateChange = await apply(client);
+    await client.query("ROLLBACK TO SAVEPOINT template_preview");
+    return change;
+  });
+}
+
+/**
+ * Creates a template for a doctor and generates its slots.
+ *
+ * @param {string} doctorId Doctor the slots are for.
+ * @param {SlotTemplateRule} rule Weekly rule.
+ * @param {boolean} preview Report what would happen without saving.
+ * @returns {Promise<SlotTemplateChange>} The template and its generated slots.
+ * @throws {Error} If the doctor does not exist or too many slots would be made.
+ */
+export async function createSlotTemplate(
+  doctorId: string,
+  rule: SlotTemplateRule,
+  preview: boolean
+): Promise<SlotTemplateChange> {
+  return runTemplateChange(preview, async (client: PoolClient) => {
+    const doctor: QueryResult<{ id: string }> = await client.query(
+      "SELECT id FROM doctors WHERE id = $1 AND deleted_at IS NULL FOR SHARE",
+      [doctorId]
+    );
+
+    if (doctor.rowCount === 0) {
+      throw new Error("Doctor not found.");
+    }
+
+    const templateId: string = generateUuid();
+
+    await client.query(
+      `
+      INSERT INTO slot_templates (
+        id, doctor_id, weekdays, day_start, day_end, slot_minutes, capacity, starts_on, ends_on
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `,
+      [
+        templateId,
+        doctorId,
+        rule.weekdays,
+        rule.dayStart,
+        rule.dayEnd,
+        rule.slotMinutes,
+        rule.capacity,
+        rule.startsOn,
+        rule.endsOn
+      ]
+    );
+
+    const generated = await generateSlotsInTransaction(client, templateId, doctorId, rule);
+
+    return {
+      template: await getTemplateInTransaction(client, templateId),
+      ...generated,
+      removedSlotCount: 0
+    };
+  });
+}
+
+/**
+ * Replaces a template's rule. Its future slots without a seat taken are
+ * removed and regenerated from the new rule; booked slots are kept, and new
+ * slots that would overlap them are skipped.
+ *
+ * @param {string} templateId Template identifier.
+ * @param {SlotTemplateRule} rule New weekly rule.
+ * @param {boolean} preview Report what would happen without saving.
+ * @returns {Promise<SlotTemplateChange>} The template and the slot changes.
+ * @throws {Error} If the template does not exist or has ended, or too many
+ *                 slots would be made.
+ */
+export async function updateSlotTemplate(
+  templateId: string,
+  rule: SlotTemplateRule,
+  preview: boolean
+): Promise<SlotTemplateChange> {
+  return runTemplateChange(preview, async (client: PoolClient) => {
+    const doctorId: string = await lockOpenTemplateInTransaction(client, templateId);
+    // Blackouts are added under an update lock on their doctors.
+    await client.query("SELECT id FROM doctors WHERE id = $1 FOR SHARE", [doctorId]);
+    const removedSlotCount: number = await removeFutureUnbookedSlotsInTransaction(
+      client,
+      templateId
+    );
+
+    await client.query(
+      `
+      UPDATE slot_templates
+      SET weekdays = $2, day_start = $3, day_end = $4, slot_minutes = $5,
+          capacity = $6, starts_on = $7, ends_on = $8, updated_at = NOW()
+      WHERE id = $1
+      `,
+      [
+        templateId,
+        rule.weekdays,
+        rule.dayStart,
+        rule.dayEnd,
+        rule.slotMinutes,
+        rule.capacity,
+        rule.startsOn,
+        rule.endsOn
+      ]
+    );
+
+    const generated = await generateSlotsInTransaction(client, templateId, doctorId, rule);
+
+    return {
+      template: await getTemplateInTransaction(client, templateId),
+      ...generated,
+      removedSlotCount
+    };
+  });
+}
+
+/**
+ * Ends a template: its future slots without a seat taken are removed and no
+ * more are generated. Booked slots are kept.
+ *
+ * @param {string} templateId Template identifier.
+ * @param {boolean} preview Report what would happen without saving.
+ * @returns {Promise<SlotTemplateChange>} The ended template and the slots removed.
+ * @throws {Error} If the template does not exist or has already ended.
+ */
+export async function endSlotTemplate(
+  templateId: string,
+  preview: boolean
+): Promise<SlotTemplateChange> {
+  return runTemplateChange(preview, async (client: PoolClient) => {
+    await lockOpenTemplateInTransaction(client, templateId);
+    const removedSlotCount: number = await removeFutureUnbookedSlotsInTransaction(
+      client,
+      templateId
+    );
+
+    await client.query(
+      "UPDATE slot_templates SET ended_at = NOW(), updated_at = NOW() WHERE id = $1",
+      [templateId]
+    );
+
+    return {
+      template: await getTemplateInTransaction(client, templateId),
+      createdSlots: [],
+      skippedSlots: [],
+      removedSlotCount
+    };
+  });
+}
+
+/**
+ * Lists templates, running ones first, newest first.
+ *
+ * @returns {Promise<SlotTemplate[]>} Slot templates.
+ */
+export async function getSlotTemplates(): Promise<SlotTemplate[]> {
+  const result: QueryResult<SlotTemplateDbRow> = await query<SlotTemplateDbRow>(
+    `
+    SELECT ${TEMPLATE_COLUMNS}
+    FROM slot_templates t
+    INNER JOIN doctors d ON d.id = t.doctor_id
+    ORDER BY t.ended_at IS NOT NULL, t.created_at DESC
+    LIMIT 200
+    `,
+    []
+  );
+
+  return result.rows.map(mapTemplateRow);
+}
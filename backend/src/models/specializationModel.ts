@@ -0,0 +1,294 @@
+/**
+ * @file specializationModel.ts
+ * @description Catalogue of specializations and the links between doctors
+ *              and their specializations.
+ */
+
+import { PoolClient, QueryResult } from "pg";
+import { query, withTransaction } from "../config/db";
+import { Specialization, SpecializationWithUsage } from "./types";
+import { generateUuid } from "../utils/uuid";
+
+/**
+ * Raw specializations row with usage counts.
+ */
+interface SpecializationDbRow {
+  readonly id: string;
+  readonly name: string;
+  readonly slug: string;
+  readonly doctor_count: string;
+  readonly intake_question_count: string;
+  readonly created_at: string;
+  readonly updated_at: string;
+}
+
+/**
+ * Specialization columns with usage counts. Expects alias `sp`. Deleted
+ * doctors are not counted.
+ */
+const SPECIALIZATION_COLUMNS: string = `
+  sp.id, sp.name, sp.slug, sp.created_at, sp.updated_at,
+  (
+    SELECT COUNT(*)
+    FROM doctor_specializations ds
+    INNER JOIN doctors d ON d.id = ds.doctor_id
+    WHERE ds.specialization_id = sp.id AND d.deleted_at IS NULL
+  ) AS doctor_count,
+  (
+    SELECT COUNT(*) FROM intake_questions q WHERE q.specialization_id = sp.id
+  ) AS intake_question_count`;
+
+/**
+ * Builds a subquery selecting a doctor's specializations as a JSON array of
+ * { id, name, slug }, main one first.
+ *
+ * @param {string} doctorIdColumn Column holding the doctor id, e.g. "d.id".
+ * @returns {string} SQL expression.
+ */
+export function doctorSpecializationsJson(doctorIdColumn: string): string {
+  return `COALESCE((
+    SELECT json_agg(json_build_object('id', sp.id, 'name', sp.name, 'slug', sp.slug)
+      ORDER BY ds.position, sp.name)
+    FROM doctor_specializations ds
+    INNER JOIN specializations sp ON sp.id = ds.specialization_id
+    WHERE ds.doctor_id = ${doctorIdColumn}
+  ), '[]'::json)`;
+}
+
+/**
+ * Maps a specializations row to the staff shape.
+ *
+ * @param {SpecializationDbRow} row Database row.
+ * @returns {SpecializationWithUsage} Specialization with usage counts.
+ */
+function mapSpecializationRow(row: SpecializationDbRow): SpecializationWithUsage {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    doctorCount: Number(row.doctor_count),
+    intakeQuestionCount: Number(row.intake_question_count),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Turns a unique violation on the slug into a readable error.
+ *
+ * @param {unknown} error Error thrown by PostgreSQL.
+ * @returns {unknown} The error to rethrow.
+ */
+function toSlugConflict(error: unknown): unknown {
+  const code: unknown = (error as { code?: unknown }).code;
+  if (code === "23505") {
+    return new Error("Specialization slug already exists.");
+  }
+  return error;
+}
+
+/**
+ * Lists the catalogue by name, as shown to patients.
+ *
+ * @returns {Promise<Specialization[]>} Specializations.
+ */
+export async function getSpecializations(): Promise<Specialization[]> {
+  const result: QueryResult<Specialization> = await query<Specialization>(
+    "SELECT id, name, slug FROM specializations ORDER BY name ASC, slug ASC",
+    []
+  );
+
+  return result.rows;
+}
+
+/**
+ * Lists the catalogue by name with how many doctors and intake questions
+ * use each entry.
+ *
+ * @returns {Promise<SpecializationWithUsage[]>} Specializations with usage counts.
+ */
+export async function getSpecializationsWithUsage(): Promise<SpecializationWithUsage[]> {
+  const result: QueryResult<SpecializationDbRow> = await query<SpecializationDbRow>(
+    `
+    SELECT ${SPECIALIZATION_COLUMNS}
+    FROM specializations sp
+    ORDER BY sp.name ASC, sp.slug ASC
+    `,
+    []
+  );
+
+  return result.rows.map(mapSpecializationRow);
+}
+
+/**
+ * Adds a catalogue entry.
+ *
+ * @param {string} name Display name.
+ * @param {string} slug Unique slug.
+ * @returns {Promise<SpecializationWithUsage>} Created specialization.
+ * @throws {Error} If the slug is taken.
+ */
+export async function createSpecialization(
+  name: string,
+  slug: string
+): Promise<SpecializationWithUsage> {
+  try {
+    const result: QueryResult<SpecializationDbRow> = await query<SpecializationDbRow>(
+      `
+      INSERT INTO specializations AS sp (id, name, slug)
+      VALUES ($1, $2, $3)
+      RETURNING ${SPECIALIZATION_COLUMNS}
+      `,
+      [generateUuid(), name, slug]
+    );
+
+    return mapSpecializationRow(result.rows[0]);
+  } catch (error) {
+    throw toSlugConflict(error);
+  }
+}
+
+/**
+ * Renames a catalogue entry or changes its slug. Doctors and intake
+ * questions follow, as they refer to it by id.
+ *
+ * @param {string} specializationId Specialization identifier.
+ * @param {object} changes New name and/or slug.
+ * @returns {Promise<SpecializationWithUsage>} Updated specialization.
+ * @throws {Error} If the specialization does not exist or the slug is taken.
+ */
+export async function updateSpecialization(
+  specializationId: string,
+  changes: { readonly name?: string; readonly slug?: string }
+): Promise<SpecializationWithUsage> {
+  try {
+    const result: QueryResult<SpecializationDbRow> = await query<SpecializationDbRow>(
+      `
+      UPDATE specializations AS sp
+      SET name = COALESCE($2, sp.name),
+          slug = COALESCE($3, sp.slug),
+          updated_at = NOW()
+      WHERE sp.id = $1
+      RETURNING ${SPECIALIZATION_COLUMNS}
+      `,
+      [specializationId, changes.name ?? null, changes.slug ?? null]
+    );
+
+    if (result.rowCount === 0) {
+      throw new Error("Specialization not found.");
+    }
+
+    return mapSpecializationRow(result.rows[0]);
+  } catch (error) {
+    throw toSlugConflict(error);
+  }
+}
+
+/**
+ * Removes a catalogue entry. An entry still used by a doctor or an intake
+ * question is only removed when mergeIntoId names another entry: its doctors
+ * and questions are moved there first, which is how duplicates such as
+ * "Cardiologist" and "Cardiology" are folded together. Links of deleted
+ * doctors are dropped.
+ *
+ * @param {string} specializationId Specialization to remove.
+ * @param {string | null} mergeIntoId Specialization taking over its doctors and questions.
+ * @throws {Error} If either specialization does not exist, or the entry is
+ *                 in use and no merge target was given.
+ */
+export async function deleteSpecialization(
+  specializationId: string,
+  mergeIntoId: string | null
+): Promise<void> {
+  if (mergeIntoId === specializationId) {
+    throw new Error("Cannot merge a specialization into itself.");
+  }
+
+  await withTransaction<void>(async (client: PoolClient) => {
+    // Both rows in id order, so concurrent merges cannot deadlock.
+    const locked: QueryResult<{ id: string }> = await client.query(
+      "SELECT id FROM specializations WHERE id = ANY($1::uuid[]) ORDER BY id FOR UPDATE",
+      [[specializationId, ...(mergeIntoId !== null ? [mergeIntoId] : [])]]
+    );
+
+    if (!locked.rows.some((r) => r.id === specializationId)) {
+      throw new Error("Specialization not found.");
+    }
+
+    if (mergeIntoId !== null) {
+      if (!locked.rows.some((r) => r.id === mergeIntoId)) {
+        throw new Error("Merge target not found.");
+      }
+
+      await client.query(
+        `
+        INSERT INTO doctor_specializations (doctor_id, specialization_id, position)
+        SELECT doctor_id, $2, position
+        FROM doctor_specializations
+        WHERE specialization_id = $1
+        ON CONFLICT (doctor_id, specialization_id) DO NOTHING
+        `,
+        [specializationId, mergeIntoId]
+      );
+      await client.query(
+        "UPDATE intake_questions SET specialization_id = $2 WHERE specialization_id = $1",
+        [specializationId, mergeIntoId]
+      );
+    } else {
+      const usage: QueryResult = await client.query(
+        `
+        SELECT 1
+        FROM doctor_specializations ds
+        INNER JOIN doctors d ON d.id = ds.doctor_id
+        WHERE ds.specialization_id = $1 AND d.deleted_at IS NULL
+        UNION ALL
+        SELECT 1 FROM intake_questions WHERE specialization_id = $1
+        LIMIT 1
+        `,
+        [specializationId]
+      );
+
+      if ((usage.rowCount ?? 0) > 0) {
+        throw new Error("Specialization is in use.");
+      }
+    }
+
+    await client.query("DELETE FROM doctor_specializations WHERE specialization_id = $1", [
+      specializationId
+    ]);
+    await client.query("DELETE FROM specializations WHERE id = $1", [specializationId]);
+  });
+}
+
+/**
+ * Replaces a doctor's specializations, keeping the given order.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} doctorId Doctor identifier.
+ * @param {readonly string[]} specializationIds Specializations, main one first.
+ * @throws {Error} If any of the specializations does not exist.
+ */
+export async function setDoctorSpecializationsInTransaction(
+  client: PoolClient,
+  doctorId: string,
+  specializationIds: readonly string[]
+): Promise<void> {
+  const found: QueryResult<{ id: string }> = await client.query(
+    "SELECT id FROM specializations WHERE id = ANY($1::uuid[]) FOR SHARE",
+    [specializationIds]
+  );
+
+  if (found.rows.length !== new Set(specializationIds).size) {
+    throw new Error("Specialization not found.");
+  }
+
+  await client.query("DELETE FROM doctor_specializations WHERE doctor_id = $1", [doctorId]);
+  await client.query(
+    `
+    INSERT INTO doctor_specializations (doctor_id, specialization_id, position)
+    SELECT $1, ids.id, ids.position - 1
+    FROM unnest($2::uuid[]) WITH ORDINALITY AS ids(id, position)
+    `,
+    [doctorId, specializationIds]
+  );
+}
@@ -3,7 +3,65 @@
  * @description Shared domain types for doctors, slots, and bookings.
  */
 
-export type BookingStatus = "PENDING" | "CONFIRMED" | "FAILED";
+/**
+ * Attendance steps a confirmed booking goes through on the day.
+ */
+export type AttendanceStatus = "CHECKED_IN" | "IN_PROGRESS" | "COMPLETED" | "NO_SHOW";
+
+export type BookingStatus =
+  | "PENDING"
+  | "CONFIRMED"
+  | "FAILED"
+  | "CANCELLED"
+  | "CANCELLED_BY_CLINIC"
+  | AttendanceStatus;
+
+/**
+ * Origin of an action on a booking.
+ */
+export type ActorSource = "PATIENT" | "STAFF" | "SYSTEM";
+
+/**
+ * Who performed an action on a booking. userId is set for staff users only.
+ */
+export interface BookingActor {
+  readonly source: ActorSource;
+  readonly userId: string | null;
+}
+
+/**
+ * Who created a booking, and the reason given when staff booked it past the
+ * slot's capacity (null otherwise).
+ */
+export interface BookingOrigin {
+  readonly actor: BookingActor;
+  readonly overbookReason: string | null;
+}
+
+/**
+ * Roles a staff account can hold.
+ */
+export type StaffRole = "admin" | "receptionist" | "doctor";
+
+/**
+ * Entry of the specialization catalogue.
+ */
+export interface Specialization {
+  readonly id: string;
+  readonly name: string;
+  /** URL-safe identifier, e.g. "sports-medicine"; used to filter slots. */
+  readonly slug: string;
+}
+
+/**
+ * Specialization listed for staff with what still refers to it.
+ */
+export interface SpecializationWithUsage extends Specialization {
+  readonly doctorCount: number;
+  readonly intakeQuestionCount: number;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
 
 /**
  * Represents a doctor entity stored in the database.
@@ -11,10 +69,39 @@ export type BookingStatus = "PENDING" | "CONFIRMED" | "FAILED";
 export interface Doctor {
   readonly id: string;
   readonly name: string;
-  readonly specialization: string;
+  /** Catalogue specializations, main one first. */
+  readonly specializations: readonly Specialization[];
+  readonly bio: string | null;
+  readonly qualifications: readonly string[];
+  readonly languages: readonly string[];
+  /** Consultation fee in minor currency units (e.g. cents). */
+  readonly consultationFeeCents: number | null;
+  readonly photoUrl: string | null;
+  /** Shown to patients; existing slots and bookings are not affected. */
+  readonly acceptingNewPatients: boolean;
   readonly createdAt: string;
+  readonly updatedAt: string;
 }
 
+/**
+ * Doctor profile fields an admin may change; undefined leaves a field as is.
+ */
+export type DoctorProfileChanges = Partial<
+  Pick<
+    Doctor,
+    | "name"
+    | "bio"
+    | "qualifications"
+    | "languages"
+    | "consultationFeeCents"
+    | "photoUrl"
+    | "acceptingNewPatients"
+  > & {
+    /** Replaces the doctor's specializations, main one first. */
+    readonly specializationIds: readonly string[];
+  }
+>;
+
 /**
  * Represents a slot entity stored in the database.
  */
@@ -25,6 +112,45 @@ export interface Slot {
   readonly endTime: string;
   readonly capacity: number;
   readonly createdAt: string;
+  /** Set when an admin created the slot outside the doctor's working hours. */
+  readonly hoursOverrideReason: string | null;
+}
+
+/**
+ * Active slot of the same doctor that a new slot would overlap.
+ */
+export interface SlotConflict {
+  readonly slotId: string;
+  readonly startTime: string;
+  readonly endTime: string;
+}
+
+/**
+ * A range of a doctor's weekly working hours. Times of day are HH:MM in the
+ * clinic's time zone; weekday is an ISO number (1 = Monday).
+ */
+export interface WorkingHours {
+  readonly weekday: number;
+  readonly startTime: string;
+  readonly endTime: string;
+}
+
+/**
+ * An admin's permission to create a slot outside the doctor's working hours,
+ * e.g. when the doctor agreed to extra hours.
+ */
+export interface HoursOverride {
+  readonly reason: string;
+  readonly userId: string | null;
+}
+
+/**
+ * A bookable appointment inside a slot. A slot is split into one
+ * appointment time per seat.
+ */
+export interface AppointmentTime {
+  readonly startTime: string;
+  readonly endTime: string;
 }
 
 /**
@@ -32,15 +158,164 @@ export interface Slot {
  */
 export interface Booking {
   readonly id: string;
+  /** Short code patients quote instead of the id, e.g. MDX-7K3Q9. */
+  readonly referenceCode: string;
   readonly slotId: string;
   readonly userName: string;
+  /** Lower-cased patient email identifying the patient (null for legacy bookings). */
+  readonly patientEmail: string | null;
+  /** Patient record the booking belongs to (null for legacy bookings). */
+  readonly patientId: string | null;
   readonly status: BookingStatus;
   readonly createdAt: string;
   readonly updatedAt: string;
+  /** Who made the booking; createdByUserId is set for staff users. */
+  readonly createdBy: ActorSource;
+  readonly createdByUserId: string | null;
+  /** Set when staff booked past the slot's capacity (flagged in staff lists). */
+  readonly overbookReason: string | null;
+  readonly cancelledAt: string | null;
+  readonly cancelledBy: ActorSource | null;
+  readonly cancellationReason: string | null;
+  /** Exact appointment time inside the slot (null for legacy bookings). */
+  readonly appointmentStart: string | null;
+  readonly appointmentEnd: string | null;
+  /** Set while the booking is a PENDING seat hold. */
+  readonly holdExpiresAt: string | null;
+  /** Shared by the bookings of a multi-attendee booking. */
+  readonly bookingGroupId: string | null;
+  /** Attendance timestamps, set as the booking moves through the visit. */
+  readonly checkedInAt: string | null;
+  readonly startedAt: string | null;
+  readonly completedAt: string | null;
+  readonly noShowAt: string | null;
+  /** Why the patient is coming, in their own words. */
+  readonly visitReason: string | null;
+  readonly intakeAnswers: readonly IntakeAnswer[];
+}
+
+/**
+ * Kinds of intake question: free text, one of a list of options, yes/no,
+ * or a calendar date (YYYY-MM-DD).
+ */
+export type IntakeQuestionType = "TEXT" | "CHOICE" | "YES_NO" | "DATE";
+
+/**
+ * A question asked when booking, configured either for one doctor or for
+ * every doctor of a specialization (exactly one of the two is set).
+ */
+export interface IntakeQuestion {
+  readonly id: string;
+  readonly doctorId: string | null;
+  readonly specializationId: string | null;
+  readonly specializationName: string | null;
+  readonly prompt: string;
+  readonly type: IntakeQuestionType;
+  /** Allowed answers of a CHOICE question; empty for other types. */
+  readonly options: readonly string[];
+  readonly required: boolean;
+  readonly position: number;
+  readonly createdAt: string;
+}
+
+/**
+ * An answer stored on a booking, with a copy of the question as it was
+ * asked so it stays readable if the question is later changed or removed.
+ */
+export interface IntakeAnswer {
+  readonly questionId: string;
+  readonly prompt: string;
+  readonly type: IntakeQuestionType;
+  readonly answer: string | boolean;
+}
+
+/**
+ * Visit reason and validated intake answers submitted with a booking.
+ */
+export interface BookingIntake {
+  readonly visitReason: string | null;
+  readonly answers: readonly IntakeAnswer[];
+}
+
+/**
+ * What anonymous callers may see of a booking: where and when it is, its
+ * status and reference code. Patient contact details and the staff-only
+ * fields stay on the admin routes.
+ */
+export type PublicBooking = Pick<
+  Booking,
+  | "id"
+  | "referenceCode"
+  | "slotId"
+  | "status"
+  | "createdAt"
+  | "cancelledAt"
+  | "cancellationReason"
+  | "appointmentStart"
+  | "appointmentEnd"
+  | "holdExpiresAt"
+  | "bookingGroupId"
+>;
+
+/**
+ * Seats booked together for several attendees of one slot.
+ * availableSeats is what the slot had left right after the group was booked.
+ */
+export interface BookingGroup {
+  readonly id: string;
+  readonly slotId: string;
+  readonly bookings: readonly Booking[];
+  readonly availableSeats: number;
+}
+
+/**
+ * One move of a booking from one slot to another.
+ * Slot ids become null if the slot is later deleted.
+ */
+export interface BookingReschedule {
+  readonly id: string;
+  readonly bookingId: string;
+  readonly fromSlotId: string | null;
+  readonly toSlotId: string | null;
+  readonly movedBy: ActorSource;
+  readonly createdAt: string;
 }
 
 /**
- * Represents a slot along with additional aggregated data.
+ * Lifecycle of a waitlist entry: WAITING in the queue, PROMOTED to a booking,
+ * or LEFT (removed by the patient or staff).
+ */
+export type WaitlistStatus = "WAITING" | "PROMOTED" | "LEFT";
+
+/**
+ * A patient queued for a full slot. position is the 1-based place in the
+ * queue while WAITING, otherwise null.
+ */
+export interface WaitlistEntry {
+  readonly id: string;
+  readonly slotId: string;
+  readonly userName: string;
+  readonly patientEmail: string | null;
+  readonly status: WaitlistStatus;
+  readonly position: number | null;
+  readonly bookingId: string | null;
+  readonly createdAt: string;
+  readonly promotedAt: string | null;
+}
+
+/**
+ * What anonymous callers may see of a waitlist entry: its status, place in
+ * the queue and the slot or booking it belongs to. The patient's name and
+ * email stay on the admin routes.
+ */
+export type PublicWaitlistEntry = Pick<
+  WaitlistEntry,
+  "id" | "slotId" | "status" | "position" | "bookingId" | "createdAt" | "promotedAt"
+>;
+
+/**
+ * Public projection of a slot along with aggregated availability counts.
+ * Never carries patient details.
  */
 export interface SlotWithMeta {
   readonly id: string;
@@ -50,13 +325,251 @@ export interface SlotWithMeta {
   readonly capacity: number;
   readonly createdAt: string;
   readonly doctorName: string;
+  /** Names of the doctor's specializations joined for display. */
   readonly doctorSpecialization: string;
+  readonly doctorSpecializations: readonly Specialization[];
+  readonly doctorPhotoUrl: string | null;
+  readonly doctorLanguages: readonly string[];
+  readonly doctorConsultationFeeCents: number | null;
+  readonly doctorAcceptingNewPatients: boolean;
   readonly confirmedCount: number;
+  /** Seats reserved by holds that have not expired yet. */
+  readonly heldCount: number;
   readonly availableSeats: number;
-  readonly bookings?: readonly {
-    readonly id: string;
-    readonly userName: string;
-    readonly status: string;
-    readonly createdAt: string;
-  }[];
+  readonly waitlistCount: number;
+}
+
+/**
+ * Booking entry listed under a slot in the admin projection.
+ */
+export interface SlotBookingSummary {
+  readonly id: string;
+  readonly userName: string;
+  readonly status: BookingStatus;
+  readonly createdAt: string;
+}
+
+/**
+ * Waiting patient listed under a slot in the admin projection, in queue order.
+ */
+export interface SlotWaitlistSummary {
+  readonly id: string;
+  readonly userName: string;
+  readonly createdAt: string;
+}
+
+/**
+ * Staff projection of a slot, including its confirmed bookings.
+ */
+export interface AdminSlotWithMeta extends SlotWithMeta {
+  readonly hoursOverrideReason: string | null;
+  /** Blackout covering the slot; it keeps its bookings but takes no new ones. */
+  readonly blackoutId: string | null;
+  readonly bookings: readonly SlotBookingSummary[];
+  readonly waitlist: readonly SlotWaitlistSummary[];
+}
+
+/**
+ * What deleting a doctor or slot would do: future slots removed, confirmed
+ * bookings cancelled by the clinic and patients taken off waitlists.
+ */
+export interface DeletionImpact {
+  readonly futureSlotCount: number;
+  readonly confirmedBookingCount: number;
+  readonly waitlistCount: number;
+}
+
+/**
+ * What happens to bookings that no longer fit when a slot's capacity is
+ * lowered: refuse the change, move them to the front of the waitlist, or
+ * cancel them.
+ */
+export type CapacityReductionPolicy = "REJECT" | "WAITLIST" | "CANCEL";
+
+/**
+ * Kinds of message queued for a patient.
+ */
+export type NotificationKind = "BOOKING_CANCELLED" | "MOVED_TO_WAITLIST";
+
+/**
+ * Weekly rule of a recurring slot template. Times of day are HH:MM in the
+ * clinic's time zone; weekdays are ISO numbers (1 = Monday).
+ */
+export interface SlotTemplateRule {
+  readonly weekdays: readonly number[];
+  readonly dayStart: string;
+  readonly dayEnd: string;
+  readonly slotMinutes: number;
+  readonly capacity: number;
+  readonly startsOn: string;
+  readonly endsOn: string;
+}
+
+/**
+ * A recurring slot template. endedAt is set once the template was ended;
+ * futureSlotCount counts its active slots that have not started.
+ */
+export interface SlotTemplate extends SlotTemplateRule {
+  readonly id: string;
+  readonly doctorId: string;
+  readonly doctorName: string;
+  readonly endedAt: string | null;
+  readonly futureSlotCount: number;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/**
+ * Start and end of one slot generated from a template.
+ */
+export interface TemplateSlotTime {
+  readonly startTime: string;
+  readonly endTime: string;
+}
+
+/**
+ * Template occurrence that was not created, with the active slot of the
+ * doctor it overlaps or the blackout it falls in.
+ */
+export interface SkippedTemplateSlot extends TemplateSlotTime {
+  readonly conflictSlotId: string | null;
+  readonly blackoutId: string | null;
+}
+
+/**
+ * What creating, editing or ending a template did (or would do, for a
+ * preview): slots created, occurrences skipped because they overlap another
+ * active slot of the doctor or fall in a blackout, and future unbooked slots
+ * removed.
+ */
+export interface SlotTemplateChange {
+  readonly template: SlotTemplate;
+  readonly createdSlots: readonly TemplateSlotTime[];
+  readonly skippedSlots: readonly SkippedTemplateSlot[];
+  readonly removedSlotCount: number;
+}
+
+/**
+ * Booked slot inside a blackout, waiting for staff to reschedule or cancel
+ * its bookings.
+ */
+export interface BlackoutSlot {
+  readonly slotId: string;
+  readonly doctorId: string;
+  readonly doctorName: string;
+  readonly startTime: string;
+  readonly endTime: string;
+  readonly bookingCount: number;
+}
+
+/**
+ * Doctor leave, or a clinic-wide holiday when doctorId is null. Dates are
+ * inclusive, in the clinic's time zone.
+ */
+export interface Blackout {
+  readonly id: string;
+  readonly doctorId: string | null;
+  readonly doctorName: string | null;
+  readonly startsOn: string;
+  readonly endsOn: string;
+  readonly reason: string;
+  readonly createdByUserId: string | null;
+  readonly createdAt: string;
+  readonly flaggedSlots: readonly BlackoutSlot[];
+}
+
+/**
+ * A new blackout and the number of unbooked slots it deactivated.
+ */
+export interface BlackoutChange {
+  readonly blackout: Blackout;
+  readonly deactivatedSlotCount: number;
+}
+
+/**
+ * One status change in a booking's history. fromStatus is null for the
+ * booking's first event; actorName is the staff user's name, when known.
+ */
+export interface BookingEvent {
+  readonly id: string;
+  readonly bookingId: string;
+  readonly fromStatus: BookingStatus | null;
+  readonly toStatus: BookingStatus;
+  readonly actorSource: ActorSource;
+  readonly actorUserId: string | null;
+  readonly actorName: string | null;
+  readonly reason: string | null;
+  readonly createdAt: string;
+}
+
+/**
+ * A booking or seat hold removed from a slot to fit a lower capacity.
+ * Holds have no patient yet and are only released.
+ */
+export interface CapacityAffectedBooking {
+  readonly bookingId: string;
+  readonly referenceCode: string;
+  readonly userName: string;
+  readonly patientEmail: string | null;
+  readonly outcome: "HOLD_RELEASED" | "WAITLISTED" | "CANCELLED";
+  /** Waitlist entry created for a WAITLISTED booking. */
+  readonly waitlistEntryId: string | null;
+  /** Whether a message was queued for the patient (needs their email). */
+  readonly notified: boolean;
+}
+
+/**
+ * A patient of the clinic, identified by their lower-cased email.
+ */
+export interface Patient {
+  readonly id: string;
+  readonly fullName: string;
+  readonly email: string;
+  readonly phone: string | null;
+  /** Calendar date (YYYY-MM-DD). */
+  readonly dateOfBirth: string | null;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/**
+ * Contact details given when booking. The patient record with this email is
+ * found or created, and updated with any details given.
+ */
+export interface PatientContact {
+  readonly fullName: string;
+  readonly email: string;
+  readonly phone: string | null;
+  readonly dateOfBirth: string | null;
+}
+
+/**
+ * Patient as listed for staff, with a summary of their bookings.
+ */
+export interface PatientSummary extends Patient {
+  readonly bookingCount: number;
+  readonly lastAppointmentAt: string | null;
+}
+
+/**
+ * Booking joined with its slot and doctor, as listed for staff.
+ */
+export interface BookingWithSlot extends Booking {
+  readonly doctorId: string;
+  readonly doctorName: string;
+  readonly slotStartTime: string;
+  readonly slotEndTime: string;
+}
+
+/**
+ * Represents a staff account. The password hash is never part of this shape.
+ */
+export interface StaffUser {
+  readonly id: string;
+  readonly email: string;
+  readonly name: string;
+  readonly role: StaffRole;
+  /** Linked doctor for accounts with the "doctor" role, otherwise null. */
+  readonly doctorId: string | null;
+  readonly createdAt: string;
 }
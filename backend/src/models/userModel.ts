@@ -0,0 +1,148 @@
+/**
+ * @file userModel.ts
+ * @description Data access methods for staff user accounts.
+ */
+
+import { QueryResult } from "pg";
+import { query } from "../config/db";
+import { StaffRole, StaffUser } from "./types";
+import { generateUuid } from "../utils/uuid";
+
+/**
+ * Raw users row as returned by PostgreSQL.
+ */
+interface UserDbRow {
+  readonly id: string;
+  readonly email: string;
+  readonly name: string;
+  readonly role: StaffRole;
+  readonly doctor_id: string | null;
+  readonly password_hash: string;
+  readonly created_at: string;
+}
+
+/**
+ * Maps a database row to the public staff user shape (without the hash).
+ *
+ * @param {UserDbRow} row Database row.
+ * @returns {StaffUser} Staff user.
+ */
+function mapUserRow(row: UserDbRow): StaffUser {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    doctorId: row.doctor_id,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Inserts a new staff user.
+ *
+ * @param {string} email Login email (stored lower-cased).
+ * @param {string} name Display name.
+ * @param {StaffRole} role Account role.
+ * @param {string | null} doctorId Linked doctor for "doctor" accounts.
+ * @param {string} passwordHash Hash produced by hashPassword.
+ * @returns {Promise<StaffUser>} Created user.
+ * @throws {Error} If the email is already registered or the doctor does not exist.
+ */
+export async function createUser(
+  email: string,
+  name: string,
+  role: StaffRole,
+  doctorId: string | null,
+  passwordHash: string
+): Promise<StaffUser> {
+  const id: string = generateUuid();
+
+  try {
+    const result: QueryResult<UserDbRow> = await query<UserDbRow>(
+      `
+      INSERT INTO users (id, email, name, role, doctor_id, password_hash)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id, email, name, role, doctor_id, password_hash, created_at
+      `,
+      [id, email.toLowerCase(), name, role, doctorId, passwordHash]
+    );
+
+    return mapUserRow(result.rows[0]);
+  } catch (error) {
+    const code: unknown = (error as { code?: unknown }).code;
+    if (code === "23505") {
+      throw new Error("Email is already registered.");
+    }
+    if (code === "23503") {
+      throw new Error("Doctor not found.");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Looks up a user and password hash by login email.
+ *
+ * @param {string} email Login email.
+ * @returns {Promise<{ user: StaffUser; passwordHash: string } | null>} User with hash, or null.
+ */
+export async function getUserCredentialsByEmail(
+  email: string
+): Promise<{ user: StaffUser; passwordHash: string } | null> {
+  const result: QueryResult<UserDbRow> = await query<UserDbRow>(
+    `
+    SELECT id, email, name, role, doctor_id, password_hash, created_at
+    FROM users
+    WHERE email = $1
+    `,
+    [email.toLowerCase()]
+  );
+
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return { user: mapUserRow(row), passwordHash: row.password_hash };
+}
+
+/**
+ * Retrieves a user by identifier.
+ *
+ * @param {string} userId User identifier.
+ * @returns {Promise<StaffUser | null>} User if found, otherwise null.
+ */
+export async function getUserById(userId: string): Promise<StaffUser | null> {
+  const result: QueryResult<UserDbRow> = await query<UserDbRow>(
+    `
+    SELECT id, email, name, role, doctor_id, password_hash, created_at
+    FROM users
+    WHERE id = $1
+    `,
+    [userId]
+  );
+
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  return mapUserRow(result.rows[0]);
+}
+
+/**
+ * Returns all staff users ordered by name.
+ *
+ * @returns {Promise<StaffUser[]>} Staff users.
+ */
+export async function getAllUsers(): Promise<StaffUser[]> {
+  const result: QueryResult<UserDbRow> = await query<UserDbRow>(
+    `
+    SELECT id, email, name, role, doctor_id, password_hash, created_at
+    FROM users
+    ORDER BY name ASC
+    `
+  );
+
+  return result.rows.map(mapUserRow);
+}
@@ -4,6 +4,8 @@
  */
 
 import { z } from "zod";
+import { normalizeReferenceCode } from "../utils/referenceCode";
+import { SLUG_PATTERN } from "../utils/slug";
 
 /**
  * Schema used to validate the payload for creating a doctor.
@@ -13,10 +15,13 @@ export const createDoctorSchema = z.object({
     .string()
     .min(1, { message: "Name is required." })
     .max(255, { message: "Name must be at most 255 characters." }),
-  specialization: z
-    .string()
-    .min(1, { message: "Specialization is required." })
-    .max(255, { message: "Specialization must be at most 255 characters." })
+  specializationIds: z
+    .array(z.string().uuid({ message: "specializationIds must be valid UUIDs." }))
+    .min(1, { message: "Pick at least one specialization." })
+    .max(10, { message: "At most 10 specializations are allowed." })
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "specializationIds must not repeat."
+    })
 });
 
 /**
@@ -25,29 +30,486 @@ export const createDoctorSchema = z.object({
 export type CreateDoctorInput = z.infer<typeof createDoctorSchema>;
 
 /**
- * Schema used to validate the payload for creating a slot.
+ * Schema for a list of short profile entries such as qualifications.
+ *
+ * @param {string} field Field name used in error messages.
  */
-export const createSlotSchema = z.object({
-  doctorId: z
-    .string()
-    .uuid({ message: "doctorId must be a valid UUID." }),
-  startTime: z
-    .string()
-    .min(1, { message: "startTime is required." }),
-  endTime: z
+function profileListSchema(field: string) {
+  return z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, { message: `${field} must not contain empty entries.` })
+        .max(100, { message: `${field} entries must be at most 100 characters.` })
+    )
+    .max(20, { message: `At most 20 ${field} are allowed.` })
+    .refine(
+      (entries) => new Set(entries.map((e) => e.toLowerCase())).size === entries.length,
+      { message: `${field} must not repeat.` }
+    );
+}
+
+/**
+ * Schema used to validate a doctor profile update. Only the fields sent are
+ * changed; null clears an optional field.
+ */
+export const updateDoctorSchema = createDoctorSchema
+  .partial()
+  .extend({
+    bio: z
+      .string()
+      .trim()
+      .max(2000, { message: "bio must be at most 2000 characters." })
+      .transform((value) => (value.length > 0 ? value : null))
+      .nullable()
+      .optional(),
+    qualifications: profileListSchema("qualifications").optional(),
+    languages: profileListSchema("languages").optional(),
+    consultationFeeCents: z
+      .number()
+      .int({ message: "consultationFeeCents must be an integer." })
+      .min(0, { message: "consultationFeeCents must not be negative." })
+      .max(10_000_000, { message: "consultationFeeCents must be at most 10000000." })
+      .nullable()
+      .optional(),
+    photoUrl: z
+      .string()
+      .max(2048, { message: "photoUrl must be at most 2048 characters." })
+      .url({ message: "photoUrl must be a valid URL." })
+      .refine((value) => value.startsWith("https://"), {
+        message: "photoUrl must use https."
+      })
+      .nullable()
+      .optional(),
+    acceptingNewPatients: z.boolean().optional()
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Send at least one field to change."
+  });
+
+/**
+ * TypeScript type representing a valid doctor profile update.
+ */
+export type UpdateDoctorInput = z.infer<typeof updateDoctorSchema>;
+
+/**
+ * Schema for a specialization slug such as "sports-medicine".
+ */
+const specializationSlugSchema = z
+  .string()
+  .trim()
+  .max(100, { message: "slug must be at most 100 characters." })
+  .regex(SLUG_PATTERN, {
+    message: "slug may only use lower-case letters and digits, joined by single hyphens."
+  });
+
+/**
+ * Schema used to validate a new catalogue specialization. Without a slug one
+ * is derived from the name.
+ */
+export const createSpecializationSchema = z.object({
+  name: z
     .string()
-    .min(1, { message: "endTime is required." }),
-  capacity: z
-    .number()
-    .int({ message: "capacity must be an integer." })
-    .positive({ message: "capacity must be greater than 0." })
+    .trim()
+    .min(1, { message: "Name is required." })
+    .max(100, { message: "Name must be at most 100 characters." }),
+  slug: specializationSlugSchema.optional()
 });
 
+/**
+ * TypeScript type representing a valid new specialization.
+ */
+export type CreateSpecializationInput = z.infer<typeof createSpecializationSchema>;
+
+/**
+ * Schema used to validate a specialization rename or slug change.
+ */
+export const updateSpecializationSchema = createSpecializationSchema
+  .partial()
+  .refine((data) => data.name !== undefined || data.slug !== undefined, {
+    message: "Send a name or a slug to change."
+  });
+
+/**
+ * TypeScript type representing a valid specialization change.
+ */
+export type UpdateSpecializationInput = z.infer<typeof updateSpecializationSchema>;
+
+/**
+ * Schema for a point in time written as ISO 8601 with an offset.
+ *
+ * @param {string} field Field name used in error messages.
+ */
+function isoDateTimeSchema(field: string) {
+  return z.string().datetime({ offset: true, message: `${field} must be an ISO 8601 date-time.` });
+}
+
+/**
+ * Schema used to validate the payload for creating a slot. Admins may give
+ * outsideHoursReason to create a slot outside the doctor's working hours.
+ */
+export const createSlotSchema = z
+  .object({
+    doctorId: z
+      .string()
+      .uuid({ message: "doctorId must be a valid UUID." }),
+    startTime: isoDateTimeSchema("startTime"),
+    endTime: isoDateTimeSchema("endTime"),
+    capacity: z
+      .number()
+      .int({ message: "capacity must be an integer." })
+      .positive({ message: "capacity must be greater than 0." }),
+    outsideHoursReason: z
+      .string()
+      .trim()
+      .min(1, { message: "outsideHoursReason must not be empty." })
+      .max(500, { message: "outsideHoursReason must be at most 500 characters." })
+      .optional()
+  })
+  .superRefine((slot, ctx) => {
+    if (Date.parse(slot.endTime) <= Date.parse(slot.startTime)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "endTime must be after startTime.",
+        path: ["endTime"]
+      });
+    }
+
+    if (Date.parse(slot.startTime) <= Date.now()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "startTime must be in the future.",
+        path: ["startTime"]
+      });
+    }
+  });
+
 /**
  * TypeScript type representing a valid create slot payload.
  */
 export type CreateSlotInput = z.infer<typeof createSlotSchema>;
 
+/**
+ * Schema used to validate a slot capacity change. The policy says what
+ * happens to bookings that no longer fit; by default the change is refused.
+ */
+export const updateSlotCapacitySchema = z.object({
+  capacity: z.coerce
+    .number({ invalid_type_error: "capacity must be a number." })
+    .int({ message: "capacity must be an integer." })
+    .positive({ message: "capacity must be greater than 0." }),
+  policy: z
+    .enum(["REJECT", "WAITLIST", "CANCEL"], {
+      errorMap: () => ({ message: "policy must be one of REJECT, WAITLIST, CANCEL." })
+    })
+    .default("REJECT")
+});
+
+/**
+ * TypeScript type representing a valid slot capacity change.
+ */
+export type UpdateSlotCapacityInput = z.infer<typeof updateSlotCapacitySchema>;
+
+/**
+ * Longest period, in days, one slot template or blackout may cover.
+ */
+const MAX_DATE_RANGE_DAYS: number = 366;
+
+/**
+ * Builds a schema for a time of day on the 24-hour clock, e.g. 09:00.
+ *
+ * @param {string} field Field name used in error messages.
+ */
+function timeOfDaySchema(field: string) {
+  return z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: `${field} must be a HH:MM time.`
+  });
+}
+
+/**
+ * Builds a schema for a real calendar date written as YYYY-MM-DD.
+ *
+ * @param {string} field Field name used in error messages.
+ */
+function calendarDateSchema(field: string) {
+  return z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: `${field} must be a YYYY-MM-DD date.` })
+    .refine(
+      (value) => {
+        const parsed: Date = new Date(`${value}T00:00:00Z`);
+        return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+      },
+      { message: `${field} must be a real date.` }
+    );
+}
+
+/**
+ * Counts minutes since midnight in a HH:MM time.
+ *
+ * @param {string} time Time of day.
+ * @returns {number} Minutes since midnight.
+ */
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Weekly rule of a slot template: on each listed ISO weekday (1 = Monday)
+ * between startsOn and endsOn, slots of slotMinutes from dayStart until
+ * dayEnd, in the clinic's time zone.
+ */
+const slotTemplateRuleSchema = z.object({
+  weekdays: z
+    .array(
+      z
+        .number()
+        .int({ message: "weekdays must be whole numbers." })
+        .min(1, { message: "weekdays must be between 1 (Monday) and 7 (Sunday)." })
+        .max(7, { message: "weekdays must be between 1 (Monday) and 7 (Sunday)." })
+    )
+    .min(1, { message: "Pick at least one weekday." })
+    .refine((days) => new Set(days).size === days.length, {
+      message: "weekdays must not repeat."
+    }),
+  dayStart: timeOfDaySchema("dayStart"),
+  dayEnd: timeOfDaySchema("dayEnd"),
+  slotMinutes: z.coerce
+    .number({ invalid_type_error: "slotMinutes must be a number." })
+    .int({ message: "slotMinutes must be an integer." })
+    .min(5, { message: "slotMinutes must be at least 5." })
+    .max(480, { message: "slotMinutes must be at most 480." }),
+  capacity: z.coerce
+    .number({ invalid_type_error: "capacity must be a number." })
+    .int({ message: "capacity must be an integer." })
+    .positive({ message: "capacity must be greater than 0." }),
+  startsOn: calendarDateSchema("startsOn"),
+  endsOn: calendarDateSchema("endsOn")
+});
+
+/**
+ * Checks that span several fields of a template rule.
+ *
+ * @param {z.infer<typeof slotTemplateRuleSchema>} rule Rule with valid fields.
+ * @param {z.RefinementCtx} ctx Context to report issues on.
+ */
+function checkSlotTemplateRule(
+  rule: z.infer<typeof slotTemplateRuleSchema>,
+  ctx: z.RefinementCtx
+): void {
+  const dayMinutes: number = minutesOfDay(rule.dayEnd) - minutesOfDay(rule.dayStart);
+
+  if (dayMinutes <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "dayEnd must be after dayStart.",
+      path: ["dayEnd"]
+    });
+  } else if (dayMinutes < rule.slotMinutes) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "slotMinutes must fit between dayStart and dayEnd.",
+      path: ["slotMinutes"]
+    });
+  }
+
+  const days: number =
+    (Date.parse(rule.endsOn) - Date.parse(rule.startsOn)) / (24 * 60 * 60 * 1000);
+  if (days < 0 || days >= MAX_DATE_RANGE_DAYS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `endsOn must be on or after startsOn and within ${MAX_DATE_RANGE_DAYS} days of it.`,
+      path: ["endsOn"]
+    });
+  }
+}
+
+/**
+ * Schema used to validate a new recurring slot template.
+ */
+export const createSlotTemplateSchema = slotTemplateRuleSchema
+  .extend({
+    doctorId: z.string().uuid({ message: "doctorId must be a valid UUID." })
+  })
+  .superRefine(checkSlotTemplateRule);
+
+/**
+ * TypeScript type representing a valid new slot template.
+ */
+export type CreateSlotTemplateInput = z.infer<typeof createSlotTemplateSchema>;
+
+/**
+ * Schema used to validate a template edit. The whole rule is replaced; the
+ * doctor cannot change.
+ */
+export const updateSlotTemplateSchema = slotTemplateRuleSchema.superRefine(checkSlotTemplateRule);
+
+/**
+ * TypeScript type representing a valid slot template rule.
+ */
+export type SlotTemplateRuleInput = z.infer<typeof updateSlotTemplateSchema>;
+
+/**
+ * Schema used to validate a doctor's weekly working hours. The list replaces
+ * the current hours; ranges on the same day must not overlap.
+ */
+export const workingHoursSchema = z
+  .object({
+    hours: z
+      .array(
+        z.object({
+          weekday: z
+            .number()
+            .int({ message: "weekday must be a whole number." })
+            .min(1, { message: "weekday must be between 1 (Monday) and 7 (Sunday)." })
+            .max(7, { message: "weekday must be between 1 (Monday) and 7 (Sunday)." }),
+          startTime: timeOfDaySchema("startTime"),
+          endTime: timeOfDaySchema("endTime")
+        })
+      )
+      .max(50, { message: "At most 50 working hour ranges are allowed." })
+  })
+  .superRefine(({ hours }, ctx) => {
+    hours.forEach((range, index) => {
+      if (minutesOfDay(range.endTime) <= minutesOfDay(range.startTime)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "endTime must be after startTime.",
+          path: ["hours", index, "endTime"]
+        });
+        return;
+      }
+
+      const overlaps: boolean = hours.some(
+        (other, otherIndex) =>
+          otherIndex < index &&
+          other.weekday === range.weekday &&
+          minutesOfDay(other.startTime) < minutesOfDay(range.endTime) &&
+          minutesOfDay(range.startTime) < minutesOfDay(other.endTime)
+      );
+      if (overlaps) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Working hours on the same day must not overlap.",
+          path: ["hours", index, "startTime"]
+        });
+      }
+    });
+  });
+
+/**
+ * TypeScript type representing valid weekly working hours.
+ */
+export type WorkingHoursInput = z.infer<typeof workingHoursSchema>;
+
+/**
+ * Schema used to validate a new blackout: leave for one doctor, or a clinic
+ * holiday when doctorId is null or left out. Dates are inclusive.
+ */
+export const createBlackoutSchema = z
+  .object({
+    doctorId: z
+      .string()
+      .uuid({ message: "doctorId must be a valid UUID." })
+      .nullable()
+      .default(null),
+    startsOn: calendarDateSchema("startsOn"),
+    endsOn: calendarDateSchema("endsOn"),
+    reason: z
+      .string()
+      .trim()
+      .min(1, { message: "reason is required." })
+      .max(500, { message: "reason must be at most 500 characters." })
+  })
+  .superRefine((blackout, ctx) => {
+    const days: number =
+      (Date.parse(blackout.endsOn) - Date.parse(blackout.startsOn)) / (24 * 60 * 60 * 1000);
+    if (days < 0 || days >= MAX_DATE_RANGE_DAYS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `endsOn must be on or after startsOn and within ${MAX_DATE_RANGE_DAYS} days of it.`,
+        path: ["endsOn"]
+      });
+    }
+  });
+
+/**
+ * TypeScript type representing a valid new blackout.
+ */
+export type CreateBlackoutInput = z.infer<typeof createBlackoutSchema>;
+
+/**
+ * Optional appointment time picked inside a slot (ISO 8601 with offset).
+ */
+const appointmentStartSchema = isoDateTimeSchema("startTime").optional();
+
+/**
+ * Patient email identifying who a booking is for, compared case-insensitively
+ * to detect duplicate and overlapping bookings by the same person.
+ */
+const patientEmailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email({ message: "patientEmail must be a valid email address." })
+  .max(255, { message: "patientEmail must be at most 255 characters." });
+
+/**
+ * Optional patient phone number. Spaces, dots, dashes and brackets are
+ * dropped so the stored number is digits with an optional leading +.
+ */
+const patientPhoneSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.replace(/[\s().-]/g, ""))
+  .refine((value) => /^\+?\d{7,15}$/.test(value), {
+    message: "patientPhone must be a phone number of 7 to 15 digits."
+  })
+  .optional();
+
+/**
+ * Optional patient date of birth as YYYY-MM-DD; must be a real date that is
+ * not in the future.
+ */
+const dateOfBirthSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "dateOfBirth must be a YYYY-MM-DD date." })
+  .refine(
+    (value) => {
+      const parsed: Date = new Date(`${value}T00:00:00Z`);
+      return (
+        !Number.isNaN(parsed.getTime()) &&
+        parsed.toISOString().startsWith(value) &&
+        parsed.getTime() <= Date.now()
+      );
+    },
+    { message: "dateOfBirth must be a real date that is not in the future." }
+  )
+  .optional();
+
+/**
+ * Optional visit reason sent with a booking.
+ */
+const visitReasonSchema = z
+  .string()
+  .trim()
+  .max(1000, { message: "visitReason must be at most 1000 characters." })
+  .optional();
+
+/**
+ * Optional intake answers sent with a booking, keyed by question id. Only
+ * their shape is checked here; they are validated against the questions
+ * configured for the doctor before booking.
+ */
+const intakeAnswersSchema = z
+  .record(
+    z.string().uuid({ message: "intakeAnswers keys must be question UUIDs." }),
+    z.union([z.string(), z.boolean()])
+  )
+  .optional();
+
 /**
  * Schema used to validate the payload for creating a booking.
  */
@@ -58,10 +520,337 @@ export const createBookingSchema = z.object({
   userName: z
     .string()
     .min(1, { message: "userName is required." })
-    .max(255, { message: "userName must be at most 255 characters." })
+    .max(255, { message: "userName must be at most 255 characters." }),
+  patientEmail: patientEmailSchema,
+  patientPhone: patientPhoneSchema,
+  dateOfBirth: dateOfBirthSchema,
+  startTime: appointmentStartSchema,
+  visitReason: visitReasonSchema,
+  intakeAnswers: intakeAnswersSchema
 });
 
 /**
  * TypeScript type representing a valid create booking payload.
  */
 export type CreateBookingInput = z.infer<typeof createBookingSchema>;
+
+/**
+ * Largest number of attendees one group booking may contain.
+ */
+const MAX_GROUP_ATTENDEES: number = 10;
+
+/**
+ * Schema used to validate a booking of several seats in one slot, one per
+ * attendee. Each attendee is a separate patient with their own email.
+ */
+export const createGroupBookingSchema = z.object({
+  slotId: z
+    .string()
+    .uuid({ message: "slotId must be a valid UUID." }),
+  attendees: z
+    .array(
+      z.object({
+        userName: z
+          .string()
+          .trim()
+          .min(1, { message: "userName is required." })
+          .max(255, { message: "userName must be at most 255 characters." }),
+        patientEmail: patientEmailSchema,
+        patientPhone: patientPhoneSchema,
+        dateOfBirth: dateOfBirthSchema,
+        visitReason: visitReasonSchema,
+        intakeAnswers: intakeAnswersSchema
+      })
+    )
+    .min(1, { message: "At least one attendee is required." })
+    .max(MAX_GROUP_ATTENDEES, {
+      message: `At most ${MAX_GROUP_ATTENDEES} attendees can be booked together.`
+    })
+    .refine(
+      (attendees) =>
+        new Set(attendees.map((a) => a.patientEmail)).size === attendees.length,
+      { message: "Each attendee needs a different patientEmail." }
+    ),
+  holdId: z
+    .string()
+    .uuid({ message: "holdId must be a valid UUID." })
+    .optional()
+});
+
+/**
+ * TypeScript type representing a valid group booking payload.
+ */
+export type CreateGroupBookingInput = z.infer<typeof createGroupBookingSchema>;
+
+/**
+ * Schema used to validate the confirmation of a seat hold.
+ */
+export const confirmSeatHoldSchema = z.object({
+  userName: z
+    .string()
+    .trim()
+    .min(1, { message: "userName is required." })
+    .max(255, { message: "userName must be at most 255 characters." }),
+  patientEmail: patientEmailSchema,
+  patientPhone: patientPhoneSchema,
+  dateOfBirth: dateOfBirthSchema,
+  startTime: appointmentStartSchema,
+  visitReason: visitReasonSchema,
+  intakeAnswers: intakeAnswersSchema
+});
+
+/**
+ * TypeScript type representing a valid hold confirmation payload.
+ */
+export type ConfirmSeatHoldInput = z.infer<typeof confirmSeatHoldSchema>;
+
+/**
+ * Schema used to validate a booking lookup by reference code. The surname
+ * must match the patient's so a code alone reveals nothing. The code is
+ * brought into its stored form (upper case, MDX- prefix).
+ */
+export const lookupBookingSchema = z.object({
+  referenceCode: z
+    .string()
+    .transform((value, ctx) => {
+      const normalized: string | null = normalizeReferenceCode(value);
+      if (normalized === null) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "referenceCode must look like MDX-7K3Q9."
+        });
+        return z.NEVER;
+      }
+      return normalized;
+    }),
+  surname: z
+    .string()
+    .trim()
+    .min(1, { message: "surname is required." })
+    .max(255, { message: "surname must be at most 255 characters." })
+});
+
+/**
+ * TypeScript type representing a valid booking lookup payload.
+ */
+export type LookupBookingInput = z.infer<typeof lookupBookingSchema>;
+
+/**
+ * Schema used to validate a patient's booking cancellation.
+ */
+export const cancelBookingSchema = z.object({
+  reason: z
+    .string()
+    .max(500, { message: "reason must be at most 500 characters." })
+    .optional()
+});
+
+/**
+ * TypeScript type representing a valid cancellation payload.
+ */
+export type CancelBookingInput = z.infer<typeof cancelBookingSchema>;
+
+/**
+ * Schema used to validate a booking reschedule request.
+ */
+export const rescheduleBookingSchema = z.object({
+  slotId: z
+    .string()
+    .uuid({ message: "slotId must be a valid UUID." })
+});
+
+/**
+ * TypeScript type representing a valid reschedule payload.
+ */
+export type RescheduleBookingInput = z.infer<typeof rescheduleBookingSchema>;
+
+/**
+ * Schema used to validate a staff cancellation, which must state a reason.
+ */
+export const adminCancelBookingSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, { message: "reason is required." })
+    .max(500, { message: "reason must be at most 500 characters." })
+});
+
+/**
+ * TypeScript type representing a valid staff cancellation payload.
+ */
+export type AdminCancelBookingInput = z.infer<typeof adminCancelBookingSchema>;
+
+/**
+ * Schema used to validate a booking made by staff for a patient. A full slot
+ * is only booked when overbook is set, and then a reason is required.
+ */
+export const staffBookingSchema = createBookingSchema
+  .extend({
+    overbook: z.boolean().default(false),
+    overbookReason: z
+      .string()
+      .trim()
+      .min(1, { message: "overbookReason must not be empty." })
+      .max(500, { message: "overbookReason must be at most 500 characters." })
+      .optional()
+  })
+  .refine((data) => !data.overbook || data.overbookReason !== undefined, {
+    message: "overbookReason is required when overbooking.",
+    path: ["overbookReason"]
+  });
+
+/**
+ * TypeScript type representing a valid staff booking payload.
+ */
+export type StaffBookingInput = z.infer<typeof staffBookingSchema>;
+
+/**
+ * Schema used to validate a staff request to move a booking to the next
+ * attendance status.
+ */
+export const updateAttendanceSchema = z.object({
+  status: z.enum(["CHECKED_IN", "IN_PROGRESS", "COMPLETED", "NO_SHOW"], {
+    errorMap: () => ({
+      message: "status must be one of CHECKED_IN, IN_PROGRESS, COMPLETED, NO_SHOW."
+    })
+  })
+});
+
+/**
+ * TypeScript type representing a valid attendance update payload.
+ */
+export type UpdateAttendanceInput = z.infer<typeof updateAttendanceSchema>;
+
+/**
+ * Schema used to validate a request to join a full slot's waitlist.
+ */
+export const joinWaitlistSchema = z.object({
+  userName: z
+    .string()
+    .min(1, { message: "userName is required." })
+    .max(255, { message: "userName must be at most 255 characters." }),
+  patientEmail: patientEmailSchema
+});
+
+/**
+ * TypeScript type representing a valid join waitlist payload.
+ */
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistSchema>;
+
+/**
+ * Schema used to validate a new waitlist order, listing every waiting entry.
+ */
+export const reorderWaitlistSchema = z.object({
+  entryIds: z.array(
+    z.string().uuid({ message: "entryIds must contain valid UUIDs." })
+  )
+});
+
+/**
+ * TypeScript type representing a valid waitlist reorder payload.
+ */
+export type ReorderWaitlistInput = z.infer<typeof reorderWaitlistSchema>;
+
+/**
+ * Schema used to validate a new intake question. It applies either to one
+ * doctor or to a specialization, and choice questions list their options.
+ */
+export const createIntakeQuestionSchema = z
+  .object({
+    doctorId: z
+      .string()
+      .uuid({ message: "doctorId must be a valid UUID." })
+      .optional(),
+    specializationId: z
+      .string()
+      .uuid({ message: "specializationId must be a valid UUID." })
+      .optional(),
+    prompt: z
+      .string()
+      .trim()
+      .min(1, { message: "prompt is required." })
+      .max(500, { message: "prompt must be at most 500 characters." }),
+    type: z.enum(["TEXT", "CHOICE", "YES_NO", "DATE"], {
+      errorMap: () => ({ message: "type must be one of TEXT, CHOICE, YES_NO, DATE." })
+    }),
+    options: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1, { message: "options must not be empty." })
+          .max(200, { message: "options must be at most 200 characters." })
+      )
+      .max(20, { message: "At most 20 options are allowed." })
+      .default([]),
+    required: z.boolean().default(false),
+    position: z
+      .number()
+      .int({ message: "position must be an integer." })
+      .min(0, { message: "position must not be negative." })
+      .default(0)
+  })
+  .refine((q) => (q.doctorId === undefined) !== (q.specializationId === undefined), {
+    message: "Set either doctorId or specializationId.",
+    path: ["doctorId"]
+  })
+  .refine((q) => (q.type === "CHOICE" ? q.options.length >= 2 : q.options.length === 0), {
+    message: "Choice questions need at least two options; other types take none.",
+    path: ["options"]
+  });
+
+/**
+ * TypeScript type representing a valid intake question payload.
+ */
+export type CreateIntakeQuestionInput = z.infer<typeof createIntakeQuestionSchema>;
+
+/**
+ * Schema used to validate a staff login request.
+ */
+export const loginSchema = z.object({
+  email: z
+    .string()
+    .email({ message: "email must be a valid email address." }),
+  password: z
+    .string()
+    .min(1, { message: "password is required." })
+});
+
+/**
+ * TypeScript type representing a valid login payload.
+ */
+export type LoginInput = z.infer<typeof loginSchema>;
+
+/**
+ * Schema used to validate the payload for creating a staff user.
+ * Doctor accounts must be linked to a doctor; other roles must not be.
+ */
+export const createUserSchema = z
+  .object({
+    email: z
+      .string()
+      .email({ message: "email must be a valid email address." }),
+    name: z
+      .string()
+      .min(1, { message: "Name is required." })
+      .max(255, { message: "Name must be at most 255 characters." }),
+    role: z.enum(["admin", "receptionist", "doctor"]),
+    doctorId: z
+      .string()
+      .uuid({ message: "doctorId must be a valid UUID." })
+      .nullable()
+      .optional(),
+    password: z
+      .string()
+      .min(10, { message: "password must be at least 10 characters." })
+      .max(200, { message: "password must be at most 200 characters." })
+  })
+  .refine((data) => (data.role === "doctor") === Boolean(data.doctorId), {
+    message: "doctorId is required for doctor accounts and not allowed otherwise.",
+    path: ["doctorId"]
+  });
+
+/**
+ * TypeScript type representing a valid create user payload.
+ */
+export type CreateUserInput = z.infer<typeof createUserSchema>;
@@ -0,0 +1,414 @@
+/**
+ * @file waitlistModel.ts
+ * @description Data access methods for per-slot waitlists, including
+ *              promotion of waiting patients when seats free up.
+ */
+
+import { PoolClient, QueryResult } from "pg";
+import { query, withTransaction } from "../config/db";
+import { Booking, Patient, WaitlistEntry, WaitlistStatus } from "./types";
+import { LockedSlot, lockSlotForUpdate } from "./slotModel";
+import {
+  assertNoPatientConflictInTransaction,
+  countConfirmedBookingsInTransaction,
+  findPatientConflictInTransaction,
+  insertBookingInTransaction,
+  pickAppointmentTimeInTransaction
+} from "./bookingModel";
+import { findOrCreatePatientInTransaction } from "./patientModel";
+import { generateUuid } from "../utils/uuid";
+
+/**
+ * Raw waitlist_entries row as returned by PostgreSQL, plus the entry's
+ * current place in the queue (null once it is no longer waiting).
+ */
+interface WaitlistDbRow {
+  readonly id: string;
+  readonly slot_id: string;
+  readonly user_name: string;
+  readonly patient_email: string | null;
+  readonly status: WaitlistStatus;
+  readonly booking_id: string | null;
+  readonly created_at: string;
+  readonly promoted_at: string | null;
+  readonly queue_position: number | null;
+}
+
+/**
+ * Columns selected for a waitlist entry, including its 1-based queue
+ * position among waiting entries of the same slot. Expects alias `w`.
+ */
+const WAITLIST_COLUMNS: string = `
+  w.id, w.slot_id, w.user_name, w.patient_email, w.status, w.booking_id, w.created_at, w.promoted_at,
+  CASE WHEN w.status = 'WAITING' THEN (
+    SELECT COUNT(*)::int
+    FROM waitlist_entries o
+    WHERE o.slot_id = w.slot_id
+      AND o.status = 'WAITING'
+      AND (o.position, o.created_at) <= (w.position, w.created_at)
+  ) END AS queue_position`;
+
+/**
+ * Maps a waitlist row to the domain shape.
+ *
+ * @param {WaitlistDbRow} row Database row.
+ * @returns {WaitlistEntry} Waitlist entry.
+ */
+function mapWaitlistRow(row: WaitlistDbRow): WaitlistEntry {
+  return {
+    id: row.id,
+    slotId: row.slot_id,
+    userName: row.user_name,
+    patientEmail: row.patient_email,
+    status: row.status,
+    position: row.queue_position,
+    bookingId: row.booking_id,
+    createdAt: row.created_at,
+    promotedAt: row.promoted_at
+  };
+}
+
+/**
+ * Adds a patient to the end of a full slot's waitlist.
+ *
+ * @param {string} slotId Slot identifier.
+ * @param {string} userName Name of the waiting patient.
+ * @param {string} patientEmail Patient identity.
+ * @returns {Promise<WaitlistEntry>} Created entry with its queue position.
+ * @throws {Error} If the slot does not exist or still has free seats, the
+ *                 patient is already waiting for it, or the slot clashes with
+ *                 another booking of the patient.
+ */
+export async function joinWaitlist(
+  slotId: string,
+  userName: string,
+  patientEmail: string
+): Promise<WaitlistEntry> {
+  return withTransaction<WaitlistEntry>(async (client: PoolClient) => {
+    const lockedSlot = await lockSlotForUpdate(client, slotId);
+
+    if (lockedSlot === null || !lockedSlot.isActive) {
+      throw new Error("Slot not found.");
+    }
+
+    const confirmedCount: number = await countConfirmedBookingsInTransaction(
+      client,
+      slotId
+    );
+
+    if (confirmedCount < lockedSlot.capacity) {
+      throw new Error("Slot still has free seats.");
+    }
+
+    // The exact time is only known on promotion, so check the whole slot.
+    await assertNoPatientConflictInTransaction(client, patientEmail, slotId, {
+      startTime: lockedSlot.startTime,
+      endTime: lockedSlot.endTime
+    });
+
+    const waiting: QueryResult<{ id: string }> = await client.query(
+      `
+      SELECT id
+      FROM waitlist_entries
+      WHERE slot_id = $1 AND patient_email = $2 AND status = 'WAITING'
+      `,
+      [slotId, patientEmail]
+    );
+
+    if ((waiting.rowCount ?? 0) > 0) {
+      throw new Error("Patient is already on this waitlist.");
+    }
+
+    const id: string = generateUuid();
+
+    await client.query(
+      `
+      INSERT INTO waitlist_entries (id, slot_id, user_name, patient_email, status, position)
+      SELECT $1, $2, $3, $4, 'WAITING', COALESCE(MAX(position), 0) + 1
+      FROM waitlist_entries
+      WHERE slot_id = $2
+      `,
+      [id, slotId, userName, patientEmail]
+    );
+
+    const result: QueryResult<WaitlistDbRow> = await client.query(
+      `SELECT ${WAITLIST_COLUMNS} FROM waitlist_entries w WHERE w.id = $1`,
+      [id]
+    );
+
+    return mapWaitlistRow(result.rows[0]);
+  });
+}
+
+/**
+ * Retrieves a waitlist entry by its identifier.
+ *
+ * @param {string} entryId Entry identifier.
+ * @returns {Promise<WaitlistEntry | null>} Entry if found, otherwise null.
+ */
+export async function getWaitlistEntryById(
+  entryId: string
+): Promise<WaitlistEntry | null> {
+  const result: QueryResult<WaitlistDbRow> = await query<WaitlistDbRow>(
+    `SELECT ${WAITLIST_COLUMNS} FROM waitlist_entries w WHERE w.id = $1`,
+    [entryId]
+  );
+
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  return mapWaitlistRow(result.rows[0]);
+}
+
+/**
+ * Lists the patients still waiting for a slot, in queue order.
+ *
+ * @param {string} slotId Slot identifier.
+ * @returns {Promise<WaitlistEntry[]>} Waiting entries, first in line first.
+ */
+export async function getWaitingEntriesForSlot(
+  slotId: string
+): Promise<WaitlistEntry[]> {
+  const result: QueryResult<WaitlistDbRow> = await query<WaitlistDbRow>(
+    `
+    SELECT ${WAITLIST_COLUMNS}
+    FROM waitlist_entries w
+    WHERE w.slot_id = $1 AND w.status = 'WAITING'
+    ORDER BY w.position ASC, w.created_at ASC
+    `,
+    [slotId]
+  );
+
+  return result.rows.map(mapWaitlistRow);
+}
+
+/**
+ * Removes a waiting entry from the queue (patient leaves or staff removes it).
+ *
+ * @param {string} entryId Entry identifier.
+ * @returns {Promise<WaitlistEntry>} Updated entry.
+ * @throws {Error} If the entry does not exist or is no longer waiting.
+ */
+export async function leaveWaitlist(entryId: string): Promise<WaitlistEntry> {
+  return withTransaction<WaitlistEntry>(async (client: PoolClient) => {
+    const lookup: QueryResult<{ slot_id: string }> = await client.query(
+      "SELECT slot_id FROM waitlist_entries WHERE id = $1",
+      [entryId]
+    );
+
+    if (lookup.rowCount === 0) {
+      throw new Error("Waitlist entry not found.");
+    }
+
+    // Same lock as promotion, so an entry cannot leave while being promoted.
+    await lockSlotForUpdate(client, lookup.rows[0].slot_id);
+
+    const updated: QueryResult<{ id: string }> = await client.query(
+      `
+      UPDATE waitlist_entries
+      SET status = 'LEFT'
+      WHERE id = $1 AND status = 'WAITING'
+      RETURNING id
+      `,
+      [entryId]
+    );
+
+    if (updated.rowCount === 0) {
+      throw new Error("Waitlist entry is no longer waiting.");
+    }
+
+    const result: QueryResult<WaitlistDbRow> = await client.query(
+      `SELECT ${WAITLIST_COLUMNS} FROM waitlist_entries w WHERE w.id = $1`,
+      [entryId]
+    );
+
+    return mapWaitlistRow(result.rows[0]);
+  });
+}
+
+/**
+ * Replaces the queue order of a slot's waiting entries.
+ *
+ * @param {string} slotId Slot identifier.
+ * @param {readonly string[]} orderedEntryIds Every waiting entry id, in the new order.
+ * @returns {Promise<WaitlistEntry[]>} Waiting entries in their new order.
+ * @throws {Error} If the slot does not exist or the ids do not match the current queue.
+ */
+export async function reorderWaitlist(
+  slotId: string,
+  orderedEntryIds: readonly string[]
+): Promise<WaitlistEntry[]> {
+  await withTransaction<void>(async (client: PoolClient) => {
+    const lockedSlot = await lockSlotForUpdate(client, slotId);
+
+    if (lockedSlot === null) {
+      throw new Error("Slot not found.");
+    }
+
+    const current: QueryResult<{ id: string }> = await client.query(
+      "SELECT id FROM waitlist_entries WHERE slot_id = $1 AND status = 'WAITING'",
+      [slotId]
+    );
+    const currentIds = new Set<string>(current.rows.map((r) => r.id));
+
+    if (
+      currentIds.size !== orderedEntryIds.length ||
+      new Set(orderedEntryIds).size !== orderedEntryIds.length ||
+      orderedEntryIds.some((id) => !currentIds.has(id))
+    ) {
+      throw new Error("Entry ids must list every waiting entry exactly once.");
+    }
+
+    await client.query(
+      `
+      UPDATE waitlist_entries w
+      SET position = ordered.ordinality
+      FROM unnest($1::uuid[]) WITH ORDINALITY AS ordered(id, ordinality)
+      WHERE w.id = ordered.id
+      `,
+      [orderedEntryIds]
+    );
+  });
+
+  return getWaitingEntriesForSlot(slotId);
+}
+
+/**
+ * Puts a patient at the front of a slot's waitlist inside an existing
+ * transaction, ahead of everyone already waiting. Used for patients whose
+ * booking no longer fits after the slot's capacity was lowered.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction holding the slot lock.
+ * @param {string} slotId Slot to wait for.
+ * @param {string} userName Patient name.
+ * @param {string | null} patientEmail Patient identity, if known.
+ * @returns {Promise<string>} Identifier of the new entry.
+ */
+export async function addToWaitlistFrontInTransaction(
+  client: PoolClient,
+  slotId: string,
+  userName: string,
+  patientEmail: string | null
+): Promise<string> {
+  const id: string = generateUuid();
+
+  await client.query(
+    `
+    INSERT INTO waitlist_entries (id, slot_id, user_name, patient_email, status, position)
+    SELECT $1, $2, $3, $4, 'WAITING', COALESCE(MIN(position), 1) - 1
+    FROM waitlist_entries
+    WHERE slot_id = $2 AND status = 'WAITING'
+    `,
+    [id, slotId, userName, patientEmail]
+  );
+
+  return id;
+}
+
+/**
+ * Promotes waiting patients to CONFIRMED bookings while the slot has free
+ * seats. Must run inside the transaction that holds the slot lock and freed
+ * the seat (cancellation, reschedule away, capacity increase). Patients who
+ * meanwhile booked a clashing appointment elsewhere are passed over and keep
+ * their place.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {LockedSlot} slot Slot locked by the caller, with its capacity after the change.
+ * @returns {Promise<Booking[]>} Bookings created for promoted patients.
+ */
+export async function promoteWaitlistInTransaction(
+  client: PoolClient,
+  slot: LockedSlot
+): Promise<Booking[]> {
+  // Removed slots and slots inside a blackout take no new bookings.
+  if (!slot.isActive) {
+    return [];
+  }
+
+  const slotId: string = slot.id;
+  const promoted: Booking[] = [];
+  const skippedIds: string[] = [];
+  let confirmedCount: number = await countConfirmedBookingsInTransaction(
+    client,
+    slotId
+  );
+
+  while (confirmedCount < slot.capacity) {
+    const next: QueryResult<{
+      id: string;
+      user_name: string;
+      patient_email: string | null;
+    }> = await client.query(
+      `
+      SELECT id, user_name, patient_email
+      FROM waitlist_entries
+      WHERE slot_id = $1 AND status = 'WAITING' AND NOT (id = ANY($2::uuid[]))
+      ORDER BY position ASC, created_at ASC
+      LIMIT 1
+      FOR UPDATE
+      `,
+      [slotId, skippedIds]
+    );
+
+    if (next.rowCount === 0) {
+      break;
+    }
+
+    const appointment = await pickAppointmentTimeInTransaction(client, slot, null);
+    if (appointment === null) {
+      break;
+    }
+
+    const entry = next.rows[0];
+
+    if (
+      entry.patient_email !== null &&
+      (await findPatientConflictInTransaction(
+        client,
+        entry.patient_email,
+        slotId,
+        appointment
+      )) !== null
+    ) {
+      skippedIds.push(entry.id);
+      continue;
+    }
+
+    const patient: Patient | null =
+      entry.patient_email !== null
+        ? await findOrCreatePatientInTransaction(client, {
+            fullName: entry.user_name,
+            email: entry.patient_email,
+            phone: null,
+            dateOfBirth: null
+          })
+        : null;
+
+    const booking: Booking = await insertBookingInTransaction(
+      client,
+      slotId,
+      entry.user_name,
+      patient,
+      "CONFIRMED",
+      appointment,
+      null,
+      null,
+      { actor: { source: "SYSTEM", userId: null }, overbookReason: null }
+    );
+
+    await client.query(
+      `
+      UPDATE waitlist_entries
+      SET status = 'PROMOTED', booking_id = $2, promoted_at = NOW()
+      WHERE id = $1
+      `,
+      [entry.id, booking.id]
+    );
+
+    promoted.push(booking);
+    confirmedCount += 1;
+  }
+
+  return promoted;
+}
@@ -0,0 +1,158 @@
+/**
+ * @file workingHoursModel.ts
+ * @description Weekly working hours of doctors and the check that keeps
+ *              slots inside them.
+ */
+
+import { PoolClient, QueryResult } from "pg";
+import { query, withTransaction } from "../config/db";
+import { loadConfig } from "../config/env";
+import { WorkingHours } from "./types";
+import { generateUuid } from "../utils/uuid";
+
+/**
+ * Raw doctor_working_hours row with its times formatted as HH:MM.
+ */
+interface WorkingHoursDbRow {
+  readonly weekday: number;
+  readonly start_time: string;
+  readonly end_time: string;
+}
+
+/**
+ * Reads a doctor's working hours, by weekday and start time.
+ *
+ * @param {PoolClient | null} client PostgreSQL client inside a transaction, or null to use the pool.
+ * @param {string} doctorId Doctor identifier.
+ * @returns {Promise<WorkingHours[]>} Working hour ranges.
+ */
+async function selectWorkingHours(
+  client: PoolClient | null,
+  doctorId: string
+): Promise<WorkingHours[]> {
+  const sql: string = `
+    SELECT weekday,
+      to_char(start_time, 'HH24:MI') AS start_time,
+      to_char(end_time, 'HH24:MI') AS end_time
+    FROM doctor_working_hours
+    WHERE doctor_id = $1
+    ORDER BY weekday, start_time
+  `;
+  const result: QueryResult<WorkingHoursDbRow> =
+    client === null
+      ? await query<WorkingHoursDbRow>(sql, [doctorId])
+      : await client.query(sql, [doctorId]);
+
+  return result.rows.map((row) => ({
+    weekday: row.weekday,
+    startTime: row.start_time,
+    endTime: row.end_time
+  }));
+}
+
+/**
+ * Retrieves a doctor's weekly working hours.
+ *
+ * @param {string} doctorId Doctor identifier.
+ * @returns {Promise<WorkingHours[] | null>} Working hour ranges, or null if the doctor does not exist.
+ */
+export async function getWorkingHours(doctorId: string): Promise<WorkingHours[] | null> {
+  const doctorResult: QueryResult = await query(
+    "SELECT 1 FROM doctors WHERE id = $1 AND deleted_at IS NULL",
+    [doctorId]
+  );
+
+  if (doctorResult.rowCount === 0) {
+    return null;
+  }
+
+  return selectWorkingHours(null, doctorId);
+}
+
+/**
+ * Replaces a doctor's weekly working hours. Existing slots are not changed;
+ * the new hours apply to slots created from now on. An empty list removes
+ * the hours, so slots are no longer checked against them.
+ *
+ * @param {string} doctorId Doctor identifier.
+ * @param {readonly WorkingHours[]} hours New working hour ranges.
+ * @returns {Promise<WorkingHours[]>} Saved working hour ranges.
+ */
+export async function setWorkingHours(
+  doctorId: string,
+  hours: readonly WorkingHours[]
+): Promise<WorkingHours[]> {
+  return withTransaction(async (client) => {
+    // Slot creation holds a share lock on the doctor while it checks the hours.
+    const doctorResult: QueryResult = await client.query(
+      "SELECT 1 FROM doctors WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
+      [doctorId]
+    );
+
+    if (doctorResult.rowCount === 0) {
+      throw new Error("Doctor not found.");
+    }
+
+    await client.query("DELETE FROM doctor_working_hours WHERE doctor_id = $1", [doctorId]);
+
+    if (hours.length > 0) {
+      await client.query(
+        `
+        INSERT INTO doctor_working_hours (id, doctor_id, weekday, start_time, end_time)
+        SELECT unnest($2::uuid[]), $1, unnest($3::smallint[]), unnest($4::time[]), unnest($5::time[])
+        `,
+        [
+          doctorId,
+          hours.map(() => generateUuid()),
+          hours.map((range) => range.weekday),
+          hours.map((range) => range.startTime),
+          hours.map((range) => range.endTime)
+        ]
+      );
+    }
+
+    return selectWorkingHours(client, doctorId);
+  });
+}
+
+/**
+ * Checks that a slot lies inside one of the doctor's working hour ranges on
+ * its day, in the clinic's time zone. A doctor without working hours accepts
+ * any slot.
+ *
+ * @param {PoolClient} client PostgreSQL client inside a transaction.
+ * @param {string} doctorId Doctor identifier.
+ * @param {string} startTime Slot start (ISO 8601).
+ * @param {string} endTime Slot end (ISO 8601).
+ * @returns {Promise<boolean>} True when the slot is inside working hours.
+ */
+export async function isWithinWorkingHoursInTransaction(
+  client: PoolClient,
+  doctorId: string,
+  startTime: string,
+  endTime: string
+): Promise<boolean> {
+  const { clinicTimeZone } = loadConfig();
+
+  const result: QueryResult<{ within_hours: boolean }> = await client.query(
+    `
+    WITH local_slot AS (
+      SELECT $2::timestamptz AT TIME ZONE $4 AS local_start,
+             $3::timestamptz AT TIME ZONE $4 AS local_end
+    )
+    SELECT
+      NOT EXISTS (SELECT 1 FROM doctor_working_hours WHERE doctor_id = $1)
+      OR EXISTS (
+        SELECT 1
+        FROM doctor_working_hours h, local_slot l
+        WHERE h.doctor_id = $1
+          AND h.weekday = EXTRACT(ISODOW FROM l.local_start)
+          AND l.local_start >= l.local_start::date + h.start_time
+          AND l.local_end <= l.local_start::date + h.end_time
+      ) AS within_hours
+    `,
+    [doctorId, startTime, endTime, clinicTimeZone]
+  );
+
+  return result.rows[0].within_hours;
+}
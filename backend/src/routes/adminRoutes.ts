@@ -2,22 +2,92 @@ import { Router } from "express";
 import {
   handleCreateDoctor,
   handleGetDoctors,
+  handleUpdateDoctor,
   handleCreateSlot,
   handleUpdateSlot,
   handleSoftDeleteSlot,
-  handleDeleteDoctor
+  handleGetSlotTemplates,
+  handleCreateSlotTemplate,
+  handleUpdateSlotTemplate,
+  handleEndSlotTemplate,
+  handleGetBlackouts,
+  handleCreateBlackout,
+  handleDeleteBlackout,
+  handleDeleteDoctor,
+  handleGetSpecializations,
+  handleCreateSpecialization,
+  handleUpdateSpecialization,
+  handleDeleteSpecialization,
+  handleGetDoctorDeletionImpact,
+  handleGetWorkingHours,
+  handleSetWorkingHours,
+  handleGetSlotDeletionImpact,
+  handleGetAdminSlots,
+  handleGetAdminBookings,
+  handleCreateStaffBooking,
+  handleAdminCancelBooking,
+  handleUpdateAttendance,
+  handleGetBookingHistory,
+  handleReorderWaitlist,
+  handleRemoveWaitlistEntry,
+  handleGetIntakeQuestions,
+  handleCreateIntakeQuestion,
+  handleDeleteIntakeQuestion,
+  handleGetPatients,
+  handleGetPatient,
+  handleCreateUser,
+  handleGetUsers
 } from "../controllers/adminController";
 import { handleHardDeleteSlot } from "../controllers/adminController";
+import { requireStaffAuth, requireRole } from "../middleware/auth";
 
 const router: Router = Router();
 
-router.post("/doctors", handleCreateDoctor);
-router.get("/doctors", handleGetDoctors);
-router.delete("/doctors/:doctorId", handleDeleteDoctor);
-router.post("/slots", handleCreateSlot);
-router.delete("/slots/:slotId", handleHardDeleteSlot);
-router.patch("/slots/:slotId", handleUpdateSlot);
-router.patch("/slots/:slotId/soft-delete", handleSoftDeleteSlot);
+// Every admin route requires a staff session or service token.
+router.use(requireStaffAuth());
+
+const adminOnly = requireRole("admin");
+const frontDesk = requireRole("admin", "receptionist");
+const anyStaff = requireRole("admin", "receptionist", "doctor");
+
+router.post("/doctors", adminOnly, handleCreateDoctor);
+router.get("/doctors", anyStaff, handleGetDoctors);
+router.patch("/doctors/:doctorId", adminOnly, handleUpdateDoctor);
+router.delete("/doctors/:doctorId", adminOnly, handleDeleteDoctor);
+router.get("/doctors/:doctorId/deletion-impact", adminOnly, handleGetDoctorDeletionImpact);
+router.get("/doctors/:doctorId/working-hours", anyStaff, handleGetWorkingHours);
+router.put("/doctors/:doctorId/working-hours", adminOnly, handleSetWorkingHours);
+router.get("/specializations", anyStaff, handleGetSpecializations);
+router.post("/specializations", adminOnly, handleCreateSpecialization);
+router.patch("/specializations/:specializationId", adminOnly, handleUpdateSpecialization);
+router.delete("/specializations/:specializationId", adminOnly, handleDeleteSpecialization);
+router.get("/slots", anyStaff, handleGetAdminSlots);
+router.post("/slots", frontDesk, handleCreateSlot);
+router.delete("/slots/:slotId", adminOnly, handleHardDeleteSlot);
+router.get("/slots/:slotId/deletion-impact", adminOnly, handleGetSlotDeletionImpact);
+router.patch("/slots/:slotId", frontDesk, handleUpdateSlot);
+router.patch("/slots/:slotId/soft-delete", frontDesk, handleSoftDeleteSlot);
+router.get("/slot-templates", frontDesk, handleGetSlotTemplates);
+router.post("/slot-templates", frontDesk, handleCreateSlotTemplate);
+router.patch("/slot-templates/:templateId", frontDesk, handleUpdateSlotTemplate);
+router.post("/slot-templates/:templateId/end", frontDesk, handleEndSlotTemplate);
+router.get("/blackouts", frontDesk, handleGetBlackouts);
+router.post("/blackouts", adminOnly, handleCreateBlackout);
+router.delete("/blackouts/:blackoutId", adminOnly, handleDeleteBlackout);
+router.put("/slots/:slotId/waitlist", frontDesk, handleReorderWaitlist);
+router.delete("/waitlist/:entryId", frontDesk, handleRemoveWaitlistEntry);
+router.get("/bookings", anyStaff, handleGetAdminBookings);
+router.post("/bookings", frontDesk, handleCreateStaffBooking);
+router.post("/bookings/:bookingId/cancel", frontDesk, handleAdminCancelBooking);
+router.post("/bookings/:bookingId/attendance", frontDesk, handleUpdateAttendance);
+router.get("/bookings/:bookingId/history", frontDesk, handleGetBookingHistory);
+router.get("/intake-questions", anyStaff, handleGetIntakeQuestions);
+router.post("/intake-questions", adminOnly, handleCreateIntakeQuestion);
+router.delete("/intake-questions/:questionId", adminOnly, handleDeleteIntakeQuestion);
+router.get("/patients", frontDesk, handleGetPatients);
+router.get("/patients/:patientId", frontDesk, handleGetPatient);
+router.get("/users", adminOnly, handleGetUsers);
+router.post("/users", adminOnly, handleCreateUser);
 
 
 export default router;
@@ -0,0 +1,23 @@
+/**
+ * @file authRoutes.ts
+ * @description Express router for staff authentication.
+ */
+
+import { Router } from "express";
+import { handleLogin, handleGetCurrentUser } from "../controllers/authController";
+import { requireStaffAuth } from "../middleware/auth";
+
+const authRouter: Router = Router();
+
+/**
+ * POST /api/auth/login
+ * Body: { email, password }
+ */
+authRouter.post("/login", handleLogin);
+
+/**
+ * GET /api/auth/me
+ */
+authRouter.get("/me", requireStaffAuth(), handleGetCurrentUser);
+
+export default authRouter;
@@ -7,16 +7,42 @@ import { Router } from "express";
 import {
   handleGetSlots,
   handleGetSlotById,
+  handleGetDoctor,
+  handleGetSpecializations,
   handleCreateBooking,
+  handleCreateSeatHold,
+  handleConfirmSeatHold,
   handleGetBookingById,
+  handleLookupBooking,
+  handleCancelBooking,
+  handleCreateGroupBooking,
+  handleGetBookingGroup,
+  handleCancelBookingGroup,
+  handleRescheduleBooking,
+  handleJoinWaitlist,
+  handleGetWaitlistEntry,
+  handleLeaveWaitlist,
   handleDeleteSlot
 } from "../controllers/publicController";
 import router from "./adminRoutes";
+import { createRateLimiter } from "../middleware/rateLimit";
+import { loadConfig } from "../config/env";
 
 const publicRouter: Router = Router();
 
 /**
- * GET /api/slots
+ * Length of a booking lookup rate-limit window.
+ */
+const BOOKING_LOOKUP_WINDOW_MS = 15 * 60 * 1000;
+
+const bookingLookupLimiter = createRateLimiter(
+  loadConfig().bookingLookupLimit,
+  BOOKING_LOOKUP_WINDOW_MS,
+  "Too many lookup attempts. Please try again later."
+);
+
+/**
+ * GET /api/slots?specialization=<slug>
  */
 publicRouter.get("/slots", handleGetSlots);
 
@@ -25,17 +51,89 @@ publicRouter.get("/slots", handleGetSlots);
  */
 publicRouter.get("/slots/:slotId", handleGetSlotById);
 
+/**
+ * GET /api/specializations
+ */
+publicRouter.get("/specializations", handleGetSpecializations);
+
+/**
+ * GET /api/doctors/:doctorId
+ */
+publicRouter.get("/doctors/:doctorId", handleGetDoctor);
+
 /**
  * POST /api/bookings
- * Body: { slotId, userName }
+ * Body: { slotId, userName, patientEmail, startTime?, visitReason?, intakeAnswers? }
  */
 publicRouter.post("/bookings", handleCreateBooking);
 
+/**
+ * POST /api/slots/:slotId/hold
+ */
+publicRouter.post("/slots/:slotId/hold", handleCreateSeatHold);
+
+/**
+ * POST /api/bookings/:bookingId/confirm
+ * Body: { userName, patientEmail, startTime?, visitReason?, intakeAnswers? }
+ */
+publicRouter.post("/bookings/:bookingId/confirm", handleConfirmSeatHold);
+
+/**
+ * POST /api/bookings/lookup
+ * Body: { referenceCode, surname }
+ */
+publicRouter.post("/bookings/lookup", bookingLookupLimiter, handleLookupBooking);
+
 /**
  * GET /api/bookings/:bookingId
  */
 publicRouter.get("/bookings/:bookingId", handleGetBookingById);
 
+/**
+ * POST /api/bookings/:bookingId/cancel
+ * Body: { reason? }
+ */
+publicRouter.post("/bookings/:bookingId/cancel", handleCancelBooking);
+
+/**
+ * POST /api/booking-groups
+ * Body: { slotId, attendees: [{ userName, patientEmail }], holdId? }
+ */
+publicRouter.post("/booking-groups", handleCreateGroupBooking);
+
+/**
+ * GET /api/booking-groups/:groupId
+ */
+publicRouter.get("/booking-groups/:groupId", handleGetBookingGroup);
+
+/**
+ * POST /api/booking-groups/:groupId/cancel
+ * Body: { reason? }
+ */
+publicRouter.post("/booking-groups/:groupId/cancel", handleCancelBookingGroup);
+
+/**
+ * POST /api/bookings/:bookingId/reschedule
+ * Body: { slotId }
+ */
+publicRouter.post("/bookings/:bookingId/reschedule", handleRescheduleBooking);
+
+/**
+ * POST /api/slots/:slotId/waitlist
+ * Body: { userName, patientEmail }
+ */
+publicRouter.post("/slots/:slotId/waitlist", handleJoinWaitlist);
+
+/**
+ * GET /api/waitlist/:entryId
+ */
+publicRouter.get("/waitlist/:entryId", handleGetWaitlistEntry);
+
+/**
+ * POST /api/waitlist/:entryId/leave
+ */
+publicRouter.post("/waitlist/:entryId/leave", handleLeaveWaitlist);
+
 // Delete a slot if safe (public)
 router.delete("/slots/:slotId", handleDeleteSlot);
 
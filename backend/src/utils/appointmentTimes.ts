@@ -0,0 +1,64 @@
+/**
+ * @file appointmentTimes.ts
+ * @description Splits a slot window into the bookable appointment times
+ *              inside it, one per seat.
+ */
+
+import { AppointmentTime } from "../models/types";
+
+/**
+ * Divides [startTime, endTime) into `count` equal appointment times.
+ *
+ * @param {Date | string} startTime Slot start.
+ * @param {Date | string} endTime Slot end.
+ * @param {number} count Number of appointments (the slot capacity).
+ * @returns {AppointmentTime[]} Appointment times in chronological order.
+ */
+export function splitIntoAppointmentTimes(
+  startTime: Date | string,
+  endTime: Date | string,
+  count: number
+): AppointmentTime[] {
+  const startMs: number = new Date(startTime).getTime();
+  const endMs: number = new Date(endTime).getTime();
+
+  if (count <= 0 || Number.isNaN(startMs) || Number.isNaN(endMs) || endMs <= startMs) {
+    return [];
+  }
+
+  const stepMs: number = (endMs - startMs) / count;
+  const times: AppointmentTime[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const from: number = startMs + Math.round(stepMs * i);
+    const to: number = i === count - 1 ? endMs : startMs + Math.round(stepMs * (i + 1));
+    times.push({
+      startTime: new Date(from).toISOString(),
+      endTime: new Date(to).toISOString()
+    });
+  }
+
+  return times;
+}
+
+/**
+ * Removes the appointment times that already contain a booking's start.
+ * Matching on the start instant keeps bookings made under an older
+ * capacity attached to the time they fall in.
+ *
+ * @param {readonly AppointmentTime[]} times All appointment times of a slot.
+ * @param {readonly (Date | string)[]} takenStarts Start times of live bookings.
+ * @returns {AppointmentTime[]} Times with no live booking.
+ */
+export function filterFreeAppointmentTimes(
+  times: readonly AppointmentTime[],
+  takenStarts: readonly (Date | string)[]
+): AppointmentTime[] {
+  const taken: number[] = takenStarts.map((t) => new Date(t).getTime());
+
+  return times.filter((time) => {
+    const from: number = new Date(time.startTime).getTime();
+    const to: number = new Date(time.endTime).getTime();
+    return !taken.some((t) => t >= from && t < to);
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * @file intakeAnswers.ts
+ * @description Checks a patient's intake answers against the questions
+ *              configured for the doctor they are booking.
+ */
+
+import { IntakeAnswer, IntakeQuestion } from "../models/types";
+
+/**
+ * Longest accepted free-text answer.
+ */
+const MAX_TEXT_ANSWER_LENGTH: number = 1000;
+
+/**
+ * Result of validating intake answers: the answers to store, in question
+ * order, and an error message per offending question id (empty when valid).
+ */
+export interface IntakeValidationResult {
+  readonly answers: IntakeAnswer[];
+  readonly errors: Record<string, string>;
+}
+
+/**
+ * Tells whether a string is a real calendar date in YYYY-MM-DD form.
+ *
+ * @param {string} value Candidate date.
+ * @returns {boolean} True for a valid date.
+ */
+function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const parsed: Date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Validates submitted answers against the configured questions.
+ *
+ * Unanswered optional questions are left out. Blank text counts as
+ * unanswered. Answers to questions that do not apply are rejected.
+ *
+ * @param {readonly IntakeQuestion[]} questions Questions configured for the booking.
+ * @param {Readonly<Record<string, string | boolean>>} submitted Answers keyed by question id.
+ * @returns {IntakeValidationResult} Answers to store and any errors.
+ */
+export function validateIntakeAnswers(
+  questions: readonly IntakeQuestion[],
+  submitted: Readonly<Record<string, string | boolean>>
+): IntakeValidationResult {
+  const answers: IntakeAnswer[] = [];
+  const errors: Record<string, string> = {};
+  const known = new Set<string>(questions.map((q) => q.id));
+
+  for (const questionId of Object.keys(submitted)) {
+    if (!known.has(questionId)) {
+      errors[questionId] = "This question does not apply to this appointment.";
+    }
+  }
+
+  for (const question of questions) {
+    const raw: string | boolean | undefined = submitted[question.id];
+    const value: string | boolean | undefined =
+      typeof raw === "string" ? raw.trim() : raw;
+
+    if (value === undefined || value === "") {
+      if (question.required) {
+        errors[question.id] = "An answer is required.";
+      }
+      continue;
+    }
+
+    switch (question.type) {
+      case "TEXT":
+        if (typeof value !== "string") {
+          errors[question.id] = "Answer must be text.";
+        } else if (value.length > MAX_TEXT_ANSWER_LENGTH) {
+          errors[question.id] = `Answer must be at most ${MAX_TEXT_ANSWER_LENGTH} characters.`;
+        }
+        break;
+      case "CHOICE":
+        if (typeof value !== "string" || !question.options.includes(value)) {
+          errors[question.id] = "Answer must be one of the listed options.";
+        }
+        break;
+      case "YES_NO":
+        if (typeof value !== "boolean") {
+          errors[question.id] = "Answer must be yes or no.";
+        }
+        break;
+      case "DATE":
+        if (typeof value !== "string" || !isCalendarDate(value)) {
+          errors[question.id] = "Answer must be a date (YYYY-MM-DD).";
+        }
+        break;
+    }
+
+    if (errors[question.id] === undefined) {
+      answers.push({
+        questionId: question.id,
+        prompt: question.prompt,
+        type: question.type,
+        answer: value
+      });
+    }
+  }
+
+  return { answers, errors };
+}
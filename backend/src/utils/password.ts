@@ -0,0 +1,65 @@
+/**
+ * @file password.ts
+ * @description Password hashing helpers built on Node's scrypt implementation.
+ *
+ * Stored format: "scrypt$<salt base64>$<hash base64>".
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+/**
+ * Derives a scrypt key for the given password and salt.
+ *
+ * @param {string} password Plain-text password.
+ * @param {Buffer} salt Random salt.
+ * @returns {Promise<Buffer>} Derived key.
+ */
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Hashes a password with a fresh random salt.
+ *
+ * @param {string} password Plain-text password.
+ * @returns {Promise<string>} Encoded hash suitable for storage.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt: Buffer = randomBytes(SALT_BYTES);
+  const key: Buffer = await deriveKey(password, salt);
+  return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+/**
+ * Checks a password against a stored hash in constant time.
+ *
+ * @param {string} password Plain-text password to check.
+ * @param {string} storedHash Hash previously produced by hashPassword.
+ * @returns {Promise<boolean>} True when the password matches.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, saltB64, keyB64] = storedHash.split("$");
+
+  if (scheme !== "scrypt" || !saltB64 || !keyB64) {
+    return false;
+  }
+
+  const expected: Buffer = Buffer.from(keyB64, "base64");
+  const actual: Buffer = await deriveKey(password, Buffer.from(saltB64, "base64"));
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,63 @@
+/**
+ * @file referenceCode.ts
+ * @description Short booking reference codes patients can read out over the
+ *              phone, e.g. MDX-7K3Q9.
+ */
+
+import { randomInt } from "crypto";
+
+/**
+ * Prefix of every reference code.
+ */
+const REFERENCE_CODE_PREFIX: string = "MDX";
+
+/**
+ * Characters used after the prefix. Look-alikes (0/O, 1/I/L) are left out so
+ * a code cannot be misread. init.sql uses the same alphabet when backfilling.
+ */
+const REFERENCE_CODE_ALPHABET: string = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+/**
+ * Number of random characters after the prefix.
+ */
+const REFERENCE_CODE_LENGTH: number = 5;
+
+/**
+ * Generates a random reference code. Uniqueness is checked by the caller.
+ *
+ * @returns {string} Code such as MDX-7K3Q9.
+ */
+export function generateReferenceCode(): string {
+  let body: string = "";
+  for (let i = 0; i < REFERENCE_CODE_LENGTH; i += 1) {
+    body += REFERENCE_CODE_ALPHABET[randomInt(REFERENCE_CODE_ALPHABET.length)];
+  }
+  return `${REFERENCE_CODE_PREFIX}-${body}`;
+}
+
+/**
+ * Brings a code typed by a patient into its stored form: case, spaces and
+ * dashes are ignored and the prefix may be left out.
+ *
+ * @param {string} input Code as entered.
+ * @returns {string | null} Stored form of the code, or null if it cannot be one.
+ */
+export function normalizeReferenceCode(input: string): string | null {
+  let compact: string = input.toUpperCase().replace(/[\s-]/g, "");
+
+  if (
+    compact.length === REFERENCE_CODE_PREFIX.length + REFERENCE_CODE_LENGTH &&
+    compact.startsWith(REFERENCE_CODE_PREFIX)
+  ) {
+    compact = compact.slice(REFERENCE_CODE_PREFIX.length);
+  }
+
+  if (
+    compact.length !== REFERENCE_CODE_LENGTH ||
+    [...compact].some((c) => !REFERENCE_CODE_ALPHABET.includes(c))
+  ) {
+    return null;
+  }
+
+  return `${REFERENCE_CODE_PREFIX}-${compact}`;
+}
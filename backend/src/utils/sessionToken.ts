@@ -0,0 +1,94 @@
+/**
+ * @file sessionToken.ts
+ * @description Signs and verifies stateless session tokens for staff logins.
+ *
+ * Token format: "<payload base64url>.<HMAC-SHA256 signature base64url>".
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { StaffRole } from "../models/types";
+
+/**
+ * Claims carried inside a session token.
+ */
+export interface SessionClaims {
+  readonly sub: string;
+  readonly role: StaffRole;
+  readonly doctorId: string | null;
+  /** Expiry as seconds since the Unix epoch. */
+  readonly exp: number;
+}
+
+/**
+ * Computes the base64url HMAC signature of a payload.
+ *
+ * @param {string} payload Encoded payload.
+ * @param {string} secret Signing secret.
+ * @returns {string} Signature.
+ */
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Creates a signed session token.
+ *
+ * @param {Omit<SessionClaims, "exp">} claims Identity claims.
+ * @param {string} secret Signing secret.
+ * @param {number} ttlSeconds Lifetime of the token in seconds.
+ * @returns {{ token: string; expiresAt: string }} Token and its ISO expiry time.
+ */
+export function signSessionToken(
+  claims: Omit<SessionClaims, "exp">,
+  secret: string,
+  ttlSeconds: number
+): { token: string; expiresAt: string } {
+  const exp: number = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const payload: string = Buffer.from(
+    JSON.stringify({ ...claims, exp })
+  ).toString("base64url");
+
+  return {
+    token: `${payload}.${sign(payload, secret)}`,
+    expiresAt: new Date(exp * 1000).toISOString()
+  };
+}
+
+/**
+ * Verifies a session token's signature and expiry.
+ *
+ * @param {string} token Token supplied by the client.
+ * @param {string} secret Signing secret.
+ * @returns {SessionClaims | null} Claims when valid, otherwise null.
+ */
+export function verifySessionToken(
+  token: string,
+  secret: string
+): SessionClaims | null {
+  const [payload, signature] = token.split(".");
+
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected: Buffer = Buffer.from(sign(payload, secret));
+  const actual: Buffer = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    ) as SessionClaims;
+
+    if (typeof claims.exp !== "number" || claims.exp * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return claims;
+  } catch {
+    return null;
+  }
+}
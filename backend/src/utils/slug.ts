@@ -0,0 +1,26 @@
+/**
+ * @file slug.ts
+ * @description URL-safe slugs for catalogue entries, e.g. "sports-medicine".
+ */
+
+/**
+ * Pattern every stored slug matches: lower-case letters and digits in groups
+ * joined by single hyphens. init.sql checks the same pattern.
+ */
+export const SLUG_PATTERN: RegExp = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Derives a slug from a display name. Accents are dropped and every other
+ * run of characters outside a-z and 0-9 becomes one hyphen.
+ *
+ * @param {string} name Display name such as "Médecine générale".
+ * @returns {string} Slug such as "medecine-generale"; empty if nothing is left.
+ */
+export function toSlug(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
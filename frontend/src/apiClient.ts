@@ -4,42 +4,69 @@
  *
  * Notes:
  * - The frontend expects `baseUrl` to be the "/api" root (e.g. "https://.../api").
- * - If you set `VITE_ADMIN_TOKEN` in Vercel (or locally for dev), admin endpoints
- *   will automatically include `Authorization: Bearer <token>`.
+ * - After a staff login the session token is kept in localStorage and sent as
+ *   `Authorization: Bearer <token>` on every request.
  */
 
 /* eslint-disable @typescript-eslint/explicit-module-boundary-types */
 
-import { DoctorSlot } from "./appContext";
+import {
+  AdminBooking,
+  AdminSlot,
+  AdminSpecialization,
+  AppointmentTime,
+  AttendanceStatus,
+  Blackout,
+  BookingDetails,
+  BookingEvent,
+  BookingGroup,
+  BookingIntakeInput,
+  BookingWithHistory,
+  CapacityAffectedBooking,
+  CapacityReductionPolicy,
+  DeletionImpact,
+  Doctor,
+  DoctorProfileChanges,
+  DoctorSlot,
+  GroupAttendee,
+  IntakeQuestion,
+  IntakeQuestionType,
+  Patient,
+  PatientDetailsInput,
+  PatientSummary,
+  PublicBooking,
+  PublicWaitlistEntry,
+  SlotTemplate,
+  SlotTemplateChange,
+  SlotConflict,
+  SlotTemplateRule,
+  SlotWithFreeTimes,
+  Specialization,
+  StaffSession,
+  WaitlistEntry,
+  WaitlistSummary,
+  WorkingHours
+} from "./appContext";
 
-/* Type augmentation for import.meta.env */
-declare global {
-  interface ImportMetaEnv {
-    readonly VITE_ADMIN_TOKEN?: string;
-  }
-  interface ImportMeta {
-    readonly env: ImportMetaEnv;
-  }
-}
+/**
+ * localStorage key holding the current staff session.
+ */
+const SESSION_STORAGE_KEY = "modex.staffSession";
 
 /**
  * Payload used to create a doctor via admin API.
  */
 interface DoctorCreateRequest {
   readonly name: string;
-  readonly specialization: string;
+  /** Catalogue specializations, main one first. */
+  readonly specializationIds: readonly string[];
 }
 
 /**
  * Response structure for creating a doctor.
  */
 interface DoctorCreateResponse {
-  readonly doctor: {
-    readonly id: string;
-    readonly name: string;
-    readonly specialization: string;
-    readonly createdAt: string;
-  };
+  readonly doctor: Doctor;
 }
 
 /**
@@ -50,35 +77,64 @@ interface SlotCreateRequest {
   readonly startTime: string;
   readonly endTime: string;
   readonly capacity: number;
+  /** Admin's reason for creating the slot outside the doctor's working hours. */
+  readonly outsideHoursReason?: string;
 }
 
 /**
  * Response structure for creating a slot.
  */
 interface SlotCreateResponse {
-  readonly slot: DoctorSlot;
+  readonly slot: Pick<DoctorSlot, "id" | "doctorId" | "startTime" | "endTime" | "capacity" | "createdAt"> & {
+    readonly hoursOverrideReason: string | null;
+  };
 }
 
 /**
  * Payload used to create a booking via public API.
  */
-interface BookingCreateRequest {
+interface BookingCreateRequest extends BookingIntakeInput, PatientDetailsInput {
   readonly slotId: string;
   readonly userName: string;
+  readonly patientEmail: string;
+  readonly startTime?: string;
+}
+
+/**
+ * Payload used by staff to book for a patient via admin API. A full slot is
+ * only booked with overbook set and a reason.
+ */
+interface StaffBookingCreateRequest extends BookingCreateRequest {
+  readonly overbook?: boolean;
+  readonly overbookReason?: string;
+}
+
+/**
+ * Payload used to add an intake question via admin API. Set either
+ * doctorId or specializationId.
+ */
+interface IntakeQuestionCreateRequest {
+  readonly doctorId?: string;
+  readonly specializationId?: string;
+  readonly prompt: string;
+  readonly type: IntakeQuestionType;
+  readonly options?: readonly string[];
+  readonly required?: boolean;
+  readonly position?: number;
 }
 
 /**
- * Response structure when a booking is created.
+ * Response structure when staff create or change a booking.
  */
 interface BookingCreateResponse {
-  readonly booking: {
-    readonly id: string;
-    readonly slotId: string;
-    readonly userName: string;
-    readonly status: string;
-    readonly createdAt: string;
-    readonly updatedAt: string;
-  };
+  readonly booking: BookingDetails;
+}
+
+/**
+ * Response structure when a patient holds, books or confirms a seat.
+ */
+interface PublicBookingResponse {
+  readonly booking: PublicBooking;
 }
 
 /**
@@ -93,23 +149,72 @@ interface ApiSlotsResponse {
  */
 interface ApiSlotDetailsResponse {
   readonly slot: DoctorSlot;
+  readonly freeTimes: readonly AppointmentTime[];
+  readonly intakeQuestions: readonly IntakeQuestion[];
+}
+
+/**
+ * Response structure for admin bookings endpoint.
+ */
+interface AdminBookingsResponse {
+  readonly bookings: readonly AdminBooking[];
 }
 
 /**
  * Response structure for get doctors endpoint.
  */
 interface DoctorListResponse {
-  readonly doctors: readonly {
-    readonly id: string;
-    readonly name: string;
-    readonly specialization: string;
-    readonly createdAt: string;
-  }[];
+  readonly doctors: readonly Doctor[];
+}
+
+/**
+ * Payload used to log in a staff user.
+ */
+interface LoginRequest {
+  readonly email: string;
+  readonly password: string;
+}
+
+/**
+ * Reads the stored staff session, discarding it once expired.
+ *
+ * @returns Current session or null when logged out.
+ */
+export function loadStoredSession(): StaffSession | null {
+  const raw: string | null = window.localStorage.getItem(SESSION_STORAGE_KEY);
+  if (raw === null) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(raw) as StaffSession;
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      window.localStorage.removeItem(SESSION_STORAGE_KEY);
+      return null;
+    }
+    return session;
+  } catch {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+    return null;
+  }
+}
+
+/**
+ * Persists (or clears, when null) the staff session.
+ *
+ * @param session - Session to store, or null to log out.
+ */
+export function storeSession(session: StaffSession | null): void {
+  if (session === null) {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+  } else {
+    window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  }
 }
 
 /**
- * Helper to build common headers. If an admin token is present in Vite env
- * then include it as Authorization: Bearer <token>.
+ * Helper to build common headers. If a staff session is stored then include
+ * its token as Authorization: Bearer <token>.
  *
  * @param includeJson - whether to include Content-Type: application/json
  * @returns HeadersInit object
@@ -121,30 +226,136 @@ function buildHeaders(includeJson = true): HeadersInit {
     headers["Content-Type"] = "application/json";
   }
 
-  const adminToken = import.meta.env.VITE_ADMIN_TOKEN;
-  if (adminToken && adminToken.trim().length > 0) {
-    headers["Authorization"] = `Bearer ${adminToken.trim()}`;
+  const session = loadStoredSession();
+  if (session !== null) {
+    headers["Authorization"] = `Bearer ${session.token}`;
   }
 
   return headers;
 }
 
+/**
+ * Reads the `error` field from a JSON error response, if present.
+ *
+ * @param response - Failed fetch response
+ * @param fallback - Message used when the body has no error field
+ */
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = (await response.json()) as { error?: unknown };
+    return typeof body.error === "string" ? body.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Error raised when the server rejected some fields of a form. fieldErrors
+ * maps each field name to its messages.
+ */
+export class FieldValidationError extends Error {
+  readonly fieldErrors: Readonly<Record<string, readonly string[]>>;
+
+  constructor(message: string, fieldErrors: Readonly<Record<string, readonly string[]>>) {
+    super(message);
+    this.name = "FieldValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Error raised when a new slot would overlap another active slot of the
+ * same doctor.
+ */
+export class SlotConflictError extends FieldValidationError {
+  readonly conflictingSlot: SlotConflict;
+
+  constructor(
+    message: string,
+    fieldErrors: Readonly<Record<string, readonly string[]>>,
+    conflictingSlot: SlotConflict
+  ) {
+    super(message, fieldErrors);
+    this.name = "SlotConflictError";
+    this.conflictingSlot = conflictingSlot;
+  }
+}
+
+/**
+ * Logs in a staff user.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param payload - Email and password
+ * @returns Session containing the token, its expiry and the user
+ */
+export async function loginApi(
+  baseUrl: string,
+  payload: LoginRequest
+): Promise<StaffSession> {
+  const response: Response = await fetch(`${baseUrl}/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload)
+  });
+
+  if (response.status === 401) {
+    throw new Error("Invalid email or password.");
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to log in. Status: ${response.status}`);
+  }
+
+  const data: StaffSession = await response.json();
+  return data;
+}
+
+/**
+ * Fetches slots visible to the logged-in staff user. Doctor accounts
+ * only receive their own slots.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @returns list of slots
+ */
+export async function getAdminSlotsApi(baseUrl: string): Promise<AdminSlot[]> {
+  const response: Response = await fetch(`${baseUrl}/admin/slots`, {
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch slots. Status: ${response.status}`);
+  }
+
+  const data: { readonly slots: readonly AdminSlot[] } = await response.json();
+  return [...data.slots];
+}
+
+/**
+ * Fetches the most recent bookings for the admin dashboard.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @returns bookings ordered newest first
+ */
+export async function getAdminBookingsApi(baseUrl: string): Promise<AdminBooking[]> {
+  const response: Response = await fetch(`${baseUrl}/admin/bookings`, {
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch bookings. Status: ${response.status}`);
+  }
+
+  const data: AdminBookingsResponse = await response.json();
+  return [...data.bookings];
+}
+
 /**
  * Fetches all doctors for admin UI.
  *
  * @param baseUrl API base url (example: "http://localhost:4000/api")
  * @returns list of doctors
  */
-export async function getDoctorsApi(
-  baseUrl: string
-): Promise<
-  {
-    readonly id: string;
-    readonly name: string;
-    readonly specialization: string;
-    readonly createdAt: string;
-  }[]
-> {
+export async function getDoctorsApi(baseUrl: string): Promise<Doctor[]> {
   const response: Response = await fetch(`${baseUrl}/admin/doctors`, {
     headers: buildHeaders(false)
   });
@@ -175,16 +386,17 @@ export async function getSlots(baseUrl: string): Promise<DoctorSlot[]> {
 }
 
 /**
- * Fetches a single slot by its identifier.
+ * Fetches a single slot with the appointment times still free inside it and
+ * the intake questions asked when booking it.
  *
  * @param {string} baseUrl Base API endpoint.
  * @param {string} slotId Slot identifier.
- * @returns {Promise<DoctorSlot>} Slot details.
+ * @returns {Promise<SlotWithFreeTimes>} Slot details, free times and questions.
  */
-export async function getSlotById(
+export async function getSlotWithFreeTimes(
   baseUrl: string,
   slotId: string
-): Promise<DoctorSlot> {
+): Promise<SlotWithFreeTimes> {
   const response: Response = await fetch(`${baseUrl}/slots/${slotId}`);
 
   if (response.status === 404) {
@@ -196,7 +408,26 @@ export async function getSlotById(
   }
 
   const data: ApiSlotDetailsResponse = await response.json();
-  return data.slot;
+  return {
+    slot: data.slot,
+    freeTimes: data.freeTimes,
+    intakeQuestions: data.intakeQuestions
+  };
+}
+
+/**
+ * Fetches a single slot by its identifier.
+ *
+ * @param {string} baseUrl Base API endpoint.
+ * @param {string} slotId Slot identifier.
+ * @returns {Promise<DoctorSlot>} Slot details.
+ */
+export async function getSlotById(
+  baseUrl: string,
+  slotId: string
+): Promise<DoctorSlot> {
+  const { slot } = await getSlotWithFreeTimes(baseUrl, slotId);
+  return slot;
 }
 
 /**
@@ -224,6 +455,61 @@ export async function createDoctorApi(
   return data;
 }
 
+/**
+ * Fetches a doctor's public profile.
+ *
+ * @param {string} baseUrl Base API endpoint.
+ * @param {string} doctorId Doctor identifier.
+ * @returns {Promise<Doctor>} Doctor profile.
+ */
+export async function getDoctorApi(baseUrl: string, doctorId: string): Promise<Doctor> {
+  const response: Response = await fetch(`${baseUrl}/doctors/${doctorId}`);
+
+  if (response.status === 404) {
+    throw new Error("Doctor not found.");
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch doctor. Status: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { doctor: Doctor };
+  return data.doctor;
+}
+
+/**
+ * Changes a doctor's name, specializations or public profile (admin only).
+ * Rejected fields are reported through FieldValidationError.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param doctorId - Doctor to change
+ * @param changes - Fields to change
+ */
+export async function updateDoctorApi(
+  baseUrl: string,
+  doctorId: string,
+  changes: DoctorProfileChanges
+): Promise<Doctor> {
+  const response: Response = await fetch(`${baseUrl}/admin/doctors/${doctorId}`, {
+    method: "PATCH",
+    headers: buildHeaders(true),
+    body: JSON.stringify(changes)
+  });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as {
+      error?: unknown;
+      fieldErrors?: Record<string, string[]>;
+    };
+    const message: string =
+      typeof body.error === "string" ? body.error : `Failed to update doctor. Status: ${response.status}`;
+    throw new FieldValidationError(message, body.fieldErrors ?? {});
+  }
+
+  const data = (await response.json()) as { doctor: Doctor };
+  return data.doctor;
+}
+
 /**
  * Creates a slot via the admin API.
  *
@@ -242,7 +528,17 @@ export async function createSlotApi(
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to create slot. Status: ${response.status}`);
+    const body = (await response.json().catch(() => ({}))) as {
+      error?: unknown;
+      fieldErrors?: Record<string, string[]>;
+      conflictingSlot?: SlotConflict | null;
+    };
+    const message: string =
+      typeof body.error === "string" ? body.error : `Failed to create slot. Status: ${response.status}`;
+    if (body.conflictingSlot !== undefined && body.conflictingSlot !== null) {
+      throw new SlotConflictError(message, body.fieldErrors ?? {}, body.conflictingSlot);
+    }
+    throw new FieldValidationError(message, body.fieldErrors ?? {});
   }
 
   const data: SlotCreateResponse = await response.json();
@@ -250,122 +546,1153 @@ export async function createSlotApi(
 }
 
 /**
- * Creates a booking via the public API.
+ * Fetches a doctor's weekly working hours.
  *
- * @param {string} baseUrl Base API endpoint.
- * @param {BookingCreateRequest} payload Booking creation payload.
- * @returns {Promise<BookingCreateResponse>} Created booking response.
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param doctorId - Doctor whose hours to fetch
  */
-export async function createBookingApi(
+export async function getWorkingHoursApi(
   baseUrl: string,
-  payload: BookingCreateRequest
-): Promise<BookingCreateResponse> {
-  const response: Response = await fetch(`${baseUrl}/bookings`, {
-    method: "POST",
-    headers: buildHeaders(true),
-    body: JSON.stringify(payload)
-  });
+  doctorId: string
+): Promise<WorkingHours[]> {
+  const response: Response = await fetch(
+    `${baseUrl}/admin/doctors/${doctorId}/working-hours`,
+    { headers: buildHeaders(false) }
+  );
 
-  if (response.status === 404) {
-    throw new Error("Slot not found.");
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to fetch working hours. Status: ${response.status}`)
+    );
   }
 
-  if (response.status === 409) {
-    throw new Error("Slot is full.");
+  const data = (await response.json()) as { hours: WorkingHours[] };
+  return data.hours;
+}
+
+/**
+ * Replaces a doctor's weekly working hours (admin only). An empty list
+ * removes them.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param doctorId - Doctor whose hours to replace
+ * @param hours - New working hour ranges
+ */
+export async function setWorkingHoursApi(
+  baseUrl: string,
+  doctorId: string,
+  hours: readonly WorkingHours[]
+): Promise<WorkingHours[]> {
+  const response: Response = await fetch(
+    `${baseUrl}/admin/doctors/${doctorId}/working-hours`,
+    {
+      method: "PUT",
+      headers: buildHeaders(true),
+      body: JSON.stringify({ hours })
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to save working hours. Status: ${response.status}`)
+    );
   }
 
+  const data = (await response.json()) as { hours: WorkingHours[] };
+  return data.hours;
+}
+
+/**
+ * Fetches current and upcoming blackouts with their flagged booked slots.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ */
+export async function getBlackoutsApi(baseUrl: string): Promise<Blackout[]> {
+  const response: Response = await fetch(`${baseUrl}/admin/blackouts`, {
+    headers: buildHeaders(false)
+  });
+
   if (!response.ok) {
-    throw new Error(`Failed to create booking. Status: ${response.status}`);
+    throw new Error(
+      await readErrorMessage(response, `Failed to fetch blackouts. Status: ${response.status}`)
+    );
   }
 
-  const data: BookingCreateResponse = await response.json();
-  return data;
+  const data = (await response.json()) as { blackouts: Blackout[] };
+  return data.blackouts;
 }
 
 /**
- * Update slot capacity.
+ * Adds doctor leave, or a clinic holiday when doctorId is null (admin only).
+ * Unbooked slots inside it are removed and booked ones flagged.
  *
  * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
- * @param slotId - Slot UUID
- * @param capacity - New capacity (number)
+ * @param payload - Doctor (or null), first and last day, and reason
  */
-export async function updateSlotCapacityApi(
+export async function createBlackoutApi(
   baseUrl: string,
-  slotId: string,
-  capacity: number
-): Promise<{ slot: unknown }> {
-  const response: Response = await fetch(`${baseUrl}/admin/slots/${slotId}`, {
-    method: "PATCH",
+  payload: {
+    readonly doctorId: string | null;
+    readonly startsOn: string;
+    readonly endsOn: string;
+    readonly reason: string;
+  }
+): Promise<{ blackout: Blackout; deactivatedSlotCount: number }> {
+  const response: Response = await fetch(`${baseUrl}/admin/blackouts`, {
+    method: "POST",
     headers: buildHeaders(true),
-    body: JSON.stringify({ capacity })
+    body: JSON.stringify(payload)
   });
 
-  if (response.status === 404) {
-    throw new Error("Slot not found.");
-  }
-
   if (!response.ok) {
-    throw new Error(`Failed to update slot. Status: ${response.status}`);
+    throw new Error(
+      await readErrorMessage(response, `Failed to add blackout. Status: ${response.status}`)
+    );
   }
 
-  const data = await response.json();
-  return data;
+  return (await response.json()) as { blackout: Blackout; deactivatedSlotCount: number };
 }
 
 /**
- * Soft-delete a slot (mark as deleted without removing from DB).
+ * Removes a blackout (admin only); slots it flagged take bookings again.
  *
  * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
- * @param slotId - Slot UUID to delete
+ * @param blackoutId - Blackout to remove
  */
-export async function deleteSlotApi(
-  baseUrl: string,
-  slotId: string
-): Promise<{ message: string }> {
-  const response: Response = await fetch(`${baseUrl}/admin/slots/${slotId}/soft-delete`, {
-    method: "PATCH",
-    headers: buildHeaders(true)
+export async function deleteBlackoutApi(baseUrl: string, blackoutId: string): Promise<void> {
+  const response: Response = await fetch(`${baseUrl}/admin/blackouts/${blackoutId}`, {
+    method: "DELETE",
+    headers: buildHeaders(false)
   });
 
-  if (response.status === 404) {
-    throw new Error("Slot not found.");
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to remove blackout. Status: ${response.status}`)
+    );
   }
+}
+
+/**
+ * Fetches recurring slot templates, running ones first.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ */
+export async function getSlotTemplatesApi(baseUrl: string): Promise<SlotTemplate[]> {
+  const response: Response = await fetch(`${baseUrl}/admin/slot-templates`, {
+    headers: buildHeaders(false)
+  });
 
   if (!response.ok) {
-    throw new Error(`Failed to delete slot. Status: ${response.status}`);
+    throw new Error(
+      await readErrorMessage(response, `Failed to fetch slot templates. Status: ${response.status}`)
+    );
   }
 
-  const data = await response.json();
-  return data;
+  const data = (await response.json()) as { templates: SlotTemplate[] };
+  return data.templates;
 }
 
 /**
- * Delete a doctor. Note: this may fail if the doctor has active slots.
+ * Creates a recurring slot template and generates its slots. With preview
+ * set, nothing is saved and the response says what would be generated.
  *
  * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
- * @param doctorId - Doctor UUID to delete
+ * @param doctorId - Doctor UUID
+ * @param rule - Weekly rule
+ * @param preview - Only report what would happen
  */
-export async function deleteDoctorApi(
+export async function createSlotTemplateApi(
   baseUrl: string,
-  doctorId: string
-): Promise<{ message: string }> {
-  const response: Response = await fetch(`${baseUrl}/admin/doctors/${doctorId}`, {
-    method: "DELETE",
-    headers: buildHeaders(true)
-  });
+  doctorId: string,
+  rule: SlotTemplateRule,
+  preview: boolean
+): Promise<SlotTemplateChange> {
+  const response: Response = await fetch(
+    `${baseUrl}/admin/slot-templates${preview ? "?preview=true" : ""}`,
+    {
+      method: "POST",
+      headers: buildHeaders(true),
+      body: JSON.stringify({ doctorId, ...rule })
+    }
+  );
 
-  if (response.status === 404) {
-    throw new Error("Doctor not found.");
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to save slot template. Status: ${response.status}`)
+    );
   }
 
-  if (response.status === 403) {
-    throw new Error("Cannot delete doctor with active slots.");
+  return response.json();
+}
+
+/**
+ * Replaces a template's rule; its future slots without bookings are
+ * regenerated. With preview set, nothing is saved.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param templateId - Template UUID
+ * @param rule - New weekly rule
+ * @param preview - Only report what would happen
+ */
+export async function updateSlotTemplateApi(
+  baseUrl: string,
+  templateId: string,
+  rule: SlotTemplateRule,
+  preview: boolean
+): Promise<SlotTemplateChange> {
+  const response: Response = await fetch(
+    `${baseUrl}/admin/slot-templates/${templateId}${preview ? "?preview=true" : ""}`,
+    {
+      method: "PATCH",
+      headers: buildHeaders(true),
+      body: JSON.stringify(rule)
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to save slot template. Status: ${response.status}`)
+    );
   }
 
+  return response.json();
+}
+
+/**
+ * Ends a template; its future slots without bookings are removed. With
+ * preview set, nothing is saved.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param templateId - Template UUID
+ * @param preview - Only report what would happen
+ */
+export async function endSlotTemplateApi(
+  baseUrl: string,
+  templateId: string,
+  preview: boolean
+): Promise<SlotTemplateChange> {
+  const response: Response = await fetch(
+    `${baseUrl}/admin/slot-templates/${templateId}/end${preview ? "?preview=true" : ""}`,
+    {
+      method: "POST",
+      headers: buildHeaders(false)
+    }
+  );
+
   if (!response.ok) {
-    throw new Error(`Failed to delete doctor. Status: ${response.status}`);
+    throw new Error(
+      await readErrorMessage(response, `Failed to end slot template. Status: ${response.status}`)
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Number of extra attempts createBookingApi makes when the network fails.
+ */
+const BOOKING_NETWORK_RETRIES = 2;
+
+/**
+ * Creates a booking via the public API.
+ *
+ * Every attempt is sent with the same Idempotency-Key, so a request that
+ * reached the server before the connection dropped is not booked twice;
+ * the server replays the original booking instead.
+ *
+ * @param {string} baseUrl Base API endpoint.
+ * @param {BookingCreateRequest} payload Booking creation payload.
+ * @param {string} idempotencyKey Key for this submit attempt. Pass the same
+ *        key again to safely retry the same booking.
+ * @returns {Promise<PublicBookingResponse>} Created booking response.
+ */
+export async function createBookingApi(
+  baseUrl: string,
+  payload: BookingCreateRequest,
+  idempotencyKey: string = crypto.randomUUID()
+): Promise<PublicBookingResponse> {
+  let response: Response | null = null;
+
+  for (let attempt = 0; response === null; attempt += 1) {
+    try {
+      response = await fetch(`${baseUrl}/bookings`, {
+        method: "POST",
+        headers: { ...buildHeaders(true), "Idempotency-Key": idempotencyKey },
+        body: JSON.stringify(payload)
+      });
+    } catch (error) {
+      // fetch only rejects on network failures; HTTP errors are handled below.
+      if (attempt >= BOOKING_NETWORK_RETRIES) {
+        throw error;
+      }
+    }
+  }
+
+  if (response.status === 404) {
+    throw new Error("Slot not found.");
+  }
+
+  if (response.status === 409) {
+    // "Slot is full." or "Appointment time is already taken."
+    throw new Error(await readErrorMessage(response, "Slot is full."));
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to create booking. Status: ${response.status}`)
+    );
+  }
+
+  const data: PublicBookingResponse = await response.json();
+  return data;
+}
+
+/**
+ * Reserves a seat in a slot while the patient fills in the booking form.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param slotId - Slot UUID
+ * @returns PENDING booking with its hold expiry time
+ */
+export async function createSeatHoldApi(
+  baseUrl: string,
+  slotId: string
+): Promise<PublicBooking> {
+  const response: Response = await fetch(`${baseUrl}/slots/${slotId}/hold`, {
+    method: "POST"
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to hold seat. Status: ${response.status}`)
+    );
+  }
+
+  const data: PublicBookingResponse = await response.json();
+  return data.booking;
+}
+
+/**
+ * Confirms a seat hold as a booking for the named patient.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param bookingId - UUID of the held booking
+ * @param userName - Patient name
+ * @param patientEmail - Patient email, used to spot duplicate bookings
+ * @param startTime - Appointment time picked inside the slot (keeps the held time if omitted)
+ * @param intake - Visit reason and answers to the slot's intake questions
+ * @param details - Patient phone number and date of birth, if given
+ */
+export async function confirmSeatHoldApi(
+  baseUrl: string,
+  bookingId: string,
+  userName: string,
+  patientEmail: string,
+  startTime?: string,
+  intake: BookingIntakeInput = {},
+  details: PatientDetailsInput = {}
+): Promise<PublicBooking> {
+  const response: Response = await fetch(`${baseUrl}/bookings/${bookingId}/confirm`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userName, patientEmail, startTime, ...intake, ...details })
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to confirm booking. Status: ${response.status}`)
+    );
+  }
+
+  const data: PublicBookingResponse = await response.json();
+  return data.booking;
+}
+
+/**
+ * Update slot capacity.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param slotId - Slot UUID
+ * @param capacity - New capacity (number)
+ * @param policy - What to do with bookings that no longer fit (refused by default)
+ */
+export async function updateSlotCapacityApi(
+  baseUrl: string,
+  slotId: string,
+  capacity: number,
+  policy: CapacityReductionPolicy = "REJECT"
+): Promise<{
+  readonly slot: DoctorSlot;
+  readonly affectedBookings: readonly CapacityAffectedBooking[];
+}> {
+  const response: Response = await fetch(`${baseUrl}/admin/slots/${slotId}`, {
+    method: "PATCH",
+    headers: buildHeaders(true),
+    body: JSON.stringify({ capacity, policy })
+  });
+
+  if (response.status === 404) {
+    throw new Error("Slot not found.");
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to update slot. Status: ${response.status}`)
+    );
   }
 
   const data = await response.json();
   return data;
 }
+
+/**
+ * Soft-delete a slot (mark as deleted without removing from DB).
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param slotId - Slot UUID to delete
+ */
+export async function deleteSlotApi(
+  baseUrl: string,
+  slotId: string
+): Promise<{ message: string }> {
+  const response: Response = await fetch(`${baseUrl}/admin/slots/${slotId}/soft-delete`, {
+    method: "PATCH",
+    headers: buildHeaders(true)
+  });
+
+  if (response.status === 404) {
+    throw new Error("Slot not found.");
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete slot. Status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data;
+}
+
+/**
+ * Reports how many future slots, confirmed bookings and waiting patients
+ * deleting a doctor would affect. Nothing is deleted.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param doctorId - Doctor UUID
+ */
+export async function getDoctorDeletionImpactApi(
+  baseUrl: string,
+  doctorId: string
+): Promise<DeletionImpact> {
+  const response: Response = await fetch(
+    `${baseUrl}/admin/doctors/${doctorId}/deletion-impact`,
+    { headers: buildHeaders(false) }
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to check deletion impact. Status: ${response.status}`)
+    );
+  }
+
+  const data = (await response.json()) as { impact: DeletionImpact };
+  return data.impact;
+}
+
+/**
+ * Delete a doctor. If any of their future slots has confirmed bookings the
+ * delete is refused unless `confirm` is set; confirmed bookings are then
+ * cancelled by the clinic.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param doctorId - Doctor UUID to delete
+ * @param confirm - Whether cancelling confirmed bookings was confirmed
+ */
+export async function deleteDoctorApi(
+  baseUrl: string,
+  doctorId: string,
+  confirm: boolean
+): Promise<{ message: string; cancelledBookings: number }> {
+  const response: Response = await fetch(
+    `${baseUrl}/admin/doctors/${doctorId}${confirm ? "?confirm=true" : ""}`,
+    {
+      method: "DELETE",
+      headers: buildHeaders(true)
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to delete doctor. Status: ${response.status}`)
+    );
+  }
+
+  const data = await response.json();
+  return data;
+}
+
+/**
+ * Fetches a booking and its reschedule history.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param bookingId - Booking UUID
+ */
+export async function getBookingApi(
+  baseUrl: string,
+  bookingId: string
+): Promise<BookingWithHistory> {
+  const response: Response = await fetch(`${baseUrl}/bookings/${bookingId}`);
+
+  if (response.status === 404) {
+    throw new Error("Booking not found.");
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch booking. Status: ${response.status}`);
+  }
+
+  const data: BookingWithHistory = await response.json();
+  return data;
+}
+
+/**
+ * Finds a booking by its reference code and the patient's surname.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param referenceCode - Code given when booking, e.g. MDX-7K3Q9
+ * @param surname - Patient's surname
+ */
+export async function lookupBookingApi(
+  baseUrl: string,
+  referenceCode: string,
+  surname: string
+): Promise<BookingWithHistory> {
+  const response: Response = await fetch(`${baseUrl}/bookings/lookup`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ referenceCode, surname })
+  });
+
+  if (response.status === 400) {
+    throw new Error("Please check the reference code, e.g. MDX-7K3Q9.");
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to find booking. Status: ${response.status}`)
+    );
+  }
+
+  const data: BookingWithHistory = await response.json();
+  return data;
+}
+
+/**
+ * Cancels a booking as the patient.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param bookingId - Booking UUID
+ * @param reason - Optional reason for cancelling
+ */
+export async function cancelBookingApi(
+  baseUrl: string,
+  bookingId: string,
+  reason?: string
+): Promise<PublicBooking> {
+  const response: Response = await fetch(`${baseUrl}/bookings/${bookingId}/cancel`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(reason ? { reason } : {})
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to cancel booking. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly booking: PublicBooking } = await response.json();
+  return data.booking;
+}
+
+/**
+ * Books one seat per attendee in a slot, all or nothing.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param slotId - Slot UUID
+ * @param attendees - Patients to book, each with their own email and intake answers
+ * @param holdId - Seat hold to give up for the group's seats, if any
+ */
+export async function createGroupBookingApi(
+  baseUrl: string,
+  slotId: string,
+  attendees: readonly GroupAttendee[],
+  holdId?: string
+): Promise<BookingGroup> {
+  const response: Response = await fetch(`${baseUrl}/booking-groups`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ slotId, attendees, holdId })
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to book group. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly group: BookingGroup } = await response.json();
+  return data.group;
+}
+
+/**
+ * Fetches the bookings of a booking group.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param groupId - Booking group UUID
+ */
+export async function getBookingGroupApi(
+  baseUrl: string,
+  groupId: string
+): Promise<readonly PublicBooking[]> {
+  const response: Response = await fetch(`${baseUrl}/booking-groups/${groupId}`);
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to load group. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly bookings: readonly PublicBooking[] } = await response.json();
+  return data.bookings;
+}
+
+/**
+ * Cancels every confirmed booking of a group.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param groupId - Booking group UUID
+ * @param reason - Optional reason for cancelling
+ */
+export async function cancelBookingGroupApi(
+  baseUrl: string,
+  groupId: string,
+  reason?: string
+): Promise<readonly PublicBooking[]> {
+  const response: Response = await fetch(`${baseUrl}/booking-groups/${groupId}/cancel`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(reason ? { reason } : {})
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to cancel group. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly bookings: readonly PublicBooking[] } = await response.json();
+  return data.bookings;
+}
+
+/**
+ * Moves a booking to another slot.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param bookingId - Booking UUID
+ * @param slotId - Target slot UUID
+ */
+export async function rescheduleBookingApi(
+  baseUrl: string,
+  bookingId: string,
+  slotId: string
+): Promise<BookingWithHistory> {
+  const response: Response = await fetch(`${baseUrl}/bookings/${bookingId}/reschedule`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ slotId })
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to reschedule booking. Status: ${response.status}`)
+    );
+  }
+
+  const data: BookingWithHistory = await response.json();
+  return data;
+}
+
+/**
+ * Books a seat for a patient on their behalf, recorded against the signed-in
+ * staff member.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param payload - Patient, slot and, when overbooking, the reason
+ */
+export async function createStaffBookingApi(
+  baseUrl: string,
+  payload: StaffBookingCreateRequest
+): Promise<BookingDetails> {
+  const response: Response = await fetch(`${baseUrl}/admin/bookings`, {
+    method: "POST",
+    headers: buildHeaders(true),
+    body: JSON.stringify(payload)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to book for patient. Status: ${response.status}`)
+    );
+  }
+
+  const data: BookingCreateResponse = await response.json();
+  return data.booking;
+}
+
+/**
+ * Cancels a booking on behalf of the clinic.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param bookingId - Booking UUID
+ * @param reason - Reason recorded against the cancellation
+ */
+export async function adminCancelBookingApi(
+  baseUrl: string,
+  bookingId: string,
+  reason: string
+): Promise<BookingDetails> {
+  const response: Response = await fetch(`${baseUrl}/admin/bookings/${bookingId}/cancel`, {
+    method: "POST",
+    headers: buildHeaders(true),
+    body: JSON.stringify({ reason })
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to cancel booking. Status: ${response.status}`)
+    );
+  }
+
+  const data: BookingCreateResponse = await response.json();
+  return data.booking;
+}
+
+/**
+ * Records the next attendance step of a booking (arrival, start, completion
+ * or no-show).
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param bookingId - Booking UUID
+ * @param status - Attendance status to move the booking to
+ */
+export async function updateAttendanceApi(
+  baseUrl: string,
+  bookingId: string,
+  status: AttendanceStatus
+): Promise<BookingDetails> {
+  const response: Response = await fetch(`${baseUrl}/admin/bookings/${bookingId}/attendance`, {
+    method: "POST",
+    headers: buildHeaders(true),
+    body: JSON.stringify({ status })
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to update attendance. Status: ${response.status}`)
+    );
+  }
+
+  const data: BookingCreateResponse = await response.json();
+  return data.booking;
+}
+
+/**
+ * Fetches a booking's status history, oldest first.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param bookingId - Booking UUID
+ */
+export async function getBookingHistoryApi(
+  baseUrl: string,
+  bookingId: string
+): Promise<BookingEvent[]> {
+  const response: Response = await fetch(`${baseUrl}/admin/bookings/${bookingId}/history`, {
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to fetch booking history. Status: ${response.status}`)
+    );
+  }
+
+  const data = (await response.json()) as { events: BookingEvent[] };
+  return data.events;
+}
+
+/**
+ * Joins the waitlist of a full slot.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param slotId - Slot UUID
+ * @param userName - Name of the waiting patient
+ * @param patientEmail - Patient email, used to spot duplicate entries
+ */
+export async function joinWaitlistApi(
+  baseUrl: string,
+  slotId: string,
+  userName: string,
+  patientEmail: string
+): Promise<PublicWaitlistEntry> {
+  const response: Response = await fetch(`${baseUrl}/slots/${slotId}/waitlist`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userName, patientEmail })
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to join waitlist. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly entry: PublicWaitlistEntry } = await response.json();
+  return data.entry;
+}
+
+/**
+ * Fetches a waitlist entry with its current place in the queue.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param entryId - Waitlist entry UUID
+ */
+export async function getWaitlistEntryApi(
+  baseUrl: string,
+  entryId: string
+): Promise<PublicWaitlistEntry> {
+  const response: Response = await fetch(`${baseUrl}/waitlist/${entryId}`);
+
+  if (response.status === 404) {
+    throw new Error("Waitlist entry not found.");
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch waitlist entry. Status: ${response.status}`);
+  }
+
+  const data: { readonly entry: PublicWaitlistEntry } = await response.json();
+  return data.entry;
+}
+
+/**
+ * Leaves a slot waitlist as the patient.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param entryId - Waitlist entry UUID
+ */
+export async function leaveWaitlistApi(
+  baseUrl: string,
+  entryId: string
+): Promise<PublicWaitlistEntry> {
+  const response: Response = await fetch(`${baseUrl}/waitlist/${entryId}/leave`, {
+    method: "POST"
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to leave waitlist. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly entry: PublicWaitlistEntry } = await response.json();
+  return data.entry;
+}
+
+/**
+ * Sets a new queue order for a slot's waitlist.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param slotId - Slot UUID
+ * @param entryIds - Every waiting entry id, first in line first
+ */
+export async function reorderWaitlistApi(
+  baseUrl: string,
+  slotId: string,
+  entryIds: readonly string[]
+): Promise<WaitlistSummary[]> {
+  const response: Response = await fetch(`${baseUrl}/admin/slots/${slotId}/waitlist`, {
+    method: "PUT",
+    headers: buildHeaders(true),
+    body: JSON.stringify({ entryIds })
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to reorder waitlist. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly waitlist: readonly WaitlistSummary[] } = await response.json();
+  return [...data.waitlist];
+}
+
+/**
+ * Removes a patient from a waitlist on behalf of the clinic.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param entryId - Waitlist entry UUID
+ */
+export async function removeWaitlistEntryApi(
+  baseUrl: string,
+  entryId: string
+): Promise<WaitlistEntry> {
+  const response: Response = await fetch(`${baseUrl}/admin/waitlist/${entryId}`, {
+    method: "DELETE",
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to remove waitlist entry. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly entry: WaitlistEntry } = await response.json();
+  return data.entry;
+}
+
+/**
+ * Fetches the specialization catalogue, by name.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ */
+export async function getSpecializationsApi(baseUrl: string): Promise<Specialization[]> {
+  const response: Response = await fetch(`${baseUrl}/specializations`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch specializations. Status: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { specializations: Specialization[] };
+  return data.specializations;
+}
+
+/**
+ * Fetches the specialization catalogue with how many doctors and intake
+ * questions use each entry (staff only).
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ */
+export async function getAdminSpecializationsApi(
+  baseUrl: string
+): Promise<AdminSpecialization[]> {
+  const response: Response = await fetch(`${baseUrl}/admin/specializations`, {
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch specializations. Status: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { specializations: AdminSpecialization[] };
+  return data.specializations;
+}
+
+/**
+ * Adds a specialization to the catalogue (admin only). Without a slug the
+ * server derives one from the name.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param payload - Name and optional slug
+ */
+export async function createSpecializationApi(
+  baseUrl: string,
+  payload: { readonly name: string; readonly slug?: string }
+): Promise<AdminSpecialization> {
+  const response: Response = await fetch(`${baseUrl}/admin/specializations`, {
+    method: "POST",
+    headers: buildHeaders(true),
+    body: JSON.stringify(payload)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to add specialization. Status: ${response.status}`)
+    );
+  }
+
+  const data = (await response.json()) as { specialization: AdminSpecialization };
+  return data.specialization;
+}
+
+/**
+ * Renames a specialization or changes its slug (admin only).
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param specializationId - Specialization to change
+ * @param changes - New name and/or slug
+ */
+export async function updateSpecializationApi(
+  baseUrl: string,
+  specializationId: string,
+  changes: { readonly name?: string; readonly slug?: string }
+): Promise<AdminSpecialization> {
+  const response: Response = await fetch(`${baseUrl}/admin/specializations/${specializationId}`, {
+    method: "PATCH",
+    headers: buildHeaders(true),
+    body: JSON.stringify(changes)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to update specialization. Status: ${response.status}`)
+    );
+  }
+
+  const data = (await response.json()) as { specialization: AdminSpecialization };
+  return data.specialization;
+}
+
+/**
+ * Removes a specialization (admin only). One still in use must be merged
+ * into another, which takes over its doctors and intake questions.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param specializationId - Specialization to remove
+ * @param mergeIntoId - Specialization to merge it into, if any
+ */
+export async function deleteSpecializationApi(
+  baseUrl: string,
+  specializationId: string,
+  mergeIntoId: string | null
+): Promise<void> {
+  const response: Response = await fetch(
+    `${baseUrl}/admin/specializations/${specializationId}${
+      mergeIntoId !== null ? `?mergeInto=${mergeIntoId}` : ""
+    }`,
+    {
+      method: "DELETE",
+      headers: buildHeaders(false)
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to remove specialization. Status: ${response.status}`)
+    );
+  }
+}
+
+/**
+ * Lists the intake questions configured for doctors and specializations.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ */
+export async function getIntakeQuestionsApi(baseUrl: string): Promise<IntakeQuestion[]> {
+  const response: Response = await fetch(`${baseUrl}/admin/intake-questions`, {
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch intake questions. Status: ${response.status}`);
+  }
+
+  const data: { readonly questions: readonly IntakeQuestion[] } = await response.json();
+  return [...data.questions];
+}
+
+/**
+ * Adds an intake question for a doctor or a specialization.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param payload - Question to add
+ */
+export async function createIntakeQuestionApi(
+  baseUrl: string,
+  payload: IntakeQuestionCreateRequest
+): Promise<IntakeQuestion> {
+  const response: Response = await fetch(`${baseUrl}/admin/intake-questions`, {
+    method: "POST",
+    headers: buildHeaders(true),
+    body: JSON.stringify(payload)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to add intake question. Status: ${response.status}`)
+    );
+  }
+
+  const data: { readonly question: IntakeQuestion } = await response.json();
+  return data.question;
+}
+
+/**
+ * Removes an intake question. Answers already given stay on their bookings.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param questionId - Intake question UUID
+ */
+export async function deleteIntakeQuestionApi(
+  baseUrl: string,
+  questionId: string
+): Promise<void> {
+  const response: Response = await fetch(`${baseUrl}/admin/intake-questions/${questionId}`, {
+    method: "DELETE",
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to delete intake question. Status: ${response.status}`)
+    );
+  }
+}
+
+/**
+ * Lists patients with their booking count and latest appointment.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param search - Text matched against name, email and phone
+ */
+export async function getPatientsApi(
+  baseUrl: string,
+  search: string = ""
+): Promise<PatientSummary[]> {
+  const query: string = search.trim().length > 0
+    ? `?search=${encodeURIComponent(search.trim())}`
+    : "";
+  const response: Response = await fetch(`${baseUrl}/admin/patients${query}`, {
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch patients. Status: ${response.status}`);
+  }
+
+  const data: { readonly patients: readonly PatientSummary[] } = await response.json();
+  return [...data.patients];
+}
+
+/**
+ * Fetches a patient with their booking history, latest appointment first.
+ *
+ * @param baseUrl - API base URL (e.g. http://localhost:4000/api)
+ * @param patientId - Patient UUID
+ */
+export async function getPatientApi(
+  baseUrl: string,
+  patientId: string
+): Promise<{ readonly patient: Patient; readonly bookings: readonly AdminBooking[] }> {
+  const response: Response = await fetch(`${baseUrl}/admin/patients/${patientId}`, {
+    headers: buildHeaders(false)
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to fetch patient. Status: ${response.status}`)
+    );
+  }
+
+  return response.json();
+}
@@ -18,7 +18,7 @@ import React, {
   useState,
   ReactNode
 } from "react";
-import { getSlots } from "./apiClient";
+import { getSlots, loadStoredSession, loginApi, storeSession } from "./apiClient";
 
 /* Type augmentation so TypeScript knows about import.meta.env.VITE_API_URL */
 declare global {
@@ -31,7 +31,65 @@ declare global {
 }
 
 /**
- * Slot information returned from backend API.
+ * Entry of the specialization catalogue.
+ */
+export interface Specialization {
+  readonly id: string;
+  readonly name: string;
+  /** URL-safe identifier, e.g. "sports-medicine". */
+  readonly slug: string;
+}
+
+/**
+ * Specialization as listed for staff, with what still refers to it.
+ */
+export interface AdminSpecialization extends Specialization {
+  readonly doctorCount: number;
+  readonly intakeQuestionCount: number;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/**
+ * Doctor with the profile shown to patients.
+ */
+export interface Doctor {
+  readonly id: string;
+  readonly name: string;
+  /** Catalogue specializations, main one first. */
+  readonly specializations: readonly Specialization[];
+  readonly bio: string | null;
+  readonly qualifications: readonly string[];
+  readonly languages: readonly string[];
+  /** Consultation fee in minor currency units (e.g. cents). */
+  readonly consultationFeeCents: number | null;
+  readonly photoUrl: string | null;
+  readonly acceptingNewPatients: boolean;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/**
+ * Doctor profile fields an admin may change; null clears an optional field.
+ */
+export type DoctorProfileChanges = Partial<
+  Pick<
+    Doctor,
+    | "name"
+    | "bio"
+    | "qualifications"
+    | "languages"
+    | "consultationFeeCents"
+    | "photoUrl"
+    | "acceptingNewPatients"
+  > & {
+    /** Replaces the doctor's specializations, main one first. */
+    readonly specializationIds: readonly string[];
+  }
+>;
+
+/**
+ * Slot information returned from the public API (availability counts only).
  */
 export interface DoctorSlot {
   readonly id: string;
@@ -41,15 +99,436 @@ export interface DoctorSlot {
   readonly capacity: number;
   readonly createdAt: string;
   readonly doctorName: string;
+  /** Names of the doctor's specializations joined for display. */
   readonly doctorSpecialization: string;
+  readonly doctorSpecializations: readonly Specialization[];
+  readonly doctorPhotoUrl: string | null;
+  readonly doctorLanguages: readonly string[];
+  readonly doctorConsultationFeeCents: number | null;
+  readonly doctorAcceptingNewPatients: boolean;
   readonly confirmedCount: number;
+  readonly heldCount: number;
+  readonly availableSeats: number;
+  readonly waitlistCount: number;
+}
+
+/**
+ * Waiting patient listed under a slot by the admin API, in queue order.
+ */
+export interface WaitlistSummary {
+  readonly id: string;
+  readonly userName: string;
+  readonly createdAt: string;
+}
+
+/**
+ * Slot as returned by the admin API, including its waitlist.
+ */
+export interface AdminSlot extends DoctorSlot {
+  readonly waitlist: readonly WaitlistSummary[];
+  /** Set when an admin created the slot outside the doctor's working hours. */
+  readonly hoursOverrideReason: string | null;
+  /** Blackout covering the slot; it keeps its bookings but takes no new ones. */
+  readonly blackoutId: string | null;
+}
+
+/**
+ * Booked slot inside a blackout, waiting for staff to reschedule or cancel
+ * its bookings.
+ */
+export interface BlackoutSlot {
+  readonly slotId: string;
+  readonly doctorId: string;
+  readonly doctorName: string;
+  readonly startTime: string;
+  readonly endTime: string;
+  readonly bookingCount: number;
+}
+
+/**
+ * Doctor leave, or a clinic-wide holiday when doctorId is null. Dates are
+ * inclusive, in the clinic's time zone.
+ */
+export interface Blackout {
+  readonly id: string;
+  readonly doctorId: string | null;
+  readonly doctorName: string | null;
+  readonly startsOn: string;
+  readonly endsOn: string;
+  readonly reason: string;
+  readonly createdByUserId: string | null;
+  readonly createdAt: string;
+  readonly flaggedSlots: readonly BlackoutSlot[];
+}
+
+/**
+ * Active slot of the same doctor that a new slot would overlap.
+ */
+export interface SlotConflict {
+  readonly slotId: string;
+  readonly startTime: string;
+  readonly endTime: string;
+}
+
+/**
+ * A range of a doctor's weekly working hours. Times of day are HH:MM in the
+ * clinic's time zone; weekday is an ISO number (1 = Monday).
+ */
+export interface WorkingHours {
+  readonly weekday: number;
+  readonly startTime: string;
+  readonly endTime: string;
+}
+
+/**
+ * What happens to bookings that no longer fit when a slot's capacity is
+ * lowered: refuse, move them to the front of the waitlist, or cancel them.
+ */
+export type CapacityReductionPolicy = "REJECT" | "WAITLIST" | "CANCEL";
+
+/**
+ * Booking or seat hold moved out of a slot to fit a lower capacity.
+ */
+export interface CapacityAffectedBooking {
+  readonly bookingId: string;
+  readonly referenceCode: string;
+  readonly userName: string;
+  readonly patientEmail: string | null;
+  readonly outcome: "HOLD_RELEASED" | "WAITLISTED" | "CANCELLED";
+  readonly waitlistEntryId: string | null;
+  /** Whether a message was queued for the patient. */
+  readonly notified: boolean;
+}
+
+/**
+ * What deleting a doctor or slot would affect.
+ */
+export interface DeletionImpact {
+  readonly futureSlotCount: number;
+  readonly confirmedBookingCount: number;
+  readonly waitlistCount: number;
+}
+
+/**
+ * Weekly rule of a recurring slot template. Times of day are HH:MM in the
+ * clinic's time zone; weekdays are ISO numbers (1 = Monday).
+ */
+export interface SlotTemplateRule {
+  readonly weekdays: readonly number[];
+  readonly dayStart: string;
+  readonly dayEnd: string;
+  readonly slotMinutes: number;
+  readonly capacity: number;
+  readonly startsOn: string;
+  readonly endsOn: string;
+}
+
+/**
+ * Recurring slot template; endedAt is set once it was ended.
+ */
+export interface SlotTemplate extends SlotTemplateRule {
+  readonly id: string;
+  readonly doctorId: string;
+  readonly doctorName: string;
+  readonly endedAt: string | null;
+  /** Active slots of the template that have not started. */
+  readonly futureSlotCount: number;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/**
+ * Start and end of one slot generated from a template.
+ */
+export interface TemplateSlotTime {
+  readonly startTime: string;
+  readonly endTime: string;
+}
+
+/**
+ * What saving a template change did, or would do when preview is true.
+ */
+export interface SlotTemplateChange {
+  readonly template: SlotTemplate;
+  readonly createdSlots: readonly TemplateSlotTime[];
+  /**
+   * Times skipped because they overlap another active slot of the doctor
+   * (conflictSlotId) or fall in a blackout (blackoutId).
+   */
+  readonly skippedSlots: readonly (TemplateSlotTime & {
+    readonly conflictSlotId: string | null;
+    readonly blackoutId: string | null;
+  })[];
+  /** Future slots without bookings removed from the template. */
+  readonly removedSlotCount: number;
+  readonly preview: boolean;
+}
+
+/**
+ * A patient's place on a slot waitlist. position is set while WAITING;
+ * bookingId is set once the entry has been PROMOTED.
+ */
+export interface WaitlistEntry {
+  readonly id: string;
+  readonly slotId: string;
+  readonly userName: string;
+  readonly patientEmail: string | null;
+  readonly status: "WAITING" | "PROMOTED" | "LEFT";
+  readonly position: number | null;
+  readonly bookingId: string | null;
+  readonly createdAt: string;
+  readonly promotedAt: string | null;
+}
+
+/**
+ * What the public waitlist pages get back for an entry. The patient's name
+ * and email stay on the staff API.
+ */
+export type PublicWaitlistEntry = Pick<
+  WaitlistEntry,
+  "id" | "slotId" | "status" | "position" | "bookingId" | "createdAt" | "promotedAt"
+>;
+
+/**
+ * Bookable appointment time inside a slot (one per seat).
+ */
+export interface AppointmentTime {
+  readonly startTime: string;
+  readonly endTime: string;
+}
+
+/**
+ * Kind of answer an intake question expects.
+ */
+export type IntakeQuestionType = "TEXT" | "CHOICE" | "YES_NO" | "DATE";
+
+/**
+ * Question asked when booking a doctor, set either for that doctor or for
+ * one of their specializations.
+ */
+export interface IntakeQuestion {
+  readonly id: string;
+  readonly doctorId: string | null;
+  readonly specializationId: string | null;
+  readonly specializationName: string | null;
+  readonly prompt: string;
+  readonly type: IntakeQuestionType;
+  readonly options: readonly string[];
+  readonly required: boolean;
+  readonly position: number;
+  readonly createdAt: string;
+}
+
+/**
+ * Answer stored on a booking, with a copy of the question it answers.
+ */
+export interface IntakeAnswer {
+  readonly questionId: string;
+  readonly prompt: string;
+  readonly type: IntakeQuestionType;
+  readonly answer: string | boolean;
+}
+
+/**
+ * Visit reason and intake answers sent with a booking, answers keyed by
+ * question id.
+ */
+export interface BookingIntakeInput {
+  readonly visitReason?: string;
+  readonly intakeAnswers?: Readonly<Record<string, string | boolean>>;
+}
+
+/**
+ * Optional patient contact details sent with a booking: a phone number and a
+ * YYYY-MM-DD date of birth.
+ */
+export interface PatientDetailsInput {
+  readonly patientPhone?: string;
+  readonly dateOfBirth?: string;
+}
+
+/**
+ * Slot details together with the appointment times that are still free and
+ * the intake questions asked when booking it.
+ */
+export interface SlotWithFreeTimes {
+  readonly slot: DoctorSlot;
+  readonly freeTimes: readonly AppointmentTime[];
+  readonly intakeQuestions: readonly IntakeQuestion[];
+}
+
+/**
+ * Booking record returned by the staff bookings API.
+ */
+export interface BookingDetails {
+  readonly id: string;
+  /** Short code the patient can quote, e.g. MDX-7K3Q9. */
+  readonly referenceCode: string;
+  readonly slotId: string;
+  readonly userName: string;
+  readonly patientEmail: string | null;
+  /** Patient record the booking belongs to. */
+  readonly patientId: string | null;
+  readonly status: string;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+  /** PATIENT, STAFF or SYSTEM; createdByUserId is set for staff users. */
+  readonly createdBy: string;
+  readonly createdByUserId: string | null;
+  /** Set when staff booked past the slot's capacity. */
+  readonly overbookReason: string | null;
+  readonly cancelledAt: string | null;
+  readonly cancelledBy: string | null;
+  readonly cancellationReason: string | null;
+  readonly appointmentStart: string | null;
+  readonly appointmentEnd: string | null;
+  readonly holdExpiresAt: string | null;
+  /** Shared by bookings made together for several attendees. */
+  readonly bookingGroupId: string | null;
+  readonly checkedInAt: string | null;
+  readonly startedAt: string | null;
+  readonly completedAt: string | null;
+  readonly noShowAt: string | null;
+  readonly visitReason: string | null;
+  readonly intakeAnswers: readonly IntakeAnswer[];
+}
+
+/**
+ * What the public booking pages get back for a booking. Patient details,
+ * the visit reason and intake answers stay on the staff API.
+ */
+export type PublicBooking = Pick<
+  BookingDetails,
+  | "id"
+  | "referenceCode"
+  | "slotId"
+  | "status"
+  | "createdAt"
+  | "cancelledAt"
+  | "cancellationReason"
+  | "appointmentStart"
+  | "appointmentEnd"
+  | "holdExpiresAt"
+  | "bookingGroupId"
+>;
+
+/**
+ * Attendance steps staff record for a confirmed booking on the day.
+ */
+export type AttendanceStatus = "CHECKED_IN" | "IN_PROGRESS" | "COMPLETED" | "NO_SHOW";
+
+/**
+ * One person in a group booking.
+ */
+export interface GroupAttendee extends BookingIntakeInput, PatientDetailsInput {
+  readonly userName: string;
+  readonly patientEmail: string;
+}
+
+/**
+ * Seats booked together for several attendees, with the seats the slot had
+ * left afterwards.
+ */
+export interface BookingGroup {
+  readonly id: string;
+  readonly slotId: string;
+  readonly bookings: readonly PublicBooking[];
   readonly availableSeats: number;
-  readonly bookings?: readonly {
-    readonly id: string;
-    readonly userName: string;
-    readonly status: string;
-    readonly createdAt: string;
-  }[];
+}
+
+/**
+ * One recorded move of a booking between slots.
+ */
+export interface BookingReschedule {
+  readonly id: string;
+  readonly bookingId: string;
+  readonly fromSlotId: string | null;
+  readonly toSlotId: string | null;
+  readonly movedBy: string;
+  readonly createdAt: string;
+}
+
+/**
+ * Booking together with its reschedule history.
+ */
+export interface BookingWithHistory {
+  readonly booking: PublicBooking;
+  readonly reschedules: readonly BookingReschedule[];
+}
+
+/**
+ * Booking with slot and doctor details, as listed by the admin API.
+ */
+export interface AdminBooking extends BookingDetails {
+  readonly doctorId: string;
+  readonly doctorName: string;
+  readonly slotStartTime: string;
+  readonly slotEndTime: string;
+}
+
+/**
+ * One status change in a booking's history. fromStatus is null for the
+ * booking's first event.
+ */
+export interface BookingEvent {
+  readonly id: string;
+  readonly bookingId: string;
+  readonly fromStatus: string | null;
+  readonly toStatus: string;
+  /** PATIENT, STAFF or SYSTEM; actorName is set for staff users. */
+  readonly actorSource: string;
+  readonly actorUserId: string | null;
+  readonly actorName: string | null;
+  readonly reason: string | null;
+  readonly createdAt: string;
+}
+
+/**
+ * Patient record, identified by email.
+ */
+export interface Patient {
+  readonly id: string;
+  readonly fullName: string;
+  readonly email: string;
+  readonly phone: string | null;
+  readonly dateOfBirth: string | null;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/**
+ * Patient as listed by the admin API, with booking count and latest
+ * appointment time.
+ */
+export interface PatientSummary extends Patient {
+  readonly bookingCount: number;
+  readonly lastAppointmentAt: string | null;
+}
+
+/**
+ * Role held by a staff account.
+ */
+export type StaffRole = "admin" | "receptionist" | "doctor";
+
+/**
+ * Staff account returned by the auth API.
+ */
+export interface StaffUser {
+  readonly id: string;
+  readonly email: string;
+  readonly name: string;
+  readonly role: StaffRole;
+  readonly doctorId: string | null;
+  readonly createdAt: string;
+}
+
+/**
+ * Logged-in staff session.
+ */
+export interface StaffSession {
+  readonly token: string;
+  readonly expiresAt: string;
+  readonly user: StaffUser;
 }
 
 /**
@@ -60,8 +539,11 @@ interface AppContextValue {
   readonly slots: readonly DoctorSlot[];
   readonly isLoading: boolean;
   readonly errorMessage: string | null;
+  readonly staffSession: StaffSession | null;
   readonly refreshSlots: () => Promise<void>;
   readonly clearErrorMessage: () => void;
+  readonly login: (email: string, password: string) => Promise<void>;
+  readonly logout: () => void;
 }
 
 const AppContext = createContext<AppContextValue | undefined>(undefined);
@@ -119,6 +601,9 @@ export function AppContextProvider(
   const [slots, setSlots] = useState<DoctorSlot[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [staffSession, setStaffSession] = useState<StaffSession | null>(
+    () => loadStoredSession()
+  );
 
   /**
    * Clears current error if exists.
@@ -145,6 +630,27 @@ export function AppContextProvider(
     }
   }, [apiBaseUrl, clearErrorMessage]);
 
+  /**
+   * Logs in a staff user and stores the session. Throws on bad credentials
+   * so the login form can show the message.
+   */
+  const login = useCallback(
+    async (email: string, password: string): Promise<void> => {
+      const session: StaffSession = await loginApi(apiBaseUrl, { email, password });
+      storeSession(session);
+      setStaffSession(session);
+    },
+    [apiBaseUrl]
+  );
+
+  /**
+   * Clears the stored staff session.
+   */
+  const logout = useCallback((): void => {
+    storeSession(null);
+    setStaffSession(null);
+  }, []);
+
   /**
    * On initial load → fetch slot data.
    */
@@ -178,8 +684,11 @@ export function AppContextProvider(
     slots,
     isLoading,
     errorMessage,
+    staffSession,
     refreshSlots,
-    clearErrorMessage
+    clearErrorMessage,
+    login,
+    logout
   };
 
   return <AppContext.Provider value={value}>{props.children}</AppContext.Provider>;
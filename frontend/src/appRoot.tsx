@@ -8,7 +8,12 @@ import { Routes, Route, Link, useLocation } from "react-router-dom";
 import { useAppContext } from "./appContext";
 import { SlotListPage } from "./pages/slotListPage";
 import { BookingPage } from "./pages/bookingPage";
+import { BookingDetailsPage } from "./pages/bookingDetailsPage";
+import { FindBookingPage } from "./pages/findBookingPage";
+import { WaitlistPage } from "./pages/waitlistPage";
+import { DoctorPage } from "./pages/doctorPage";
 import { AdminDashboardPage } from "./pages/adminDashboardPage";
+import { LoginPage } from "./pages/loginPage";
 
 /**
  * Navigation bar shown at the top of the application.
@@ -20,6 +25,7 @@ import { AdminDashboardPage } from "./pages/adminDashboardPage";
 function NavigationBar(): React.ReactElement {
   const location = useLocation();
   const currentPath: string = location.pathname;
+  const { staffSession, logout } = useAppContext();
 
   /**
    * Determines whether a link is currently active based on its path.
@@ -42,12 +48,30 @@ function NavigationBar(): React.ReactElement {
         >
           Patient view
         </Link>
+        <Link
+          to="/bookings/find"
+          className={`navLink ${isActive("/bookings/find") ? "navLinkActive" : ""}`}
+        >
+          Find my booking
+        </Link>
         <Link
           to="/admin"
           className={`navLink ${isActive("/admin") ? "navLinkActive" : ""}`}
         >
           Admin dashboard
         </Link>
+        {staffSession !== null ? (
+          <button type="button" className="navLink" onClick={logout}>
+            Log out ({staffSession.user.name})
+          </button>
+        ) : (
+          <Link
+            to="/login"
+            className={`navLink ${isActive("/login") ? "navLinkActive" : ""}`}
+          >
+            Staff login
+          </Link>
+        )}
       </nav>
     </header>
   );
@@ -89,7 +113,12 @@ export function AppRoot(): React.ReactElement {
         <Routes>
           <Route path="/" element={<SlotListPage />} />
           <Route path="/booking/:slotId" element={<BookingPage />} />
+          <Route path="/bookings/find" element={<FindBookingPage />} />
+          <Route path="/bookings/:bookingId" element={<BookingDetailsPage />} />
+          <Route path="/waitlist/:entryId" element={<WaitlistPage />} />
+          <Route path="/doctors/:doctorId" element={<DoctorPage />} />
           <Route path="/admin" element={<AdminDashboardPage />} />
+          <Route path="/login" element={<LoginPage />} />
         </Routes>
       </main>
     </div>
@@ -4,15 +4,69 @@
  * @description Admin dashboard to create doctors and slots and view current slots.
  */
 
-import React, { useState, useEffect, useRef } from "react";
-import { useAppContext, DoctorSlot } from "../appContext";
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { Navigate } from "react-router-dom";
 import {
+  useAppContext,
+  AdminSpecialization,
+  Doctor,
+  DoctorSlot,
+  AdminBooking,
+  AdminSlot,
+  AttendanceStatus,
+  Blackout,
+  BookingEvent,
+  CapacityAffectedBooking,
+  CapacityReductionPolicy,
+  DeletionImpact,
+  IntakeAnswer,
+  IntakeQuestion,
+  IntakeQuestionType,
+  Patient,
+  PatientSummary,
+  SlotTemplate,
+  SlotConflict,
+  SlotTemplateChange,
+  WorkingHours
+} from "../appContext";
+import {
+  FieldValidationError,
+  SlotConflictError,
   createDoctorApi,
   createSlotApi,
+  getAdminBookingsApi,
+  getAdminSlotsApi,
   getDoctorsApi,
+  getDoctorApi,
+  updateDoctorApi,
   updateSlotCapacityApi,
+  adminCancelBookingApi,
+  updateAttendanceApi,
+  getBookingHistoryApi,
+  reorderWaitlistApi,
+  removeWaitlistEntryApi,
   deleteSlotApi,
-  deleteDoctorApi
+  deleteDoctorApi,
+  getDoctorDeletionImpactApi,
+  getIntakeQuestionsApi,
+  createIntakeQuestionApi,
+  deleteIntakeQuestionApi,
+  createStaffBookingApi,
+  getPatientsApi,
+  getPatientApi,
+  getSlotTemplatesApi,
+  createSlotTemplateApi,
+  updateSlotTemplateApi,
+  endSlotTemplateApi,
+  getWorkingHoursApi,
+  setWorkingHoursApi,
+  getBlackoutsApi,
+  createBlackoutApi,
+  deleteBlackoutApi,
+  getAdminSpecializationsApi,
+  createSpecializationApi,
+  updateSpecializationApi,
+  deleteSpecializationApi
 } from "../apiClient";
 
 /**
@@ -20,7 +74,61 @@ import {
  */
 interface DoctorFormState {
   readonly name: string;
-  readonly specialization: string;
+  /** Picked catalogue specializations, main one first. */
+  readonly specializationIds: readonly string[];
+}
+
+/**
+ * Empty doctor creation form.
+ */
+const EMPTY_DOCTOR_FORM: DoctorFormState = {
+  name: "",
+  specializationIds: []
+};
+
+/**
+ * Checkbox list of catalogue specializations. Ticked entries keep the order
+ * they were ticked in; the first is the doctor's main specialization.
+ *
+ * @param props.specializations Catalogue to pick from.
+ * @param props.selectedIds Picked specialization ids, main one first.
+ * @param props.onChange Receives the new list of picked ids.
+ */
+function SpecializationPicker(props: {
+  readonly specializations: readonly AdminSpecialization[];
+  readonly selectedIds: readonly string[];
+  readonly onChange: (ids: string[]) => void;
+}): React.ReactElement {
+  const { specializations, selectedIds, onChange } = props;
+
+  if (specializations.length === 0) {
+    return <p className="emptyStateText">Add specializations to the catalogue first.</p>;
+  }
+
+  return (
+    <div className="templateWeekdays">
+      {specializations.map((specialization) => {
+        const checked: boolean = selectedIds.includes(specialization.id);
+        return (
+          <label key={specialization.id} className="timeOption">
+            <input
+              type="checkbox"
+              checked={checked}
+              onChange={() =>
+                onChange(
+                  checked
+                    ? selectedIds.filter((id) => id !== specialization.id)
+                    : [...selectedIds, specialization.id]
+                )
+              }
+            />
+            {specialization.name}
+            {selectedIds[0] === specialization.id && selectedIds.length > 1 && " (main)"}
+          </label>
+        );
+      })}
+    </div>
+  );
 }
 
 /**
@@ -31,6 +139,211 @@ interface SlotFormState {
   readonly startTime: string;
   readonly endTime: string;
   readonly capacity: number;
+  /** Admin only: create the slot even if it is outside working hours. */
+  readonly outsideHours: boolean;
+  readonly outsideHoursReason: string;
+}
+
+/**
+ * Empty slot creation form.
+ */
+const EMPTY_SLOT_FORM: SlotFormState = {
+  doctorId: "",
+  startTime: "",
+  endTime: "",
+  capacity: 1,
+  outsideHours: false,
+  outsideHoursReason: ""
+};
+
+/**
+ * Local state for the intake question form. The question applies to the
+ * doctor or to the specialization, depending on appliesTo. Choice options
+ * are typed one per line.
+ */
+interface IntakeQuestionFormState {
+  readonly appliesTo: "doctor" | "specialization";
+  readonly doctorId: string;
+  readonly specializationId: string;
+  readonly prompt: string;
+  readonly type: IntakeQuestionType;
+  readonly options: string;
+  readonly required: boolean;
+}
+
+/**
+ * Empty intake question form.
+ */
+const EMPTY_INTAKE_FORM: IntakeQuestionFormState = {
+  appliesTo: "specialization",
+  doctorId: "",
+  specializationId: "",
+  prompt: "",
+  type: "TEXT",
+  options: "",
+  required: false
+};
+
+/**
+ * Local state for the form staff use to book a slot for a patient.
+ */
+interface StaffBookingFormState {
+  readonly userName: string;
+  readonly patientEmail: string;
+  readonly patientPhone: string;
+  readonly visitReason: string;
+  readonly overbook: boolean;
+  readonly overbookReason: string;
+}
+
+/**
+ * Empty staff booking form.
+ */
+const EMPTY_STAFF_BOOKING_FORM: StaffBookingFormState = {
+  userName: "",
+  patientEmail: "",
+  patientPhone: "",
+  visitReason: "",
+  overbook: false,
+  overbookReason: ""
+};
+
+/**
+ * Local state for the recurring schedule form. Weekdays are ISO numbers
+ * (1 = Monday); times of day are HH:MM in the clinic's time zone.
+ */
+interface TemplateFormState {
+  readonly doctorId: string;
+  readonly weekdays: readonly number[];
+  readonly dayStart: string;
+  readonly dayEnd: string;
+  readonly slotMinutes: number;
+  readonly capacity: number;
+  readonly startsOn: string;
+  readonly endsOn: string;
+}
+
+/**
+ * Empty recurring schedule form.
+ */
+const EMPTY_TEMPLATE_FORM: TemplateFormState = {
+  doctorId: "",
+  weekdays: [],
+  dayStart: "09:00",
+  dayEnd: "12:00",
+  slotMinutes: 15,
+  capacity: 1,
+  startsOn: "",
+  endsOn: ""
+};
+
+/**
+ * Local state for the doctor profile editor. Lists are comma-separated and
+ * the fee is a decimal amount, e.g. "45.00".
+ */
+interface DoctorProfileFormState {
+  readonly name: string;
+  readonly specializationIds: readonly string[];
+  readonly bio: string;
+  readonly qualifications: string;
+  readonly languages: string;
+  readonly consultationFee: string;
+  readonly photoUrl: string;
+  readonly acceptingNewPatients: boolean;
+}
+
+/**
+ * Fills the profile editor from a doctor.
+ *
+ * @param doctor Doctor being edited.
+ */
+function toProfileForm(doctor: Doctor): DoctorProfileFormState {
+  return {
+    name: doctor.name,
+    specializationIds: doctor.specializations.map((specialization) => specialization.id),
+    bio: doctor.bio ?? "",
+    qualifications: doctor.qualifications.join(", "),
+    languages: doctor.languages.join(", "),
+    consultationFee:
+      doctor.consultationFeeCents !== null ? (doctor.consultationFeeCents / 100).toFixed(2) : "",
+    photoUrl: doctor.photoUrl ?? "",
+    acceptingNewPatients: doctor.acceptingNewPatients
+  };
+}
+
+/**
+ * Splits a comma-separated list, dropping empty entries.
+ *
+ * @param value Text such as "English, Welsh".
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Local state for the blackout form; an empty doctorId means the whole clinic.
+ */
+interface BlackoutFormState {
+  readonly doctorId: string;
+  readonly startsOn: string;
+  readonly endsOn: string;
+  readonly reason: string;
+}
+
+/**
+ * Empty blackout form.
+ */
+const EMPTY_BLACKOUT_FORM: BlackoutFormState = {
+  doctorId: "",
+  startsOn: "",
+  endsOn: "",
+  reason: ""
+};
+
+/**
+ * Short weekday names, indexed by ISO weekday minus one.
+ */
+const WEEKDAY_LABELS: readonly string[] = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/**
+ * Readable names of the intake answer types.
+ */
+const INTAKE_TYPE_LABELS: Readonly<Record<IntakeQuestionType, string>> = {
+  TEXT: "Text",
+  CHOICE: "Choice",
+  YES_NO: "Yes / no",
+  DATE: "Date"
+};
+
+/**
+ * Readable outcomes of bookings moved out of a slot whose capacity was lowered.
+ */
+const CAPACITY_OUTCOME_LABELS: Readonly<Record<CapacityAffectedBooking["outcome"], string>> = {
+  HOLD_RELEASED: "hold released",
+  WAITLISTED: "moved to the waitlist",
+  CANCELLED: "cancelled"
+};
+
+/**
+ * Readable names of who changed a booking's status.
+ */
+const EVENT_ACTOR_LABELS: Readonly<Record<string, string>> = {
+  PATIENT: "by patient",
+  STAFF: "by staff",
+  SYSTEM: "automatically"
+};
+
+/**
+ * Formats a stored intake answer for display.
+ */
+function formatIntakeAnswer(answer: IntakeAnswer): string {
+  if (typeof answer.answer === "boolean") {
+    return answer.answer ? "Yes" : "No";
+  }
+  return answer.answer;
 }
 
 /**
@@ -39,23 +352,74 @@ interface SlotFormState {
 interface DoctorSummary {
   readonly id: string;
   readonly name: string;
+  /** Specialization names joined for display. */
   readonly specialization: string;
 }
 
+/**
+ * Shortens a doctor to the summary listed in the doctors table.
+ *
+ * @param doctor Doctor as returned by the API.
+ */
+function toDoctorSummary(doctor: Doctor): DoctorSummary {
+  return {
+    id: doctor.id,
+    name: doctor.name,
+    specialization: doctor.specializations.map((specialization) => specialization.name).join(", ")
+  };
+}
+
+/**
+ * Attendance steps front-desk staff can record from each booking status.
+ * The server enforces the same transitions.
+ */
+const ATTENDANCE_ACTIONS: Readonly<
+  Record<string, readonly { status: AttendanceStatus; label: string }[]>
+> = {
+  CONFIRMED: [
+    { status: "CHECKED_IN", label: "Arrived" },
+    { status: "NO_SHOW", label: "No-show" }
+  ],
+  CHECKED_IN: [
+    { status: "IN_PROGRESS", label: "Start visit" },
+    { status: "NO_SHOW", label: "No-show" }
+  ],
+  IN_PROGRESS: [{ status: "COMPLETED", label: "Complete" }],
+  NO_SHOW: [{ status: "CHECKED_IN", label: "Arrived late" }]
+};
+
 export function AdminDashboardPage(): React.ReactElement {
-  const { apiBaseUrl, slots, refreshSlots } = useAppContext();
+  const { apiBaseUrl, refreshSlots, staffSession } = useAppContext();
+
+  const role = staffSession?.user.role ?? null;
+  const isAdmin: boolean = role === "admin";
+  const canManageSlots: boolean = role === "admin" || role === "receptionist";
+
+  // Slots visible to the logged-in staff member (doctors only get their own).
+  const [slots, setSlots] = useState<AdminSlot[]>([]);
+  // Most recent bookings, loaded from the admin bookings endpoint.
+  const [recentBookings, setRecentBookings] = useState<AdminBooking[]>([]);
+
+  const [doctorForm, setDoctorForm] = useState<DoctorFormState>(EMPTY_DOCTOR_FORM);
 
-  const [doctorForm, setDoctorForm] = useState<DoctorFormState>({
-    name: "",
-    specialization: ""
-  });
+  // Specialization catalogue, the form to add or rename an entry, and the
+  // entry being merged into another.
+  const [specializations, setSpecializations] = useState<AdminSpecialization[]>([]);
+  const [specializationForm, setSpecializationForm] = useState<{
+    readonly name: string;
+    readonly slug: string;
+  }>({ name: "", slug: "" });
+  const [editingSpecializationId, setEditingSpecializationId] = useState<string | null>(null);
+  const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState<string>("");
 
-  const [slotForm, setSlotForm] = useState<SlotFormState>({
-    doctorId: "",
-    startTime: "",
-    endTime: "",
-    capacity: 1
-  });
+  const [slotForm, setSlotForm] = useState<SlotFormState>(EMPTY_SLOT_FORM);
+  // Messages for slot form fields, by field name, from the last attempt.
+  const [slotFieldErrors, setSlotFieldErrors] = useState<
+    Readonly<Record<string, readonly string[]>>
+  >({});
+  // Existing slot of the doctor that the last slot attempt overlapped.
+  const [slotConflict, setSlotConflict] = useState<SlotConflict | null>(null);
 
   const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
 
@@ -66,28 +430,131 @@ export function AdminDashboardPage(): React.ReactElement {
   const [editingSlotId, setEditingSlotId] = useState<string | null>(null);
   const [editingCapacity, setEditingCapacity] = useState<number>(1);
   const [isSavingCapacity, setIsSavingCapacity] = useState<boolean>(false);
+  const [capacityPolicy, setCapacityPolicy] = useState<CapacityReductionPolicy>("REJECT");
 
   // For delete confirmation dialogs
   const [deleteConfirm, setDeleteConfirm] = useState<{ type: "doctor" | "slot"; id: string; name: string } | null>(null);
   const [isDeleting, setIsDeleting] = useState<boolean>(false);
+  // What deleting the doctor would affect; null while loading.
+  const [deleteImpact, setDeleteImpact] = useState<DeletionImpact | null>(null);
+
+  // Intake questions asked when booking, and the form for adding one.
+  const [intakeQuestions, setIntakeQuestions] = useState<IntakeQuestion[]>([]);
+  const [intakeForm, setIntakeForm] = useState<IntakeQuestionFormState>(EMPTY_INTAKE_FORM);
+
+  // Slot row whose "book for patient" form is open, and that form.
+  const [bookingSlotId, setBookingSlotId] = useState<string | null>(null);
+  const [staffBookingForm, setStaffBookingForm] =
+    useState<StaffBookingFormState>(EMPTY_STAFF_BOOKING_FORM);
+  const [isBookingForPatient, setIsBookingForPatient] = useState<boolean>(false);
+
+  // Patient list for front-desk staff, and the patient whose history is open.
+  const [patients, setPatients] = useState<PatientSummary[]>([]);
+  const [patientSearch, setPatientSearch] = useState<string>("");
+  const [openPatient, setOpenPatient] = useState<{
+    readonly patient: Patient;
+    readonly bookings: readonly AdminBooking[];
+  } | null>(null);
+
+  // Working hours of the doctor opened in the doctors table, being edited.
+  const [hoursDoctorId, setHoursDoctorId] = useState<string | null>(null);
+  const [hoursDraft, setHoursDraft] = useState<WorkingHours[]>([]);
+  const [isSavingHours, setIsSavingHours] = useState<boolean>(false);
+
+  // Public profile of the doctor opened in the doctors table, being edited.
+  const [profileDoctorId, setProfileDoctorId] = useState<string | null>(null);
+  const [profileForm, setProfileForm] = useState<DoctorProfileFormState | null>(null);
+  const [profileFieldErrors, setProfileFieldErrors] = useState<
+    Readonly<Record<string, readonly string[]>>
+  >({});
+  const [isSavingProfile, setIsSavingProfile] = useState<boolean>(false);
+
+  // Doctor leave and clinic holidays, and the form to add one.
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+  const [blackoutForm, setBlackoutForm] = useState<BlackoutFormState>(EMPTY_BLACKOUT_FORM);
+  const [isSavingBlackout, setIsSavingBlackout] = useState<boolean>(false);
+
+  // Recurring slot templates, the schedule form and the preview of its changes.
+  const [slotTemplates, setSlotTemplates] = useState<SlotTemplate[]>([]);
+  const [templateForm, setTemplateForm] = useState<TemplateFormState>(EMPTY_TEMPLATE_FORM);
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [templatePreview, setTemplatePreview] = useState<SlotTemplateChange | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState<boolean>(false);
+
+  // Status history of the booking opened in the recent bookings table.
+  const [openBookingHistory, setOpenBookingHistory] = useState<{
+    readonly bookingId: string;
+    readonly events: readonly BookingEvent[];
+  } | null>(null);
+
+  /**
+   * Reloads the staff slot and booking lists and the shared patient-facing list.
+   */
+  const reloadSlots = useCallback(async (): Promise<void> => {
+    try {
+      const [fetchedSlots, fetchedBookings] = await Promise.all([
+        getAdminSlotsApi(apiBaseUrl),
+        getAdminBookingsApi(apiBaseUrl)
+      ]);
+      setSlots(fetchedSlots);
+      setRecentBookings(fetchedBookings);
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to load slots.";
+      setFeedbackMessage(message);
+    }
+    void refreshSlots();
+  }, [apiBaseUrl, refreshSlots]);
+
+  useEffect(() => {
+    if (staffSession !== null) {
+      void reloadSlots();
+    }
+  }, [reloadSlots, staffSession]);
 
   // Load persisted doctors on mount
   useEffect(() => {
+    if (staffSession === null) return;
     async function loadDoctors(): Promise<void> {
       try {
         const remote = await getDoctorsApi(apiBaseUrl);
-        const mapped = remote.map((d) => ({
-          id: d.id,
-          name: d.name,
-          specialization: d.specialization
-        }));
-        setDoctorList(mapped);
+        setDoctorList(remote.map(toDoctorSummary));
       } catch {
         // ignore for now
       }
     }
     void loadDoctors();
-  }, [apiBaseUrl]);
+  }, [apiBaseUrl, staffSession]);
+
+  // Load intake questions on mount
+  useEffect(() => {
+    if (staffSession === null) return;
+    getIntakeQuestionsApi(apiBaseUrl).then(setIntakeQuestions, () => undefined);
+  }, [apiBaseUrl, staffSession]);
+
+  // Load the specialization catalogue on mount
+  useEffect(() => {
+    if (staffSession === null) return;
+    getAdminSpecializationsApi(apiBaseUrl).then(setSpecializations, () => undefined);
+  }, [apiBaseUrl, staffSession]);
+
+  // Load blackouts on mount (front desk only)
+  useEffect(() => {
+    if (!canManageSlots) return;
+    getBlackoutsApi(apiBaseUrl).then(setBlackouts, () => undefined);
+  }, [apiBaseUrl, canManageSlots]);
+
+  // Load recurring slot templates on mount (front desk only)
+  useEffect(() => {
+    if (!canManageSlots) return;
+    getSlotTemplatesApi(apiBaseUrl).then(setSlotTemplates, () => undefined);
+  }, [apiBaseUrl, canManageSlots]);
+
+  // Load patients on mount (front desk only)
+  useEffect(() => {
+    if (!canManageSlots) return;
+    getPatientsApi(apiBaseUrl).then(setPatients, () => undefined);
+  }, [apiBaseUrl, canManageSlots]);
 
   const handleDoctorInputChange = (
     event: React.ChangeEvent<HTMLInputElement>
@@ -124,22 +591,21 @@ export function AdminDashboardPage(): React.ReactElement {
     event.preventDefault();
 
     const trimmedName: string = doctorForm.name.trim();
-    const trimmedSpecialization: string = doctorForm.specialization.trim();
 
     if (trimmedName.length === 0) {
       setFeedbackMessage("Doctor name is required.");
       return;
     }
 
-    if (trimmedSpecialization.length === 0) {
-      setFeedbackMessage("Doctor specialization is required.");
+    if (doctorForm.specializationIds.length === 0) {
+      setFeedbackMessage("Pick at least one specialization.");
       return;
     }
 
     try {
       await createDoctorApi(apiBaseUrl, {
         name: trimmedName,
-        specialization: trimmedSpecialization
+        specializationIds: doctorForm.specializationIds
       });
 
       setFeedbackMessage("Doctor created successfully.");
@@ -147,20 +613,13 @@ export function AdminDashboardPage(): React.ReactElement {
       // Refresh doctors list
       try {
         const remote = await getDoctorsApi(apiBaseUrl);
-        const mapped = remote.map((d) => ({
-          id: d.id,
-          name: d.name,
-          specialization: d.specialization
-        }));
-        setDoctorList(mapped);
+        setDoctorList(remote.map(toDoctorSummary));
       } catch {
         /* fallback ignored */
       }
 
-      setDoctorForm({
-        name: "",
-        specialization: ""
-      });
+      setDoctorForm(EMPTY_DOCTOR_FORM);
+      await reloadSpecializations();
     } catch (error) {
       const message: string =
         error instanceof Error ? error.message : "Failed to create doctor.";
@@ -195,31 +654,200 @@ export function AdminDashboardPage(): React.ReactElement {
       return;
     }
 
+    // The inputs hold local times; the API expects ISO 8601 with an offset.
+    const startTime: string = new Date(slotForm.startTime).toISOString();
+    const endTime: string = new Date(slotForm.endTime).toISOString();
+
+    if (endTime <= startTime) {
+      setSlotFieldErrors({ endTime: ["End time must be after start time."] });
+      return;
+    }
+
+    const outsideHoursReason: string = slotForm.outsideHoursReason.trim();
+
+    if (slotForm.outsideHours && outsideHoursReason.length === 0) {
+      setSlotFieldErrors({
+        outsideHoursReason: ["Give a reason for the slot outside working hours."]
+      });
+      return;
+    }
+
     try {
-      await createSlotApi(apiBaseUrl, {
+      setSlotFieldErrors({});
+      setSlotConflict(null);
+      const { slot } = await createSlotApi(apiBaseUrl, {
         doctorId: trimmedDoctorId,
-        startTime: slotForm.startTime,
-        endTime: slotForm.endTime,
-        capacity: slotForm.capacity
+        startTime,
+        endTime,
+        capacity: slotForm.capacity,
+        outsideHoursReason: slotForm.outsideHours ? outsideHoursReason : undefined
       });
 
-      setFeedbackMessage("Slot created successfully.");
+      setFeedbackMessage(
+        slot.hoursOverrideReason !== null
+          ? "Slot created outside working hours."
+          : "Slot created successfully."
+      );
 
-      setSlotForm({
-        doctorId: "",
-        startTime: "",
-        endTime: "",
-        capacity: 1
-      });
+      setSlotForm(EMPTY_SLOT_FORM);
 
-      await refreshSlots();
+      await reloadSlots();
     } catch (error) {
+      if (error instanceof SlotConflictError) {
+        setSlotConflict(error.conflictingSlot);
+      } else if (error instanceof FieldValidationError) {
+        setSlotFieldErrors(error.fieldErrors);
+      }
       const message: string =
         error instanceof Error ? error.message : "Failed to create slot.";
       setFeedbackMessage(message);
     }
   };
 
+  /**
+   * Renders the messages for one slot form field, if any.
+   */
+  function renderSlotFieldErrors(field: string): React.ReactNode {
+    return (slotFieldErrors[field] ?? []).map((message) => (
+      <p key={message} className="fieldError">
+        {message}
+      </p>
+    ));
+  }
+
+  /**
+   * Opens a doctor's profile for editing, or closes it when already open.
+   */
+  async function toggleDoctorProfile(doctorId: string): Promise<void> {
+    if (profileDoctorId === doctorId) {
+      setProfileDoctorId(null);
+      return;
+    }
+
+    try {
+      setProfileForm(toProfileForm(await getDoctorApi(apiBaseUrl, doctorId)));
+      setProfileFieldErrors({});
+      setProfileDoctorId(doctorId);
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to load doctor profile.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Changes fields of the profile being edited.
+   */
+  function updateProfileForm(changes: Partial<DoctorProfileFormState>): void {
+    setProfileForm((previous) => (previous === null ? previous : { ...previous, ...changes }));
+  }
+
+  /**
+   * Saves the edited profile of the open doctor. Fields the server rejects
+   * are shown next to their inputs.
+   */
+  async function saveDoctorProfile(): Promise<void> {
+    if (profileDoctorId === null || profileForm === null) return;
+
+    const fee: string = profileForm.consultationFee.trim();
+    const feeCents: number = Math.round(Number(fee) * 100);
+    if (fee.length > 0 && !Number.isFinite(feeCents)) {
+      setProfileFieldErrors({ consultationFeeCents: ["Enter the fee as a number, e.g. 45.00."] });
+      return;
+    }
+
+    setIsSavingProfile(true);
+    setFeedbackMessage(null);
+    setProfileFieldErrors({});
+    try {
+      const photoUrl: string = profileForm.photoUrl.trim();
+      const saved: Doctor = await updateDoctorApi(apiBaseUrl, profileDoctorId, {
+        name: profileForm.name.trim(),
+        specializationIds: profileForm.specializationIds,
+        bio: profileForm.bio,
+        qualifications: splitList(profileForm.qualifications),
+        languages: splitList(profileForm.languages),
+        consultationFeeCents: fee.length > 0 ? feeCents : null,
+        photoUrl: photoUrl.length > 0 ? photoUrl : null,
+        acceptingNewPatients: profileForm.acceptingNewPatients
+      });
+      setProfileForm(toProfileForm(saved));
+      setDoctorList((prev) => prev.map((d) => (d.id === saved.id ? toDoctorSummary(saved) : d)));
+      await reloadSpecializations();
+      setFeedbackMessage(`Profile of Dr. ${saved.name} saved.`);
+      await reloadSlots();
+    } catch (error) {
+      if (error instanceof FieldValidationError) {
+        setProfileFieldErrors(error.fieldErrors);
+      }
+      const message: string =
+        error instanceof Error ? error.message : "Failed to save doctor profile.";
+      setFeedbackMessage(message);
+    } finally {
+      setIsSavingProfile(false);
+    }
+  }
+
+  /**
+   * Renders the server's messages for one field of the profile editor.
+   */
+  function renderProfileFieldErrors(field: string): React.ReactNode {
+    return (profileFieldErrors[field] ?? []).map((message) => (
+      <p key={message} className="fieldError">
+        {message}
+      </p>
+    ));
+  }
+
+  /**
+   * Opens a doctor's working hours for viewing or editing, or closes them
+   * when already open.
+   */
+  async function toggleWorkingHours(doctorId: string): Promise<void> {
+    if (hoursDoctorId === doctorId) {
+      setHoursDoctorId(null);
+      return;
+    }
+
+    try {
+      setHoursDraft(await getWorkingHoursApi(apiBaseUrl, doctorId));
+      setHoursDoctorId(doctorId);
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to load working hours.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Changes one range of the working hours being edited.
+   */
+  function updateHoursRange(index: number, changes: Partial<WorkingHours>): void {
+    setHoursDraft((previous) =>
+      previous.map((range, i) => (i === index ? { ...range, ...changes } : range))
+    );
+  }
+
+  /**
+   * Saves the edited working hours of the open doctor.
+   */
+  async function saveWorkingHours(): Promise<void> {
+    if (hoursDoctorId === null) return;
+
+    setIsSavingHours(true);
+    setFeedbackMessage(null);
+    try {
+      setHoursDraft(await setWorkingHoursApi(apiBaseUrl, hoursDoctorId, hoursDraft));
+      setFeedbackMessage("Working hours saved.");
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to save working hours.";
+      setFeedbackMessage(message);
+    } finally {
+      setIsSavingHours(false);
+    }
+  }
+
     // Ref to store the current timeout id for clearing feedback message
   const copyTimeoutRef = useRef<number | null>(null);
 
@@ -299,17 +927,34 @@ export function AdminDashboardPage(): React.ReactElement {
   function cancelEditCapacity(): void {
     setEditingSlotId(null);
     setEditingCapacity(1);
+    setCapacityPolicy("REJECT");
   }
 
   async function saveCapacity(slotId: string): Promise<void> {
     setIsSavingCapacity(true);
     setFeedbackMessage(null);
     try {
-      await updateSlotCapacityApi(apiBaseUrl, slotId, editingCapacity);
-      setFeedbackMessage("Slot capacity updated.");
+      const { affectedBookings } = await updateSlotCapacityApi(
+        apiBaseUrl,
+        slotId,
+        editingCapacity,
+        capacityPolicy
+      );
+      setFeedbackMessage(
+        affectedBookings.length === 0
+          ? "Slot capacity updated."
+          : `Slot capacity updated. ${affectedBookings
+              .map(
+                (b) =>
+                  `${b.userName || "Seat hold"} (${b.referenceCode}) ${CAPACITY_OUTCOME_LABELS[b.outcome]}` +
+                  (b.notified ? ", patient notified" : "")
+              )
+              .join("; ")}.`
+      );
       setEditingSlotId(null);
       setEditingCapacity(1);
-      await refreshSlots();
+      setCapacityPolicy("REJECT");
+      await reloadSlots();
     } catch (error) {
       const message: string =
         error instanceof Error ? error.message : "Failed to update slot capacity.";
@@ -322,8 +967,17 @@ export function AdminDashboardPage(): React.ReactElement {
   /**
    * Initiates delete confirmation for a doctor.
    */
-  function initiateDeleteDoctor(doctorId: string, doctorName: string): void {
+  async function initiateDeleteDoctor(doctorId: string, doctorName: string): Promise<void> {
     setDeleteConfirm({ type: "doctor", id: doctorId, name: doctorName });
+    setDeleteImpact(null);
+    try {
+      setDeleteImpact(await getDoctorDeletionImpactApi(apiBaseUrl, doctorId));
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to check deletion impact.";
+      setFeedbackMessage(message);
+      setDeleteConfirm(null);
+    }
   }
 
   /**
@@ -343,20 +997,23 @@ export function AdminDashboardPage(): React.ReactElement {
     setFeedbackMessage(null);
     try {
       if (deleteConfirm.type === "doctor") {
-        await deleteDoctorApi(apiBaseUrl, deleteConfirm.id);
-        setFeedbackMessage(`Doctor "${deleteConfirm.name}" deleted successfully.`);
+        const result = await deleteDoctorApi(
+          apiBaseUrl,
+          deleteConfirm.id,
+          deleteImpact !== null && deleteImpact.confirmedBookingCount > 0
+        );
+        setFeedbackMessage(
+          result.cancelledBookings > 0
+            ? `Doctor "${deleteConfirm.name}" deleted; ${result.cancelledBookings} booking(s) cancelled by the clinic and patients notified.`
+            : `Doctor "${deleteConfirm.name}" deleted successfully.`
+        );
         // Refresh doctors list
         const remote = await getDoctorsApi(apiBaseUrl);
-        const mapped = remote.map((d) => ({
-          id: d.id,
-          name: d.name,
-          specialization: d.specialization
-        }));
-        setDoctorList(mapped);
+        setDoctorList(remote.map(toDoctorSummary));
       } else if (deleteConfirm.type === "slot") {
         await deleteSlotApi(apiBaseUrl, deleteConfirm.id);
         setFeedbackMessage("Slot deleted successfully.");
-        await refreshSlots();
+        await reloadSlots();
       }
       setDeleteConfirm(null);
     } catch (error) {
@@ -369,155 +1026,1505 @@ export function AdminDashboardPage(): React.ReactElement {
   }
 
   /**
-   * Cancels the delete confirmation dialog.
+   * Cancels a booking on behalf of the clinic after asking for a reason.
    */
-  function cancelDelete(): void {
-    setDeleteConfirm(null);
+  async function cancelBookingAsStaff(booking: AdminBooking): Promise<void> {
+    const reason: string | null = window.prompt(
+      `Reason for cancelling ${booking.userName}'s booking:`
+    );
+    if (reason === null || reason.trim().length === 0) return;
+
+    setFeedbackMessage(null);
+    try {
+      await adminCancelBookingApi(apiBaseUrl, booking.id, reason.trim());
+      setFeedbackMessage(`Booking for ${booking.userName} cancelled.`);
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to cancel booking.";
+      setFeedbackMessage(message);
+    }
   }
 
-  return (
-    <section className="pageContainer">
-      <header className="pageHeader">
-        <h1>Admin dashboard</h1>
-      </header>
+  /**
+   * Records an attendance step (arrival, start, completion or no-show).
+   */
+  async function recordAttendance(
+    booking: AdminBooking,
+    status: AttendanceStatus,
+    label: string
+  ): Promise<void> {
+    setFeedbackMessage(null);
+    try {
+      await updateAttendanceApi(apiBaseUrl, booking.id, status);
+      setFeedbackMessage(`${booking.userName}: ${label.toLowerCase()}.`);
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to update attendance.";
+      setFeedbackMessage(message);
+    }
+  }
 
-      {feedbackMessage !== null && (
-        <p className="infoMessage">{feedbackMessage}</p>
-      )}
+  /**
+   * Moves a waiting patient one place up (-1) or down (+1) in a slot's queue.
+   */
+  async function moveWaitlistEntry(
+    slot: AdminSlot,
+    index: number,
+    offset: -1 | 1
+  ): Promise<void> {
+    const target: number = index + offset;
+    if (target < 0 || target >= slot.waitlist.length) return;
 
-      <div className="adminGrid">
-        <form className="adminCard" onSubmit={handleCreateDoctor}>
-          <h2>Create doctor</h2>
-          <label className="formLabel" htmlFor="doctorName">
-            Name
-          </label>
-          <input
-            id="doctorName"
-            name="name"
-            type="text"
-            className="formInput"
-            value={doctorForm.name}
-            onChange={handleDoctorInputChange}
-            placeholder="Dr. John Doe"
-          />
-          <label className="formLabel" htmlFor="doctorSpecialization">
-            Specialization
-          </label>
-          <input
-            id="doctorSpecialization"
-            name="specialization"
-            type="text"
-            className="formInput"
-            value={doctorForm.specialization}
-            onChange={handleDoctorInputChange}
-            placeholder="Cardiologist"
-          />
-          <button type="submit" className="primaryButton">
-            Create doctor
-          </button>
-        </form>
-
-        <form className="adminCard" onSubmit={handleCreateSlot}>
-          <h2>Create slot</h2>
-          <label className="formLabel" htmlFor="slotDoctorId">
-            Doctor ID
-          </label>
-          <input
-            id="slotDoctorId"
-            name="doctorId"
-            type="text"
-            className="formInput"
-            value={slotForm.doctorId}
-            onChange={handleSlotInputChange}
-            placeholder="Paste doctor ID here"
-          />
-          <label className="formLabel" htmlFor="slotStartTime">
-            Start time
-          </label>
-          <input
-            id="slotStartTime"
-            name="startTime"
-            type="datetime-local"
-            className="formInput"
-            value={slotForm.startTime}
-            onChange={handleSlotInputChange}
-          />
-          <label className="formLabel" htmlFor="slotEndTime">
-            End time
-          </label>
-          <input
-            id="slotEndTime"
-            name="endTime"
-            type="datetime-local"
-            className="formInput"
-            value={slotForm.endTime}
-            onChange={handleSlotInputChange}
-          />
-          <label className="formLabel" htmlFor="slotCapacity">
-            Capacity
-          </label>
-          <input
-            id="slotCapacity"
-            name="capacity"
-            type="number"
-            min={1}
-            className="formInput"
-            value={slotForm.capacity}
-            onChange={handleSlotInputChange}
-          />
-          <button type="submit" className="primaryButton">
-            Create slot
-          </button>
-        </form>
-      </div>
+    const entryIds: string[] = slot.waitlist.map((w) => w.id);
+    [entryIds[index], entryIds[target]] = [entryIds[target], entryIds[index]];
 
-      <section className="adminCard adminTableCard">
-        <h2>Recently created doctors</h2>
-        {doctorList.length === 0 ? (
-          <p className="emptyStateText">No doctors found.</p>
-        ) : (
-          <div className="tableWrapper">
-            <table className="slotTable">
-              <thead>
-                <tr>
-                  <th>Name</th>
-                  <th>Specialization</th>
-                  <th>Doctor ID</th>
-                  <th>Actions</th>
+    setFeedbackMessage(null);
+    try {
+      await reorderWaitlistApi(apiBaseUrl, slot.id, entryIds);
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to reorder waitlist.";
+      setFeedbackMessage(message);
+      // The queue may have changed meanwhile (promotion, patient left).
+      await reloadSlots();
+    }
+  }
+
+  /**
+   * Removes a patient from a slot's waitlist.
+   */
+  async function removeFromWaitlist(entryId: string, userName: string): Promise<void> {
+    if (!window.confirm(`Remove ${userName} from the waitlist?`)) return;
+
+    setFeedbackMessage(null);
+    try {
+      await removeWaitlistEntryApi(apiBaseUrl, entryId);
+      setFeedbackMessage(`${userName} removed from the waitlist.`);
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to remove waitlist entry.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Adds an intake question for a doctor or a specialization.
+   */
+  async function handleCreateIntakeQuestion(
+    event: React.FormEvent<HTMLFormElement>
+  ): Promise<void> {
+    event.preventDefault();
+
+    const prompt: string = intakeForm.prompt.trim();
+    const options: string[] =
+      intakeForm.type === "CHOICE"
+        ? intakeForm.options.split("\n").map((o) => o.trim()).filter((o) => o.length > 0)
+        : [];
+
+    if (prompt.length === 0) {
+      setFeedbackMessage("Question text is required.");
+      return;
+    }
+
+    setFeedbackMessage(null);
+    try {
+      await createIntakeQuestionApi(apiBaseUrl, {
+        ...(intakeForm.appliesTo === "doctor"
+          ? { doctorId: intakeForm.doctorId }
+          : { specializationId: intakeForm.specializationId }),
+        prompt,
+        type: intakeForm.type,
+        options,
+        required: intakeForm.required
+      });
+      setFeedbackMessage("Intake question added.");
+      setIntakeForm(EMPTY_INTAKE_FORM);
+      setIntakeQuestions(await getIntakeQuestionsApi(apiBaseUrl));
+      await reloadSpecializations();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to add intake question.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Removes an intake question after confirmation.
+   */
+  async function removeIntakeQuestion(question: IntakeQuestion): Promise<void> {
+    if (!window.confirm(`Stop asking "${question.prompt}"?`)) return;
+
+    setFeedbackMessage(null);
+    try {
+      await deleteIntakeQuestionApi(apiBaseUrl, question.id);
+      setIntakeQuestions((previous) => previous.filter((q) => q.id !== question.id));
+      await reloadSpecializations();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to delete intake question.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Opens the "book for patient" form under a slot row, or closes it.
+   */
+  function toggleStaffBooking(slotId: string): void {
+    setBookingSlotId((previous) => (previous === slotId ? null : slotId));
+    setStaffBookingForm(EMPTY_STAFF_BOOKING_FORM);
+    setFeedbackMessage(null);
+  }
+
+  /**
+   * Books the open slot for the patient entered in the form. A full slot is
+   * only booked when overbooking is ticked and a reason is given.
+   */
+  async function submitStaffBooking(
+    event: React.FormEvent<HTMLFormElement>,
+    slotId: string
+  ): Promise<void> {
+    event.preventDefault();
+
+    const userName: string = staffBookingForm.userName.trim();
+    const patientEmail: string = staffBookingForm.patientEmail.trim();
+    const overbookReason: string = staffBookingForm.overbookReason.trim();
+
+    if (userName.length === 0 || patientEmail.length === 0) {
+      setFeedbackMessage("Enter the patient's name and email.");
+      return;
+    }
+    if (staffBookingForm.overbook && overbookReason.length === 0) {
+      setFeedbackMessage("Give a reason for overbooking this slot.");
+      return;
+    }
+
+    setIsBookingForPatient(true);
+    setFeedbackMessage(null);
+    try {
+      const booking = await createStaffBookingApi(apiBaseUrl, {
+        slotId,
+        userName,
+        patientEmail,
+        patientPhone: staffBookingForm.patientPhone.trim() || undefined,
+        visitReason: staffBookingForm.visitReason.trim() || undefined,
+        overbook: staffBookingForm.overbook,
+        overbookReason: staffBookingForm.overbook ? overbookReason : undefined
+      });
+      setFeedbackMessage(
+        `Booked ${booking.userName}, reference ${booking.referenceCode}` +
+          (booking.overbookReason !== null ? " (overbooked)." : ".")
+      );
+      setBookingSlotId(null);
+      setStaffBookingForm(EMPTY_STAFF_BOOKING_FORM);
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to book for patient.";
+      setFeedbackMessage(
+        message === "Slot is full."
+          ? "Slot is full. Tick overbook and give a reason to book anyway."
+          : message
+      );
+    } finally {
+      setIsBookingForPatient(false);
+    }
+  }
+
+  /**
+   * Lists the patients matching the search box.
+   */
+  async function searchPatients(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    setFeedbackMessage(null);
+    try {
+      setPatients(await getPatientsApi(apiBaseUrl, patientSearch));
+      setOpenPatient(null);
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to load patients.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Opens a patient's booking history, or closes it when already open.
+   */
+  async function togglePatientHistory(patientId: string): Promise<void> {
+    if (openPatient?.patient.id === patientId) {
+      setOpenPatient(null);
+      return;
+    }
+
+    setFeedbackMessage(null);
+    try {
+      setOpenPatient(await getPatientApi(apiBaseUrl, patientId));
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to load patient.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Reloads the specialization catalogue and its usage counts.
+   */
+  async function reloadSpecializations(): Promise<void> {
+    try {
+      setSpecializations(await getAdminSpecializationsApi(apiBaseUrl));
+    } catch {
+      // keep the previous list
+    }
+  }
+
+  /**
+   * Adds a catalogue entry, or saves the name and slug of the entry being
+   * edited. A blank slug is derived from the name by the server on create
+   * and left unchanged on edit.
+   */
+  async function saveSpecialization(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+
+    const name: string = specializationForm.name.trim();
+    const slug: string = specializationForm.slug.trim();
+    if (name.length === 0) {
+      setFeedbackMessage("Specialization name is required.");
+      return;
+    }
+
+    setFeedbackMessage(null);
+    try {
+      if (editingSpecializationId === null) {
+        await createSpecializationApi(apiBaseUrl, {
+          name,
+          ...(slug.length > 0 ? { slug } : {})
+        });
+        setFeedbackMessage("Specialization added.");
+      } else {
+        await updateSpecializationApi(apiBaseUrl, editingSpecializationId, {
+          name,
+          ...(slug.length > 0 ? { slug } : {})
+        });
+        setFeedbackMessage("Specialization saved.");
+      }
+      setSpecializationForm({ name: "", slug: "" });
+      setEditingSpecializationId(null);
+      await reloadSpecializations();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to save specialization.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Loads a catalogue entry into the form for editing.
+   */
+  function editSpecialization(specialization: AdminSpecialization): void {
+    setEditingSpecializationId(specialization.id);
+    setSpecializationForm({ name: specialization.name, slug: specialization.slug });
+  }
+
+  /**
+   * Removes a catalogue entry after confirmation. When a merge target is
+   * picked, its doctors and intake questions move there first.
+   */
+  async function removeSpecialization(
+    specialization: AdminSpecialization,
+    mergeIntoId: string | null
+  ): Promise<void> {
+    const target: AdminSpecialization | undefined = specializations.find(
+      (s) => s.id === mergeIntoId
+    );
+    const confirmed: boolean = window.confirm(
+      target !== undefined
+        ? `Merge "${specialization.name}" into "${target.name}"? ` +
+            "Its doctors and intake questions move over and it is removed."
+        : `Remove "${specialization.name}"?`
+    );
+    if (!confirmed) return;
+
+    try {
+      await deleteSpecializationApi(apiBaseUrl, specialization.id, mergeIntoId);
+      setFeedbackMessage(target !== undefined ? "Specializations merged." : "Specialization removed.");
+      setMergeSourceId(null);
+      setMergeTargetId("");
+      await reloadSpecializations();
+      const remote = await getDoctorsApi(apiBaseUrl);
+      setDoctorList(remote.map(toDoctorSummary));
+      setIntakeQuestions(await getIntakeQuestionsApi(apiBaseUrl));
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to remove specialization.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Adds doctor leave or a clinic holiday and reports which slots it removed
+   * and which booked ones now need rescheduling.
+   */
+  async function addBlackout(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+
+    const reason: string = blackoutForm.reason.trim();
+    if (blackoutForm.startsOn.length === 0 || blackoutForm.endsOn.length === 0) {
+      setFeedbackMessage("Give the first and last day of the leave or holiday.");
+      return;
+    }
+
+    if (reason.length === 0) {
+      setFeedbackMessage("Give a reason for the leave or holiday.");
+      return;
+    }
+
+    setIsSavingBlackout(true);
+    setFeedbackMessage(null);
+    try {
+      const { blackout, deactivatedSlotCount } = await createBlackoutApi(apiBaseUrl, {
+        doctorId: blackoutForm.doctorId.length > 0 ? blackoutForm.doctorId : null,
+        startsOn: blackoutForm.startsOn,
+        endsOn: blackoutForm.endsOn,
+        reason
+      });
+      setFeedbackMessage(
+        `Blackout added: ${deactivatedSlotCount} unbooked slot(s) removed` +
+          (blackout.flaggedSlots.length > 0
+            ? `, ${blackout.flaggedSlots.length} booked slot(s) need rescheduling or cancelling.`
+            : ".")
+      );
+      setBlackoutForm(EMPTY_BLACKOUT_FORM);
+      setBlackouts(await getBlackoutsApi(apiBaseUrl));
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to add blackout.";
+      setFeedbackMessage(message);
+    } finally {
+      setIsSavingBlackout(false);
+    }
+  }
+
+  /**
+   * Removes a blackout after confirmation; slots it removed stay removed.
+   */
+  async function removeBlackout(blackout: Blackout): Promise<void> {
+    const confirmed: boolean = window.confirm(
+      `Remove "${blackout.reason}" (${blackout.startsOn} to ${blackout.endsOn})? ` +
+        "Flagged slots will take bookings again; removed slots stay removed."
+    );
+    if (!confirmed) return;
+
+    try {
+      await deleteBlackoutApi(apiBaseUrl, blackout.id);
+      setFeedbackMessage("Blackout removed.");
+      setBlackouts(await getBlackoutsApi(apiBaseUrl));
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to remove blackout.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Changes fields of the schedule form; any preview is then out of date.
+   */
+  function updateTemplateForm(changes: Partial<TemplateFormState>): void {
+    setTemplateForm((previous) => ({ ...previous, ...changes }));
+    setTemplatePreview(null);
+  }
+
+  /**
+   * Adds or removes a weekday of the schedule form.
+   */
+  function toggleTemplateWeekday(day: number): void {
+    updateTemplateForm({
+      weekdays: templateForm.weekdays.includes(day)
+        ? templateForm.weekdays.filter((d) => d !== day)
+        : [...templateForm.weekdays, day].sort((a, b) => a - b)
+    });
+  }
+
+  /**
+   * Sends the schedule form as a new template or as an edit of the open one.
+   */
+  async function sendTemplateForm(preview: boolean): Promise<SlotTemplateChange> {
+    const { doctorId, ...rule } = templateForm;
+    return editingTemplateId === null
+      ? createSlotTemplateApi(apiBaseUrl, doctorId, rule, preview)
+      : updateSlotTemplateApi(apiBaseUrl, editingTemplateId, rule, preview);
+  }
+
+  /**
+   * Shows which slots saving the schedule form would create and remove.
+   */
+  async function previewTemplate(): Promise<void> {
+    if (templateForm.doctorId.length === 0) {
+      setFeedbackMessage("Choose a doctor for the schedule.");
+      return;
+    }
+
+    if (templateForm.weekdays.length === 0) {
+      setFeedbackMessage("Pick at least one weekday.");
+      return;
+    }
+
+    if (templateForm.startsOn.length === 0 || templateForm.endsOn.length === 0) {
+      setFeedbackMessage("Give the first and last day of the schedule.");
+      return;
+    }
+
+    setIsSavingTemplate(true);
+    setFeedbackMessage(null);
+    try {
+      setTemplatePreview(await sendTemplateForm(true));
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to preview schedule.";
+      setFeedbackMessage(message);
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  }
+
+  /**
+   * Saves the previewed schedule and generates its slots.
+   */
+  async function saveTemplate(event: React.FormEvent<HTMLFormElement>): Promise<void> {
+    event.preventDefault();
+    if (templatePreview === null) return;
+
+    setIsSavingTemplate(true);
+    setFeedbackMessage(null);
+    try {
+      const change: SlotTemplateChange = await sendTemplateForm(false);
+      setFeedbackMessage(
+        `Schedule saved: ${change.createdSlots.length} slot(s) created` +
+          (change.skippedSlots.length > 0
+            ? `, ${change.skippedSlots.length} skipped because of existing slots or blackouts`
+            : "") +
+          (change.removedSlotCount > 0
+            ? `, ${change.removedSlotCount} unbooked slot(s) removed`
+            : "") +
+          "."
+      );
+      setTemplateForm(EMPTY_TEMPLATE_FORM);
+      setEditingTemplateId(null);
+      setTemplatePreview(null);
+      setSlotTemplates(await getSlotTemplatesApi(apiBaseUrl));
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to save schedule.";
+      setFeedbackMessage(message);
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  }
+
+  /**
+   * Opens a template in the schedule form for editing.
+   */
+  function editTemplate(template: SlotTemplate): void {
+    setEditingTemplateId(template.id);
+    setTemplateForm({
+      doctorId: template.doctorId,
+      weekdays: template.weekdays,
+      dayStart: template.dayStart,
+      dayEnd: template.dayEnd,
+      slotMinutes: template.slotMinutes,
+      capacity: template.capacity,
+      startsOn: template.startsOn,
+      endsOn: template.endsOn
+    });
+    setTemplatePreview(null);
+  }
+
+  /**
+   * Leaves template editing and clears the schedule form.
+   */
+  function cancelTemplateEdit(): void {
+    setEditingTemplateId(null);
+    setTemplateForm(EMPTY_TEMPLATE_FORM);
+    setTemplatePreview(null);
+  }
+
+  /**
+   * Ends a template after showing how many upcoming slots it would remove.
+   */
+  async function endTemplate(template: SlotTemplate): Promise<void> {
+    setFeedbackMessage(null);
+    try {
+      const preview: SlotTemplateChange = await endSlotTemplateApi(apiBaseUrl, template.id, true);
+      const confirmed: boolean = window.confirm(
+        `End Dr. ${template.doctorName}'s schedule? ${preview.removedSlotCount} upcoming ` +
+          "slot(s) without bookings will be removed; booked slots stay."
+      );
+      if (!confirmed) return;
+
+      const change: SlotTemplateChange = await endSlotTemplateApi(apiBaseUrl, template.id, false);
+      setFeedbackMessage(`Schedule ended; ${change.removedSlotCount} upcoming slot(s) removed.`);
+      if (editingTemplateId === template.id) {
+        cancelTemplateEdit();
+      }
+      setSlotTemplates(await getSlotTemplatesApi(apiBaseUrl));
+      await reloadSlots();
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to end schedule.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Opens a booking's status history, or closes it when already open.
+   */
+  async function toggleBookingHistory(bookingId: string): Promise<void> {
+    if (openBookingHistory?.bookingId === bookingId) {
+      setOpenBookingHistory(null);
+      return;
+    }
+
+    setFeedbackMessage(null);
+    try {
+      const events: BookingEvent[] = await getBookingHistoryApi(apiBaseUrl, bookingId);
+      setOpenBookingHistory({ bookingId, events });
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to load booking history.";
+      setFeedbackMessage(message);
+    }
+  }
+
+  /**
+   * Cancels the delete confirmation dialog.
+   */
+  function cancelDelete(): void {
+    setDeleteConfirm(null);
+  }
+
+  if (staffSession === null) {
+    return <Navigate to="/login" replace />;
+  }
+
+  return (
+    <section className="pageContainer">
+      <header className="pageHeader">
+        <h1>Admin dashboard</h1>
+        <p>
+          Signed in as {staffSession.user.name} ({staffSession.user.role}).
+        </p>
+      </header>
+
+      {feedbackMessage !== null && (
+        <p className="infoMessage">{feedbackMessage}</p>
+      )}
+
+      {canManageSlots && (
+        <div className="adminGrid">
+          {isAdmin && (
+            <form className="adminCard" onSubmit={handleCreateDoctor}>
+              <h2>Create doctor</h2>
+              <label className="formLabel" htmlFor="doctorName">
+                Name
+              </label>
+              <input
+                id="doctorName"
+                name="name"
+                type="text"
+                className="formInput"
+                value={doctorForm.name}
+                onChange={handleDoctorInputChange}
+                placeholder="Dr. John Doe"
+              />
+              <span className="formLabel">Specializations</span>
+              <SpecializationPicker
+                specializations={specializations}
+                selectedIds={doctorForm.specializationIds}
+                onChange={(ids) =>
+                  setDoctorForm((previous) => ({ ...previous, specializationIds: ids }))
+                }
+              />
+              <button type="submit" className="primaryButton">
+                Create doctor
+              </button>
+            </form>
+          )}
+
+          <form className="adminCard" onSubmit={handleCreateSlot}>
+            <h2>Create slot</h2>
+            <label className="formLabel" htmlFor="slotDoctorId">
+              Doctor ID
+            </label>
+            <input
+              id="slotDoctorId"
+              name="doctorId"
+              type="text"
+              className="formInput"
+              value={slotForm.doctorId}
+              onChange={handleSlotInputChange}
+              placeholder="Paste doctor ID here"
+            />
+            {renderSlotFieldErrors("doctorId")}
+            <label className="formLabel" htmlFor="slotStartTime">
+              Start time
+            </label>
+            <input
+              id="slotStartTime"
+              name="startTime"
+              type="datetime-local"
+              className="formInput"
+              value={slotForm.startTime}
+              onChange={handleSlotInputChange}
+            />
+            {renderSlotFieldErrors("startTime")}
+            <label className="formLabel" htmlFor="slotEndTime">
+              End time
+            </label>
+            <input
+              id="slotEndTime"
+              name="endTime"
+              type="datetime-local"
+              className="formInput"
+              value={slotForm.endTime}
+              onChange={handleSlotInputChange}
+            />
+            {renderSlotFieldErrors("endTime")}
+            {slotConflict !== null && (
+              <p className="fieldError">
+                Overlaps this doctor's slot from{" "}
+                {new Date(slotConflict.startTime).toLocaleString()} to{" "}
+                {new Date(slotConflict.endTime).toLocaleString()}{" "}
+                <span className="idChip" title="Conflicting slot ID">
+                  {slotConflict.slotId}
+                </span>
+              </p>
+            )}
+            <label className="formLabel" htmlFor="slotCapacity">
+              Capacity
+            </label>
+            <input
+              id="slotCapacity"
+              name="capacity"
+              type="number"
+              min={1}
+              className="formInput"
+              value={slotForm.capacity}
+              onChange={handleSlotInputChange}
+            />
+            {renderSlotFieldErrors("capacity")}
+            {isAdmin && (
+              <>
+                <label className="timeOption">
+                  <input
+                    type="checkbox"
+                    checked={slotForm.outsideHours}
+                    onChange={(e) =>
+                      setSlotForm((prev) => ({ ...prev, outsideHours: e.target.checked }))
+                    }
+                  />
+                  <span className="timeOptionLabel">
+                    Outside working hours (doctor agreed)
+                  </span>
+                </label>
+                {slotForm.outsideHours && (
+                  <input
+                    type="text"
+                    className="formInput"
+                    aria-label="Reason for working outside hours"
+                    placeholder="Reason (required)"
+                    value={slotForm.outsideHoursReason}
+                    onChange={(e) =>
+                      setSlotForm((prev) => ({ ...prev, outsideHoursReason: e.target.value }))
+                    }
+                  />
+                )}
+                {renderSlotFieldErrors("outsideHoursReason")}
+              </>
+            )}
+            <button type="submit" className="primaryButton">
+              Create slot
+            </button>
+          </form>
+        </div>
+      )}
+
+      <section className="adminCard adminTableCard">
+        <h2>Recently created doctors</h2>
+        {doctorList.length === 0 ? (
+          <p className="emptyStateText">No doctors found.</p>
+        ) : (
+          <div className="tableWrapper">
+            <table className="slotTable">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Specialization</th>
+                  <th>Doctor ID</th>
+                  <th>Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {doctorList.map((doctor) => (
-                  <tr key={doctor.id}>
-                    <td>Dr. {doctor.name}</td>
-                    <td>{doctor.specialization}</td>
+                  <React.Fragment key={doctor.id}>
+                    <tr>
+                      <td>Dr. {doctor.name}</td>
+                      <td>{doctor.specialization}</td>
+                      <td>
+                      <span
+                        className="idChip idChipClickable"
+                        role="button"
+                        tabIndex={0}
+                        title="Click to copy ID"
+                        onClick={() => handleCopyId(doctor.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" || e.key === " ") {
+                            // space/enter triggers copy
+                            e.preventDefault();
+                            handleCopyId(doctor.id);
+                          }
+                        }}
+                        aria-label={`Copy doctor id ${doctor.id}`}
+                      >
+                        {doctor.id}
+                      </span>
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="secondaryButton"
+                          onClick={() => void toggleWorkingHours(doctor.id)}
+                        >
+                          {hoursDoctorId === doctor.id ? "Hide hours" : "Hours"}
+                        </button>
+                        {isAdmin && (
+                          <button
+                            type="button"
+                            className="secondaryButton"
+                            onClick={() => void toggleDoctorProfile(doctor.id)}
+                          >
+                            {profileDoctorId === doctor.id ? "Hide profile" : "Profile"}
+                          </button>
+                        )}
+                        {isAdmin && (
+                          <button
+                            type="button"
+                            className="dangerButton"
+                            onClick={() => void initiateDeleteDoctor(doctor.id, doctor.name)}
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {hoursDoctorId === doctor.id && (
+                      <tr>
+                        <td colSpan={4}>
+                          {hoursDraft.length === 0 && (
+                            <p className="emptyStateText">
+                              No working hours set; slots can be created at any time.
+                            </p>
+                          )}
+                          {hoursDraft.map((range, index) => (
+                            <div key={index} className="workingHoursRow">
+                              <select
+                                className="formInput"
+                                aria-label="Weekday"
+                                value={range.weekday}
+                                disabled={!isAdmin}
+                                onChange={(e) =>
+                                  updateHoursRange(index, { weekday: Number(e.target.value) })
+                                }
+                              >
+                                {WEEKDAY_LABELS.map((label, dayIndex) => (
+                                  <option key={label} value={dayIndex + 1}>
+                                    {label}
+                                  </option>
+                                ))}
+                              </select>
+                              <input
+                                type="time"
+                                className="formInput"
+                                aria-label="From"
+                                value={range.startTime}
+                                disabled={!isAdmin}
+                                onChange={(e) => updateHoursRange(index, { startTime: e.target.value })}
+                              />
+                              <input
+                                type="time"
+                                className="formInput"
+                                aria-label="Until"
+                                value={range.endTime}
+                                disabled={!isAdmin}
+                                onChange={(e) => updateHoursRange(index, { endTime: e.target.value })}
+                              />
+                              {isAdmin && (
+                                <button
+                                  type="button"
+                                  className="secondaryButton"
+                                  onClick={() =>
+                                    setHoursDraft((prev) => prev.filter((_, i) => i !== index))
+                                  }
+                                >
+                                  Remove
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                          {isAdmin && (
+                            <div className="formActions">
+                              <button
+                                type="button"
+                                className="secondaryButton"
+                                onClick={() =>
+                                  setHoursDraft((prev) => [
+                                    ...prev,
+                                    { weekday: 1, startTime: "09:00", endTime: "17:00" }
+                                  ])
+                                }
+                              >
+                                Add hours
+                              </button>
+                              <button
+                                type="button"
+                                className="primaryButton"
+                                disabled={isSavingHours}
+                                onClick={() => void saveWorkingHours()}
+                              >
+                                {isSavingHours ? "Saving..." : "Save hours"}
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                    {profileDoctorId === doctor.id && profileForm !== null && (
+                      <tr>
+                        <td colSpan={4}>
+                          <div className="templateFields">
+                            <label className="formLabel">
+                              Name
+                              <input
+                                type="text"
+                                className="formInput"
+                                value={profileForm.name}
+                                onChange={(e) => updateProfileForm({ name: e.target.value })}
+                              />
+                              {renderProfileFieldErrors("name")}
+                            </label>
+                          </div>
+                          <span className="formLabel">Specializations</span>
+                          <SpecializationPicker
+                            specializations={specializations}
+                            selectedIds={profileForm.specializationIds}
+                            onChange={(ids) => updateProfileForm({ specializationIds: ids })}
+                          />
+                          {renderProfileFieldErrors("specializationIds")}
+                          <label className="formLabel">
+                            Bio
+                            <textarea
+                              className="formInput"
+                              rows={4}
+                              value={profileForm.bio}
+                              onChange={(e) => updateProfileForm({ bio: e.target.value })}
+                            />
+                            {renderProfileFieldErrors("bio")}
+                          </label>
+                          <div className="templateFields">
+                            <label className="formLabel">
+                              Qualifications (comma-separated)
+                              <input
+                                type="text"
+                                className="formInput"
+                                value={profileForm.qualifications}
+                                onChange={(e) =>
+                                  updateProfileForm({ qualifications: e.target.value })
+                                }
+                              />
+                              {renderProfileFieldErrors("qualifications")}
+                            </label>
+                            <label className="formLabel">
+                              Languages (comma-separated)
+                              <input
+                                type="text"
+                                className="formInput"
+                                value={profileForm.languages}
+                                onChange={(e) => updateProfileForm({ languages: e.target.value })}
+                              />
+                              {renderProfileFieldErrors("languages")}
+                            </label>
+                          </div>
+                          <div className="templateFields">
+                            <label className="formLabel">
+                              Consultation fee
+                              <input
+                                type="number"
+                                className="formInput"
+                                min={0}
+                                step="0.01"
+                                value={profileForm.consultationFee}
+                                onChange={(e) =>
+                                  updateProfileForm({ consultationFee: e.target.value })
+                                }
+                              />
+                              {renderProfileFieldErrors("consultationFeeCents")}
+                            </label>
+                            <label className="formLabel">
+                              Photo URL
+                              <input
+                                type="url"
+                                className="formInput"
+                                placeholder="https://"
+                                value={profileForm.photoUrl}
+                                onChange={(e) => updateProfileForm({ photoUrl: e.target.value })}
+                              />
+                              {renderProfileFieldErrors("photoUrl")}
+                            </label>
+                          </div>
+                          <label className="timeOption">
+                            <input
+                              type="checkbox"
+                              checked={profileForm.acceptingNewPatients}
+                              onChange={(e) =>
+                                updateProfileForm({ acceptingNewPatients: e.target.checked })
+                              }
+                            />
+                            Accepting new patients
+                          </label>
+                          <div className="formActions">
+                            <button
+                              type="button"
+                              className="primaryButton"
+                              disabled={isSavingProfile}
+                              onClick={() => void saveDoctorProfile()}
+                            >
+                              {isSavingProfile ? "Saving..." : "Save profile"}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {canManageSlots && (
+        <section className="adminCard adminTableCard">
+          <h2>Recurring schedules</h2>
+          {slotTemplates.length === 0 ? (
+            <p className="emptyStateText">No recurring schedules yet.</p>
+          ) : (
+            <div className="tableWrapper">
+              <table className="slotTable">
+                <thead>
+                  <tr>
+                    <th>Doctor</th>
+                    <th>Days</th>
+                    <th>Hours</th>
+                    <th>Slots</th>
+                    <th>Period</th>
+                    <th>Upcoming</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {slotTemplates.map((t) => (
+                    <tr key={t.id}>
+                      <td>{t.doctorName}</td>
+                      <td>{t.weekdays.map((d) => WEEKDAY_LABELS[d - 1]).join(", ")}</td>
+                      <td>
+                        {t.dayStart}–{t.dayEnd}
+                      </td>
+                      <td>
+                        {t.slotMinutes} min × {t.capacity}
+                      </td>
+                      <td>
+                        {t.startsOn} to {t.endsOn}
+                      </td>
+                      <td>{t.futureSlotCount}</td>
+                      <td>
+                        {t.endedAt !== null ? (
+                          `Ended ${new Date(t.endedAt).toLocaleDateString()}`
+                        ) : (
+                          <>
+                            <button
+                              type="button"
+                              className="secondaryButton"
+                              onClick={() => editTemplate(t)}
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              className="dangerButton"
+                              onClick={() => void endTemplate(t)}
+                            >
+                              End
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <form className="intakeQuestionForm" onSubmit={(e) => void saveTemplate(e)}>
+            <label className="formLabel" htmlFor="templateDoctorId">
+              Doctor
+            </label>
+            <select
+              id="templateDoctorId"
+              className="formInput"
+              value={templateForm.doctorId}
+              disabled={editingTemplateId !== null}
+              onChange={(e) => updateTemplateForm({ doctorId: e.target.value })}
+            >
+              <option value="">Select a doctor...</option>
+              {doctorList.map((d) => (
+                <option key={d.id} value={d.id}>
+                  Dr. {d.name}
+                </option>
+              ))}
+            </select>
+            <span className="formLabel">Days</span>
+            <div className="templateWeekdays">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <label key={label} className="timeOption">
+                  <input
+                    type="checkbox"
+                    checked={templateForm.weekdays.includes(index + 1)}
+                    onChange={() => toggleTemplateWeekday(index + 1)}
+                  />
+                  <span className="timeOptionLabel">{label}</span>
+                </label>
+              ))}
+            </div>
+            <div className="templateFields">
+              <label className="formLabel">
+                From
+                <input
+                  type="time"
+                  className="formInput"
+                  value={templateForm.dayStart}
+                  onChange={(e) => updateTemplateForm({ dayStart: e.target.value })}
+                />
+              </label>
+              <label className="formLabel">
+                Until
+                <input
+                  type="time"
+                  className="formInput"
+                  value={templateForm.dayEnd}
+                  onChange={(e) => updateTemplateForm({ dayEnd: e.target.value })}
+                />
+              </label>
+              <label className="formLabel">
+                Minutes per slot
+                <input
+                  type="number"
+                  min={5}
+                  className="formInput"
+                  value={templateForm.slotMinutes}
+                  onChange={(e) => updateTemplateForm({ slotMinutes: Number(e.target.value) })}
+                />
+              </label>
+              <label className="formLabel">
+                Capacity
+                <input
+                  type="number"
+                  min={1}
+                  className="formInput"
+                  value={templateForm.capacity}
+                  onChange={(e) => updateTemplateForm({ capacity: Number(e.target.value) })}
+                />
+              </label>
+              <label className="formLabel">
+                First day
+                <input
+                  type="date"
+                  className="formInput"
+                  value={templateForm.startsOn}
+                  onChange={(e) => updateTemplateForm({ startsOn: e.target.value })}
+                />
+              </label>
+              <label className="formLabel">
+                Last day
+                <input
+                  type="date"
+                  className="formInput"
+                  value={templateForm.endsOn}
+                  onChange={(e) => updateTemplateForm({ endsOn: e.target.value })}
+                />
+              </label>
+            </div>
+            {templatePreview !== null && (
+              <div className="templatePreview">
+                <p>
+                  {templatePreview.createdSlots.length} slot(s) will be created
+                  {templatePreview.createdSlots.length > 0 &&
+                    `, from ${new Date(templatePreview.createdSlots[0].startTime).toLocaleString()}`}
+                  .
+                  {templatePreview.removedSlotCount > 0 &&
+                    ` ${templatePreview.removedSlotCount} upcoming slot(s) without bookings will be replaced; booked slots stay.`}
+                </p>
+                {templatePreview.skippedSlots.length > 0 && (
+                  <details>
+                    <summary>
+                      {templatePreview.skippedSlots.length} time(s) skipped because of
+                      existing slots or blackouts
+                    </summary>
+                    <ul className="patientHistory">
+                      {templatePreview.skippedSlots.map((s) => (
+                        <li key={s.startTime}>
+                          {new Date(s.startTime).toLocaleString()}
+                          {s.blackoutId !== null ? " (blackout)" : " (overlaps a slot)"}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            )}
+            <div className="formActions">
+              {editingTemplateId !== null && (
+                <button type="button" className="secondaryButton" onClick={cancelTemplateEdit}>
+                  Cancel edit
+                </button>
+              )}
+              <button
+                type="button"
+                className="secondaryButton"
+                onClick={() => void previewTemplate()}
+                disabled={isSavingTemplate}
+              >
+                Preview
+              </button>
+              <button
+                type="submit"
+                className="primaryButton"
+                disabled={isSavingTemplate || templatePreview === null}
+              >
+                {editingTemplateId === null ? "Create schedule" : "Save changes"}
+              </button>
+            </div>
+          </form>
+        </section>
+      )}
+
+      {canManageSlots && (
+        <section className="adminCard adminTableCard">
+          <h2>Leave and holidays</h2>
+          {blackouts.length === 0 ? (
+            <p className="emptyStateText">No upcoming leave or holidays.</p>
+          ) : (
+            <div className="tableWrapper">
+              <table className="slotTable">
+                <thead>
+                  <tr>
+                    <th>Who</th>
+                    <th>Dates</th>
+                    <th>Reason</th>
+                    <th>Booked slots to reschedule</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {blackouts.map((b) => (
+                    <tr key={b.id}>
+                      <td>{b.doctorName !== null ? `Dr. ${b.doctorName}` : "Whole clinic"}</td>
+                      <td>
+                        {b.startsOn === b.endsOn ? b.startsOn : `${b.startsOn} to ${b.endsOn}`}
+                      </td>
+                      <td>{b.reason}</td>
+                      <td>
+                        {b.flaggedSlots.length === 0 ? (
+                          "None"
+                        ) : (
+                          <ul className="patientHistory">
+                            {b.flaggedSlots.map((f) => (
+                              <li key={f.slotId}>
+                                {b.doctorId === null && `Dr. ${f.doctorName}, `}
+                                {new Date(f.startTime).toLocaleString()} – {f.bookingCount}{" "}
+                                booking(s)
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td>
+                        {isAdmin && (
+                          <button
+                            type="button"
+                            className="dangerButton"
+                            onClick={() => void removeBlackout(b)}
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {isAdmin && (
+            <form className="intakeQuestionForm" onSubmit={(e) => void addBlackout(e)}>
+              <label className="formLabel" htmlFor="blackoutDoctorId">
+                Doctor
+              </label>
+              <select
+                id="blackoutDoctorId"
+                className="formInput"
+                value={blackoutForm.doctorId}
+                onChange={(e) =>
+                  setBlackoutForm((prev) => ({ ...prev, doctorId: e.target.value }))
+                }
+              >
+                <option value="">Whole clinic (holiday)</option>
+                {doctorList.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    Dr. {d.name}
+                  </option>
+                ))}
+              </select>
+              <div className="templateFields">
+                <label className="formLabel">
+                  First day
+                  <input
+                    type="date"
+                    className="formInput"
+                    value={blackoutForm.startsOn}
+                    onChange={(e) =>
+                      setBlackoutForm((prev) => ({ ...prev, startsOn: e.target.value }))
+                    }
+                  />
+                </label>
+                <label className="formLabel">
+                  Last day
+                  <input
+                    type="date"
+                    className="formInput"
+                    value={blackoutForm.endsOn}
+                    onChange={(e) =>
+                      setBlackoutForm((prev) => ({ ...prev, endsOn: e.target.value }))
+                    }
+                  />
+                </label>
+              </div>
+              <input
+                type="text"
+                className="formInput"
+                aria-label="Reason"
+                placeholder="Reason, e.g. annual leave"
+                value={blackoutForm.reason}
+                onChange={(e) => setBlackoutForm((prev) => ({ ...prev, reason: e.target.value }))}
+              />
+              <div className="formActions">
+                <button type="submit" className="primaryButton" disabled={isSavingBlackout}>
+                  {isSavingBlackout ? "Adding..." : "Add leave or holiday"}
+                </button>
+              </div>
+            </form>
+          )}
+        </section>
+      )}
+
+      <section className="adminCard adminTableCard">
+        <h2>Specializations</h2>
+        {specializations.length === 0 ? (
+          <p className="emptyStateText">No specializations in the catalogue.</p>
+        ) : (
+          <div className="tableWrapper">
+            <table className="slotTable">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Slug</th>
+                  <th>Doctors</th>
+                  <th>Intake questions</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {specializations.map((specialization) => (
+                  <tr key={specialization.id}>
+                    <td>{specialization.name}</td>
+                    <td>{specialization.slug}</td>
+                    <td>{specialization.doctorCount}</td>
+                    <td>{specialization.intakeQuestionCount}</td>
                     <td>
-                    <span
-                      className="idChip idChipClickable"
-                      role="button"
-                      tabIndex={0}
-                      title="Click to copy ID"
-                      onClick={() => handleCopyId(doctor.id)}
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter" || e.key === " ") {
-                          // space/enter triggers copy
-                          e.preventDefault();
-                          handleCopyId(doctor.id);
-                        }
-                      }}
-                      aria-label={`Copy doctor id ${doctor.id}`}
-                    >
-                      {doctor.id}
-                    </span>
+                      {isAdmin && mergeSourceId === specialization.id && (
+                        <div className="formActions">
+                          <select
+                            aria-label="Merge into"
+                            className="formInput"
+                            value={mergeTargetId}
+                            onChange={(e) => setMergeTargetId(e.target.value)}
+                          >
+                            <option value="">Select a specialization...</option>
+                            {specializations
+                              .filter((s) => s.id !== specialization.id)
+                              .map((s) => (
+                                <option key={s.id} value={s.id}>
+                                  {s.name}
+                                </option>
+                              ))}
+                          </select>
+                          <button
+                            type="button"
+                            className="dangerButton"
+                            disabled={mergeTargetId.length === 0}
+                            onClick={() => void removeSpecialization(specialization, mergeTargetId)}
+                          >
+                            Merge
+                          </button>
+                          <button
+                            type="button"
+                            className="secondaryButton"
+                            onClick={() => setMergeSourceId(null)}
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                      {isAdmin && mergeSourceId !== specialization.id && (
+                        <div className="formActions">
+                          <button
+                            type="button"
+                            className="secondaryButton"
+                            onClick={() => editSpecialization(specialization)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            className="secondaryButton"
+                            onClick={() => {
+                              setMergeSourceId(specialization.id);
+                              setMergeTargetId("");
+                            }}
+                          >
+                            Merge into...
+                          </button>
+                          {specialization.doctorCount === 0 &&
+                            specialization.intakeQuestionCount === 0 && (
+                              <button
+                                type="button"
+                                className="dangerButton"
+                                onClick={() => void removeSpecialization(specialization, null)}
+                              >
+                                Remove
+                              </button>
+                            )}
+                        </div>
+                      )}
                     </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {isAdmin && (
+          <form className="intakeQuestionForm" onSubmit={(e) => void saveSpecialization(e)}>
+            <div className="templateFields">
+              <label className="formLabel">
+                Name
+                <input
+                  type="text"
+                  className="formInput"
+                  value={specializationForm.name}
+                  onChange={(e) =>
+                    setSpecializationForm((prev) => ({ ...prev, name: e.target.value }))
+                  }
+                  placeholder="Cardiology"
+                />
+              </label>
+              <label className="formLabel">
+                Slug
+                <input
+                  type="text"
+                  className="formInput"
+                  value={specializationForm.slug}
+                  onChange={(e) =>
+                    setSpecializationForm((prev) => ({ ...prev, slug: e.target.value }))
+                  }
+                  placeholder={editingSpecializationId === null ? "From the name" : ""}
+                />
+              </label>
+            </div>
+            <div className="formActions">
+              <button type="submit" className="primaryButton">
+                {editingSpecializationId === null ? "Add specialization" : "Save changes"}
+              </button>
+              {editingSpecializationId !== null && (
+                <button
+                  type="button"
+                  className="secondaryButton"
+                  onClick={() => {
+                    setEditingSpecializationId(null);
+                    setSpecializationForm({ name: "", slug: "" });
+                  }}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+      </section>
+
+      <section className="adminCard adminTableCard">
+        <h2>Intake questions</h2>
+        {intakeQuestions.length === 0 ? (
+          <p className="emptyStateText">No intake questions configured.</p>
+        ) : (
+          <div className="tableWrapper">
+            <table className="slotTable">
+              <thead>
+                <tr>
+                  <th>Asked for</th>
+                  <th>Question</th>
+                  <th>Type</th>
+                  <th>Required</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {intakeQuestions.map((q) => (
+                  <tr key={q.id}>
                     <td>
-                      <button
-                        type="button"
-                        className="dangerButton"
-                        onClick={() => initiateDeleteDoctor(doctor.id, doctor.name)}
-                      >
-                        Delete
-                      </button>
+                      {q.specializationName ??
+                        `Dr. ${doctorList.find((d) => d.id === q.doctorId)?.name ?? q.doctorId}`}
+                    </td>
+                    <td>
+                      {q.prompt}
+                      {q.options.length > 0 && ` (${q.options.join(", ")})`}
+                    </td>
+                    <td>{INTAKE_TYPE_LABELS[q.type]}</td>
+                    <td>{q.required ? "Yes" : "No"}</td>
+                    <td>
+                      {isAdmin && (
+                        <button
+                          type="button"
+                          className="dangerButton"
+                          onClick={() => void removeIntakeQuestion(q)}
+                        >
+                          Delete
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -525,6 +2532,122 @@ export function AdminDashboardPage(): React.ReactElement {
             </table>
           </div>
         )}
+        {isAdmin && (
+          <form className="intakeQuestionForm" onSubmit={handleCreateIntakeQuestion}>
+            <label className="formLabel" htmlFor="intakeAppliesTo">
+              Ask for
+            </label>
+            <select
+              id="intakeAppliesTo"
+              className="formInput"
+              value={intakeForm.appliesTo}
+              onChange={(e) =>
+                setIntakeForm((previous) => ({
+                  ...previous,
+                  appliesTo: e.target.value === "doctor" ? "doctor" : "specialization"
+                }))
+              }
+            >
+              <option value="specialization">Every doctor of a specialization</option>
+              <option value="doctor">One doctor</option>
+            </select>
+            {intakeForm.appliesTo === "doctor" ? (
+              <select
+                aria-label="Doctor"
+                className="formInput"
+                value={intakeForm.doctorId}
+                onChange={(e) =>
+                  setIntakeForm((previous) => ({ ...previous, doctorId: e.target.value }))
+                }
+              >
+                <option value="">Select a doctor...</option>
+                {doctorList.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    Dr. {d.name}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <select
+                aria-label="Specialization"
+                className="formInput"
+                value={intakeForm.specializationId}
+                onChange={(e) =>
+                  setIntakeForm((previous) => ({ ...previous, specializationId: e.target.value }))
+                }
+              >
+                <option value="">Select a specialization...</option>
+                {specializations.map((specialization) => (
+                  <option key={specialization.id} value={specialization.id}>
+                    {specialization.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label className="formLabel" htmlFor="intakePrompt">
+              Question
+            </label>
+            <input
+              id="intakePrompt"
+              type="text"
+              className="formInput"
+              value={intakeForm.prompt}
+              onChange={(e) =>
+                setIntakeForm((previous) => ({ ...previous, prompt: e.target.value }))
+              }
+              placeholder="Do you take any blood thinners?"
+            />
+            <label className="formLabel" htmlFor="intakeType">
+              Answer type
+            </label>
+            <select
+              id="intakeType"
+              className="formInput"
+              value={intakeForm.type}
+              onChange={(e) =>
+                setIntakeForm((previous) => ({
+                  ...previous,
+                  type: e.target.value as IntakeQuestionType
+                }))
+              }
+            >
+              {(Object.keys(INTAKE_TYPE_LABELS) as IntakeQuestionType[]).map((type) => (
+                <option key={type} value={type}>
+                  {INTAKE_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            {intakeForm.type === "CHOICE" && (
+              <>
+                <label className="formLabel" htmlFor="intakeOptions">
+                  Options (one per line)
+                </label>
+                <textarea
+                  id="intakeOptions"
+                  className="formInput"
+                  rows={3}
+                  value={intakeForm.options}
+                  onChange={(e) =>
+                    setIntakeForm((previous) => ({ ...previous, options: e.target.value }))
+                  }
+                />
+              </>
+            )}
+            <label className="timeOption">
+              <input
+                type="checkbox"
+                checked={intakeForm.required}
+                onChange={(e) =>
+                  setIntakeForm((previous) => ({ ...previous, required: e.target.checked }))
+                }
+              />
+              <span className="timeOptionLabel">Answer required</span>
+            </label>
+            <button type="submit" className="primaryButton">
+              Add question
+            </button>
+          </form>
+        )}
       </section>
 
       <section className="adminCard adminTableCard">
@@ -542,6 +2665,7 @@ export function AdminDashboardPage(): React.ReactElement {
                   <th>Capacity</th>
                   <th>Booked</th>
                   <th>Available</th>
+                  <th>Waiting</th>
                   <th>Actions</th>
                 </tr>
               </thead>
@@ -550,80 +2674,272 @@ export function AdminDashboardPage(): React.ReactElement {
                   const readableTime: string = new Date(slot.startTime).toLocaleString();
                   const isEditing: boolean = editingSlotId === slot.id;
                   return (
-                    <tr key={slot.id}>
+                    <React.Fragment key={slot.id}>
+                      <tr>
+                        <td>{slot.doctorName}</td>
+                        <td>{slot.doctorSpecialization}</td>
+                        <td>
+                          {readableTime}
+                          {slot.blackoutId !== null && (
+                            <span className="bookingFlag bookingFlagWarning">
+                              Blackout: reschedule or cancel
+                            </span>
+                          )}
+                          {slot.hoursOverrideReason !== null && (
+                            <span
+                              className="bookingFlag bookingFlagWarning"
+                              title={slot.hoursOverrideReason}
+                            >
+                              Outside hours: {slot.hoursOverrideReason}
+                            </span>
+                          )}
+                        </td>
+                        <td>
+                          {isEditing ? (
+                            <>
+                              <input
+                                type="number"
+                                min={1}
+                                className="formInput"
+                                value={editingCapacity}
+                                onChange={(e) => {
+                                  const v = Number(e.target.value);
+                                  setEditingCapacity(Number.isNaN(v) ? 0 : v);
+                                }}
+                              />
+                              {editingCapacity < slot.confirmedCount + slot.heldCount && (
+                                <select
+                                  className="formInput"
+                                  aria-label="Bookings that no longer fit"
+                                  value={capacityPolicy}
+                                  onChange={(e) =>
+                                    setCapacityPolicy(e.target.value as CapacityReductionPolicy)
+                                  }
+                                >
+                                  <option value="REJECT">Keep all bookings (refuse)</option>
+                                  <option value="WAITLIST">Move newest to waitlist</option>
+                                  <option value="CANCEL">Cancel newest and notify</option>
+                                </select>
+                              )}
+                            </>
+                          ) : (
+                            slot.capacity
+                          )}
+                        </td>
+                        <td>{slot.confirmedCount}</td>
+                        <td>{slot.availableSeats}</td>
+                        <td>{slot.waitlistCount}</td>
+                        <td>
+                          {isEditing ? (
+                            <>
+                              <button
+                                type="button"
+                                className="primaryButton"
+                                onClick={() => void saveCapacity(slot.id)}
+                                disabled={isSavingCapacity}
+                              >
+                                {isSavingCapacity ? "Saving..." : "Save"}
+                              </button>
+                              <button
+                                type="button"
+                                className="secondaryButton"
+                                onClick={cancelEditCapacity}
+                                style={{ marginLeft: "0.4rem" }}
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          ) : canManageSlots ? (
+                            <>
+                              <button
+                                type="button"
+                                className="primaryButton"
+                                onClick={() => toggleStaffBooking(slot.id)}
+                              >
+                                {bookingSlotId === slot.id ? "Close" : "Book for patient"}
+                              </button>
+                              <button
+                                type="button"
+                                className="secondaryButton"
+                                onClick={() => startEditCapacity(slot)}
+                                style={{ marginLeft: "0.4rem" }}
+                              >
+                                Edit capacity
+                              </button>
+                              <button
+                                type="button"
+                                className="dangerButton"
+                                onClick={() => initiateDeleteSlot(slot.id, `${slot.doctorName}'s slot`)}
+                                style={{ marginLeft: "0.4rem" }}
+                              >
+                                Delete
+                              </button>
+                            </>
+                          ) : null}
+                        </td>
+                      </tr>
+                      {bookingSlotId === slot.id && (
+                        <tr>
+                          <td colSpan={8}>
+                            <form
+                              className="staffBookingForm"
+                              onSubmit={(e) => void submitStaffBooking(e, slot.id)}
+                            >
+                              <input
+                                type="text"
+                                className="formInput"
+                                aria-label="Patient name"
+                                placeholder="Patient name"
+                                value={staffBookingForm.userName}
+                                onChange={(e) =>
+                                  setStaffBookingForm((prev) => ({ ...prev, userName: e.target.value }))
+                                }
+                              />
+                              <input
+                                type="email"
+                                className="formInput"
+                                aria-label="Patient email"
+                                placeholder="Patient email"
+                                value={staffBookingForm.patientEmail}
+                                onChange={(e) =>
+                                  setStaffBookingForm((prev) => ({ ...prev, patientEmail: e.target.value }))
+                                }
+                              />
+                              <input
+                                type="tel"
+                                className="formInput"
+                                aria-label="Patient phone"
+                                placeholder="Phone (optional)"
+                                value={staffBookingForm.patientPhone}
+                                onChange={(e) =>
+                                  setStaffBookingForm((prev) => ({ ...prev, patientPhone: e.target.value }))
+                                }
+                              />
+                              <input
+                                type="text"
+                                className="formInput"
+                                aria-label="Visit reason"
+                                placeholder="Visit reason (optional)"
+                                value={staffBookingForm.visitReason}
+                                onChange={(e) =>
+                                  setStaffBookingForm((prev) => ({ ...prev, visitReason: e.target.value }))
+                                }
+                              />
+                              <label className="timeOption">
+                                <input
+                                  type="checkbox"
+                                  checked={staffBookingForm.overbook}
+                                  onChange={(e) =>
+                                    setStaffBookingForm((prev) => ({ ...prev, overbook: e.target.checked }))
+                                  }
+                                />
+                                <span className="timeOptionLabel">Overbook if the slot is full</span>
+                              </label>
+                              {staffBookingForm.overbook && (
+                                <input
+                                  type="text"
+                                  className="formInput"
+                                  aria-label="Overbook reason"
+                                  placeholder="Reason for overbooking (required)"
+                                  value={staffBookingForm.overbookReason}
+                                  onChange={(e) =>
+                                    setStaffBookingForm((prev) => ({
+                                      ...prev,
+                                      overbookReason: e.target.value
+                                    }))
+                                  }
+                                />
+                              )}
+                              <button
+                                type="submit"
+                                className="primaryButton"
+                                disabled={isBookingForPatient}
+                              >
+                                {isBookingForPatient ? "Booking..." : "Book"}
+                              </button>
+                            </form>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {slots.some((slot) => slot.waitlist.length > 0) && (
+        <section className="adminCard adminTableCard">
+          <h2>Waitlists</h2>
+          <p className="emptyStateText">
+            Patients are booked automatically, top first, when a seat opens up.
+          </p>
+          <div className="tableWrapper">
+            <table className="slotTable">
+              <thead>
+                <tr>
+                  <th>Doctor</th>
+                  <th>Time</th>
+                  <th>#</th>
+                  <th>Patient</th>
+                  <th>Joined At</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {slots.flatMap((slot) =>
+                  slot.waitlist.map((w, index) => (
+                    <tr key={w.id}>
                       <td>{slot.doctorName}</td>
-                      <td>{slot.doctorSpecialization}</td>
-                      <td>{readableTime}</td>
+                      <td>{new Date(slot.startTime).toLocaleString()}</td>
+                      <td>{index + 1}</td>
+                      <td>{w.userName}</td>
+                      <td>{new Date(w.createdAt).toLocaleString()}</td>
                       <td>
-                        {isEditing ? (
-                          <input
-                            type="number"
-                            min={0}
-                            className="formInput"
-                            value={editingCapacity}
-                            onChange={(e) => {
-                              const v = Number(e.target.value);
-                              setEditingCapacity(Number.isNaN(v) ? 0 : v);
-                            }}
-                          />
-                        ) : (
-                          slot.capacity
-                        )}
-                      </td>
-                      <td>{slot.confirmedCount}</td>
-                      <td>{slot.availableSeats}</td>
-                      <td>
-                        {isEditing ? (
+                        {canManageSlots && (
                           <>
-                            <button
-                              type="button"
-                              className="primaryButton"
-                              onClick={() => void saveCapacity(slot.id)}
-                              disabled={isSavingCapacity}
-                            >
-                              {isSavingCapacity ? "Saving..." : "Save"}
-                            </button>
                             <button
                               type="button"
                               className="secondaryButton"
-                              onClick={cancelEditCapacity}
-                              style={{ marginLeft: "0.4rem" }}
+                              disabled={index === 0}
+                              onClick={() => void moveWaitlistEntry(slot, index, -1)}
                             >
-                              Cancel
+                              Up
                             </button>
-                          </>
-                        ) : (
-                          <>
                             <button
                               type="button"
                               className="secondaryButton"
-                              onClick={() => startEditCapacity(slot)}
+                              disabled={index === slot.waitlist.length - 1}
+                              onClick={() => void moveWaitlistEntry(slot, index, 1)}
+                              style={{ marginLeft: "0.4rem" }}
                             >
-                              Edit capacity
+                              Down
                             </button>
                             <button
                               type="button"
                               className="dangerButton"
-                              onClick={() => initiateDeleteSlot(slot.id, `${slot.doctorName}'s slot`)}
+                              onClick={() => void removeFromWaitlist(w.id, w.userName)}
                               style={{ marginLeft: "0.4rem" }}
                             >
-                              Delete
+                              Remove
                             </button>
                           </>
                         )}
                       </td>
                     </tr>
-                  );
-                })}
+                  ))
+                )}
               </tbody>
             </table>
           </div>
-        )}
-      </section>
+        </section>
+      )}
 
       <section className="adminCard adminTableCard">
         <h2>Recent bookings</h2>
-        {slots.flatMap(s => (s.bookings ?? []).map(b => ({ slot: s, booking: b }))).length === 0 ? (
+        {recentBookings.length === 0 ? (
           <p className="emptyStateText">No bookings yet.</p>
         ) : (
           <div className="tableWrapper">
@@ -633,26 +2949,208 @@ export function AdminDashboardPage(): React.ReactElement {
                   <th>Doctor</th>
                   <th>Time</th>
                   <th>Patient</th>
+                  <th>Visit</th>
+                  <th>Status</th>
                   <th>Booked At</th>
+                  <th>Actions</th>
                 </tr>
               </thead>
               <tbody>
-                {slots.flatMap((s) =>
-                  (s.bookings ?? []).map((b) => (
-                    <tr key={b.id}>
-                      <td>{s.doctorName}</td>
-                      <td>{new Date(s.startTime).toLocaleString()}</td>
-                      <td>{b.userName}</td>
+                {recentBookings.map((b) => (
+                  <React.Fragment key={b.id}>
+                    <tr>
+                      <td>{b.doctorName}</td>
+                      <td>{new Date(b.appointmentStart ?? b.slotStartTime).toLocaleString()}</td>
+                      <td>
+                        {b.userName}
+                        {b.createdBy === "STAFF" && (
+                          <span className="bookingFlag">Booked by staff</span>
+                        )}
+                        {b.overbookReason !== null && (
+                          <span
+                            className="bookingFlag bookingFlagWarning"
+                            title={b.overbookReason}
+                          >
+                            Overbooked: {b.overbookReason}
+                          </span>
+                        )}
+                      </td>
+                      <td>
+                        {b.visitReason ?? ""}
+                        {b.intakeAnswers.length > 0 && (
+                          <details className="intakeAnswers">
+                            <summary>Intake answers</summary>
+                            <dl>
+                              {b.intakeAnswers.map((a) => (
+                                <React.Fragment key={a.questionId}>
+                                  <dt>{a.prompt}</dt>
+                                  <dd>{formatIntakeAnswer(a)}</dd>
+                                </React.Fragment>
+                              ))}
+                            </dl>
+                          </details>
+                        )}
+                      </td>
+                      <td>{b.status}</td>
                       <td>{new Date(b.createdAt).toLocaleString()}</td>
+                      <td>
+                        {canManageSlots &&
+                          (ATTENDANCE_ACTIONS[b.status] ?? []).map((action) => (
+                            <button
+                              key={action.status}
+                              type="button"
+                              className={
+                                action.status === "NO_SHOW" ? "secondaryButton" : "primaryButton"
+                              }
+                              onClick={() =>
+                                void recordAttendance(b, action.status, action.label)
+                              }
+                            >
+                              {action.label}
+                            </button>
+                          ))}
+                        {canManageSlots && b.status === "CONFIRMED" && (
+                          <button
+                            type="button"
+                            className="dangerButton"
+                            onClick={() => void cancelBookingAsStaff(b)}
+                          >
+                            Cancel
+                          </button>
+                        )}
+                        {canManageSlots && (
+                          <button
+                            type="button"
+                            className="secondaryButton"
+                            onClick={() => void toggleBookingHistory(b.id)}
+                          >
+                            {openBookingHistory?.bookingId === b.id ? "Hide history" : "History"}
+                          </button>
+                        )}
+                      </td>
                     </tr>
-                  ))
-                )}
+                    {openBookingHistory?.bookingId === b.id && (
+                      <tr>
+                        <td colSpan={7}>
+                          {openBookingHistory.events.length === 0 ? (
+                            <p className="emptyStateText">No history recorded.</p>
+                          ) : (
+                            <ol className="bookingTimeline">
+                              {openBookingHistory.events.map((e) => (
+                                <li key={e.id}>
+                                  <time dateTime={e.createdAt}>
+                                    {new Date(e.createdAt).toLocaleString()}
+                                  </time>
+                                  {" · "}
+                                  {e.fromStatus === null
+                                    ? e.toStatus
+                                    : `${e.fromStatus} → ${e.toStatus}`}
+                                  {" · "}
+                                  {EVENT_ACTOR_LABELS[e.actorSource] ?? e.actorSource}
+                                  {e.actorName !== null && ` (${e.actorName})`}
+                                  {e.reason !== null && (
+                                    <span className="bookingTimelineReason">{e.reason}</span>
+                                  )}
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
               </tbody>
             </table>
           </div>
         )}
       </section>
 
+      {canManageSlots && (
+        <section className="adminCard adminTableCard">
+          <h2>Patients</h2>
+          <form className="patientSearch" onSubmit={(e) => void searchPatients(e)}>
+            <input
+              type="search"
+              className="formInput"
+              aria-label="Search patients"
+              value={patientSearch}
+              onChange={(e) => setPatientSearch(e.target.value)}
+              placeholder="Name, email or phone"
+            />
+            <button type="submit" className="secondaryButton">
+              Search
+            </button>
+          </form>
+          {patients.length === 0 ? (
+            <p className="emptyStateText">No patients found.</p>
+          ) : (
+            <div className="tableWrapper">
+              <table className="slotTable">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Email</th>
+                    <th>Phone</th>
+                    <th>Date of birth</th>
+                    <th>Bookings</th>
+                    <th>Last appointment</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {patients.map((p) => (
+                    <React.Fragment key={p.id}>
+                      <tr>
+                        <td>{p.fullName}</td>
+                        <td>{p.email}</td>
+                        <td>{p.phone ?? ""}</td>
+                        <td>{p.dateOfBirth ?? ""}</td>
+                        <td>{p.bookingCount}</td>
+                        <td>
+                          {p.lastAppointmentAt !== null
+                            ? new Date(p.lastAppointmentAt).toLocaleString()
+                            : ""}
+                        </td>
+                        <td>
+                          <button
+                            type="button"
+                            className="secondaryButton"
+                            onClick={() => void togglePatientHistory(p.id)}
+                          >
+                            {openPatient?.patient.id === p.id ? "Hide history" : "History"}
+                          </button>
+                        </td>
+                      </tr>
+                      {openPatient?.patient.id === p.id && (
+                        <tr>
+                          <td colSpan={7}>
+                            {openPatient.bookings.length === 0 ? (
+                              <p className="emptyStateText">No bookings yet.</p>
+                            ) : (
+                              <ul className="patientHistory">
+                                {openPatient.bookings.map((b) => (
+                                  <li key={b.id}>
+                                    {new Date(b.appointmentStart ?? b.slotStartTime).toLocaleString()}
+                                    {" · "}
+                                    {b.doctorName} · {b.status} · {b.referenceCode}
+                                    {b.visitReason !== null && ` · ${b.visitReason}`}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+
       {/* Delete confirmation dialog */}
       {deleteConfirm !== null && (
         <div className="confirmationOverlay">
@@ -660,8 +3158,19 @@ export function AdminDashboardPage(): React.ReactElement {
             <h3>Confirm deletion</h3>
             <p>
               Are you sure you want to delete <strong>{deleteConfirm.name}</strong>?
-              {deleteConfirm.type === "doctor" && " All associated slots will remain but will be orphaned."}
             </p>
+            {deleteConfirm.type === "doctor" &&
+              (deleteImpact === null ? (
+                <p>Checking upcoming appointments...</p>
+              ) : (
+                <p className={deleteImpact.confirmedBookingCount > 0 ? "deletionImpactWarning" : undefined}>
+                  {deleteImpact.futureSlotCount} upcoming slot(s) will be removed.
+                  {deleteImpact.confirmedBookingCount > 0 &&
+                    ` ${deleteImpact.confirmedBookingCount} confirmed booking(s) will be cancelled by the clinic and the patients notified.`}
+                  {deleteImpact.waitlistCount > 0 &&
+                    ` ${deleteImpact.waitlistCount} patient(s) will be taken off waitlists.`}
+                </p>
+              ))}
             <div className="confirmationActions">
               <button
                 type="button"
@@ -674,9 +3183,15 @@ export function AdminDashboardPage(): React.ReactElement {
                 type="button"
                 className="dangerButton"
                 onClick={() => void confirmDelete()}
-                disabled={isDeleting}
+                disabled={
+                  isDeleting || (deleteConfirm.type === "doctor" && deleteImpact === null)
+                }
               >
-                {isDeleting ? "Deleting..." : "Delete"}
+                {isDeleting
+                  ? "Deleting..."
+                  : deleteImpact !== null && deleteImpact.confirmedBookingCount > 0
+                    ? "Delete and cancel bookings"
+                    : "Delete"}
               </button>
             </div>
           </div>
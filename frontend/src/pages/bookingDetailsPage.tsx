@@ -0,0 +1,360 @@
+/**
+ * @file bookingDetailsPage.tsx
+ * @description Patient-facing page showing a single booking, with cancellation
+ * and rescheduling.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import {
+  useAppContext,
+  BookingReschedule,
+  BookingWithHistory,
+  DoctorSlot,
+  PublicBooking
+} from "../appContext";
+import {
+  getBookingApi,
+  getBookingGroupApi,
+  getSlotById,
+  cancelBookingApi,
+  cancelBookingGroupApi,
+  rescheduleBookingApi
+} from "../apiClient";
+
+/**
+ * Booking details page. Loads the booking and its slot and lets the patient
+ * cancel or move a confirmed booking.
+ *
+ * @returns {JSX.Element} Booking details page.
+ */
+export function BookingDetailsPage(): React.ReactElement {
+  const routeParams = useParams();
+  const { apiBaseUrl, refreshSlots, slots } = useAppContext();
+
+  const [booking, setBooking] = useState<PublicBooking | null>(null);
+  const [reschedules, setReschedules] = useState<readonly BookingReschedule[]>([]);
+  // Bookings made together with this one, including it.
+  const [groupBookings, setGroupBookings] = useState<readonly PublicBooking[]>([]);
+  const [slot, setSlot] = useState<DoctorSlot | null>(null);
+  const [targetSlotId, setTargetSlotId] = useState<string>("");
+  const [isRescheduling, setIsRescheduling] = useState<boolean>(false);
+  const [reason, setReason] = useState<string>("");
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const bookingId: string | undefined = routeParams.bookingId;
+
+  /**
+   * Loads the booking, then its slot. The slot may no longer be listed
+   * (e.g. deactivated), in which case only the booking is shown.
+   */
+  useEffect(() => {
+    async function loadBooking(): Promise<void> {
+      if (bookingId === undefined) {
+        setMessage("Invalid booking identifier.");
+        return;
+      }
+      try {
+        const fetched: BookingWithHistory = await getBookingApi(apiBaseUrl, bookingId);
+        setBooking(fetched.booking);
+        setReschedules(fetched.reschedules);
+        try {
+          setSlot(await getSlotById(apiBaseUrl, fetched.booking.slotId));
+        } catch {
+          setSlot(null);
+        }
+        if (fetched.booking.bookingGroupId !== null) {
+          try {
+            setGroupBookings(
+              await getBookingGroupApi(apiBaseUrl, fetched.booking.bookingGroupId)
+            );
+          } catch {
+            setGroupBookings([]);
+          }
+        }
+      } catch (error) {
+        const text: string =
+          error instanceof Error ? error.message : "Could not load booking.";
+        setMessage(text);
+      }
+    }
+
+    void loadBooking();
+  }, [apiBaseUrl, bookingId]);
+
+  const handleCancel = async (
+    event: React.FormEvent<HTMLFormElement>
+  ): Promise<void> => {
+    event.preventDefault();
+
+    if (booking === null) return;
+
+    try {
+      setIsCancelling(true);
+      setMessage(null);
+      const updated: PublicBooking = await cancelBookingApi(
+        apiBaseUrl,
+        booking.id,
+        reason.trim() || undefined
+      );
+      setBooking(updated);
+      setMessage("Your booking has been cancelled.");
+      // The freed seat should show up for other patients right away.
+      void refreshSlots();
+    } catch (error) {
+      const text: string =
+        error instanceof Error ? error.message : "Failed to cancel booking.";
+      setMessage(text);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  /**
+   * Cancels every booking made together with this one.
+   */
+  const handleCancelGroup = async (): Promise<void> => {
+    if (booking === null || booking.bookingGroupId === null) return;
+    if (!window.confirm("Cancel the appointments of everyone in this booking?")) return;
+
+    try {
+      setIsCancelling(true);
+      setMessage(null);
+      const updated: readonly PublicBooking[] = await cancelBookingGroupApi(
+        apiBaseUrl,
+        booking.bookingGroupId,
+        reason.trim() || undefined
+      );
+      setGroupBookings(updated);
+      setBooking(updated.find((b) => b.id === booking.id) ?? booking);
+      setMessage("All bookings in your group have been cancelled.");
+      void refreshSlots();
+    } catch (error) {
+      const text: string =
+        error instanceof Error ? error.message : "Failed to cancel group.";
+      setMessage(text);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleReschedule = async (): Promise<void> => {
+    if (booking === null || targetSlotId.length === 0) return;
+
+    try {
+      setIsRescheduling(true);
+      setMessage(null);
+      const moved: BookingWithHistory = await rescheduleBookingApi(
+        apiBaseUrl,
+        booking.id,
+        targetSlotId
+      );
+      setBooking(moved.booking);
+      setReschedules(moved.reschedules);
+      setSlot(await getSlotById(apiBaseUrl, moved.booking.slotId));
+      setTargetSlotId("");
+      setMessage("Your booking has been moved.");
+      void refreshSlots();
+    } catch (error) {
+      const text: string =
+        error instanceof Error ? error.message : "Failed to reschedule booking.";
+      if (text === "Slot is full.") {
+        void refreshSlots();
+      }
+      setMessage(text);
+    } finally {
+      setIsRescheduling(false);
+    }
+  };
+
+  /**
+   * Describes a slot by doctor and time when it is still listed.
+   */
+  const describeSlot = (slotIdToDescribe: string | null): string => {
+    const match = slots.find((s) => s.id === slotIdToDescribe);
+    return match !== undefined
+      ? `Dr. ${match.doctorName}, ${new Date(match.startTime).toLocaleString()}`
+      : "a slot that is no longer listed";
+  };
+
+  if (booking === null) {
+    return (
+      <section className="pageContainer">
+        <header className="pageHeader">
+          <h1>Your booking</h1>
+        </header>
+        <p>Loading booking details...</p>
+        {message !== null && <p className="infoMessage">{message}</p>}
+      </section>
+    );
+  }
+
+  return (
+    <section className="pageContainer">
+      <header className="pageHeader">
+        <h1>Your booking</h1>
+        <p>
+          Quote your reference when you call the clinic, or use it to find this
+          booking again later.
+        </p>
+      </header>
+
+      <article className="slotCard slotCardWide">
+        <p className="slotDetail">
+          <span className="slotLabel">Reference:</span>{" "}
+          <strong className="referenceCode">{booking.referenceCode}</strong>
+        </p>
+        {slot !== null && (
+          <>
+            <p className="slotDetail">
+              <span className="slotLabel">Doctor:</span> Dr. {slot.doctorName} (
+              {slot.doctorSpecialization})
+            </p>
+            {booking.appointmentStart === null && (
+              <p className="slotDetail">
+                <span className="slotLabel">Time:</span>{" "}
+                {new Date(slot.startTime).toLocaleString()}
+              </p>
+            )}
+          </>
+        )}
+        {booking.appointmentStart !== null && (
+          <p className="slotDetail">
+            <span className="slotLabel">Time:</span>{" "}
+            {new Date(booking.appointmentStart).toLocaleString()}
+            {booking.appointmentEnd !== null &&
+              ` – ${new Date(booking.appointmentEnd).toLocaleTimeString()}`}
+          </p>
+        )}
+        <p className="slotDetail">
+          <span className="slotLabel">Status:</span> {booking.status}
+        </p>
+        <p className="slotDetail">
+          <span className="slotLabel">Booked at:</span>{" "}
+          {new Date(booking.createdAt).toLocaleString()}
+        </p>
+        {booking.cancelledAt !== null && (
+          <p className="slotDetail">
+            <span className="slotLabel">Cancelled at:</span>{" "}
+            {new Date(booking.cancelledAt).toLocaleString()}
+            {booking.cancellationReason !== null && ` (${booking.cancellationReason})`}
+          </p>
+        )}
+      </article>
+
+      {groupBookings.length > 1 && (
+        <section className="adminCard">
+          <h2>Booked together</h2>
+          <ul>
+            {groupBookings.map((b) => (
+              <li key={b.id}>
+                {b.id === booking.id ? (
+                  `${b.referenceCode} (this booking)`
+                ) : (
+                  <Link to={`/bookings/${b.id}`}>{b.referenceCode}</Link>
+                )}
+                {b.appointmentStart !== null &&
+                  ` – ${new Date(b.appointmentStart).toLocaleTimeString()}`}{" "}
+                ({b.status})
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {reschedules.length > 0 && (
+        <section className="adminCard">
+          <h2>Changes</h2>
+          <ul>
+            {reschedules.map((r) => (
+              <li key={r.id}>
+                {new Date(r.createdAt).toLocaleString()}: moved from{" "}
+                {describeSlot(r.fromSlotId)} to {describeSlot(r.toSlotId)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {booking.status === "CONFIRMED" && (
+        <div className="bookingForm">
+          <label className="formLabel" htmlFor="rescheduleSlot">
+            Move to another time
+          </label>
+          <select
+            id="rescheduleSlot"
+            className="formInput"
+            value={targetSlotId}
+            onChange={(e) => setTargetSlotId(e.target.value)}
+          >
+            <option value="">Choose a slot</option>
+            {slots
+              .filter((s) => s.id !== booking.slotId && s.availableSeats > 0)
+              .map((s) => (
+                <option key={s.id} value={s.id}>
+                  Dr. {s.doctorName} – {new Date(s.startTime).toLocaleString()} (
+                  {s.availableSeats} left)
+                </option>
+              ))}
+          </select>
+          <div className="formActions">
+            <button
+              type="button"
+              className="primaryButton"
+              disabled={isRescheduling || targetSlotId.length === 0}
+              onClick={() => void handleReschedule()}
+            >
+              {isRescheduling ? "Moving..." : "Move booking"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {booking.status === "CONFIRMED" ? (
+        <form className="bookingForm" onSubmit={handleCancel}>
+          <label className="formLabel" htmlFor="cancelReason">
+            Reason for cancelling (optional)
+          </label>
+          <input
+            id="cancelReason"
+            name="reason"
+            type="text"
+            className="formInput"
+            value={reason}
+            maxLength={500}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          {message !== null && <p className="infoMessage">{message}</p>}
+          <div className="formActions">
+            <Link to="/" className="secondaryButton">
+              Back
+            </Link>
+            <button type="submit" className="dangerButton" disabled={isCancelling}>
+              {isCancelling ? "Cancelling..." : "Cancel booking"}
+            </button>
+            {groupBookings.length > 1 && (
+              <button
+                type="button"
+                className="dangerButton"
+                disabled={isCancelling}
+                onClick={() => void handleCancelGroup()}
+              >
+                Cancel whole group
+              </button>
+            )}
+          </div>
+        </form>
+      ) : (
+        <>
+          {message !== null && <p className="infoMessage">{message}</p>}
+          <div className="formActions">
+            <Link to="/" className="secondaryButton">
+              Back to appointments
+            </Link>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -4,16 +4,162 @@
  * @description Page for booking a single appointment slot.
  */
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
-import { useAppContext, DoctorSlot } from "../appContext";
-import { getSlotById, createBookingApi } from "../apiClient";
+import {
+  useAppContext,
+  AppointmentTime,
+  BookingGroup,
+  BookingIntakeInput,
+  DoctorSlot,
+  GroupAttendee,
+  IntakeQuestion,
+  PatientDetailsInput,
+  PublicBooking,
+  SlotWithFreeTimes
+} from "../appContext";
+import {
+  getSlotWithFreeTimes,
+  createBookingApi,
+  createSeatHoldApi,
+  confirmSeatHoldApi,
+  createGroupBookingApi,
+  joinWaitlistApi
+} from "../apiClient";
 
 /**
  * Local state for the booking form.
  */
 interface BookingFormState {
   readonly userName: string;
+  readonly patientEmail: string;
+  readonly patientPhone: string;
+  readonly dateOfBirth: string;
+}
+
+/**
+ * Props for the visit reason and intake question inputs of one patient.
+ */
+interface IntakeFieldsProps {
+  readonly idPrefix: string;
+  readonly questions: readonly IntakeQuestion[];
+  readonly value: BookingIntakeInput;
+  readonly onChange: (value: BookingIntakeInput) => void;
+}
+
+/**
+ * Tells whether every required intake question has an answer.
+ *
+ * @param {readonly IntakeQuestion[]} questions Questions for the slot.
+ * @param {BookingIntakeInput} intake Answers given by one patient.
+ * @returns {boolean} True when nothing required is left blank.
+ */
+function hasRequiredAnswers(
+  questions: readonly IntakeQuestion[],
+  intake: BookingIntakeInput
+): boolean {
+  return questions.every((question: IntakeQuestion) => {
+    const answer: string | boolean | undefined = intake.intakeAnswers?.[question.id];
+    return !question.required || (answer !== undefined && String(answer).trim() !== "");
+  });
+}
+
+/**
+ * Visit reason and one input per intake question, matching each
+ * question's answer type.
+ *
+ * @param {IntakeFieldsProps} props Questions, current answers and change handler.
+ * @returns {JSX.Element} Intake inputs.
+ */
+function IntakeFields({
+  idPrefix,
+  questions,
+  value,
+  onChange
+}: IntakeFieldsProps): React.ReactElement {
+  const answers: Readonly<Record<string, string | boolean>> = value.intakeAnswers ?? {};
+
+  const setAnswer = (questionId: string, answer: string | boolean): void => {
+    onChange({ ...value, intakeAnswers: { ...answers, [questionId]: answer } });
+  };
+
+  return (
+    <>
+      <label className="formLabel" htmlFor={`${idPrefix}-visitReason`}>
+        Reason for visit
+      </label>
+      <textarea
+        id={`${idPrefix}-visitReason`}
+        className="formInput"
+        rows={2}
+        value={value.visitReason ?? ""}
+        onChange={(e) => onChange({ ...value, visitReason: e.target.value })}
+        placeholder="Briefly describe why you are coming in (optional)"
+      />
+      {questions.map((question: IntakeQuestion) => {
+        const inputId: string = `${idPrefix}-${question.id}`;
+        const label: string = question.required ? `${question.prompt} *` : question.prompt;
+        const answer: string | boolean | undefined = answers[question.id];
+
+        if (question.type === "YES_NO") {
+          return (
+            <fieldset className="intakeQuestion" key={question.id}>
+              <legend className="formLabel">{label}</legend>
+              <label className="timeOption">
+                <input
+                  type="radio"
+                  name={inputId}
+                  checked={answer === true}
+                  onChange={() => setAnswer(question.id, true)}
+                />
+                <span className="timeOptionLabel">Yes</span>
+              </label>
+              <label className="timeOption">
+                <input
+                  type="radio"
+                  name={inputId}
+                  checked={answer === false}
+                  onChange={() => setAnswer(question.id, false)}
+                />
+                <span className="timeOptionLabel">No</span>
+              </label>
+            </fieldset>
+          );
+        }
+
+        return (
+          <div className="intakeQuestion" key={question.id}>
+            <label className="formLabel" htmlFor={inputId}>
+              {label}
+            </label>
+            {question.type === "CHOICE" ? (
+              <select
+                id={inputId}
+                className="formInput"
+                value={typeof answer === "string" ? answer : ""}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+              >
+                <option value="">Select...</option>
+                {question.options.map((option: string) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                id={inputId}
+                type={question.type === "DATE" ? "date" : "text"}
+                className="formInput"
+                value={typeof answer === "string" ? answer : ""}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
 }
 
 /**
@@ -28,18 +174,38 @@ export function BookingPage(): React.ReactElement {
   const { apiBaseUrl, refreshSlots } = useAppContext();
 
   const [slot, setSlot] = useState<DoctorSlot | null>(null);
+  // Appointment times inside the slot that were free when it was loaded.
+  const [freeTimes, setFreeTimes] = useState<readonly AppointmentTime[]>([]);
+  // Questions configured for the slot's doctor or their specialization.
+  const [intakeQuestions, setIntakeQuestions] = useState<readonly IntakeQuestion[]>([]);
+  // Visit reason and intake answers of the patient filling in the form.
+  const [intake, setIntake] = useState<BookingIntakeInput>({});
+  // Seat reserved for this patient while the form is open.
+  const [hold, setHold] = useState<PublicBooking | null>(null);
+  // Slot a hold was already requested for, so re-running the effect
+  // (e.g. in StrictMode) does not take a second seat.
+  const heldSlotIdRef = useRef<string | null>(null);
+  // Idempotency key of the last direct booking attempt and the patient and
+  // time it was sent with; reused when the patient retries the same booking.
+  const bookingAttemptRef = useRef<{ key: string; payload: string } | null>(null);
   const [formState, setFormState] = useState<BookingFormState>({
-    userName: ""
+    userName: "",
+    patientEmail: "",
+    patientPhone: "",
+    dateOfBirth: ""
   });
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [bookingMessage, setBookingMessage] = useState<string | null>(null);
-  // Stores the user's preferred time selected in the UI.
-  const [preferredTime, setPreferredTime] = useState<string | null>(null);
+  // Start of the appointment time the patient picked inside the slot.
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  // Other people booked together with the patient (family members, etc.).
+  const [extraAttendees, setExtraAttendees] = useState<readonly GroupAttendee[]>([]);
 
   const slotId: string | undefined = routeParams.slotId;
 
   /**
-   * Loads slot details from the backend API based on route parameter.
+   * Loads slot details from the backend API based on route parameter and,
+   * when a seat is free, holds it while the patient fills in the form.
    */
   useEffect(() => {
     async function loadSlot(): Promise<void> {
@@ -48,10 +214,25 @@ export function BookingPage(): React.ReactElement {
         return;
       }
       try {
-        const fetchedSlot: DoctorSlot = await getSlotById(apiBaseUrl, slotId);
-        setSlot(fetchedSlot);
-        // initialize preferred time to the slot startTime by default
-        setPreferredTime(fetchedSlot.startTime);
+        const fetched: SlotWithFreeTimes = await getSlotWithFreeTimes(apiBaseUrl, slotId);
+        setSlot(fetched.slot);
+        setFreeTimes(fetched.freeTimes);
+        setIntakeQuestions(fetched.intakeQuestions);
+        setSelectedTime(fetched.freeTimes[0]?.startTime ?? null);
+
+        if (fetched.slot.availableSeats > 0 && heldSlotIdRef.current !== slotId) {
+          heldSlotIdRef.current = slotId;
+          try {
+            const created: PublicBooking = await createSeatHoldApi(apiBaseUrl, slotId);
+            setHold(created);
+            if (created.appointmentStart !== null) {
+              setSelectedTime(created.appointmentStart);
+            }
+          } catch {
+            // Without a hold the form falls back to booking directly.
+            setHold(null);
+          }
+        }
       } catch (error) {
         const message: string =
           error instanceof Error ? error.message : "Could not load appointment slot.";
@@ -78,33 +259,40 @@ export function BookingPage(): React.ReactElement {
   };
 
   /**
-   * Handles submission of the booking form.
+   * Updates one field of an additional attendee.
    *
-   * @param {React.FormEvent<HTMLFormElement>} event Form submit event.
+   * @param {number} index Attendee position in the list.
+   * @param {Partial<GroupAttendee>} changes Fields being edited.
    */
+  const updateExtraAttendee = (
+    index: number,
+    changes: Partial<GroupAttendee>
+  ): void => {
+    setExtraAttendees((previous) =>
+      previous.map((attendee, i) => (i === index ? { ...attendee, ...changes } : attendee))
+    );
+  };
+
   /**
-   * Generate a set of candidate times inside the slot's start/end range.
-   * We create `capacity` evenly spaced choices (or a single time if capacity is 1).
-   * This hook is called at the top level to comply with React hooks rules.
+   * Reloads the slot and its free appointment times after another patient
+   * took a seat or time.
    */
-  const timeOptions: string[] = useMemo((): string[] => {
-    if (slot === null) return [];
-    const startMs: number = new Date(slot.startTime).getTime();
-    const endMs: number = new Date(slot.endTime).getTime();
-    if (Number.isNaN(startMs) || Number.isNaN(endMs) || endMs <= startMs) {
-      return [slot.startTime];
-    }
-    const count: number = Math.max(1, slot.capacity);
-    if (count === 1) return [new Date(startMs).toISOString()];
-    const interval: number = (endMs - startMs) / count;
-    const opts: string[] = [];
-    for (let i = 0; i < count; i++) {
-      const t = new Date(Math.floor(startMs + interval * i));
-      opts.push(t.toISOString());
-    }
-    return opts;
-  }, [slot]);
+  const reloadSlot = (targetSlotId: string): void => {
+    getSlotWithFreeTimes(apiBaseUrl, targetSlotId).then(
+      (fetched: SlotWithFreeTimes) => {
+        setSlot(fetched.slot);
+        setFreeTimes(fetched.freeTimes);
+        setSelectedTime(fetched.freeTimes[0]?.startTime ?? null);
+      },
+      () => undefined
+    );
+  };
 
+  /**
+   * Handles submission of the booking form.
+   *
+   * @param {React.FormEvent<HTMLFormElement>} event Form submit event.
+   */
   const handleSubmit = async (
     event: React.FormEvent<HTMLFormElement>
   ): Promise<void> => {
@@ -117,39 +305,227 @@ export function BookingPage(): React.ReactElement {
 
     const trimmedName: string = formState.userName.trim();
 
+    const trimmedEmail: string = formState.patientEmail.trim();
+
     if (trimmedName.length === 0) {
       setBookingMessage("Please enter your name before booking.");
       return;
     }
 
+    if (trimmedEmail.length === 0) {
+      setBookingMessage("Please enter your email before booking.");
+      return;
+    }
+
+    if (hold === null && slot !== null && slot.availableSeats <= 0) {
+      await handleJoinWaitlist(slotId, trimmedName, trimmedEmail);
+      return;
+    }
+
+    if (
+      !hasRequiredAnswers(intakeQuestions, intake) ||
+      extraAttendees.some((a) => !hasRequiredAnswers(intakeQuestions, a))
+    ) {
+      setBookingMessage("Please answer every question marked with *.");
+      return;
+    }
+
+    if (extraAttendees.length > 0) {
+      await handleGroupBooking(slotId, [
+        { ...intake, ...patientDetails, userName: trimmedName, patientEmail: trimmedEmail },
+        ...extraAttendees.map((a) => ({
+          ...a,
+          userName: a.userName.trim(),
+          patientEmail: a.patientEmail.trim()
+        }))
+      ]);
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       setBookingMessage(null);
 
-      await createBookingApi(apiBaseUrl, {
-        slotId,
-        userName: trimmedName
-      });
+      const booking: PublicBooking = await confirmOrBook(slotId, trimmedName, trimmedEmail);
 
         // Refresh global slot list so other users see updates immediately.
         void refreshSlots();
 
       const chosenTimeNote: string =
-        preferredTime !== null ? ` Preferred time: ${new Date(preferredTime).toLocaleString()}.` : "";
+        booking.appointmentStart !== null
+          ? ` Your appointment is at ${new Date(booking.appointmentStart).toLocaleString()}.`
+          : "";
 
       setBookingMessage(
-        `Booking confirmed successfully.${chosenTimeNote} Redirecting to home...`
+        `Booking confirmed successfully. Your reference is ${booking.referenceCode}.${chosenTimeNote} Opening your booking...`
       );
       // Short delay so the user can read the confirmation.
       setTimeout(() => {
-        navigate("/");
+        navigate(`/bookings/${booking.id}`);
       }, 1500);
     } catch (error) {
       const message: string =
         error instanceof Error ? error.message : "Failed to create booking.";
-      // If another user just filled the slot, refresh the slot list so it disappears.
+      // If another user just filled the slot, refresh the slot list and this
+      // slot so the form switches to joining the waitlist.
       if (message === "Slot is full.") {
         void refreshSlots();
+        reloadSlot(slotId);
+        setBookingMessage("Slot is full. You can join the waitlist instead.");
+        return;
+      }
+      if (message === "Appointment time is already taken.") {
+        reloadSlot(slotId);
+        setBookingMessage("That time was just taken. Please pick another one.");
+        return;
+      }
+      setBookingMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Optional details are left out rather than sent empty.
+  const patientDetails: PatientDetailsInput = {
+    patientPhone: formState.patientPhone.trim() || undefined,
+    dateOfBirth: formState.dateOfBirth || undefined
+  };
+
+  /**
+   * Confirms the held seat, or books directly when there is no live hold
+   * (hold failed or expired while the form was open).
+   *
+   * @param {string} targetSlotId Slot being booked.
+   * @param {string} userName Patient name.
+   * @param {string} patientEmail Patient email.
+   * @returns {Promise<PublicBooking>} Confirmed booking.
+   */
+  const confirmOrBook = async (
+    targetSlotId: string,
+    userName: string,
+    patientEmail: string
+  ): Promise<PublicBooking> => {
+    const startTime: string | undefined = selectedTime ?? undefined;
+
+    if (hold !== null) {
+      try {
+        return await confirmSeatHoldApi(
+          apiBaseUrl,
+          hold.id,
+          userName,
+          patientEmail,
+          startTime,
+          intake,
+          patientDetails
+        );
+      } catch (error) {
+        if (!(error instanceof Error) || error.message !== "Hold has expired.") {
+          throw error;
+        }
+        setHold(null);
+      }
+    }
+
+    const payload: string = JSON.stringify({
+      userName,
+      patientEmail,
+      startTime,
+      intake,
+      patientDetails
+    });
+    if (bookingAttemptRef.current?.payload !== payload) {
+      bookingAttemptRef.current = { key: crypto.randomUUID(), payload };
+    }
+
+    const { booking } = await createBookingApi(
+      apiBaseUrl,
+      { slotId: targetSlotId, userName, patientEmail, startTime, ...intake, ...patientDetails },
+      bookingAttemptRef.current.key
+    );
+    return booking;
+  };
+
+  /**
+   * Books a seat for the patient and every additional attendee at once.
+   * Either everyone is booked or nobody is; the patient's own hold is given
+   * up for the group's seats.
+   *
+   * @param {string} targetSlotId Slot being booked.
+   * @param {readonly GroupAttendee[]} attendees Everyone to book, patient first.
+   */
+  const handleGroupBooking = async (
+    targetSlotId: string,
+    attendees: readonly GroupAttendee[]
+  ): Promise<void> => {
+    if (attendees.some((a) => a.userName.length === 0 || a.patientEmail.length === 0)) {
+      setBookingMessage("Please enter a name and email for everyone you are booking for.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setBookingMessage(null);
+      const group: BookingGroup = await createGroupBookingApi(
+        apiBaseUrl,
+        targetSlotId,
+        attendees,
+        hold?.id
+      );
+      setHold(null);
+      void refreshSlots();
+      setBookingMessage(
+        `${group.bookings.length} appointments booked. References: ${group.bookings
+          .map((b) => b.referenceCode)
+          .join(", ")}. Opening the first booking...`
+      );
+      setTimeout(() => {
+        navigate(`/bookings/${group.bookings[0].id}`);
+      }, 1500);
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to book for your group.";
+      if (message === "Not enough seats left.") {
+        reloadSlot(targetSlotId);
+        setBookingMessage(
+          "There are not enough seats left for everyone. Nobody was booked."
+        );
+        return;
+      }
+      setBookingMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Puts the patient on the waitlist of a full slot and opens the entry's
+   * status page.
+   *
+   * @param {string} targetSlotId Slot to wait for.
+   * @param {string} userName Patient name.
+   * @param {string} patientEmail Patient email.
+   */
+  const handleJoinWaitlist = async (
+    targetSlotId: string,
+    userName: string,
+    patientEmail: string
+  ): Promise<void> => {
+    try {
+      setIsSubmitting(true);
+      setBookingMessage(null);
+      const entry = await joinWaitlistApi(
+        apiBaseUrl,
+        targetSlotId,
+        userName,
+        patientEmail
+      );
+      navigate(`/waitlist/${entry.id}`);
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to join waitlist.";
+      // A seat freed up meanwhile; reload so the patient can book it directly.
+      if (message === "Slot still has free seats.") {
+        reloadSlot(targetSlotId);
       }
       setBookingMessage(message);
     } finally {
@@ -194,27 +570,43 @@ export function BookingPage(): React.ReactElement {
         <p className="slotDetail">
           <span className="slotLabel">Available:</span> {slot.availableSeats}
         </p>
+        {hold !== null && hold.holdExpiresAt !== null && (
+          <p className="slotDetail">
+            A seat is held for you until{" "}
+            {new Date(hold.holdExpiresAt).toLocaleTimeString()}.
+          </p>
+        )}
+        {hold === null && slot.availableSeats <= 0 && (
+          <p className="slotDetail">
+            This slot is full. Join the waitlist and you will be booked
+            automatically, in order, if a seat opens up
+            {slot.waitlistCount > 0 && ` (${slot.waitlistCount} already waiting)`}.
+          </p>
+        )}
       </article>
 
-      {/* Preferred time picker (UI-only; not sent to backend in this iteration) */}
-      {timeOptions.length > 0 && (
-        <fieldset className="timeOptions" aria-labelledby="preferred-time-legend">
-          <legend id="preferred-time-legend" className="formLabel">Preferred time</legend>
+      {/* Appointment times still free inside the slot, from the server */}
+      {freeTimes.length > 0 && (
+        <fieldset className="timeOptions" aria-labelledby="appointment-time-legend">
+          <legend id="appointment-time-legend" className="formLabel">Appointment time</legend>
           <div className="timeOptionsList">
-            {timeOptions.map((opt: string) => (
-              <label className="timeOption" key={opt}>
+            {freeTimes.map((time: AppointmentTime) => (
+              <label className="timeOption" key={time.startTime}>
                 <input
                   type="radio"
-                  name="preferredTime"
-                  value={opt}
-                  checked={preferredTime === opt}
-                  onChange={() => setPreferredTime(opt)}
+                  name="appointmentTime"
+                  value={time.startTime}
+                  checked={selectedTime === time.startTime}
+                  onChange={() => setSelectedTime(time.startTime)}
                 />
-                <span className="timeOptionLabel">{new Date(opt).toLocaleString()}</span>
+                <span className="timeOptionLabel">
+                  {new Date(time.startTime).toLocaleTimeString()} –{" "}
+                  {new Date(time.endTime).toLocaleTimeString()}
+                </span>
               </label>
             ))}
           </div>
-          <p className="timeNote">Selected time is a preference only; booking records the slot.</p>
+          <p className="timeNote">The time you pick is reserved for you when you confirm.</p>
         </fieldset>
       )}
 
@@ -231,6 +623,101 @@ export function BookingPage(): React.ReactElement {
           onChange={handleInputChange}
           placeholder="Enter your full name"
         />
+        <label className="formLabel" htmlFor="patientEmail">
+          Your email
+        </label>
+        <input
+          id="patientEmail"
+          name="patientEmail"
+          type="email"
+          className="formInput"
+          value={formState.patientEmail}
+          onChange={handleInputChange}
+          placeholder="you@example.com"
+        />
+        <label className="formLabel" htmlFor="patientPhone">
+          Your phone (optional)
+        </label>
+        <input
+          id="patientPhone"
+          name="patientPhone"
+          type="tel"
+          autoComplete="tel"
+          className="formInput"
+          value={formState.patientPhone}
+          onChange={handleInputChange}
+          placeholder="+44 20 7946 0958"
+        />
+        <label className="formLabel" htmlFor="dateOfBirth">
+          Date of birth (optional)
+        </label>
+        <input
+          id="dateOfBirth"
+          name="dateOfBirth"
+          type="date"
+          className="formInput"
+          max={new Date().toISOString().slice(0, 10)}
+          value={formState.dateOfBirth}
+          onChange={handleInputChange}
+        />
+        {(hold !== null || slot.availableSeats > 0) && (
+          <IntakeFields
+            idPrefix="patient"
+            questions={intakeQuestions}
+            value={intake}
+            onChange={setIntake}
+          />
+        )}
+        {extraAttendees.map((attendee: GroupAttendee, index: number) => (
+          <fieldset className="attendeeRow" key={index}>
+            <legend className="formLabel">Person {index + 2}</legend>
+            <input
+              type="text"
+              className="formInput"
+              aria-label={`Name of person ${index + 2}`}
+              value={attendee.userName}
+              onChange={(e) => updateExtraAttendee(index, { userName: e.target.value })}
+              placeholder="Full name"
+            />
+            <input
+              type="email"
+              className="formInput"
+              aria-label={`Email of person ${index + 2}`}
+              value={attendee.patientEmail}
+              onChange={(e) => updateExtraAttendee(index, { patientEmail: e.target.value })}
+              placeholder="Their email"
+            />
+            <IntakeFields
+              idPrefix={`person-${index + 2}`}
+              questions={intakeQuestions}
+              value={attendee}
+              onChange={(changes) => updateExtraAttendee(index, changes)}
+            />
+            <button
+              type="button"
+              className="secondaryButton"
+              onClick={() =>
+                setExtraAttendees((previous) => previous.filter((_, i) => i !== index))
+              }
+            >
+              Remove
+            </button>
+          </fieldset>
+        ))}
+        {(hold !== null || slot.availableSeats > 0) && (
+          <button
+            type="button"
+            className="secondaryButton"
+            onClick={() =>
+              setExtraAttendees((previous) => [
+                ...previous,
+                { userName: "", patientEmail: "" }
+              ])
+            }
+          >
+            Book for another person too
+          </button>
+        )}
         {bookingMessage !== null && (
           <p className="infoMessage">{bookingMessage}</p>
         )}
@@ -238,12 +725,16 @@ export function BookingPage(): React.ReactElement {
           <Link to="/" className="secondaryButton">
             Cancel
           </Link>
-          <button
-            type="submit"
-            className="primaryButton"
-            disabled={isSubmitting || slot.availableSeats <= 0}
-          >
-            {isSubmitting ? "Booking..." : "Confirm booking"}
+          <button type="submit" className="primaryButton" disabled={isSubmitting}>
+            {hold !== null || slot.availableSeats > 0
+              ? isSubmitting
+                ? "Booking..."
+                : extraAttendees.length > 0
+                  ? `Book ${extraAttendees.length + 1} appointments`
+                  : "Confirm booking"
+              : isSubmitting
+                ? "Joining..."
+                : "Join waitlist"}
           </button>
         </div>
       </form>
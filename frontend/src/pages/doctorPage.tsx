@@ -0,0 +1,134 @@
+/**
+ * @file doctorPage.tsx
+ * @description Patient-facing doctor profile with the doctor's open slots.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useAppContext, Doctor, DoctorSlot } from "../appContext";
+import { getDoctorApi } from "../apiClient";
+
+/**
+ * Formats a consultation fee given in minor currency units.
+ *
+ * @param {number} cents Fee in minor units, e.g. 4500.
+ * @returns {string} Fee with two decimals, e.g. "45.00".
+ */
+function formatConsultationFee(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Doctor profile page. Shows the public profile and links to book each of
+ * the doctor's listed slots.
+ *
+ * @returns {JSX.Element} Doctor page.
+ */
+export function DoctorPage(): React.ReactElement {
+  const routeParams = useParams();
+  const { apiBaseUrl, slots } = useAppContext();
+
+  const [doctor, setDoctor] = useState<Doctor | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const doctorId: string | undefined = routeParams.doctorId;
+
+  useEffect(() => {
+    async function loadDoctor(): Promise<void> {
+      if (doctorId === undefined) {
+        setMessage("Invalid doctor identifier.");
+        return;
+      }
+      try {
+        setDoctor(await getDoctorApi(apiBaseUrl, doctorId));
+      } catch (error) {
+        const text: string = error instanceof Error ? error.message : "Could not load doctor.";
+        setMessage(text);
+      }
+    }
+
+    void loadDoctor();
+  }, [apiBaseUrl, doctorId]);
+
+  if (doctor === null) {
+    return (
+      <section className="pageContainer">
+        <header className="pageHeader">
+          <h1>Doctor</h1>
+        </header>
+        {message !== null ? (
+          <p className="infoMessage">{message}</p>
+        ) : (
+          <p>Loading doctor...</p>
+        )}
+        <div className="formActions">
+          <Link to="/" className="secondaryButton">
+            Back to appointments
+          </Link>
+        </div>
+      </section>
+    );
+  }
+
+  const doctorSlots: DoctorSlot[] = slots.filter((s) => s.doctorId === doctor.id);
+
+  return (
+    <section className="pageContainer">
+      <header className="pageHeader">
+        <h1>Dr. {doctor.name}</h1>
+        <p>{doctor.specializations.map((specialization) => specialization.name).join(", ")}</p>
+      </header>
+
+      <article className="slotCard slotCardWide">
+        {doctor.photoUrl !== null && (
+          <img className="doctorPhoto" src={doctor.photoUrl} alt={`Dr. ${doctor.name}`} />
+        )}
+        {!doctor.acceptingNewPatients && (
+          <p className="slotDetail">
+            <span className="bookingFlag bookingFlagWarning">Not accepting new patients</span>
+          </p>
+        )}
+        {doctor.bio !== null && <p className="doctorBio">{doctor.bio}</p>}
+        {doctor.qualifications.length > 0 && (
+          <p className="slotDetail">
+            <span className="slotLabel">Qualifications:</span>{" "}
+            {doctor.qualifications.join(", ")}
+          </p>
+        )}
+        {doctor.languages.length > 0 && (
+          <p className="slotDetail">
+            <span className="slotLabel">Languages:</span> {doctor.languages.join(", ")}
+          </p>
+        )}
+        {doctor.consultationFeeCents !== null && (
+          <p className="slotDetail">
+            <span className="slotLabel">Consultation fee:</span>{" "}
+            {formatConsultationFee(doctor.consultationFeeCents)}
+          </p>
+        )}
+      </article>
+
+      <h2>Open appointments</h2>
+      {doctorSlots.length === 0 ? (
+        <div className="emptyState">
+          <p>Dr. {doctor.name} has no open appointments right now.</p>
+        </div>
+      ) : (
+        <ul className="patientHistory">
+          {doctorSlots.map((slot) => (
+            <li key={slot.id}>
+              <Link to={`/booking/${slot.id}`}>{new Date(slot.startTime).toLocaleString()}</Link>
+              {slot.availableSeats === 0 && " (fully booked – join waitlist)"}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="formActions">
+        <Link to="/" className="secondaryButton">
+          Back to appointments
+        </Link>
+      </div>
+    </section>
+  );
+}
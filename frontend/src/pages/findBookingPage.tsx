@@ -0,0 +1,125 @@
+/**
+ * @file findBookingPage.tsx
+ * @description Page where a patient finds their booking by reference code.
+ */
+
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAppContext, BookingWithHistory } from "../appContext";
+import { lookupBookingApi } from "../apiClient";
+
+/**
+ * Local state for the lookup form.
+ */
+interface LookupFormState {
+  readonly referenceCode: string;
+  readonly surname: string;
+}
+
+/**
+ * Lookup page: the patient enters the reference code from their confirmation
+ * and their surname, and is taken to the booking.
+ *
+ * @returns {JSX.Element} Find booking page.
+ */
+export function FindBookingPage(): React.ReactElement {
+  const navigate = useNavigate();
+  const { apiBaseUrl } = useAppContext();
+
+  const [formState, setFormState] = useState<LookupFormState>({
+    referenceCode: "",
+    surname: ""
+  });
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [lookupMessage, setLookupMessage] = useState<string | null>(null);
+
+  const handleInputChange = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ): void => {
+    const { name, value } = event.target;
+    setFormState((previous) => ({
+      ...previous,
+      [name]: value
+    }));
+  };
+
+  const handleSubmit = async (
+    event: React.FormEvent<HTMLFormElement>
+  ): Promise<void> => {
+    event.preventDefault();
+
+    const referenceCode: string = formState.referenceCode.trim();
+    const surname: string = formState.surname.trim();
+
+    if (referenceCode.length === 0 || surname.length === 0) {
+      setLookupMessage("Please enter your reference code and surname.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setLookupMessage(null);
+      const found: BookingWithHistory = await lookupBookingApi(
+        apiBaseUrl,
+        referenceCode,
+        surname
+      );
+      navigate(`/bookings/${found.booking.id}`);
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to find booking.";
+      setLookupMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="pageContainer">
+      <header className="pageHeader">
+        <h1>Find my booking</h1>
+        <p>Enter the reference you were given when booking, e.g. MDX-7K3Q9.</p>
+      </header>
+
+      <form className="bookingForm" onSubmit={handleSubmit}>
+        <label className="formLabel" htmlFor="lookupReferenceCode">
+          Reference code
+        </label>
+        <input
+          id="lookupReferenceCode"
+          name="referenceCode"
+          type="text"
+          autoCapitalize="characters"
+          className="formInput"
+          value={formState.referenceCode}
+          onChange={handleInputChange}
+          placeholder="MDX-7K3Q9"
+        />
+        <label className="formLabel" htmlFor="lookupSurname">
+          Surname
+        </label>
+        <input
+          id="lookupSurname"
+          name="surname"
+          type="text"
+          autoComplete="family-name"
+          className="formInput"
+          value={formState.surname}
+          onChange={handleInputChange}
+        />
+        {lookupMessage !== null && (
+          <p className="infoMessage">{lookupMessage}</p>
+        )}
+        <div className="formActions">
+          <button
+            type="submit"
+            className="primaryButton"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Searching..." : "Find booking"}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
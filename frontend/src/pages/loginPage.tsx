@@ -0,0 +1,121 @@
+/**
+ * @file loginPage.tsx
+ * @description Staff login page for the admin dashboard.
+ */
+
+import React, { useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { useAppContext } from "../appContext";
+
+/**
+ * Local state for the login form.
+ */
+interface LoginFormState {
+  readonly email: string;
+  readonly password: string;
+}
+
+/**
+ * Login page for clinic staff. Redirects to the dashboard once logged in.
+ *
+ * @returns {JSX.Element} Login page.
+ */
+export function LoginPage(): React.ReactElement {
+  const navigate = useNavigate();
+  const { staffSession, login } = useAppContext();
+
+  const [formState, setFormState] = useState<LoginFormState>({
+    email: "",
+    password: ""
+  });
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [loginMessage, setLoginMessage] = useState<string | null>(null);
+
+  if (staffSession !== null) {
+    return <Navigate to="/admin" replace />;
+  }
+
+  const handleInputChange = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ): void => {
+    const { name, value } = event.target;
+    setFormState((previous) => ({
+      ...previous,
+      [name]: value
+    }));
+  };
+
+  const handleSubmit = async (
+    event: React.FormEvent<HTMLFormElement>
+  ): Promise<void> => {
+    event.preventDefault();
+
+    const trimmedEmail: string = formState.email.trim();
+
+    if (trimmedEmail.length === 0 || formState.password.length === 0) {
+      setLoginMessage("Please enter your email and password.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setLoginMessage(null);
+      await login(trimmedEmail, formState.password);
+      navigate("/admin");
+    } catch (error) {
+      const message: string =
+        error instanceof Error ? error.message : "Failed to log in.";
+      setLoginMessage(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="pageContainer">
+      <header className="pageHeader">
+        <h1>Staff login</h1>
+        <p>Sign in with your clinic account to manage doctors, slots and bookings.</p>
+      </header>
+
+      <form className="bookingForm" onSubmit={handleSubmit}>
+        <label className="formLabel" htmlFor="loginEmail">
+          Email
+        </label>
+        <input
+          id="loginEmail"
+          name="email"
+          type="email"
+          autoComplete="username"
+          className="formInput"
+          value={formState.email}
+          onChange={handleInputChange}
+        />
+        <label className="formLabel" htmlFor="loginPassword">
+          Password
+        </label>
+        <input
+          id="loginPassword"
+          name="password"
+          type="password"
+          autoComplete="current-password"
+          className="formInput"
+          value={formState.password}
+          onChange={handleInputChange}
+        />
+        {loginMessage !== null && (
+          <p className="infoMessage">{loginMessage}</p>
+        )}
+        <div className="formActions">
+          <button
+            type="submit"
+            className="primaryButton"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Signing in..." : "Sign in"}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -1,11 +1,12 @@
-/// <reference types="react" />
 /**
  * @file slotListPage.tsx
  * @description Patient-facing page displaying available doctor slots.
  */
 
-import { Link } from "react-router-dom";
-import { useAppContext, DoctorSlot } from "../appContext";
+import React, { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAppContext, DoctorSlot, Specialization } from "../appContext";
+import { getSpecializationsApi } from "../apiClient";
 
 /**
  * Card displaying summary details of a doctor slot.
@@ -19,29 +20,49 @@ function SlotCard(slot: DoctorSlot): React.ReactElement {
 
   return (
     <article className="slotCard">
+      {slot.doctorPhotoUrl !== null && (
+        <img className="doctorPhoto" src={slot.doctorPhotoUrl} alt={`Dr. ${slot.doctorName}`} />
+      )}
       <h2 className="slotTitle">
-        Dr. {slot.doctorName}
+        <Link to={`/doctors/${slot.doctorId}`}>Dr. {slot.doctorName}</Link>
       </h2>
       <p className="slotSubtitle">
         {slot.doctorSpecialization}
+        {!slot.doctorAcceptingNewPatients && (
+          <span className="bookingFlag bookingFlagWarning">Not accepting new patients</span>
+        )}
       </p>
       <p className="slotDetail">
         <span className="slotLabel">Time:</span> {readableDate}
       </p>
+      {slot.doctorLanguages.length > 0 && (
+        <p className="slotDetail">
+          <span className="slotLabel">Languages:</span> {slot.doctorLanguages.join(", ")}
+        </p>
+      )}
+      {slot.doctorConsultationFeeCents !== null && (
+        <p className="slotDetail">
+          <span className="slotLabel">Fee:</span>{" "}
+          {(slot.doctorConsultationFeeCents / 100).toFixed(2)}
+        </p>
+      )}
       <p className="slotDetail">
         <span className="slotLabel">Capacity:</span> {slot.capacity}
       </p>
       <p className="slotDetail">
         <span className="slotLabel">Available:</span> {slot.availableSeats}
       </p>
+      {slot.waitlistCount > 0 && (
+        <p className="slotDetail">
+          <span className="slotLabel">Waiting:</span> {slot.waitlistCount}
+        </p>
+      )}
       <div className="slotActions">
         <Link
           to={`/booking/${slot.id}`}
-          className={`primaryButton ${
-            slot.availableSeats <= 0 ? "buttonDisabled" : ""
-          }`}
+          className={slot.availableSeats > 0 ? "primaryButton" : "secondaryButton"}
         >
-          {slot.availableSeats > 0 ? "Book appointment" : "Fully booked"}
+          {slot.availableSeats > 0 ? "Book appointment" : "Fully booked – join waitlist"}
         </Link>
       </div>
     </article>
@@ -49,12 +70,29 @@ function SlotCard(slot: DoctorSlot): React.ReactElement {
 }
 
 /**
- * Page component that lists all available slots for patients.
+ * Page component that lists all available slots for patients. The
+ * specialization filter is kept in the ?specialization= search parameter so
+ * filtered lists can be linked to.
  *
  * @returns {JSX.Element} Slot list page.
  */
 export function SlotListPage(): React.ReactElement {
-  const { slots } = useAppContext();
+  const { apiBaseUrl, slots } = useAppContext();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [specializations, setSpecializations] = useState<Specialization[]>([]);
+
+  const specializationSlug: string = searchParams.get("specialization") ?? "";
+
+  useEffect(() => {
+    getSpecializationsApi(apiBaseUrl).then(setSpecializations, () => undefined);
+  }, [apiBaseUrl]);
+
+  const visibleSlots: readonly DoctorSlot[] =
+    specializationSlug.length === 0
+      ? slots
+      : slots.filter((slot) =>
+          slot.doctorSpecializations.some((s) => s.slug === specializationSlug)
+        );
 
   return (
     <section className="pageContainer">
@@ -65,13 +103,36 @@ export function SlotListPage(): React.ReactElement {
           respects real-time capacity from the backend.
         </p>
       </header>
-      {slots.length === 0 ? (
+      {specializations.length > 0 && (
+        <label className="formLabel">
+          Specialization
+          <select
+            className="formInput"
+            value={specializationSlug}
+            onChange={(e) =>
+              setSearchParams(e.target.value.length > 0 ? { specialization: e.target.value } : {})
+            }
+          >
+            <option value="">All specializations</option>
+            {specializations.map((specialization) => (
+              <option key={specialization.id} value={specialization.slug}>
+                {specialization.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {visibleSlots.length === 0 ? (
         <div className="emptyState">
-          <p>No appointment slots are available yet. Please check again soon.</p>
+          <p>
+            {slots.length === 0
+              ? "No appointment slots are available yet. Please check again soon."
+              : "No appointment slots match this specialization."}
+          </p>
         </div>
       ) : (
         <div className="slotGrid">
-          {slots.map((slot: DoctorSlot) => (
+          {visibleSlots.map((slot: DoctorSlot) => (
             <SlotCard key={slot.id} {...slot} />
           ))}
         </div>
@@ -0,0 +1,146 @@
+/**
+ * @file waitlistPage.tsx
+ * @description Patient-facing page showing a place on a slot waitlist.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useAppContext, DoctorSlot, PublicWaitlistEntry } from "../appContext";
+import { getWaitlistEntryApi, getSlotById, leaveWaitlistApi } from "../apiClient";
+
+/**
+ * Waitlist status page. Shows the patient's place in the queue, links to the
+ * booking once a seat has been given to them, and lets them leave the queue.
+ *
+ * @returns {JSX.Element} Waitlist page.
+ */
+export function WaitlistPage(): React.ReactElement {
+  const routeParams = useParams();
+  const { apiBaseUrl, refreshSlots } = useAppContext();
+
+  const [entry, setEntry] = useState<PublicWaitlistEntry | null>(null);
+  const [slot, setSlot] = useState<DoctorSlot | null>(null);
+  const [isLeaving, setIsLeaving] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const entryId: string | undefined = routeParams.entryId;
+
+  /**
+   * Loads the entry, then its slot when the slot is still listed.
+   */
+  useEffect(() => {
+    async function loadEntry(): Promise<void> {
+      if (entryId === undefined) {
+        setMessage("Invalid waitlist identifier.");
+        return;
+      }
+      try {
+        const fetched: PublicWaitlistEntry = await getWaitlistEntryApi(apiBaseUrl, entryId);
+        setEntry(fetched);
+        try {
+          setSlot(await getSlotById(apiBaseUrl, fetched.slotId));
+        } catch {
+          setSlot(null);
+        }
+      } catch (error) {
+        const text: string =
+          error instanceof Error ? error.message : "Could not load waitlist entry.";
+        setMessage(text);
+      }
+    }
+
+    void loadEntry();
+  }, [apiBaseUrl, entryId]);
+
+  const handleLeave = async (): Promise<void> => {
+    if (entry === null) return;
+
+    try {
+      setIsLeaving(true);
+      setMessage(null);
+      setEntry(await leaveWaitlistApi(apiBaseUrl, entry.id));
+      setMessage("You have left the waitlist.");
+      void refreshSlots();
+    } catch (error) {
+      const text: string =
+        error instanceof Error ? error.message : "Failed to leave waitlist.";
+      setMessage(text);
+    } finally {
+      setIsLeaving(false);
+    }
+  };
+
+  if (entry === null) {
+    return (
+      <section className="pageContainer">
+        <header className="pageHeader">
+          <h1>Your waitlist place</h1>
+        </header>
+        <p>Loading waitlist details...</p>
+        {message !== null && <p className="infoMessage">{message}</p>}
+      </section>
+    );
+  }
+
+  return (
+    <section className="pageContainer">
+      <header className="pageHeader">
+        <h1>Your waitlist place</h1>
+        <p>Keep this page's link to check whether a seat has opened up for you.</p>
+      </header>
+
+      <article className="slotCard slotCardWide">
+        {slot !== null && (
+          <>
+            <p className="slotDetail">
+              <span className="slotLabel">Doctor:</span> Dr. {slot.doctorName} (
+              {slot.doctorSpecialization})
+            </p>
+            <p className="slotDetail">
+              <span className="slotLabel">Time:</span>{" "}
+              {new Date(slot.startTime).toLocaleString()}
+            </p>
+          </>
+        )}
+        {entry.status === "WAITING" && (
+          <p className="slotDetail">
+            <span className="slotLabel">Place in queue:</span> {entry.position}
+          </p>
+        )}
+        {entry.status === "PROMOTED" && (
+          <p className="slotDetail">
+            A seat opened up and you have been booked
+            {entry.promotedAt !== null &&
+              ` on ${new Date(entry.promotedAt).toLocaleString()}`}
+            .
+          </p>
+        )}
+        {entry.status === "LEFT" && (
+          <p className="slotDetail">You are no longer on this waitlist.</p>
+        )}
+      </article>
+
+      {message !== null && <p className="infoMessage">{message}</p>}
+      <div className="formActions">
+        <Link to="/" className="secondaryButton">
+          Back to appointments
+        </Link>
+        {entry.status === "PROMOTED" && entry.bookingId !== null && (
+          <Link to={`/bookings/${entry.bookingId}`} className="primaryButton">
+            View booking
+          </Link>
+        )}
+        {entry.status === "WAITING" && (
+          <button
+            type="button"
+            className="dangerButton"
+            disabled={isLeaving}
+            onClick={() => void handleLeave()}
+          >
+            {isLeaving ? "Leaving..." : "Leave waitlist"}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}